@@ -0,0 +1,197 @@
+#!/usr/bin/env node
+/**
+ * Local realtime event server for development
+ *
+ *   GET  /events?orgId=org_001   server-sent event stream for one organization
+ *   POST /events                 broadcast a JSON event to its organization
+ *
+ * Pass --simulate to generate customer typing, messages and new chats for
+ * the active chats in public/mocks/chats.json.
+ *
+ * Development only and unauthenticated: the `token` query parameter the app
+ * sends is ignored, so anyone who can reach the port can read and publish
+ * events for any organization. It listens on the loopback interface only;
+ * set REALTIME_HOST to expose it elsewhere, and never deploy it.
+ */
+
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+
+const PORT = Number(process.env.REALTIME_PORT) || 4001;
+const HOST = process.env.REALTIME_HOST || '127.0.0.1';
+const HEARTBEAT_MS = 25000;
+const SIMULATION_INTERVAL_MS = 8000;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** @type {Map<string, Set<import('node:http').ServerResponse>>} */
+const subscribers = new Map();
+
+function setCors(res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+}
+
+function broadcast(event) {
+  const clients = subscribers.get(event.orgId);
+  if (!clients) return 0;
+  const frame = `data: ${JSON.stringify(event)}\n\n`;
+  clients.forEach(client => client.write(frame));
+  return clients.size;
+}
+
+function subscribe(req, res, orgId) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  // Ask browsers to wait a little before their own retry kicks in
+  res.write('retry: 2000\n\n');
+
+  const clients = subscribers.get(orgId) ?? new Set();
+  clients.add(res);
+  subscribers.set(orgId, clients);
+  console.log(`[realtime] + ${orgId} (${clients.size} connected)`);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+    if (clients.size === 0) subscribers.delete(orgId);
+    console.log(`[realtime] - ${orgId} (${clients.size} connected)`);
+  });
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) reject(new Error('Payload too large'));
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+async function publish(req, res) {
+  try {
+    const event = JSON.parse(await readBody(req));
+    if (!event || typeof event.type !== 'string' || typeof event.orgId !== 'string') {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Events need a type and an orgId' }));
+      return;
+    }
+    const delivered = broadcast(event);
+    res.writeHead(202, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ delivered }));
+  } catch (error) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: error instanceof Error ? error.message : 'Invalid event' }));
+  }
+}
+
+const server = createServer((req, res) => {
+  setCors(res);
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (url.pathname === '/events' && req.method === 'GET') {
+    const orgId = url.searchParams.get('orgId');
+    if (!orgId) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'orgId is required' }));
+      return;
+    }
+    subscribe(req, res, orgId);
+    return;
+  }
+
+  if (url.pathname === '/events' && req.method === 'POST') {
+    publish(req, res);
+    return;
+  }
+
+  res.writeHead(404, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: 'Not found' }));
+});
+
+const CUSTOMER_LINES = [
+  'Is anyone there?',
+  'I just tried that and it still does not work.',
+  'Thanks, that helped!',
+  'Could you send me a link to the docs?',
+  'One more question about my invoice.',
+];
+
+async function simulate() {
+  const seed = JSON.parse(await readFile(new URL('../public/mocks/chats.json', import.meta.url), 'utf8'));
+  const activeChats = seed.data.filter(chat => chat.status === 'active');
+  let sequence = 0;
+
+  setInterval(() => {
+    sequence += 1;
+    const now = () => new Date().toISOString();
+
+    // Now and then a brand new visitor starts a chat
+    if (sequence % 5 === 0) {
+      const template = seed.data[sequence % seed.data.length];
+      const chat = {
+        ...template,
+        id: `chat_sim_${Date.now()}`,
+        status: 'queued',
+        statusHistory: [{ from: null, to: 'queued', changedAt: now() }],
+        assignedAgentId: undefined,
+        createdAt: now(),
+        lastUpdatedAt: now(),
+        summary: 'Simulated visitor started a new conversation.',
+      };
+      broadcast({ type: 'chat.created', orgId: chat.organizationId, occurredAt: now(), chat });
+      return;
+    }
+
+    const chat = activeChats[sequence % activeChats.length];
+    if (!chat) return;
+    const typing = {
+      type: 'typing',
+      orgId: chat.organizationId,
+      chatId: chat.id,
+      senderType: 'customer',
+      senderName: chat.requesterName,
+    };
+    broadcast({ ...typing, occurredAt: now(), isTyping: true });
+
+    setTimeout(() => {
+      broadcast({
+        type: 'message.received',
+        orgId: chat.organizationId,
+        occurredAt: now(),
+        message: {
+          id: `msg_sim_${Date.now()}`,
+          chatId: chat.id,
+          senderType: 'customer',
+          senderName: chat.requesterName,
+          body: CUSTOMER_LINES[sequence % CUSTOMER_LINES.length],
+          attachments: [],
+          deliveryStatus: 'delivered',
+          createdAt: now(),
+        },
+      });
+    }, 2500);
+  }, SIMULATION_INTERVAL_MS);
+
+  console.log(`[realtime] simulating activity on ${activeChats.length} active chats`);
+}
+
+server.listen(PORT, HOST, () => {
+  console.log(`[realtime] listening on http://${HOST}:${PORT}/events (development only, no authentication)`);
+  if (process.argv.includes('--simulate')) {
+    simulate().catch(error => console.error('[realtime] simulation failed', error));
+  }
+});
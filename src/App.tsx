@@ -3,7 +3,10 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AdminLayout } from "@/components/admin/AdminLayout";
 import { AuthGuard } from "@/components/auth/AuthGuard";
+import { RequirePermission } from "@/components/auth/RequirePermission";
+import { RealtimeSync } from "@/components/common/RealtimeSync";
 import { TenantProvider } from "@/contexts/TenantContext";
+import { AuthProvider } from "@/contexts/AuthContext";
 
 // Login page
 import Login from "@/pages/Login";
@@ -14,9 +17,13 @@ import Profile from "./pages/admin/Profile";
 import AllChats from "./pages/admin/AllChats";
 import MyChats from "./pages/admin/MyChats";
 import EngagementHistory from "./pages/admin/EngagementHistory";
+import EngagementDetail from "./pages/admin/EngagementDetail";
+import SavedReplies from "./pages/admin/SavedReplies";
 import Organizations from "./pages/admin/settings/Organizations";
 import Users from "./pages/admin/settings/Users";
 import AIResponse from "./pages/admin/settings/AIResponse";
+import Routing from "./pages/admin/settings/Routing";
+import BackgroundJobs from "./pages/admin/settings/BackgroundJobs";
 import Notifications from "./pages/admin/settings/Notifications";
 import WidgetManagement from "./pages/admin/settings/WidgetManagement";
 import Security from "./pages/admin/settings/Security";
@@ -25,6 +32,7 @@ import Documents from "./pages/admin/content/Documents";
 import URLScraper from "./pages/admin/content/URLScraper";
 import FAQs from "./pages/admin/content/FAQs";
 import Resources from "./pages/admin/content/Resources";
+import KnowledgeSearch from "./pages/admin/content/KnowledgeSearch";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -32,125 +40,189 @@ const queryClient = new QueryClient();
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
-      <TenantProvider>
-        <BrowserRouter>
-          <Routes>
-            {/* Login route */}
-            <Route path="/login" element={<Login />} />
-            
-            {/* Redirect root to dashboard */}
-            <Route path="/" element={<Navigate to="/dashboard" replace />} />
-            
-            {/* Protected admin routes */}
-            <Route path="/dashboard" element={
-              <AuthGuard>
-                <AdminLayout>
-                  <Dashboard />
-                </AdminLayout>
-              </AuthGuard>
-            } />
-            <Route path="/profile" element={
-              <AuthGuard>
-                <AdminLayout>
-                  <Profile />
-                </AdminLayout>
-              </AuthGuard>
-            } />
-            <Route path="/chats/all" element={
-              <AuthGuard>
-                <AdminLayout>
-                  <AllChats />
-                </AdminLayout>
-              </AuthGuard>
-            } />
-            <Route path="/chats/my" element={
-              <AuthGuard>
-                <AdminLayout>
-                  <MyChats />
-                </AdminLayout>
-              </AuthGuard>
-            } />
-            <Route path="/chats/history" element={
-              <AuthGuard>
-                <AdminLayout>
-                  <EngagementHistory />
-                </AdminLayout>
-              </AuthGuard>
-            } />
-            <Route path="/settings/organizations" element={
-              <AuthGuard>
-                <AdminLayout>
-                  <Organizations />
-                </AdminLayout>
-              </AuthGuard>
-            } />
-            <Route path="/settings/users" element={
-              <AuthGuard>
-                <AdminLayout>
-                  <Users />
-                </AdminLayout>
-              </AuthGuard>
-            } />
-            <Route path="/settings/ai-response" element={
-              <AuthGuard>
-                <AdminLayout>
-                  <AIResponse />
-                </AdminLayout>
-              </AuthGuard>
-            } />
-            <Route path="/settings/notifications" element={
-              <AuthGuard>
-                <AdminLayout>
-                  <Notifications />
-                </AdminLayout>
-              </AuthGuard>
-            } />
-            <Route path="/settings/widget" element={
-              <AuthGuard>
-                <AdminLayout>
-                  <WidgetManagement />
-                </AdminLayout>
-              </AuthGuard>
-            } />
-            <Route path="/settings/security" element={
-              <AuthGuard>
-                <AdminLayout>
-                  <Security />
-                </AdminLayout>
-              </AuthGuard>
-            } />
-            <Route path="/content/documents" element={
-              <AuthGuard>
-                <AdminLayout>
-                  <Documents />
-                </AdminLayout>
-              </AuthGuard>
-            } />
-            <Route path="/content/scraper" element={
-              <AuthGuard>
-                <AdminLayout>
-                  <URLScraper />
-                </AdminLayout>
-              </AuthGuard>
-            } />
-            <Route path="/content/faqs" element={
-              <AuthGuard>
-                <AdminLayout>
-                  <FAQs />
-                </AdminLayout>
-              </AuthGuard>
-            } />
-            <Route path="/content/resources" element={
-              <AuthGuard>
-                <AdminLayout>
-                  <Resources />
-                </AdminLayout>
-              </AuthGuard>
-            } />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TenantProvider>
+      <BrowserRouter>
+        <AuthProvider>
+          <TenantProvider>
+            <RealtimeSync />
+            <Routes>
+              {/* Login route */}
+              <Route path="/login" element={<Login />} />
+              
+              {/* Redirect root to dashboard */}
+              <Route path="/" element={<Navigate to="/dashboard" replace />} />
+              
+              {/* Protected admin routes */}
+              <Route path="/dashboard" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <Dashboard />
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/profile" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <Profile />
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/chats/all" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <AllChats />
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/chats/my" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <MyChats />
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/chats/saved-replies" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <SavedReplies />
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/chats/history" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <EngagementHistory />
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/chats/history/:engagementId" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <EngagementDetail />
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/settings/organizations" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <RequirePermission permission="org:view">
+                      <Organizations />
+                    </RequirePermission>
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/settings/users" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <RequirePermission permission="users:view">
+                      <Users />
+                    </RequirePermission>
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/settings/ai-response" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <RequirePermission permission="settings:manage">
+                      <AIResponse />
+                    </RequirePermission>
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/settings/routing" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <RequirePermission permission="settings:manage">
+                      <Routing />
+                    </RequirePermission>
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/settings/jobs" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <RequirePermission permission="settings:manage">
+                      <BackgroundJobs />
+                    </RequirePermission>
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/settings/notifications" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <RequirePermission permission="settings:manage">
+                      <Notifications />
+                    </RequirePermission>
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/settings/widget" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <RequirePermission permission="settings:manage">
+                      <WidgetManagement />
+                    </RequirePermission>
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/settings/security" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <RequirePermission permission="security:manage">
+                      <Security />
+                    </RequirePermission>
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/content/documents" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <RequirePermission permission="content:manage">
+                      <Documents />
+                    </RequirePermission>
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/content/scraper" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <RequirePermission permission="content:manage">
+                      <URLScraper />
+                    </RequirePermission>
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/content/faqs" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <RequirePermission permission="content:manage">
+                      <FAQs />
+                    </RequirePermission>
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/content/resources" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <RequirePermission permission="content:manage">
+                      <Resources />
+                    </RequirePermission>
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="/content/search" element={
+                <AuthGuard>
+                  <AdminLayout>
+                    <RequirePermission permission="content:manage">
+                      <KnowledgeSearch />
+                    </RequirePermission>
+                  </AdminLayout>
+                </AuthGuard>
+              } />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </TenantProvider>
+        </AuthProvider>
+      </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -2,6 +2,7 @@ import { ChevronDown, User, LogOut, Settings } from "lucide-react";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 import { NavLink, useNavigate } from "react-router-dom";
 import { useTenant } from "@/contexts/TenantContext";
+import { useAuth } from "@/hooks/useAuth";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -21,6 +22,7 @@ import { Badge } from "@/components/ui/badge";
 
 export function AdminHeader() {
   const { currentOrg, organizations, setCurrentOrg } = useTenant();
+  const { user, logout } = useAuth();
   const navigate = useNavigate();
 
   const handleOrgChange = (orgId: string) => {
@@ -30,9 +32,8 @@ export function AdminHeader() {
     }
   };
 
-  const handleSignOut = () => {
-    localStorage.removeItem('auth_token');
-    localStorage.removeItem('user_id');
+  const handleSignOut = async () => {
+    await logout();
     navigate('/login');
   };
 
@@ -86,12 +87,14 @@ export function AdminHeader() {
         <DropdownMenu>
           <DropdownMenuTrigger className="flex items-center gap-2 hover:bg-accent hover:text-accent-foreground rounded-md p-2 transition-colors">
             <Avatar className="h-8 w-8">
-              <AvatarImage src="/placeholder.svg" />
-              <AvatarFallback>JD</AvatarFallback>
+              <AvatarImage src={user?.avatarUrl || "/placeholder.svg"} />
+              <AvatarFallback>
+                {user ? `${user.firstName[0]}${user.lastName[0]}` : ""}
+              </AvatarFallback>
             </Avatar>
             <div className="text-left">
-              <p className="text-sm font-medium">John Doe</p>
-              <p className="text-xs text-muted-foreground">Admin</p>
+              <p className="text-sm font-medium">{user ? `${user.firstName} ${user.lastName}` : ""}</p>
+              <p className="text-xs text-muted-foreground capitalize">{user?.role}</p>
             </div>
             <ChevronDown className="h-4 w-4" />
           </DropdownMenuTrigger>
@@ -10,6 +10,7 @@ import {
   Folder,
   ChevronDown,
   ChevronRight,
+  type LucideIcon,
 } from "lucide-react";
 
 import {
@@ -28,8 +29,24 @@ import {
 } from "@/components/ui/sidebar";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/useAuth";
+import { hasPermission, type Permission } from "@/lib/permissions";
 
-const menuItems = [
+interface MenuLink {
+  title: string;
+  url: string;
+  /** Hidden from roles that lack this permission */
+  permission?: Permission;
+}
+
+interface MenuItem {
+  title: string;
+  icon: LucideIcon;
+  url?: string;
+  submenu?: MenuLink[];
+}
+
+const menuItems: MenuItem[] = [
   {
     title: "Dashboard",
     url: "/dashboard",
@@ -42,28 +59,32 @@ const menuItems = [
       { title: "All Chats", url: "/chats/all" },
       { title: "My Chats", url: "/chats/my" },
       { title: "Engagement History", url: "/chats/history" },
+      { title: "Saved Replies", url: "/chats/saved-replies" },
     ],
   },
   {
     title: "Settings",
     icon: Settings,
     submenu: [
-      { title: "Organizations", url: "/settings/organizations" },
-      { title: "Users", url: "/settings/users" },
-      { title: "Auto AI Response", url: "/settings/ai-response" },
-      { title: "Notifications", url: "/settings/notifications" },
-      { title: "Widget Management", url: "/settings/widget" },
-      { title: "Security", url: "/settings/security" },
+      { title: "Organizations", url: "/settings/organizations", permission: "org:view" },
+      { title: "Users", url: "/settings/users", permission: "users:view" },
+      { title: "Auto AI Response", url: "/settings/ai-response", permission: "settings:manage" },
+      { title: "Chat Routing", url: "/settings/routing", permission: "settings:manage" },
+      { title: "Background Jobs", url: "/settings/jobs", permission: "settings:manage" },
+      { title: "Notifications", url: "/settings/notifications", permission: "settings:manage" },
+      { title: "Widget Management", url: "/settings/widget", permission: "settings:manage" },
+      { title: "Security", url: "/settings/security", permission: "security:manage" },
     ],
   },
   {
     title: "Content Management",
     icon: FileText,
     submenu: [
-      { title: "Documents", url: "/content/documents" },
-      { title: "URL Scraper", url: "/content/scraper" },
-      { title: "FAQs", url: "/content/faqs" },
-      { title: "Resources", url: "/content/resources" },
+      { title: "Documents", url: "/content/documents", permission: "content:manage" },
+      { title: "URL Scraper", url: "/content/scraper", permission: "content:manage" },
+      { title: "FAQs", url: "/content/faqs", permission: "content:manage" },
+      { title: "Resources", url: "/content/resources", permission: "content:manage" },
+      { title: "Retrieval Console", url: "/content/search", permission: "content:manage" },
     ],
   },
 ];
@@ -73,6 +94,14 @@ export function AdminSidebar() {
   const collapsed = state === "collapsed";
   const location = useLocation();
   const currentPath = location.pathname;
+  const { user } = useAuth();
+
+  // Drop links the current role cannot open, then any section left empty
+  const visibleItems = menuItems
+    .map((item) => item.submenu
+      ? { ...item, submenu: item.submenu.filter((link) => !link.permission || hasPermission(user?.role, link.permission)) }
+      : item)
+    .filter((item) => !item.submenu || item.submenu.length > 0);
 
   const [openMenus, setOpenMenus] = useState<string[]>(() => {
     // Keep all sections expanded by default
@@ -92,7 +121,7 @@ export function AdminSidebar() {
   };
 
   const isActive = (path: string) => currentPath === path;
-  const isSubmenuActive = (submenu: any[]) => submenu.some(item => currentPath === item.url);
+  const isSubmenuActive = (submenu: MenuLink[]) => submenu.some(item => currentPath === item.url);
   const getNavCls = ({ isActive }: { isActive: boolean }) =>
     isActive ? "bg-primary text-primary-foreground font-medium" : "hover:bg-accent hover:text-accent-foreground";
   const getSubmenuNavCls = ({ isActive }: { isActive: boolean }) =>
@@ -107,7 +136,7 @@ export function AdminSidebar() {
           </SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {menuItems.map((item) => {
+              {visibleItems.map((item) => {
                 if (item.submenu) {
                   return (
                     <SidebarMenuItem key={item.title}>
@@ -4,15 +4,17 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
+import { ChatStatusBadge } from '@/components/admin/ChatStatusBadge';
 import { Chat } from '@/types';
 import { toast } from '@/hooks/use-toast';
-import { useUsers } from '@/hooks/useApiQuery';
+import { useAssignChat, useUsers } from '@/hooks/useApiQuery';
 
 interface AgentAssignmentModalProps {
   isOpen: boolean;
   onClose: () => void;
   chat: Chat | null;
-  onAssign: (chatId: string, agentId: string) => void;
+  /** Called after the assignment has been saved */
+  onAssign?: (chatId: string, agentId: string) => void;
 }
 
 export function AgentAssignmentModal({ 
@@ -22,21 +24,18 @@ export function AgentAssignmentModal({
   onAssign 
 }: AgentAssignmentModalProps) {
   const [selectedAgentId, setSelectedAgentId] = useState<string>('');
-  const [isAssigning, setIsAssigning] = useState(false);
   const { data: usersResponse } = useUsers();
   const users = usersResponse?.data || [];
+  const assignChat = useAssignChat();
+  const isAssigning = assignChat.isPending;
 
   const handleAssign = async () => {
     if (!chat || !selectedAgentId) return;
-    
-    setIsAssigning(true);
-    
+
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      onAssign(chat.id, selectedAgentId);
-      
+      await assignChat.mutateAsync({ chat, agentId: selectedAgentId });
+      onAssign?.(chat.id, selectedAgentId);
+
       const selectedAgent = users.find(u => u.id === selectedAgentId);
       toast({
         title: "Agent Assigned",
@@ -45,14 +44,8 @@ export function AgentAssignmentModal({
       
       onClose();
       setSelectedAgentId('');
-    } catch (error) {
-      toast({
-        title: "Assignment Failed",
-        description: "Failed to assign agent. Please try again.",
-        variant: "destructive"
-      });
-    } finally {
-      setIsAssigning(false);
+    } catch {
+      // useAssignChat already reported the failure
     }
   };
 
@@ -70,9 +63,7 @@ export function AgentAssignmentModal({
             <div className="bg-muted p-4 rounded-lg">
               <div className="flex items-center justify-between mb-2">
                 <span className="font-medium">{chat.requesterName}</span>
-                <Badge variant={chat.status === "active" ? "default" : "secondary"}>
-                  {chat.status}
-                </Badge>
+                <ChatStatusBadge status={chat.status} />
               </div>
               <p className="text-sm text-muted-foreground">{chat.requesterEmail}</p>
               <p className="text-sm text-muted-foreground">{chat.geo}</p>
@@ -0,0 +1,208 @@
+import { useEffect } from "react";
+import { Controller, useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { useBusinessHours, useUpdateBusinessHours } from "@/hooks/useApiQuery";
+import {
+  COMMON_TIMEZONES,
+  describeNextOpening,
+  getBusinessHoursStatus,
+  WEEKDAY_LABELS,
+  WEEKDAYS,
+} from "@/lib/business-hours";
+import { businessHoursSchema, type BusinessHoursInput } from "@/lib/validations";
+import type { BusinessHours } from "@/types";
+import { Plus, Trash2 } from "lucide-react";
+
+const toFormValues = ({ enabled, timezone, weekly, holidays, exceptions }: BusinessHours): BusinessHoursInput => ({
+  enabled,
+  timezone,
+  weekly,
+  holidays,
+  exceptions,
+});
+
+/** When support is staffed: weekly hours in the organization's timezone, holidays and one-off exceptions */
+export function BusinessHoursCard() {
+  const { data: scheduleResponse, isLoading } = useBusinessHours();
+  const updateHours = useUpdateBusinessHours();
+  const schedule = scheduleResponse?.data;
+
+  const form = useForm<BusinessHoursInput>({
+    resolver: zodResolver(businessHoursSchema),
+  });
+  const { errors } = form.formState;
+  const holidays = useFieldArray({ control: form.control, name: "holidays" });
+  const exceptions = useFieldArray({ control: form.control, name: "exceptions" });
+
+  useEffect(() => {
+    if (schedule) form.reset(toFormValues(schedule));
+  }, [schedule, form]);
+
+  if (isLoading || !schedule) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  const status = getBusinessHoursStatus(schedule);
+  const nextOpening = describeNextOpening(status);
+  const isEnabled = form.watch("enabled");
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle>Business Hours</CardTitle>
+            <CardDescription>
+              Outside these hours the widget switches to offline mode and new chats are flagged as out of hours
+            </CardDescription>
+          </div>
+          {schedule.enabled && (
+            <Badge variant={status.isOpen ? "default" : "secondary"} title={status.reason}>
+              {status.isOpen ? "Open now" : nextOpening ? `Closed, opens ${nextOpening}` : "Closed"}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={form.handleSubmit(data => updateHours.mutate(data))} className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="hours-enabled">Use Business Hours</Label>
+              <p className="text-sm text-muted-foreground">
+                When off, support counts as open around the clock
+              </p>
+            </div>
+            <Controller
+              control={form.control}
+              name="enabled"
+              render={({ field }) => (
+                <Switch id="hours-enabled" checked={field.value} onCheckedChange={field.onChange} />
+              )}
+            />
+          </div>
+
+          <fieldset disabled={!isEnabled} className="space-y-6 disabled:opacity-60">
+            <div className="space-y-2">
+              <Label htmlFor="hours-timezone">Timezone</Label>
+              <Input id="hours-timezone" list="hours-timezones" className="w-72" {...form.register("timezone")} />
+              <datalist id="hours-timezones">
+                {COMMON_TIMEZONES.map(timezone => <option key={timezone} value={timezone} />)}
+              </datalist>
+              {errors.timezone && <p className="text-sm text-destructive">{errors.timezone.message}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Weekly Hours</Label>
+              <div className="space-y-2 rounded-md border p-3">
+                {WEEKDAYS.map(day => {
+                  const isOpen = form.watch(`weekly.${day}.isOpen`);
+                  const dayErrors = errors.weekly?.[day];
+                  return (
+                    <div key={day} className="space-y-1">
+                      <div className="grid grid-cols-[7rem_3rem_1fr_1fr] items-center gap-2">
+                        <Label htmlFor={`hours-${day}`}>{WEEKDAY_LABELS[day]}</Label>
+                        <Controller
+                          control={form.control}
+                          name={`weekly.${day}.isOpen`}
+                          render={({ field }) => (
+                            <Switch id={`hours-${day}`} checked={field.value} onCheckedChange={field.onChange} />
+                          )}
+                        />
+                        <Input type="time" aria-label={`${WEEKDAY_LABELS[day]} opening time`} disabled={!isOpen} {...form.register(`weekly.${day}.start`)} />
+                        <Input type="time" aria-label={`${WEEKDAY_LABELS[day]} closing time`} disabled={!isOpen} {...form.register(`weekly.${day}.end`)} />
+                      </div>
+                      {(dayErrors?.start || dayErrors?.end) && (
+                        <p className="text-sm text-destructive">{dayErrors.start?.message ?? dayErrors.end?.message}</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Holidays</Label>
+              <p className="text-sm text-muted-foreground">Closed all day</p>
+              {holidays.fields.map((holiday, index) => {
+                const holidayErrors = errors.holidays?.[index];
+                return (
+                  <div key={holiday.id} className="space-y-1">
+                    <div className="grid grid-cols-[10rem_1fr_auto] items-center gap-2">
+                      <Input type="date" aria-label="Holiday date" {...form.register(`holidays.${index}.date`)} />
+                      <Input placeholder="Name, such as New Year's Day" {...form.register(`holidays.${index}.name`)} />
+                      <Button type="button" variant="ghost" size="icon" aria-label="Remove holiday" onClick={() => holidays.remove(index)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {(holidayErrors?.date || holidayErrors?.name) && (
+                      <p className="text-sm text-destructive">{holidayErrors.date?.message ?? holidayErrors.name?.message}</p>
+                    )}
+                  </div>
+                );
+              })}
+              <Button type="button" variant="outline" size="sm" className="gap-2" onClick={() => holidays.append({ date: "", name: "" })}>
+                <Plus className="h-4 w-4" />
+                Add Holiday
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Exceptions</Label>
+              <p className="text-sm text-muted-foreground">Dates with other hours than usual, or closed for another reason</p>
+              {exceptions.fields.map((exception, index) => {
+                const isOpen = form.watch(`exceptions.${index}.isOpen`);
+                const exceptionErrors = errors.exceptions?.[index];
+                return (
+                  <div key={exception.id} className="space-y-1">
+                    <div className="grid grid-cols-[10rem_1fr_3rem_6.5rem_6.5rem_auto] items-center gap-2">
+                      <Input type="date" aria-label="Exception date" {...form.register(`exceptions.${index}.date`)} />
+                      <Input placeholder="Reason, such as Team offsite" {...form.register(`exceptions.${index}.name`)} />
+                      <Controller
+                        control={form.control}
+                        name={`exceptions.${index}.isOpen`}
+                        render={({ field }) => (
+                          <Switch aria-label="Open on this date" checked={field.value} onCheckedChange={field.onChange} />
+                        )}
+                      />
+                      <Input type="time" aria-label="Opening time" disabled={!isOpen} {...form.register(`exceptions.${index}.start`)} />
+                      <Input type="time" aria-label="Closing time" disabled={!isOpen} {...form.register(`exceptions.${index}.end`)} />
+                      <Button type="button" variant="ghost" size="icon" aria-label="Remove exception" onClick={() => exceptions.remove(index)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {exceptionErrors && (
+                      <p className="text-sm text-destructive">
+                        {exceptionErrors.date?.message ?? exceptionErrors.name?.message ?? exceptionErrors.start?.message ?? exceptionErrors.end?.message}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => exceptions.append({ date: "", name: "", isOpen: true, start: "09:00", end: "13:00" })}
+              >
+                <Plus className="h-4 w-4" />
+                Add Exception
+              </Button>
+            </div>
+          </fieldset>
+
+          <Button type="submit" disabled={!form.formState.isDirty || updateHours.isPending}>
+            {updateHours.isPending ? "Saving..." : "Save Business Hours"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,11 +9,14 @@ import { CalendarIcon, Filter, X } from 'lucide-react';
 import { format } from 'date-fns';
 import { useUsers } from '@/hooks/useApiQuery';
 import { cn } from '@/lib/utils';
+import { CHAT_STATUSES, CHAT_STATUS_LABELS } from '@/lib/chat-lifecycle';
 
 export interface ChatFilters {
   search: string;
   status: string;
   agent: string;
+  /** 'out-of-hours' or 'in-hours' to split chats by whether they started while support was closed */
+  hours: string;
   dateRange: {
     from: Date | undefined;
     to: Date | undefined;
@@ -45,11 +48,12 @@ export function ChatFilters({
       search: '',
       status: 'all',
       agent: 'all',
+      hours: 'all',
       dateRange: { from: undefined, to: undefined }
     });
   };
 
-  const hasActiveFilters = filters.search || filters.status || filters.agent || 
+  const hasActiveFilters = filters.search || filters.status || filters.agent || filters.hours ||
     filters.dateRange.from || filters.dateRange.to;
 
   if (isCollapsed) {
@@ -65,7 +69,7 @@ export function ChatFilters({
           Filters
           {hasActiveFilters && (
             <span className="bg-primary text-primary-foreground rounded-full px-2 py-0.5 text-xs">
-              {[filters.search, filters.status, filters.agent, filters.dateRange.from].filter(Boolean).length}
+              {[filters.search, filters.status, filters.agent, filters.hours, filters.dateRange.from].filter(Boolean).length}
             </span>
           )}
         </Button>
@@ -90,7 +94,7 @@ export function ChatFilters({
           </div>
         </div>
         
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
           {/* Search */}
           <div>
             <label className="text-sm font-medium mb-2 block">Search</label>
@@ -111,9 +115,9 @@ export function ChatFilters({
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All statuses</SelectItem>
-                <SelectItem value="active">Active</SelectItem>
-                <SelectItem value="missed">Missed</SelectItem>
-                <SelectItem value="closed">Closed</SelectItem>
+                {CHAT_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{CHAT_STATUS_LABELS[status]}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -137,6 +141,21 @@ export function ChatFilters({
             </Select>
           </div>
 
+          {/* Business Hours Filter */}
+          <div>
+            <label className="text-sm font-medium mb-2 block">Business Hours</label>
+            <Select value={filters.hours} onValueChange={(value) => updateFilter('hours', value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Any time" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any time</SelectItem>
+                <SelectItem value="in-hours">Within hours</SelectItem>
+                <SelectItem value="out-of-hours">Out of hours</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Date Range */}
           <div>
             <label className="text-sm font-medium mb-2 block">Date Range</label>
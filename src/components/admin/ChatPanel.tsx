@@ -1,15 +1,26 @@
-import React, { useState, memo } from "react";
+import React, { useState, useEffect, memo } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Textarea } from "@/components/ui/textarea";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Chat } from "@/types";
-import { useUsers } from '@/hooks/useApiQuery';
+import { ChatTranscript } from "@/components/admin/ChatTranscript";
+import { ChatStatusBadge } from "@/components/admin/ChatStatusBadge";
+import { CustomerSidebar } from "@/components/admin/CustomerSidebar";
+import { MessageComposer } from "@/components/admin/MessageComposer";
+import { ReplyAssistPanel } from "@/components/admin/ReplyAssistPanel";
+import { Chat, ChatStatus, Message, ReplySuggestion } from "@/types";
+import { useAssignChat, useChatMessages, useSendChatMessage, useSuggestionFeedback, useTransitionChat, useUsers } from '@/hooks/useApiQuery';
+import { useChatTypists, useTypingNotifier } from '@/hooks/useRealtime';
 import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { usePermission } from "@/hooks/usePermission";
+import { hasPermission } from "@/lib/permissions";
+import { CHAT_STATUS_LABELS, CHAT_TRANSITIONS, TRANSITION_PERMISSIONS, getTransitionLabel } from "@/lib/chat-lifecycle";
+import { logger } from "@/lib/logger";
+import { getSuggestionOutcome } from "@/lib/reply-assist";
+import { formatPreChatAnswer } from "@/lib/widget";
 import { 
   MapPin, 
   Mail, 
@@ -20,7 +31,8 @@ import {
   Bot, 
   MessageSquare,
   CheckCircle,
-  AlertCircle
+  ClipboardList,
+  History
 } from "lucide-react";
 
 interface ChatPanelProps {
@@ -28,39 +40,81 @@ interface ChatPanelProps {
 }
 
 export const ChatPanel = memo<ChatPanelProps>(({ chat }) => {
-  console.log('ChatPanel: Rendering chat panel', { chatId: chat.id, status: chat.status, assignedAgent: chat.assignedAgentId });
+  logger.debug('Rendering chat panel', { chatId: chat.id, status: chat.status, assignedAgent: chat.assignedAgentId }, 'ChatPanel');
   
   const [message, setMessage] = useState("");
   const [isSending, setIsSending] = useState(false);
   const [isRetrying, setIsRetrying] = useState(false);
+  // The suggestion the message started from, so its outcome can be recorded on send
+  const [usedSuggestion, setUsedSuggestion] = useState<ReplySuggestion | null>(null);
   const [selectedAgentId, setSelectedAgentId] = useState(chat.assignedAgentId || "unassigned");
   const { data: usersResponse } = useUsers();
   const users = usersResponse?.data || [];
   const assignedAgent = users.find(u => u.id === chat.assignedAgentId);
 
+  // Assignments can also change remotely through realtime events
+  useEffect(() => {
+    setSelectedAgentId(chat.assignedAgentId || "unassigned");
+  }, [chat.assignedAgentId]);
+
+  const { data: transcript } = useChatMessages(chat.id);
+  const sendMessage = useSendChatMessage(chat.id);
+  const sendSuggestionFeedback = useSuggestionFeedback(chat.id);
+  const { user: currentUser } = useAuth();
+  const canAssign = usePermission('chats:assign');
+  const transitionChat = useTransitionChat();
+  const assignChat = useAssignChat();
+  const availableTransitions = CHAT_TRANSITIONS[chat.status].filter(to => {
+    const permission = TRANSITION_PERMISSIONS[to];
+    return !permission || hasPermission(currentUser?.role, permission);
+  });
+  const typists = useChatTypists(chat.id);
+  const notifyTyping = useTypingNotifier(chat);
+  const uploadedFiles = (transcript?.messages || [])
+    .filter(m => m.senderType === 'customer')
+    .flatMap(m => m.attachments);
+
+  const sendAsCurrentAgent = (body: string, clientId: string) =>
+    sendMessage.mutateAsync({ clientId, body });
+
   const handleSendMessage = async () => {
     if (!message.trim()) return;
     
     setIsSending(true);
+    notifyTyping(false);
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      toast({
-        title: "Message sent",
-        description: "Your message has been sent to the customer"
-      });
+      const sent = await sendAsCurrentAgent(message.trim(), `pending_${Date.now()}`);
       setMessage("");
+      if (usedSuggestion) {
+        const outcome = getSuggestionOutcome(usedSuggestion.text, sent.data.body);
+        sendSuggestionFeedback.mutate({
+          suggestionId: usedSuggestion.id,
+          data: { outcome, messageId: sent.data.id, ...(outcome === 'edited' && { finalText: sent.data.body }) },
+        });
+        setUsedSuggestion(null);
+      }
     } catch (error) {
-      toast({
-        title: "Failed to send message",
-        description: "Please try again",
-        variant: "destructive"
-      });
+      // The failed message stays in the transcript with a retry action
+      logger.error('Failed to send message', { error, chatId: chat.id }, 'ChatPanel');
     } finally {
       setIsSending(false);
     }
   };
 
+  const handleUseSuggestion = (suggestion: ReplySuggestion) => {
+    // Switching to another suggestion passes over the one in the composer
+    if (usedSuggestion && usedSuggestion.id !== suggestion.id) {
+      sendSuggestionFeedback.mutate({ suggestionId: usedSuggestion.id, data: { outcome: 'rejected' } });
+    }
+    setUsedSuggestion(suggestion);
+    setMessage(suggestion.text);
+    notifyTyping(true);
+  };
+
+  const handleRetryMessage = (failed: Message) => {
+    sendAsCurrentAgent(failed.body, failed.id).catch(() => undefined);
+  };
+
   const handleRetry = async () => {
     setIsRetrying(true);
     try {
@@ -80,13 +134,30 @@ export const ChatPanel = memo<ChatPanelProps>(({ chat }) => {
     }
   };
 
+  const handleTransition = async (to: ChatStatus) => {
+    try {
+      await transitionChat.mutateAsync({ chat, to });
+      toast({
+        title: "Chat updated",
+        description: `Chat is now ${CHAT_STATUS_LABELS[to].toLowerCase()}`
+      });
+    } catch {
+      // The mutation already rolled back and reported the error
+    }
+  };
+
+  const describeActor = (userId?: string) => {
+    if (!userId) return "System";
+    const actor = users.find(u => u.id === userId);
+    return actor ? `${actor.firstName} ${actor.lastName}` : "Unknown user";
+  };
+
   const handleAgentChange = async (agentId: string) => {
     try {
-      console.log('ChatPanel: Assigning agent', { agentId, chatId: chat.id });
+      logger.debug('Assigning agent', { agentId, chatId: chat.id }, 'ChatPanel');
       setSelectedAgentId(agentId);
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
+      await assignChat.mutateAsync({ chat, agentId: agentId === "unassigned" ? null : agentId });
+
       if (agentId === "unassigned") {
         toast({
           title: "Agent unassigned",
@@ -100,363 +171,341 @@ export const ChatPanel = memo<ChatPanelProps>(({ chat }) => {
         });
       }
     } catch (error) {
-      console.error('ChatPanel: Failed to assign agent', error);
-      toast({
-        title: "Failed to assign agent",
-        description: "Please try again",
-        variant: "destructive"
-      });
+      // The mutation reported the failure; put the select back
+      logger.error('Failed to assign agent', { error, chatId: chat.id, agentId }, 'ChatPanel');
+      setSelectedAgentId(chat.assignedAgentId || "unassigned");
     }
   };
 
   return (
-    <div className="space-y-6">
-      {/* Customer Details */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <User className="h-5 w-5" />
-            Customer Information
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-3">
-              <div className="flex items-center gap-2">
-                <User className="h-4 w-4 text-muted-foreground" />
-                <div>
-                  <div className="text-sm text-muted-foreground">Name</div>
-                  <div className="font-medium">{chat.requesterName}</div>
+    <div className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_20rem]">
+      <div className="space-y-6 min-w-0">
+        {/* Customer Details */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <User className="h-5 w-5" />
+              Customer Information
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <User className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <div className="text-sm text-muted-foreground">Name</div>
+                    <div className="font-medium">{chat.requesterName}</div>
+                  </div>
                 </div>
-              </div>
               
-              <div className="flex items-center gap-2">
-                <Mail className="h-4 w-4 text-muted-foreground" />
-                <div>
-                  <div className="text-sm text-muted-foreground">Email</div>
-                  <div className="font-medium">{chat.requesterEmail}</div>
+                <div className="flex items-center gap-2">
+                  <Mail className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <div className="text-sm text-muted-foreground">Email</div>
+                    <div className="font-medium">{chat.requesterEmail}</div>
+                  </div>
                 </div>
-              </div>
               
-              <div className="flex items-center gap-2">
-                <Phone className="h-4 w-4 text-muted-foreground" />
-                <div>
-                  <div className="text-sm text-muted-foreground">Phone</div>
-                  <div className="font-medium">{chat.requesterPhone}</div>
+                <div className="flex items-center gap-2">
+                  <Phone className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <div className="text-sm text-muted-foreground">Phone</div>
+                    <div className="font-medium">{chat.requesterPhone}</div>
+                  </div>
                 </div>
               </div>
-            </div>
             
-            <div className="space-y-3">
-              <div className="flex items-center gap-2">
-                <MapPin className="h-4 w-4 text-muted-foreground" />
-                <div>
-                  <div className="text-sm text-muted-foreground">Location</div>
-                  <div className="font-medium">{chat.geo}</div>
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <MapPin className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <div className="text-sm text-muted-foreground">Location</div>
+                    <div className="font-medium">{chat.geo}</div>
+                  </div>
                 </div>
-              </div>
               
-              <div className="flex items-center gap-2">
-                <Globe className="h-4 w-4 text-muted-foreground" />
-                <div>
-                  <div className="text-sm text-muted-foreground">IP Address</div>
-                  <div className="font-medium">{chat.ipAddress}</div>
+                <div className="flex items-center gap-2">
+                  <Globe className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <div className="text-sm text-muted-foreground">IP Address</div>
+                    <div className="font-medium">{chat.ipAddress}</div>
+                  </div>
                 </div>
-              </div>
               
-              <div className="flex items-center gap-2">
-                <Clock className="h-4 w-4 text-muted-foreground" />
-                <div>
-                  <div className="text-sm text-muted-foreground">Started</div>
-                  <div className="font-medium">{new Date(chat.createdAt).toLocaleString()}</div>
+                <div className="flex items-center gap-2">
+                  <Clock className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <div className="text-sm text-muted-foreground">Started</div>
+                    <div className="font-medium">{new Date(chat.createdAt).toLocaleString()}</div>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
+
+            {chat.preChatAnswers && chat.preChatAnswers.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    <ClipboardList className="h-4 w-4 text-muted-foreground" />
+                    Pre-chat Answers
+                  </div>
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-2">
+                    {chat.preChatAnswers.map(answer => (
+                      <div key={answer.fieldId}>
+                        <dt className="text-sm text-muted-foreground">{answer.label}</dt>
+                        <dd className="font-medium break-words">{formatPreChatAnswer(answer)}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              </>
+            )}
           
-          <Separator />
+            <Separator />
           
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <span className="text-sm text-muted-foreground">Status:</span>
-              <Badge variant={chat.status === "active" ? "default" : chat.status === "missed" ? "destructive" : "secondary"}>
-                {chat.status}
-              </Badge>
-            </div>
-            
-            <div className="flex items-center gap-2">
-              <span className="text-sm text-muted-foreground">Assigned Agent:</span>
-              <Select value={selectedAgentId} onValueChange={handleAgentChange}>
-                <SelectTrigger className="w-48">
-                  <SelectValue placeholder="Select agent" />
-                </SelectTrigger>
-                <SelectContent className="bg-background border shadow-md z-50">
-                  <SelectItem value="unassigned">Unassigned</SelectItem>
-                  {users.filter(user => user.role === 'agent').map((user) => (
-                    <SelectItem key={user.id} value={user.id}>
-                      <div className="flex items-center gap-2">
-                        <Avatar className="h-5 w-5">
-                          <AvatarImage src={user.avatar || user.avatarUrl} />
-                          <AvatarFallback className="text-xs">
-                            {user.firstName[0]}{user.lastName[0]}
-                          </AvatarFallback>
-                        </Avatar>
-                        <span>{user.firstName} {user.lastName}</span>
-                        <Badge variant="outline" className="text-xs">
-                          {user.role}
-                        </Badge>
-                      </div>
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* AI Summary */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Bot className="h-5 w-5" />
-            AI Summary
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="flex items-start gap-3">
-            <div className="flex-shrink-0">
-              <div className="h-8 w-8 rounded-full bg-primary/10 flex items-center justify-center">
-                <Bot className="h-4 w-4 text-primary" />
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">Status:</span>
+                <ChatStatusBadge status={chat.status} />
               </div>
-            </div>
-            <div className="flex-1">
-              <p className="text-sm leading-relaxed">{chat.summary}</p>
-              <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
-                <CheckCircle className="h-3 w-3" />
-                Auto-generated summary
+            
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">Assigned Agent:</span>
+                <Select value={selectedAgentId} onValueChange={handleAgentChange} disabled={!canAssign}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Select agent" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background border shadow-md z-50">
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                    {users.filter(user => user.role === 'agent').map((user) => (
+                      <SelectItem key={user.id} value={user.id}>
+                        <div className="flex items-center gap-2">
+                          <Avatar className="h-5 w-5">
+                            <AvatarImage src={user.avatar || user.avatarUrl} />
+                            <AvatarFallback className="text-xs">
+                              {user.firstName[0]}{user.lastName[0]}
+                            </AvatarFallback>
+                          </Avatar>
+                          <span>{user.firstName} {user.lastName}</span>
+                          <Badge variant="outline" className="text-xs">
+                            {user.role}
+                          </Badge>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
             </div>
-          </div>
-        </CardContent>
-      </Card>
-      {/* Chat Transcript */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <MessageSquare className="h-5 w-5" />
-            Chat Transcript
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <ScrollArea className="h-96">
-            <div className="space-y-4">
-              <div className="flex flex-col space-y-1">
-                <div className="flex items-center space-x-2">
-                  <Avatar className="h-6 w-6">
-                    <AvatarFallback>
-                      {chat.requesterName[0]}
-                    </AvatarFallback>
-                  </Avatar>
-                  <span className="text-sm font-medium">{chat.requesterName}</span>
-                  <span className="text-xs text-muted-foreground">
-                    {new Date(chat.createdAt).toLocaleTimeString()}
-                  </span>
-                </div>
-                <div className="bg-muted p-3 rounded-lg max-w-xs ml-8">
-                  <p className="text-sm">
-                    Hi, I'm having trouble with my account login. Can you help me?
-                  </p>
-                </div>
-              </div>
-
-              <div className="flex flex-col space-y-1 items-end">
-                <div className="flex items-center space-x-2">
-                  <span className="text-xs text-muted-foreground">
-                    {new Date(Date.now() - 600000).toLocaleTimeString()}
-                  </span>
-                  <span className="text-sm font-medium">
-                    {assignedAgent ? `${assignedAgent.firstName} ${assignedAgent.lastName}` : "Agent"}
-                  </span>
-                  {assignedAgent && (
-                    <Avatar className="h-6 w-6">
-                      <AvatarImage src={assignedAgent.avatar || assignedAgent.avatarUrl} />
-                      <AvatarFallback>
-                        {assignedAgent.firstName[0]}{assignedAgent.lastName[0]}
-                      </AvatarFallback>
-                    </Avatar>
-                  )}
-                </div>
-                <div className="bg-primary text-primary-foreground p-3 rounded-lg max-w-xs mr-8">
-                  <p className="text-sm">
-                    Hello! I'd be happy to help you with your login issue. Can you tell me what specific error you're seeing?
-                  </p>
-                </div>
-              </div>
-
-              <div className="flex flex-col space-y-1">
-                <div className="flex items-center space-x-2">
-                  <Avatar className="h-6 w-6">
-                    <AvatarFallback>
-                      {chat.requesterName[0]}
-                    </AvatarFallback>
-                  </Avatar>
-                  <span className="text-sm font-medium">{chat.requesterName}</span>
-                  <span className="text-xs text-muted-foreground">
-                    {new Date(Date.now() - 300000).toLocaleTimeString()}
-                  </span>
-                </div>
-                <div className="bg-muted p-3 rounded-lg max-w-xs ml-8">
-                  <p className="text-sm">
-                    It says "Invalid credentials" but I'm sure my password is correct.
-                  </p>
-                </div>
-              </div>
+          </CardContent>
+        </Card>
 
-              <div className="flex flex-col space-y-1 items-end">
-                <div className="flex items-center space-x-2">
-                  <span className="text-xs text-muted-foreground">
-                    {new Date(Date.now() - 120000).toLocaleTimeString()}
-                  </span>
-                  <span className="text-sm font-medium">
-                    {assignedAgent ? `${assignedAgent.firstName} ${assignedAgent.lastName}` : "Agent"}
-                  </span>
-                  {assignedAgent && (
-                    <Avatar className="h-6 w-6">
-                      <AvatarImage src={assignedAgent.avatar || assignedAgent.avatarUrl} />
-                      <AvatarFallback>
-                        {assignedAgent.firstName[0]}{assignedAgent.lastName[0]}
-                      </AvatarFallback>
-                    </Avatar>
-                  )}
-                </div>
-                <div className="bg-primary text-primary-foreground p-3 rounded-lg max-w-xs mr-8">
-                  <p className="text-sm">
-                    Let me help you reset your password. I'll send you a secure reset link to your email address.
-                  </p>
+        {/* AI Summary */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bot className="h-5 w-5" />
+              AI Summary
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-start gap-3">
+              <div className="flex-shrink-0">
+                <div className="h-8 w-8 rounded-full bg-primary/10 flex items-center justify-center">
+                  <Bot className="h-4 w-4 text-primary" />
                 </div>
               </div>
-
-              <div className="flex justify-center">
-                <div className="bg-muted/50 px-3 py-1 rounded-full">
-                  <span className="text-xs text-muted-foreground flex items-center gap-1">
-                    <AlertCircle className="h-3 w-3" />
-                    {chat.status === "active" ? "Chat is ongoing" : "Chat ended"}
-                  </span>
+              <div className="flex-1">
+                <p className="text-sm leading-relaxed">{chat.summary}</p>
+                <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+                  <CheckCircle className="h-3 w-3" />
+                  Auto-generated summary
                 </div>
               </div>
             </div>
-          </ScrollArea>
-        </CardContent>
-      </Card>
-      {/* Chat Input Box */}
-      {chat.status === "active" && (
+          </CardContent>
+        </Card>
+        {/* Chat Transcript */}
         <Card>
           <CardHeader>
-            <CardTitle className="text-base">Send Message</CardTitle>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquare className="h-5 w-5" />
+              Chat Transcript
+            </CardTitle>
           </CardHeader>
-          <CardContent className="space-y-4">
-            <Textarea
-              value={message}
-              onChange={(e) => setMessage(e.target.value)}
-              placeholder="Type your message..."
-              rows={3}
-              disabled={isSending}
-            />
-            <div className="flex gap-2">
-              <Button
-                onClick={handleSendMessage}
-                disabled={isSending || !message.trim()}
-                size="sm"
-                className="flex-1"
-              >
-                {isSending ? "Sending..." : "Send Message"}
-              </Button>
-            </div>
+          <CardContent>
+            <ChatTranscript chat={chat} users={users} onRetryMessage={handleRetryMessage} />
+            {typists.length > 0 && (
+              <p className="mt-2 text-xs text-muted-foreground italic">
+                {typists.map(typist => typist.senderName).join(', ')} {typists.length === 1 ? 'is' : 'are'} typing…
+              </p>
+            )}
           </CardContent>
         </Card>
-      )}
-
-      {/* Additional sections for closed chats */}
-      {chat.status === "closed" && (
-        <>
-          <Separator />
-          
-          {/* Call Recordings Section */}
+        {/* Status History */}
+        {chat.statusHistory && chat.statusHistory.length > 0 && (
           <Card>
             <CardHeader>
-              <CardTitle className="text-base">Call Recordings</CardTitle>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <History className="h-4 w-4" />
+                Status History
+              </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="space-y-2">
-                <div className="flex items-center justify-between p-2 border rounded">
-                  <span className="text-sm">Recording_2025-01-26_10:30.mp3</span>
-                  <div className="flex gap-2">
-                    <Button variant="outline" size="sm">
-                      Play
-                    </Button>
-                    <Button variant="outline" size="sm">
-                      Download
-                    </Button>
-                  </div>
-                </div>
-                <p className="text-xs text-muted-foreground">Duration: 4:32</p>
-              </div>
+              <ol className="space-y-2">
+                {[...chat.statusHistory].reverse().map((change) => (
+                  <li key={`${change.changedAt}-${change.to}`} className="flex items-start justify-between gap-4 text-sm">
+                    <div>
+                      <span className="font-medium">
+                        {change.from ? `${CHAT_STATUS_LABELS[change.from]} → ` : "Created as "}
+                        {CHAT_STATUS_LABELS[change.to]}
+                      </span>
+                      <span className="text-muted-foreground"> by {describeActor(change.changedBy)}</span>
+                      {change.reason && (
+                        <div className="text-xs text-muted-foreground">{change.reason}</div>
+                      )}
+                    </div>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {new Date(change.changedAt).toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ol>
             </CardContent>
           </Card>
-
-          {/* Uploaded Files Section */}
+        )}
+        {/* Reply Assist */}
+        {chat.status === "active" && (
+          <ReplyAssistPanel
+            chat={chat}
+            onUse={handleUseSuggestion}
+            onDismiss={(suggestion) => suggestion.id === usedSuggestion?.id && setUsedSuggestion(null)}
+            activeSuggestionId={usedSuggestion?.id}
+          />
+        )}
+        {/* Chat Input Box */}
+        {chat.status === "active" && (
           <Card>
             <CardHeader>
-              <CardTitle className="text-base">Uploaded Files</CardTitle>
+              <CardTitle className="text-base">Send Message</CardTitle>
             </CardHeader>
-            <CardContent>
-              <div className="space-y-2">
-                <div className="flex items-center justify-between p-2 border rounded">
-                  <span className="text-sm">account_screenshot.png</span>
-                  <Button variant="outline" size="sm">
-                    Download
-                  </Button>
-                </div>
-                <div className="flex items-center justify-between p-2 border rounded">
-                  <span className="text-sm">support_document.pdf</span>
-                  <Button variant="outline" size="sm">
-                    Download
-                  </Button>
-                </div>
+            <CardContent className="space-y-4">
+              <MessageComposer
+                chat={chat}
+                value={message}
+                onChange={(value) => {
+                  setMessage(value);
+                  notifyTyping(value.length > 0);
+                }}
+                disabled={isSending}
+              />
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleSendMessage}
+                  disabled={isSending || !message.trim()}
+                  size="sm"
+                  className="flex-1"
+                >
+                  {isSending ? "Sending..." : "Send Message"}
+                </Button>
               </div>
             </CardContent>
           </Card>
-        </>
-      )}
-
-      <div className="flex gap-2 pt-4 border-t">
-        {chat.status === "active" && (
-          <>
-            <Button variant="secondary">Escalate to Agent</Button>
-            <Button variant="outline">Join Chat</Button>
-            <Button 
-              variant="outline" 
-              onClick={handleRetry}
-              disabled={isRetrying}
-            >
-              {isRetrying ? "Retrying..." : "Retry Connection"}
-            </Button>
-          </>
-        )}
-        {chat.status === "missed" && (
-          <>
-            <Button variant="secondary">Reply via Email</Button>
-            <Button variant="outline">Schedule Callback</Button>
-          </>
         )}
+
+        {/* Additional sections for closed chats */}
         {chat.status === "closed" && (
           <>
-            <Button variant="outline">Export Transcript</Button>
-            <Button variant="outline">Reopen Chat</Button>
+            <Separator />
+          
+            {/* Call Recordings Section */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Call Recordings</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between p-2 border rounded">
+                    <span className="text-sm">Recording_2025-01-26_10:30.mp3</span>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm">
+                        Play
+                      </Button>
+                      <Button variant="outline" size="sm">
+                        Download
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">Duration: 4:32</p>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Uploaded Files Section */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Uploaded Files</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {uploadedFiles.length > 0 ? (
+                  <div className="space-y-2">
+                    {uploadedFiles.map((file) => (
+                      <div key={file.id} className="flex items-center justify-between p-2 border rounded">
+                        <span className="text-sm">{file.fileName}</span>
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={file.url} download={file.fileName}>Download</a>
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No files were shared in this chat.</p>
+                )}
+              </CardContent>
+            </Card>
           </>
         )}
+
+        <div className="flex gap-2 pt-4 border-t">
+          {chat.status === "active" && (
+            <>
+              <Button variant="secondary">Escalate to Agent</Button>
+              <Button variant="outline">Join Chat</Button>
+              <Button 
+                variant="outline" 
+                onClick={handleRetry}
+                disabled={isRetrying}
+              >
+                {isRetrying ? "Retrying..." : "Retry Connection"}
+              </Button>
+            </>
+          )}
+          {chat.status === "missed" && (
+            <>
+              <Button variant="secondary">Reply via Email</Button>
+              <Button variant="outline">Schedule Callback</Button>
+            </>
+          )}
+          {chat.status === "closed" && (
+            <Button variant="outline">Export Transcript</Button>
+          )}
+          {availableTransitions.map(to => (
+            <Button
+              key={to}
+              variant={to === "closed" || to === "archived" ? "outline" : "secondary"}
+              onClick={() => handleTransition(to)}
+              disabled={transitionChat.isPending}
+            >
+              {getTransitionLabel(chat.status, to)}
+            </Button>
+          ))}
+        </div>
       </div>
+      <aside>
+        <CustomerSidebar chat={chat} users={users} />
+      </aside>
     </div>
   );
 });
@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge";
+import { CHAT_STATUS_LABELS } from "@/lib/chat-lifecycle";
+import type { ChatStatus } from "@/types";
+
+const STATUS_VARIANTS: Record<ChatStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  active: "default",
+  "on-hold": "secondary",
+  resolved: "secondary",
+  closed: "secondary",
+  missed: "destructive",
+  archived: "outline",
+};
+
+interface ChatStatusBadgeProps {
+  status: ChatStatus;
+  className?: string;
+}
+
+export function ChatStatusBadge({ status, className }: ChatStatusBadgeProps) {
+  return (
+    <Badge variant={STATUS_VARIANTS[status] ?? "outline"} className={className}>
+      {CHAT_STATUS_LABELS[status] ?? status}
+    </Badge>
+  );
+}
@@ -0,0 +1,217 @@
+import { memo, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Chat, Message, User } from "@/types";
+import { useChatMessages } from "@/hooks/useApiQuery";
+import { cn } from "@/lib/utils";
+import { OPEN_CHAT_STATUSES } from "@/lib/chat-lifecycle";
+import {
+  AlertCircle,
+  Bot,
+  Check,
+  CheckCheck,
+  Clock,
+  Paperclip,
+  RotateCcw,
+} from "lucide-react";
+
+interface ChatTranscriptProps {
+  chat: Chat;
+  users: User[];
+  onRetryMessage?: (message: Message) => void;
+}
+
+const DeliveryIndicator = ({ status }: { status: Message["deliveryStatus"] }) => {
+  switch (status) {
+    case "sending":
+      return <Clock className="h-3 w-3" aria-label="Sending" />;
+    case "sent":
+      return <Check className="h-3 w-3" aria-label="Sent" />;
+    case "delivered":
+      return <CheckCheck className="h-3 w-3" aria-label="Delivered" />;
+    case "read":
+      return <CheckCheck className="h-3 w-3 text-primary" aria-label="Read" />;
+    case "failed":
+      return <AlertCircle className="h-3 w-3 text-destructive" aria-label="Failed" />;
+  }
+};
+
+const Attachments = ({ attachments }: { attachments: Message["attachments"] }) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-1">
+      {attachments.map((attachment) => (
+        <a
+          key={attachment.id}
+          href={attachment.url}
+          target="_blank"
+          rel="noreferrer"
+          className="flex items-center gap-1 text-xs underline underline-offset-2"
+        >
+          <Paperclip className="h-3 w-3" />
+          {attachment.fileName} ({attachment.sizeKb} KB)
+        </a>
+      ))}
+    </div>
+  );
+};
+
+export const ChatTranscript = memo<ChatTranscriptProps>(({ chat, users, onRetryMessage }) => {
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useChatMessages(chat.id);
+  const messages = data?.messages || [];
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const lastMessageId = messages[messages.length - 1]?.id;
+
+  // Keep the newest message in view as the conversation grows
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "nearest" });
+  }, [lastMessageId]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-12 w-2/3" />
+        <Skeleton className="h-12 w-2/3 ml-auto" />
+        <Skeleton className="h-12 w-1/2" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-sm text-destructive flex items-center gap-2">
+        <AlertCircle className="h-4 w-4" />
+        Failed to load transcript: {error.message}
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-96">
+      <div className="space-y-4 pr-4">
+        {hasNextPage && (
+          <div className="flex justify-center">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage ? "Loading..." : "Load earlier messages"}
+            </Button>
+          </div>
+        )}
+
+        {messages.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No messages in this conversation yet.
+          </p>
+        )}
+
+        {messages.map((message) => {
+          const time = new Date(message.createdAt).toLocaleTimeString();
+
+          if (message.senderType === "system") {
+            return (
+              <div key={message.id} className="flex justify-center">
+                <div className="bg-muted/50 px-3 py-1 rounded-full">
+                  <span className="text-xs text-muted-foreground">
+                    {message.body} · {time}
+                  </span>
+                </div>
+              </div>
+            );
+          }
+
+          if (message.senderType === "customer") {
+            return (
+              <div key={message.id} className="flex flex-col space-y-1">
+                <div className="flex items-center space-x-2">
+                  <Avatar className="h-6 w-6">
+                    <AvatarFallback>{message.senderName[0]}</AvatarFallback>
+                  </Avatar>
+                  <span className="text-sm font-medium">{message.senderName}</span>
+                  <span className="text-xs text-muted-foreground">{time}</span>
+                </div>
+                <div className="bg-muted p-3 rounded-lg max-w-xs ml-8">
+                  <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+                  <Attachments attachments={message.attachments} />
+                </div>
+              </div>
+            );
+          }
+
+          const agent = users.find(u => u.id === message.senderId);
+          const isAI = message.senderType === "ai";
+
+          return (
+            <div key={message.id} className="flex flex-col space-y-1 items-end">
+              <div className="flex items-center space-x-2">
+                <span className="text-xs text-muted-foreground flex items-center gap-1">
+                  {time}
+                  <DeliveryIndicator status={message.deliveryStatus} />
+                </span>
+                <span className="text-sm font-medium">{message.senderName}</span>
+                {isAI ? (
+                  <div className="h-6 w-6 rounded-full bg-primary/10 flex items-center justify-center">
+                    <Bot className="h-3 w-3 text-primary" />
+                  </div>
+                ) : (
+                  <Avatar className="h-6 w-6">
+                    <AvatarImage src={agent?.avatar || agent?.avatarUrl} />
+                    <AvatarFallback>
+                      {agent ? `${agent.firstName[0]}${agent.lastName[0]}` : message.senderName[0]}
+                    </AvatarFallback>
+                  </Avatar>
+                )}
+              </div>
+              <div
+                className={cn(
+                  "p-3 rounded-lg max-w-xs mr-8",
+                  isAI ? "bg-secondary text-secondary-foreground" : "bg-primary text-primary-foreground",
+                  message.deliveryStatus === "sending" && "opacity-70"
+                )}
+              >
+                <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+                <Attachments attachments={message.attachments} />
+              </div>
+              {message.deliveryStatus === "failed" && onRetryMessage && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 text-xs text-destructive"
+                  onClick={() => onRetryMessage(message)}
+                >
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Not delivered. Retry
+                </Button>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="flex justify-center">
+          <div className="bg-muted/50 px-3 py-1 rounded-full">
+            <span className="text-xs text-muted-foreground flex items-center gap-1">
+              <AlertCircle className="h-3 w-3" />
+              {OPEN_CHAT_STATUSES.has(chat.status) ? "Chat is ongoing" : "Chat ended"}
+            </span>
+          </div>
+        </div>
+        <div ref={bottomRef} />
+      </div>
+    </ScrollArea>
+  );
+});
+
+ChatTranscript.displayName = "ChatTranscript";
@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChatStatusBadge } from "@/components/admin/ChatStatusBadge";
+import { useAddCustomerNote, useCustomer, useCustomerChats, useUpdateCustomer } from "@/hooks/useApiQuery";
+import { getCustomerStats } from "@/lib/customers";
+import { Chat, User } from "@/types";
+import { Plus, StickyNote, Tag, UserCircle, X } from "lucide-react";
+
+interface CustomerSidebarProps {
+  chat: Chat;
+  users: User[];
+}
+
+export function CustomerSidebar({ chat, users }: CustomerSidebarProps) {
+  const customerId = chat.customerId ?? "";
+  const { data: customerResponse, isLoading } = useCustomer(chat.customerId);
+  const { data: chatsResponse } = useCustomerChats(chat.customerId);
+  const updateCustomer = useUpdateCustomer(customerId);
+  const addNote = useAddCustomerNote(customerId);
+
+  const [newTag, setNewTag] = useState("");
+  const [attributeKey, setAttributeKey] = useState("");
+  const [attributeValue, setAttributeValue] = useState("");
+  const [note, setNote] = useState("");
+
+  const customer = customerResponse?.data;
+  const customerChats = chatsResponse?.data || [];
+  const stats = getCustomerStats(customerChats);
+  const previousChats = customerChats.filter(previous => previous.id !== chat.id);
+
+  const userName = (userId: string) => {
+    const user = users.find(u => u.id === userId);
+    return user ? `${user.firstName} ${user.lastName}` : "Unknown user";
+  };
+
+  if (!chat.customerId) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-sm text-muted-foreground text-center">
+          This visitor left no email address or phone number, so no customer profile is linked.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isLoading || !customer) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  const handleAddTag = () => {
+    const tag = newTag.trim().toLowerCase();
+    if (!tag || customer.tags.includes(tag)) return;
+    updateCustomer.mutate({ tags: [...customer.tags, tag] });
+    setNewTag("");
+  };
+
+  const handleRemoveTag = (tag: string) => {
+    updateCustomer.mutate({ tags: customer.tags.filter(existing => existing !== tag) });
+  };
+
+  const handleAddAttribute = () => {
+    const key = attributeKey.trim();
+    if (!key || !attributeValue.trim()) return;
+    updateCustomer.mutate({ attributes: { ...customer.attributes, [key]: attributeValue.trim() } });
+    setAttributeKey("");
+    setAttributeValue("");
+  };
+
+  const handleRemoveAttribute = (key: string) => {
+    const { [key]: _removed, ...attributes } = customer.attributes;
+    updateCustomer.mutate({ attributes });
+  };
+
+  const handleAddNote = async () => {
+    if (!note.trim()) return;
+    try {
+      await addNote.mutateAsync(note.trim());
+      setNote("");
+    } catch {
+      // The mutation already reported the error; keep the draft
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center justify-between gap-2 text-base">
+            <span className="flex items-center gap-2">
+              <UserCircle className="h-4 w-4" />
+              {customer.name}
+            </span>
+            {stats.totalChats > 1 && <Badge variant="secondary">Returning</Badge>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <div className="text-muted-foreground">Chats</div>
+              <div className="font-medium">{stats.totalChats}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Open</div>
+              <div className="font-medium">{stats.openChats}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">First seen</div>
+              <div className="font-medium">
+                {stats.firstSeenAt ? new Date(stats.firstSeenAt).toLocaleDateString() : "—"}
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Last seen</div>
+              <div className="font-medium">
+                {stats.lastSeenAt ? new Date(stats.lastSeenAt).toLocaleDateString() : "—"}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            {customer.emails.map(email => (
+              <div key={email} className="truncate" title={email}>{email}</div>
+            ))}
+            {customer.phones.map(phone => (
+              <div key={phone} className="text-muted-foreground">{phone}</div>
+            ))}
+          </div>
+
+          {stats.agentIds.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-muted-foreground">Handled by</div>
+              <div className="flex flex-wrap gap-1">
+                {stats.agentIds.map(agentId => (
+                  <Badge key={agentId} variant="outline">{userName(agentId)}</Badge>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Tag className="h-4 w-4" />
+            Tags & Attributes
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <div className="flex flex-wrap gap-1">
+            {customer.tags.map(tag => (
+              <Badge key={tag} variant="secondary" className="gap-1">
+                {tag}
+                <button
+                  type="button"
+                  onClick={() => handleRemoveTag(tag)}
+                  aria-label={`Remove tag ${tag}`}
+                  className="rounded-full hover:text-destructive"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          <Input
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAddTag();
+              }
+            }}
+            placeholder="Add a tag and press Enter"
+            className="h-8"
+          />
+
+          <dl className="space-y-1">
+            {Object.entries(customer.attributes).map(([key, value]) => (
+              <div key={key} className="flex items-center justify-between gap-2">
+                <dt className="text-muted-foreground capitalize">{key}</dt>
+                <dd className="flex items-center gap-1 font-medium text-right">
+                  {value}
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveAttribute(key)}
+                    aria-label={`Remove ${key}`}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </dd>
+              </div>
+            ))}
+          </dl>
+          <div className="flex gap-2">
+            <Input
+              value={attributeKey}
+              onChange={(e) => setAttributeKey(e.target.value)}
+              placeholder="Attribute"
+              className="h-8"
+            />
+            <Input
+              value={attributeValue}
+              onChange={(e) => setAttributeValue(e.target.value)}
+              placeholder="Value"
+              className="h-8"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleAddAttribute}
+              disabled={!attributeKey.trim() || !attributeValue.trim()}
+              aria-label="Add attribute"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <StickyNote className="h-4 w-4" />
+            Notes
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          {[...customer.notes].reverse().map(existing => (
+            <div key={existing.id} className="rounded border p-2">
+              <p>{existing.body}</p>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {userName(existing.authorId)} · {new Date(existing.createdAt).toLocaleString()}
+              </p>
+            </div>
+          ))}
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Add a note for other agents..."
+            rows={2}
+          />
+          <Button size="sm" onClick={handleAddNote} disabled={!note.trim() || addNote.isPending}>
+            {addNote.isPending ? "Saving..." : "Add Note"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Previous Conversations</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          {previousChats.length === 0 ? (
+            <p className="text-muted-foreground">This is the customer's first conversation.</p>
+          ) : (
+            previousChats.map(previous => (
+              <Link
+                key={previous.id}
+                to={`/chats/all?chat=${previous.id}`}
+                className="block rounded border p-2 hover:bg-accent"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{new Date(previous.createdAt).toLocaleDateString()}</span>
+                  <ChatStatusBadge status={previous.status} />
+                </div>
+                {previous.summary && (
+                  <p className="mt-1 text-xs text-muted-foreground line-clamp-2">{previous.summary}</p>
+                )}
+              </Link>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DocumentStatusBadge } from "@/components/admin/DocumentStatusBadge";
+import { useDocumentChunks, useDocumentFile, useDocumentText, useReindexDocument, useUsers } from "@/hooks/useApiQuery";
+import { usePermission } from "@/hooks/usePermission";
+import { PENDING_INGESTION_STATUSES } from "@/lib/document-ingestion";
+import { Document } from "@/types";
+import { Download, RefreshCw } from "lucide-react";
+
+interface DocumentDetailSheetProps {
+  /** Document to show; the drawer is closed while this is null */
+  document: Document | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDate = (value?: string) => value ? new Date(value).toLocaleString() : "—";
+
+/** Why there is nothing extracted yet, for the text and chunk tabs */
+function notIndexedMessage(document: Document): string {
+  if (PENDING_INGESTION_STATUSES.has(document.ingestionStatus)) {
+    return "The document is still being processed. Its text appears here once it is indexed.";
+  }
+  if (document.ingestionStatus === "failed") {
+    return `No text was extracted: ${document.ingestionError ?? "ingestion failed"}`;
+  }
+  return "No text was extracted from this document.";
+}
+
+function DocumentPreview({ document }: { document: Document }) {
+  const { data: file, isLoading, error } = useDocumentFile(document.id);
+  const [fileUrl, setFileUrl] = useState<string>();
+  const [fileText, setFileText] = useState<string>();
+
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setFileUrl(url);
+    if (file.type.startsWith("text/")) file.text().then(setFileText);
+    return () => {
+      URL.revokeObjectURL(url);
+      setFileUrl(undefined);
+      setFileText(undefined);
+    };
+  }, [file]);
+
+  if (isLoading) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  if (error || !file) {
+    return (
+      <p className="py-12 text-center text-sm text-muted-foreground">
+        The original file is not stored for this document. Its extracted text is still available.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        {fileUrl && (
+          <Button variant="outline" size="sm" asChild>
+            <a href={fileUrl} download={document.title}>
+              <Download className="mr-2 h-4 w-4" />
+              Download
+            </a>
+          </Button>
+        )}
+      </div>
+      {file.type === "application/pdf" && fileUrl ? (
+        <iframe src={fileUrl} title={document.title} className="h-[60vh] w-full rounded border" />
+      ) : fileText !== undefined ? (
+        <pre className="max-h-[60vh] overflow-auto whitespace-pre-wrap rounded border bg-muted/30 p-4 text-sm">{fileText}</pre>
+      ) : (
+        <p className="py-12 text-center text-sm text-muted-foreground">
+          {document.fileType} files cannot be previewed in the browser. Download the file or check its extracted text.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function DocumentDetailSheet({ document, onOpenChange }: DocumentDetailSheetProps) {
+  const [tab, setTab] = useState("details");
+  const { data: usersResponse } = useUsers();
+  const { data: chunksResponse, isLoading: chunksLoading } = useDocumentChunks(document ?? undefined);
+  const { data: textResponse, isLoading: textLoading } = useDocumentText(document ?? undefined);
+
+  const users = usersResponse?.data || [];
+  const chunks = chunksResponse?.data || [];
+  const text = textResponse?.data.text;
+  const totalTokens = chunks.reduce((sum, chunk) => sum + chunk.tokenCount, 0);
+
+  const uploader = users.find(user => user.id === document?.uploadedById);
+  const canManage = usePermission('content:manage');
+  const reindex = useReindexDocument();
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setTab("details");
+    onOpenChange(open);
+  };
+
+  return (
+    <Sheet open={!!document} onOpenChange={handleOpenChange}>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        {document && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="pr-6 break-all">{document.title}</SheetTitle>
+              <SheetDescription className="flex items-center gap-2">
+                <DocumentStatusBadge status={document.ingestionStatus} />
+                <span>{document.fileType} · {document.fileSizeKb} KB</span>
+                {canManage && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="ml-auto gap-1"
+                    disabled={reindex.isPending || PENDING_INGESTION_STATUSES.has(document.ingestionStatus)}
+                    onClick={() => reindex.mutate(document.id)}
+                  >
+                    <RefreshCw className="h-3 w-3" />
+                    Re-index
+                  </Button>
+                )}
+              </SheetDescription>
+            </SheetHeader>
+
+            <Tabs value={tab} onValueChange={setTab} className="mt-6">
+              <TabsList>
+                <TabsTrigger value="details">Details</TabsTrigger>
+                <TabsTrigger value="preview">Preview</TabsTrigger>
+                <TabsTrigger value="text">Extracted Text</TabsTrigger>
+                <TabsTrigger value="chunks">Chunks ({chunks.length})</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="details">
+                <dl className="grid grid-cols-[10rem_1fr] gap-x-4 gap-y-3 text-sm">
+                  <dt className="text-muted-foreground">Uploaded by</dt>
+                  <dd>{uploader ? `${uploader.firstName} ${uploader.lastName}` : document.uploadedById}</dd>
+                  <dt className="text-muted-foreground">Uploaded</dt>
+                  <dd>{formatDate(document.uploadedAt)}</dd>
+                  <dt className="text-muted-foreground">Last modified</dt>
+                  <dd>{formatDate(document.lastModifiedAt)}</dd>
+                  <dt className="text-muted-foreground">Indexed</dt>
+                  <dd>{formatDate(document.indexedAt)}</dd>
+                  <dt className="text-muted-foreground">Characters</dt>
+                  <dd>{document.characterCount?.toLocaleString() ?? "—"}</dd>
+                  <dt className="text-muted-foreground">Chunks</dt>
+                  <dd>{document.chunkCount ?? "—"}</dd>
+                  <dt className="text-muted-foreground">Tokens (approx.)</dt>
+                  <dd>{chunks.length > 0 ? totalTokens.toLocaleString() : "—"}</dd>
+                  {document.ingestionError && (
+                    <>
+                      <dt className="text-muted-foreground">Error</dt>
+                      <dd className="text-destructive">{document.ingestionError}</dd>
+                    </>
+                  )}
+                </dl>
+              </TabsContent>
+
+              <TabsContent value="preview">
+                {tab === "preview" && <DocumentPreview document={document} />}
+              </TabsContent>
+
+              <TabsContent value="text">
+                {textLoading ? (
+                  <Skeleton className="h-96 w-full" />
+                ) : text ? (
+                  <pre className="max-h-[70vh] overflow-auto whitespace-pre-wrap rounded border bg-muted/30 p-4 text-sm">{text}</pre>
+                ) : (
+                  <p className="py-12 text-center text-sm text-muted-foreground">{notIndexedMessage(document)}</p>
+                )}
+              </TabsContent>
+
+              <TabsContent value="chunks" className="space-y-3">
+                {chunksLoading ? (
+                  <Skeleton className="h-96 w-full" />
+                ) : chunks.length === 0 ? (
+                  <p className="py-12 text-center text-sm text-muted-foreground">{notIndexedMessage(document)}</p>
+                ) : (
+                  <>
+                    <p className="text-sm text-muted-foreground">
+                      The AI agent retrieves these passages when answering. Neighbouring chunks overlap slightly so
+                      no sentence is lost at a boundary.
+                    </p>
+                    {chunks.map(chunk => (
+                      <div key={chunk.id} className="rounded border p-3 text-sm">
+                        <div className="mb-2 flex items-center justify-between text-xs text-muted-foreground">
+                          <span className="font-medium">Chunk {chunk.index + 1}</span>
+                          <span>{chunk.tokenCount} tokens · {chunk.text.length} characters</span>
+                        </div>
+                        <p className="whitespace-pre-wrap">{chunk.text}</p>
+                      </div>
+                    ))}
+                  </>
+                )}
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,25 @@
+import { Badge } from "@/components/ui/badge";
+import { INGESTION_STATUS_LABELS, PENDING_INGESTION_STATUSES } from "@/lib/document-ingestion";
+import type { DocumentIngestionStatus } from "@/types";
+import { Loader2 } from "lucide-react";
+
+const STATUS_VARIANTS: Record<DocumentIngestionStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  parsing: "secondary",
+  indexed: "default",
+  failed: "destructive",
+};
+
+interface DocumentStatusBadgeProps {
+  status: DocumentIngestionStatus;
+  className?: string;
+}
+
+export function DocumentStatusBadge({ status, className }: DocumentStatusBadgeProps) {
+  return (
+    <Badge variant={STATUS_VARIANTS[status] ?? "outline"} className={className}>
+      {PENDING_INGESTION_STATUSES.has(status) && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+      {INGESTION_STATUS_LABELS[status] ?? status}
+    </Badge>
+  );
+}
@@ -0,0 +1,177 @@
+import { useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useUploadDocument } from "@/hooks/useApiQuery";
+import { formatFileSize, validateUploadFile } from "@/lib/document-ingestion";
+import config from "@/lib/config";
+import { cn } from "@/lib/utils";
+import { CheckCircle2, FileText, Upload, X, XCircle } from "lucide-react";
+
+type QueuedFileStatus = "pending" | "uploading" | "uploaded" | "failed";
+
+interface QueuedFile {
+  id: string;
+  file: File;
+  status: QueuedFileStatus;
+  /** Upload progress from 0 to 100 */
+  progress: number;
+  error?: string;
+}
+
+interface DocumentUploadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+let nextQueueId = 0;
+
+export function DocumentUploadDialog({ open, onOpenChange }: DocumentUploadDialogProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [queue, setQueue] = useState<QueuedFile[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const uploadDocument = useUploadDocument();
+
+  const pendingCount = queue.filter(item => item.status === "pending").length;
+
+  const updateItem = (id: string, changes: Partial<QueuedFile>) => {
+    setQueue(current => current.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  // Files that fail validation stay in the list with the reason and are never sent
+  const addFiles = (files: FileList | null) => {
+    if (!files) return;
+    const added = Array.from(files).map((file): QueuedFile => {
+      const error = validateUploadFile(file);
+      return {
+        id: `upload_${nextQueueId++}`,
+        file,
+        status: error ? "failed" : "pending",
+        progress: 0,
+        error: error ?? undefined,
+      };
+    });
+    setQueue(current => [...current, ...added]);
+  };
+
+  // One file at a time, so a large file does not starve the others of bandwidth
+  const handleUpload = async () => {
+    setIsUploading(true);
+    for (const item of queue.filter(queued => queued.status === "pending")) {
+      updateItem(item.id, { status: "uploading" });
+      try {
+        await uploadDocument.mutateAsync({
+          file: item.file,
+          onProgress: (fraction) => updateItem(item.id, { progress: Math.round(fraction * 100) }),
+        });
+        updateItem(item.id, { status: "uploaded", progress: 100 });
+      } catch (error) {
+        updateItem(item.id, {
+          status: "failed",
+          error: error instanceof Error ? error.message : "Upload failed",
+        });
+      }
+    }
+    setIsUploading(false);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isUploading) return;
+    if (!nextOpen) setQueue([]);
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Upload Documents</DialogTitle>
+          <DialogDescription>
+            Text is extracted from each document and indexed for the AI agent once the upload finishes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          role="button"
+          tabIndex={0}
+          onClick={() => inputRef.current?.click()}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" || e.key === " ") {
+              e.preventDefault();
+              inputRef.current?.click();
+            }
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            addFiles(e.dataTransfer.files);
+          }}
+          className={cn(
+            "flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-8 text-center cursor-pointer transition-colors",
+            isDragging ? "border-primary bg-primary/5" : "border-muted-foreground/25 hover:border-primary/50"
+          )}
+        >
+          <Upload className="h-8 w-8 text-muted-foreground" />
+          <p className="text-sm font-medium">Drop files here or click to browse</p>
+          <p className="text-xs text-muted-foreground">
+            {config.ui.supportedFileTypes.join(", ")} · up to {formatFileSize(config.ui.maxFileUploadSize)} each
+          </p>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept={config.ui.supportedFileTypes.join(",")}
+            className="hidden"
+            onChange={(e) => {
+              addFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+        </div>
+
+        {queue.length > 0 && (
+          <ul className="max-h-64 space-y-2 overflow-y-auto">
+            {queue.map(item => (
+              <li key={item.id} className="rounded border p-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <span className="flex-1 truncate" title={item.file.name}>{item.file.name}</span>
+                  <span className="text-xs text-muted-foreground">{formatFileSize(item.file.size)}</span>
+                  {item.status === "uploaded" && <CheckCircle2 className="h-4 w-4 text-green-600" />}
+                  {item.status === "failed" && <XCircle className="h-4 w-4 text-destructive" />}
+                  {(item.status === "pending" || item.status === "failed") && !isUploading && (
+                    <button
+                      type="button"
+                      onClick={() => setQueue(current => current.filter(queued => queued.id !== item.id))}
+                      aria-label={`Remove ${item.file.name}`}
+                      className="text-muted-foreground hover:text-destructive"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+                {item.status === "uploading" && <Progress value={item.progress} className="mt-2 h-1.5" />}
+                {item.error && <p className="mt-1 text-xs text-destructive">{item.error}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isUploading}>
+            {queue.some(item => item.status === "uploaded") ? "Done" : "Cancel"}
+          </Button>
+          <Button onClick={handleUpload} disabled={isUploading || pendingCount === 0}>
+            {isUploading ? "Uploading..." : `Upload${pendingCount > 0 ? ` ${pendingCount} file${pendingCount === 1 ? "" : "s"}` : ""}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
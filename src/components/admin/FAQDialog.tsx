@@ -0,0 +1,145 @@
+import { useEffect } from "react";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { MarkdownEditor } from "@/components/admin/MarkdownEditor";
+import { TagInput } from "@/components/admin/TagInput";
+import { useCreateFAQ, useUpdateFAQ } from "@/hooks/useApiQuery";
+import { faqSchema, type FAQFormValues, type FAQInput } from "@/lib/validations";
+import type { FAQ } from "@/types";
+
+interface FAQDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** FAQ to edit; a new FAQ is created when absent */
+  faq?: FAQ | null;
+  /** Categories and tags already in use, offered as suggestions */
+  categories: string[];
+  tags: string[];
+}
+
+const toFormValues = (faq?: FAQ | null): FAQFormValues => ({
+  question: faq?.question ?? "",
+  answer: faq?.answer ?? "",
+  category: faq?.category ?? "",
+  tags: faq?.tags ?? [],
+  status: faq?.status ?? "draft",
+});
+
+export function FAQDialog({ open, onOpenChange, faq, categories, tags }: FAQDialogProps) {
+  const createFAQ = useCreateFAQ();
+  const updateFAQ = useUpdateFAQ();
+  const isSaving = createFAQ.isPending || updateFAQ.isPending;
+
+  const form = useForm<FAQFormValues, unknown, FAQInput>({
+    resolver: zodResolver(faqSchema),
+    defaultValues: toFormValues(faq),
+  });
+  const { errors } = form.formState;
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(faq));
+  }, [open, faq, form]);
+
+  const handleSave = async (values: FAQInput) => {
+    try {
+      if (faq) {
+        await updateFAQ.mutateAsync({ faqId: faq.id, data: values });
+      } else {
+        await createFAQ.mutateAsync(values);
+      }
+      onOpenChange(false);
+    } catch {
+      // The mutation already reported the error; keep the form open
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{faq ? "Edit FAQ" : "New FAQ"}</DialogTitle>
+          <DialogDescription>
+            Answers support markdown. Drafts are kept out of the widget and AI answers until they are published.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="faq-form" onSubmit={form.handleSubmit(handleSave)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="faq-question">Question</Label>
+            <Input id="faq-question" placeholder="How do I reset my password?" {...form.register("question")} />
+            {errors.question && <p className="text-sm text-destructive">{errors.question.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="faq-answer">Answer</Label>
+            <Controller
+              control={form.control}
+              name="answer"
+              render={({ field }) => (
+                <MarkdownEditor
+                  id="faq-answer"
+                  value={field.value}
+                  onChange={field.onChange}
+                  onBlur={field.onBlur}
+                  placeholder="Use **bold**, lists and [links](https://example.com)"
+                />
+              )}
+            />
+            {errors.answer && <p className="text-sm text-destructive">{errors.answer.message}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="faq-category">Category</Label>
+              <Input id="faq-category" list="faq-categories" placeholder="General" {...form.register("category")} />
+              <datalist id="faq-categories">
+                {categories.map(category => <option key={category} value={category} />)}
+              </datalist>
+              {errors.category && <p className="text-sm text-destructive">{errors.category.message}</p>}
+            </div>
+            <div className="flex items-end justify-between gap-2 pb-2">
+              <Label htmlFor="faq-published">Published</Label>
+              <Controller
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <Switch
+                    id="faq-published"
+                    checked={field.value === "published"}
+                    onCheckedChange={(checked) => field.onChange(checked ? "published" : "draft")}
+                  />
+                )}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="faq-tags">Tags</Label>
+            <Controller
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <TagInput id="faq-tags" value={field.value ?? []} onChange={field.onChange} suggestions={tags} />
+              )}
+            />
+            {errors.tags && <p className="text-sm text-destructive">{errors.tags.message}</p>}
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="submit" form="faq-form" disabled={isSaving}>
+            {isSaving ? "Saving..." : faq ? "Save Changes" : "Create FAQ"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,133 @@
+import { useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useImportFAQs } from "@/hooks/useApiQuery";
+import { FAQ_TRANSFER_COLUMNS, getFAQFileFormat, parseFAQFile, type FAQImportResult } from "@/lib/faqs";
+import { FileText, Upload } from "lucide-react";
+
+interface FAQImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Enough rows to spot a wrong column mapping without flooding the dialog
+const PREVIEW_ROWS = 5;
+
+export function FAQImportDialog({ open, onOpenChange }: FAQImportDialogProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<FAQImportResult | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const importFAQs = useImportFAQs();
+
+  const reset = () => {
+    setFileName(null);
+    setResult(null);
+    setFileError(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    reset();
+    setFileName(file.name);
+    const format = getFAQFileFormat(file.name);
+    if (!format) {
+      setFileError("Choose a .csv or .json file");
+      return;
+    }
+    try {
+      setResult(parseFAQFile(await file.text(), format));
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : "The file could not be read");
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (importFAQs.isPending) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleImport = async () => {
+    if (!result) return;
+    try {
+      await importFAQs.mutateAsync(result.faqs);
+      handleOpenChange(false);
+    } catch {
+      // The mutation already reported the error; keep the dialog open
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import FAQs</DialogTitle>
+          <DialogDescription>
+            CSV or JSON with the columns {FAQ_TRANSFER_COLUMNS.join(", ")}. Separate tags with semicolons.
+            A FAQ whose question already exists is updated; rows without a status are imported as drafts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(event) => {
+              void handleFile(event.target.files?.[0]);
+              event.target.value = "";
+            }}
+          />
+          <Button variant="outline" className="w-full gap-2" onClick={() => inputRef.current?.click()}>
+            {fileName ? <FileText className="h-4 w-4" /> : <Upload className="h-4 w-4" />}
+            {fileName ?? "Choose file"}
+          </Button>
+
+          {fileError && (
+            <Alert variant="destructive">
+              <AlertDescription>{fileError}</AlertDescription>
+            </Alert>
+          )}
+
+          {result && (
+            <div className="space-y-3 text-sm">
+              <p>
+                {result.faqs.length} {result.faqs.length === 1 ? "FAQ" : "FAQs"} ready to import
+                {result.errors.length > 0 && `, ${result.errors.length} ${result.errors.length === 1 ? "row" : "rows"} skipped`}.
+              </p>
+              {result.faqs.length > 0 && (
+                <ul className="space-y-1 rounded-md border p-3">
+                  {result.faqs.slice(0, PREVIEW_ROWS).map((faq, index) => (
+                    <li key={index} className="truncate">
+                      <span className="text-muted-foreground">{faq.category} ·</span> {faq.question}
+                    </li>
+                  ))}
+                  {result.faqs.length > PREVIEW_ROWS && (
+                    <li className="text-muted-foreground">and {result.faqs.length - PREVIEW_ROWS} more</li>
+                  )}
+                </ul>
+              )}
+              {result.errors.length > 0 && (
+                <ul className="max-h-32 space-y-1 overflow-y-auto text-destructive">
+                  {result.errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={!result?.faqs.length || importFAQs.isPending} onClick={handleImport}>
+            {importFAQs.isPending ? "Importing..." : `Import ${result?.faqs.length ?? 0} FAQs`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
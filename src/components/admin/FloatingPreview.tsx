@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Eye, X, Maximize2, Minimize2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { WidgetPreview } from "@/components/admin/WidgetPreview";
 
 export function FloatingPreview() {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -25,9 +26,9 @@ export function FloatingPreview() {
     <div className={`fixed z-50 bg-background border rounded-lg shadow-lg ${
       isMaximized 
         ? "top-4 left-4 right-4 bottom-4" 
-        : "bottom-6 right-6 w-96 h-64"
+        : "bottom-6 right-6 w-[420px] h-[640px] max-h-[calc(100vh-3rem)]"
     }`}>
-      <Card className="h-full">
+      <Card className="h-full flex flex-col">
         <CardHeader className="flex flex-row items-center justify-between pb-2">
           <CardTitle className="text-sm">Live Preview</CardTitle>
           <div className="flex items-center gap-1">
@@ -53,14 +54,8 @@ export function FloatingPreview() {
             </Button>
           </div>
         </CardHeader>
-        <CardContent className="p-2">
-          <div className="w-full h-full bg-muted rounded border-2 border-dashed border-border flex items-center justify-center">
-            <div className="text-center text-muted-foreground">
-              <Eye className="h-8 w-8 mx-auto mb-2" />
-              <p className="text-sm">Widget Preview</p>
-              <p className="text-xs">Live customer view</p>
-            </div>
-          </div>
+        <CardContent className="p-2 flex-1 min-h-0">
+          <WidgetPreview className="h-full" />
         </CardContent>
       </Card>
     </div>
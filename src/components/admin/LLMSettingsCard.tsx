@@ -0,0 +1,200 @@
+import { useEffect } from "react";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useLLMSettings, useTestLLMConnection, useUpdateLLMSettings } from "@/hooks/useApiQuery";
+import { getLLMProvider, LLM_PROVIDERS } from "@/lib/llm";
+import { llmSettingsSchema, type LLMSettingsFormValues, type LLMSettingsInput } from "@/lib/validations";
+import type { LLMProviderId, LLMSettings } from "@/types";
+import { CheckCircle, XCircle } from "lucide-react";
+
+// Select items cannot have an empty value
+const NO_FALLBACK = "none";
+
+const toFormValues = (settings: LLMSettings): LLMSettingsFormValues => ({
+  provider: settings.provider,
+  model: settings.model,
+  endpoint: settings.endpoint ?? "",
+  temperature: settings.temperature,
+  maxTokens: settings.maxTokens,
+  fallbackModel: settings.fallbackModel ?? "",
+  apiKey: "",
+});
+
+/** The organization's language model: provider, model, connection and generation limits */
+export function LLMSettingsCard() {
+  const { data: settingsResponse, isLoading } = useLLMSettings();
+  const updateSettings = useUpdateLLMSettings();
+  const testConnection = useTestLLMConnection();
+  const settings = settingsResponse?.data;
+
+  const form = useForm<LLMSettingsFormValues, unknown, LLMSettingsInput>({
+    resolver: zodResolver(llmSettingsSchema),
+  });
+  const { errors } = form.formState;
+
+  // Load the saved settings once they arrive and after each save, which also clears the typed key
+  useEffect(() => {
+    if (settings) form.reset(toFormValues(settings));
+  }, [settings, form]);
+
+  const provider = getLLMProvider(form.watch("provider") ?? settings?.provider);
+  const model = form.watch("model");
+  // A model saved by hand stays selectable
+  const models = model && !provider.models.includes(model) ? [...provider.models, model] : provider.models;
+  // The saved key is only reused for the provider and endpoint it was saved with
+  const endpoint = (form.watch("endpoint") ?? "").trim().replace(/\/+$/, "");
+  const keptKey = settings?.hasApiKey && settings.provider === provider.id && (settings.endpoint ?? "") === endpoint
+    ? settings.apiKeyPreview
+    : undefined;
+  const testResult = testConnection.data?.data;
+
+  const handleProviderChange = (id: LLMProviderId) => {
+    const next = getLLMProvider(id);
+    form.setValue("provider", id, { shouldDirty: true });
+    form.setValue("model", next.models[0], { shouldDirty: true });
+    form.setValue("fallbackModel", "", { shouldDirty: true });
+    form.setValue("endpoint", "", { shouldDirty: true });
+    testConnection.reset();
+  };
+
+  if (isLoading || !settings) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Language Model</CardTitle>
+        <CardDescription>Used for reply suggestions and other assistant features</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={form.handleSubmit(data => updateSettings.mutate(data))} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="llm-provider">Provider</Label>
+              <Controller
+                control={form.control}
+                name="provider"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={(value) => handleProviderChange(value as LLMProviderId)}>
+                    <SelectTrigger id="llm-provider">
+                      <SelectValue placeholder="Select a provider" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LLM_PROVIDERS.map(option => (
+                        <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="llm-model">Model</Label>
+              <Controller
+                control={form.control}
+                name="model"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger id="llm-model">
+                      <SelectValue placeholder="Select a model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {models.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              {errors.model && <p className="text-sm text-destructive">{errors.model.message}</p>}
+            </div>
+          </div>
+
+          {provider.requiresApiKey && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="llm-api-key">API Key</Label>
+                <Input
+                  id="llm-api-key"
+                  type="password"
+                  autoComplete="off"
+                  placeholder={keptKey ? `Saved key ${keptKey}; type a new one to replace it` : "Enter your API key"}
+                  {...form.register("apiKey")}
+                />
+                {errors.apiKey && <p className="text-sm text-destructive">{errors.apiKey.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="llm-endpoint">Endpoint</Label>
+                <Input id="llm-endpoint" placeholder={provider.defaultEndpoint} {...form.register("endpoint")} />
+                {errors.endpoint && <p className="text-sm text-destructive">{errors.endpoint.message}</p>}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="llm-temperature">Temperature</Label>
+              <Input id="llm-temperature" type="number" min={0} max={2} step={0.1} {...form.register("temperature")} />
+              {errors.temperature && <p className="text-sm text-destructive">{errors.temperature.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="llm-max-tokens">Max Tokens</Label>
+              <Input id="llm-max-tokens" type="number" min={16} max={8192} {...form.register("maxTokens")} />
+              {errors.maxTokens && <p className="text-sm text-destructive">{errors.maxTokens.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="llm-fallback">Fallback Model</Label>
+              <Controller
+                control={form.control}
+                name="fallbackModel"
+                render={({ field }) => (
+                  <Select
+                    value={field.value || NO_FALLBACK}
+                    onValueChange={(value) => field.onChange(value === NO_FALLBACK ? "" : value)}
+                  >
+                    <SelectTrigger id="llm-fallback">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_FALLBACK}>None</SelectItem>
+                      {models.filter(option => option !== model).map(option => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              {errors.fallbackModel && <p className="text-sm text-destructive">{errors.fallbackModel.message}</p>}
+            </div>
+          </div>
+
+          {testResult && (
+            <div className={`flex items-center gap-2 text-sm ${testResult.ok ? "text-green-600" : "text-destructive"}`}>
+              {testResult.ok ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+              <span>{testResult.message} ({testResult.latencyMs} ms)</span>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              disabled={testConnection.isPending}
+              onClick={form.handleSubmit(data => testConnection.mutate(data))}
+            >
+              {testConnection.isPending ? "Testing..." : "Test Connection"}
+            </Button>
+            <Button type="submit" disabled={!form.formState.isDirty || updateSettings.isPending}>
+              {updateSettings.isPending ? "Saving..." : "Save Model Settings"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,107 @@
+import { useRef, useState } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Markdown } from "@/components/common/Markdown";
+import { Bold, Code, Italic, Link, List, ListOrdered } from "lucide-react";
+
+interface MarkdownEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+  placeholder?: string;
+  rows?: number;
+}
+
+interface Formatting {
+  label: string;
+  icon: typeof Bold;
+  before: string;
+  after?: string;
+  /** Inserted when nothing is selected */
+  placeholder: string;
+  /** Applied at the start of each selected line instead of around the selection */
+  linePrefix?: boolean;
+}
+
+const FORMATTING: Formatting[] = [
+  { label: "Bold", icon: Bold, before: "**", after: "**", placeholder: "bold text" },
+  { label: "Italic", icon: Italic, before: "*", after: "*", placeholder: "italic text" },
+  { label: "Inline code", icon: Code, before: "`", after: "`", placeholder: "code" },
+  { label: "Link", icon: Link, before: "[", after: "](https://)", placeholder: "link text" },
+  { label: "Bulleted list", icon: List, before: "- ", placeholder: "List item", linePrefix: true },
+  { label: "Numbered list", icon: ListOrdered, before: "1. ", placeholder: "List item", linePrefix: true },
+];
+
+/** Textarea with formatting buttons and a rendered preview, for markdown fields */
+export function MarkdownEditor({ id, value, onChange, onBlur, placeholder, rows = 8 }: MarkdownEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [tab, setTab] = useState("write");
+
+  const applyFormatting = ({ before, after = "", placeholder: fallback, linePrefix }: Formatting) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const selected = value.slice(start, end) || fallback;
+    const replacement = linePrefix
+      ? selected.split("\n").map(line => before + line).join("\n")
+      : before + selected + after;
+    onChange(value.slice(0, start) + replacement + value.slice(end));
+
+    // Select the inserted text once React has rendered the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      const selectionStart = linePrefix ? start : start + before.length;
+      textarea.setSelectionRange(selectionStart, selectionStart + (linePrefix ? replacement.length : selected.length));
+    });
+  };
+
+  return (
+    <Tabs value={tab} onValueChange={setTab}>
+      <div className="flex items-center justify-between gap-2">
+        <TabsList>
+          <TabsTrigger value="write">Write</TabsTrigger>
+          <TabsTrigger value="preview">Preview</TabsTrigger>
+        </TabsList>
+        {tab === "write" && (
+          <div className="flex">
+            {FORMATTING.map(formatting => (
+              <Button
+                key={formatting.label}
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                aria-label={formatting.label}
+                title={formatting.label}
+                onClick={() => applyFormatting(formatting)}
+              >
+                <formatting.icon className="h-4 w-4" />
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+      <TabsContent value="write">
+        <Textarea
+          ref={textareaRef}
+          id={id}
+          rows={rows}
+          value={value}
+          placeholder={placeholder}
+          className="font-mono text-sm"
+          onChange={(event) => onChange(event.target.value)}
+          onBlur={onBlur}
+        />
+      </TabsContent>
+      <TabsContent value="preview">
+        <div className="min-h-40 rounded-md border p-3">
+          {value.trim()
+            ? <Markdown source={value} />
+            : <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>}
+        </div>
+      </TabsContent>
+    </Tabs>
+  );
+}
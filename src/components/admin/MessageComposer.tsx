@@ -0,0 +1,171 @@
+import { useMemo, useRef, useState, type KeyboardEvent } from "react";
+import { Link } from "react-router-dom";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Command, CommandEmpty, CommandGroup, CommandItem, CommandList } from "@/components/ui/command";
+import { useAuth } from "@/hooks/useAuth";
+import { useRecordResourceUsage, useRecordSavedReplyUse, useResources, useSavedReplies } from "@/hooks/useApiQuery";
+import { getSavedReplyValues, matchSavedReplies, renderSavedReply } from "@/lib/saved-replies";
+import { renderTemplate } from "@/lib/resources";
+import type { Chat } from "@/types";
+
+interface MessageComposerProps {
+  chat: Chat;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+interface PaletteOption {
+  /** Unique across replies and templates, used as the cmdk item value */
+  key: string;
+  label: string;
+  shortcut?: string;
+  isPersonal?: boolean;
+  text: string;
+  onInsert: () => void;
+}
+
+// Enough to pick from without covering the transcript
+const MAX_OPTIONS = 8;
+
+/** A slash at the start of the text or after a space, followed by what has been typed up to the caret */
+function findSlashCommand(text: string, caret: number): { start: number; query: string } | null {
+  const match = /(^|\s)\/([\w-]*)$/.exec(text.slice(0, caret));
+  return match ? { start: match.index + match[1].length, query: match[2] } : null;
+}
+
+/** Message textarea where typing `/` offers saved replies and template resources */
+export function MessageComposer({ chat, value, onChange, disabled }: MessageComposerProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [dismissedAt, setDismissedAt] = useState<number | null>(null);
+  const [selected, setSelected] = useState("");
+  const { user } = useAuth();
+  const { data: repliesResponse } = useSavedReplies();
+  const { data: resourcesResponse } = useResources();
+  const recordReplyUse = useRecordSavedReplyUse();
+  const recordResourceUsage = useRecordResourceUsage();
+
+  const slash = findSlashCommand(value, caret);
+  const isOpen = !!slash && slash.start !== dismissedAt && !disabled;
+  const values = useMemo(() => getSavedReplyValues(chat, user), [chat, user]);
+
+  const insert = (text: string) => {
+    if (!slash) return;
+    const next = value.slice(0, slash.start) + text + value.slice(caret);
+    const position = slash.start + text.length;
+    onChange(next);
+    setCaret(position);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const options: PaletteOption[] = [];
+  if (isOpen) {
+    matchSavedReplies(repliesResponse?.data || [], slash.query).slice(0, MAX_OPTIONS).forEach(reply => {
+      const text = renderSavedReply(reply.body, values);
+      options.push({
+        key: `reply:${reply.id}`,
+        label: reply.title,
+        shortcut: reply.shortcut,
+        isPersonal: reply.scope === "personal",
+        text,
+        onInsert: () => {
+          insert(text);
+          recordReplyUse.mutate(reply.id);
+        },
+      });
+    });
+    const query = slash.query.toLowerCase();
+    (resourcesResponse?.data || [])
+      .filter(resource => resource.type === "template" && resource.title.toLowerCase().includes(query))
+      .slice(0, MAX_OPTIONS)
+      .forEach(resource => {
+        const defaults = Object.fromEntries((resource.templateVariables ?? []).map(variable => [variable.name, variable.defaultValue]));
+        const text = renderTemplate(resource.templateBody ?? "", defaults);
+        options.push({
+          key: `template:${resource.id}`,
+          label: resource.title,
+          text,
+          onInsert: () => {
+            insert(text);
+            recordResourceUsage.mutate({ resourceId: resource.id, data: { chatId: chat.id } });
+          },
+        });
+      });
+  }
+  const active = options.find(option => option.key === selected) ?? options[0];
+
+  // Focus stays in the textarea, so the palette is driven from its keys
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!isOpen || !slash) return;
+    if (event.key === "Escape") {
+      event.preventDefault();
+      setDismissedAt(slash.start);
+      return;
+    }
+    if (!active) return;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const index = options.indexOf(active) + (event.key === "ArrowDown" ? 1 : -1);
+      setSelected(options[(index + options.length) % options.length].key);
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault();
+      active.onInsert();
+    }
+  };
+
+  const replies = options.filter(option => option.key.startsWith("reply:"));
+  const templates = options.filter(option => option.key.startsWith("template:"));
+  const renderOption = (option: PaletteOption) => (
+    <CommandItem key={option.key} value={option.key} onSelect={option.onInsert} className="flex-col items-start gap-1">
+      <div className="flex w-full items-center gap-2">
+        {option.shortcut && <code className="text-xs text-muted-foreground">/{option.shortcut}</code>}
+        <span className="font-medium">{option.label}</span>
+        {option.isPersonal && <Badge variant="outline" className="ml-auto text-xs">Personal</Badge>}
+      </div>
+      <span className="line-clamp-1 text-xs text-muted-foreground">{option.text}</span>
+    </CommandItem>
+  );
+
+  return (
+    <div className="relative space-y-1">
+      {isOpen && (
+        <Command
+          shouldFilter={false}
+          value={active?.key ?? ""}
+          onValueChange={setSelected}
+          className="absolute bottom-full z-10 mb-2 h-auto rounded-md border shadow-md"
+        >
+          <CommandList className="max-h-72">
+            <CommandEmpty>
+              No saved replies match /{slash.query}.{" "}
+              <Link to="/chats/saved-replies" className="underline">Manage saved replies</Link>
+            </CommandEmpty>
+            {replies.length > 0 && <CommandGroup heading="Saved replies">{replies.map(renderOption)}</CommandGroup>}
+            {templates.length > 0 && <CommandGroup heading="Templates">{templates.map(renderOption)}</CommandGroup>}
+          </CommandList>
+        </Command>
+      )}
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+        }}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+        onKeyDown={handleKeyDown}
+        placeholder="Type your message..."
+        rows={3}
+        disabled={disabled}
+        aria-expanded={isOpen}
+        aria-autocomplete="list"
+      />
+      <p className="text-xs text-muted-foreground">Type / to insert a saved reply or template</p>
+    </div>
+  );
+}
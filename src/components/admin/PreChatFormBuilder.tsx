@@ -0,0 +1,213 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  createPreChatField,
+  MAX_PRE_CHAT_FIELDS,
+  PRE_CHAT_FIELD_TYPE_LABELS,
+  PRE_CHAT_FIELD_TYPES,
+} from "@/lib/widget";
+import type { PreChatField, PreChatFieldValidation } from "@/types";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+
+interface PreChatFormBuilderProps {
+  fields: PreChatField[];
+  onChange: (fields: PreChatField[]) => void;
+  /** Validation messages of the whole widget configuration, keyed by path */
+  errors: Record<string, string>;
+}
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="text-sm text-destructive">{message}</p> : null;
+}
+
+// A cleared number input removes the rule rather than setting it to 0
+const toLength = (value: string) => (value === "" ? undefined : Number(value));
+
+/** Adds, edits, reorders and removes the custom questions of the widget's pre-chat form */
+export function PreChatFormBuilder({ fields, onChange, errors }: PreChatFormBuilderProps) {
+  const errorAt = (index: number, path: string) => errors[`preChatFields.${index}.${path}`];
+
+  const updateField = (index: number, changes: Partial<PreChatField>) => {
+    onChange(fields.map((field, position) => (position === index ? { ...field, ...changes } : field)));
+  };
+
+  const updateValidation = (index: number, changes: Partial<PreChatFieldValidation>) => {
+    updateField(index, { validation: { ...fields[index].validation, ...changes } });
+  };
+
+  const moveField = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= fields.length) return;
+    const next = [...fields];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {fields.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No custom fields yet. Visitors are only asked for the details above and their message.
+        </p>
+      )}
+
+      {fields.map((field, index) => (
+        <div key={field.id} className="space-y-3 rounded-md border p-3">
+          <div className="flex items-start gap-2">
+            <div className="flex flex-col">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-5 w-5"
+                aria-label="Move up"
+                disabled={index === 0}
+                onClick={() => moveField(index, -1)}
+              >
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-5 w-5"
+                aria-label="Move down"
+                disabled={index === fields.length - 1}
+                onClick={() => moveField(index, 1)}
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+            </div>
+            <div className="flex-1 space-y-1">
+              <Input
+                aria-label="Field label"
+                placeholder={field.type === "consent" ? "Statement the visitor agrees to" : "Question"}
+                value={field.label}
+                onChange={(e) => updateField(index, { label: e.target.value })}
+              />
+              <FieldError message={errorAt(index, "label")} />
+            </div>
+            <Badge variant="outline" className="mt-2">{PRE_CHAT_FIELD_TYPE_LABELS[field.type]}</Badge>
+            <div className="mt-1.5 flex items-center gap-2">
+              <Switch
+                id={`prechat-required-${field.id}`}
+                checked={field.required}
+                onCheckedChange={(checked) => updateField(index, { required: checked })}
+              />
+              <Label htmlFor={`prechat-required-${field.id}`}>Required</Label>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Remove field"
+              onClick={() => onChange(fields.filter((_, position) => position !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {(field.type === "text" || field.type === "select") && (
+            <div className="space-y-1">
+              <Label htmlFor={`prechat-placeholder-${field.id}`}>Placeholder</Label>
+              <Input
+                id={`prechat-placeholder-${field.id}`}
+                value={field.placeholder ?? ""}
+                onChange={(e) => updateField(index, { placeholder: e.target.value })}
+              />
+              <FieldError message={errorAt(index, "placeholder")} />
+            </div>
+          )}
+
+          {field.type === "select" && (
+            <div className="space-y-1">
+              <Label htmlFor={`prechat-options-${field.id}`}>Options</Label>
+              <Textarea
+                id={`prechat-options-${field.id}`}
+                rows={3}
+                value={(field.options ?? []).join("\n")}
+                onChange={(e) => updateField(index, { options: e.target.value.split("\n") })}
+              />
+              <p className="text-sm text-muted-foreground">One option per line</p>
+              <FieldError message={errorAt(index, "options")} />
+            </div>
+          )}
+
+          {field.type === "text" && (
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor={`prechat-min-${field.id}`}>Minimum length</Label>
+                <Input
+                  id={`prechat-min-${field.id}`}
+                  type="number"
+                  min={0}
+                  value={field.validation?.minLength ?? ""}
+                  onChange={(e) => updateValidation(index, { minLength: toLength(e.target.value) })}
+                />
+                <FieldError message={errorAt(index, "validation.minLength")} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`prechat-max-${field.id}`}>Maximum length</Label>
+                <Input
+                  id={`prechat-max-${field.id}`}
+                  type="number"
+                  min={1}
+                  value={field.validation?.maxLength ?? ""}
+                  onChange={(e) => updateValidation(index, { maxLength: toLength(e.target.value) })}
+                />
+                <FieldError message={errorAt(index, "validation.maxLength")} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`prechat-pattern-${field.id}`}>Pattern</Label>
+                <Input
+                  id={`prechat-pattern-${field.id}`}
+                  className="font-mono"
+                  placeholder="ORD-\d{5}"
+                  value={field.validation?.pattern ?? ""}
+                  onChange={(e) => updateValidation(index, { pattern: e.target.value || undefined })}
+                />
+                <p className="text-sm text-muted-foreground">A regular expression the whole answer must match</p>
+                <FieldError message={errorAt(index, "validation.pattern")} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`prechat-pattern-message-${field.id}`}>Pattern error message</Label>
+                <Input
+                  id={`prechat-pattern-message-${field.id}`}
+                  placeholder="Enter an order number such as ORD-12345"
+                  value={field.validation?.patternMessage ?? ""}
+                  onChange={(e) => updateValidation(index, { patternMessage: e.target.value || undefined })}
+                />
+                <FieldError message={errorAt(index, "validation.patternMessage")} />
+              </div>
+            </div>
+          )}
+
+          {field.type === "consent" && (
+            <p className="text-sm text-muted-foreground">
+              Shown as a checkbox; agents see whether the visitor agreed.
+            </p>
+          )}
+        </div>
+      ))}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2" disabled={fields.length >= MAX_PRE_CHAT_FIELDS}>
+            <Plus className="h-4 w-4" />
+            Add Field
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {PRE_CHAT_FIELD_TYPES.map(type => (
+            <DropdownMenuItem key={type} onClick={() => onChange([...fields, createPreChatField(type, fields)])}>
+              {PRE_CHAT_FIELD_TYPE_LABELS[type]}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <FieldError message={errors.preChatFields} />
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useReplySuggestions, useSuggestReplies, useSuggestionFeedback } from "@/hooks/useApiQuery";
+import { usePermission } from "@/hooks/usePermission";
+import { KNOWLEDGE_SOURCE_LABELS } from "@/lib/knowledge-search";
+import { Chat, ReplySuggestion } from "@/types";
+import { ExternalLink, Sparkles, X } from "lucide-react";
+
+interface ReplyAssistPanelProps {
+  chat: Chat;
+  /** Puts the suggestion in the composer; its outcome is recorded when the message is sent */
+  onUse: (suggestion: ReplySuggestion) => void;
+  onDismiss?: (suggestion: ReplySuggestion) => void;
+  /** The suggestion currently in the composer */
+  activeSuggestionId?: string;
+}
+
+function SourceLink({ source, canOpenContent }: { source: ReplySuggestion["sources"][number]; canOpenContent: boolean }) {
+  const label = `${KNOWLEDGE_SOURCE_LABELS[source.sourceType]}: ${source.title}`;
+  if (!source.url || (source.url.startsWith("/content/") && !canOpenContent)) {
+    return <Badge variant="secondary" className="font-normal">{label}</Badge>;
+  }
+  if (source.url.startsWith("/")) {
+    return (
+      <Badge variant="secondary" className="font-normal">
+        <Link to={source.url} className="hover:underline">{label}</Link>
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="secondary" className="font-normal">
+      <a href={source.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 hover:underline">
+        {label}
+        <ExternalLink className="h-3 w-3" />
+      </a>
+    </Badge>
+  );
+}
+
+/** Drafts replies from the conversation and the knowledge base for the agent to send, edit or dismiss */
+export function ReplyAssistPanel({ chat, onUse, onDismiss, activeSuggestionId }: ReplyAssistPanelProps) {
+  const { data: suggestionsResponse, isLoading } = useReplySuggestions(chat.id);
+  const suggestReplies = useSuggestReplies(chat.id);
+  const sendFeedback = useSuggestionFeedback(chat.id);
+  const canOpenContent = usePermission('content:manage');
+
+  // Only the latest batch is offered; older pending ones were passed over
+  const all = suggestionsResponse?.data || [];
+  const latest = all[0]?.createdAt;
+  const suggestions = all.filter(suggestion => suggestion.createdAt === latest && suggestion.status === "pending");
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Sparkles className="h-4 w-4" />
+            Suggested Replies
+          </CardTitle>
+          <CardDescription>Drafted from the conversation and your knowledge base</CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => suggestReplies.mutate({})}
+          disabled={suggestReplies.isPending}
+        >
+          {suggestReplies.isPending ? "Drafting..." : suggestions.length > 0 ? "Suggest again" : "Suggest replies"}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading || suggestReplies.isPending ? (
+          <Skeleton className="h-20 w-full" />
+        ) : suggestions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Ask for suggestions once the customer has written; you can edit them before sending.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {suggestions.map(suggestion => (
+              <li
+                key={suggestion.id}
+                className={`rounded-md border p-3 space-y-2 ${suggestion.id === activeSuggestionId ? "border-primary" : ""}`}
+              >
+                <p className="text-sm whitespace-pre-wrap">{suggestion.text}</p>
+                {suggestion.sources.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {suggestion.sources.map(source => (
+                      <SourceLink key={source.id} source={source} canOpenContent={canOpenContent} />
+                    ))}
+                  </div>
+                )}
+                <div className="flex items-center gap-2">
+                  <Button size="sm" variant="secondary" onClick={() => onUse(suggestion)}>
+                    {suggestion.id === activeSuggestionId ? "In composer" : "Use"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="gap-1 text-muted-foreground"
+                    onClick={() => {
+                      sendFeedback.mutate({ suggestionId: suggestion.id, data: { outcome: "rejected" } });
+                      onDismiss?.(suggestion);
+                    }}
+                  >
+                    <X className="h-3 w-3" />
+                    Dismiss
+                  </Button>
+                  <span className="ml-auto text-xs text-muted-foreground">{suggestion.model}</span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
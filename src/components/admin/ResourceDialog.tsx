@@ -0,0 +1,266 @@
+import { useEffect } from "react";
+import { Controller, useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TagInput } from "@/components/admin/TagInput";
+import { useCreateResource, useUpdateResource } from "@/hooks/useApiQuery";
+import { estimateTokenCount } from "@/lib/document-ingestion";
+import { buildResourcePrompt, extractTemplateVariables, renderTemplate, RESOURCE_TYPE_LABELS, RESOURCE_TYPES } from "@/lib/resources";
+import { resourceSchema, type ResourceFormValues, type ResourceInput } from "@/lib/validations";
+import type { Resource, ResourceType } from "@/types";
+
+interface ResourceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Resource to edit; a new resource is created when absent */
+  resource?: Resource | null;
+  /** Tags already in use, offered as suggestions */
+  tags: string[];
+}
+
+const URL_FIELDS: Partial<Record<ResourceType, { label: string; placeholder: string }>> = {
+  document: { label: "File path or address", placeholder: "/resources/returns-policy.pdf" },
+  video: { label: "Video address", placeholder: "https://videos.example.com/getting-started" },
+  link: { label: "Address", placeholder: "https://help.example.com/billing" },
+};
+
+const toFormValues = (resource?: Resource | null): ResourceFormValues => ({
+  title: resource?.title ?? "",
+  type: resource?.type ?? "document",
+  url: resource?.url ?? "",
+  tags: resource?.tags ?? [],
+  aiInstructions: resource?.aiInstructions ?? "",
+  transcript: resource?.transcript ?? "",
+  templateBody: resource?.templateBody ?? "",
+  templateVariables: resource?.templateVariables ?? [],
+});
+
+export function ResourceDialog({ open, onOpenChange, resource, tags }: ResourceDialogProps) {
+  const createResource = useCreateResource();
+  const updateResource = useUpdateResource();
+  const isSaving = createResource.isPending || updateResource.isPending;
+
+  const form = useForm<ResourceFormValues, unknown, ResourceInput>({
+    resolver: zodResolver(resourceSchema),
+    defaultValues: toFormValues(resource),
+  });
+  const { errors } = form.formState;
+  const variables = useFieldArray({ control: form.control, name: "templateVariables" });
+  const values = form.watch();
+  const urlField = URL_FIELDS[values.type];
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(resource));
+  }, [open, resource, form]);
+
+  // The variable list follows the placeholders in the template, keeping what was filled in for each
+  const usedNames = extractTemplateVariables(values.templateBody ?? "").join(",");
+  const isTemplate = values.type === "template";
+  const { replace } = variables;
+  useEffect(() => {
+    if (!isTemplate) return;
+    const current = form.getValues("templateVariables") ?? [];
+    const names = usedNames ? usedNames.split(",") : [];
+    if (names.join(",") === current.map(variable => variable.name).join(",")) return;
+    replace(names.map(name => current.find(variable => variable.name === name) ?? { name, description: "", defaultValue: "" }));
+  }, [usedNames, isTemplate, replace, form]);
+
+  const promptFields = {
+    title: values.title,
+    type: values.type,
+    url: values.url ?? "",
+    tags: values.tags ?? [],
+    aiInstructions: values.aiInstructions ?? "",
+    transcript: values.transcript,
+    templateBody: values.templateBody,
+    templateVariables: (values.templateVariables ?? []).map(variable => ({
+      name: variable.name,
+      description: variable.description ?? "",
+      defaultValue: variable.defaultValue ?? "",
+    })),
+  };
+  const prompt = buildResourcePrompt(promptFields);
+  const sample = renderTemplate(
+    promptFields.templateBody ?? "",
+    Object.fromEntries(promptFields.templateVariables.map(variable => [variable.name, variable.defaultValue])),
+  );
+
+  const handleSave = async (input: ResourceInput) => {
+    try {
+      if (resource) {
+        await updateResource.mutateAsync({ resourceId: resource.id, data: input });
+      } else {
+        await createResource.mutateAsync(input);
+      }
+      onOpenChange(false);
+    } catch {
+      // The mutation already reported the error; keep the form open
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{resource ? "Edit Resource" : "New Resource"}</DialogTitle>
+          <DialogDescription>
+            Resources are offered to the assistant together with your instructions for when and how to use them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="resource-form" onSubmit={form.handleSubmit(handleSave)} className="space-y-4">
+          <div className="grid grid-cols-[2fr_1fr] gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="resource-title">Title</Label>
+              <Input id="resource-title" placeholder="Returns policy" {...form.register("title")} />
+              {errors.title && <p className="text-sm text-destructive">{errors.title.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="resource-type">Type</Label>
+              <Controller
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger id="resource-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RESOURCE_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{RESOURCE_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+          </div>
+
+          {urlField && (
+            <div className="space-y-2">
+              <Label htmlFor="resource-url">{urlField.label}</Label>
+              <Input id="resource-url" placeholder={urlField.placeholder} {...form.register("url")} />
+              {errors.url && <p className="text-sm text-destructive">{errors.url.message}</p>}
+            </div>
+          )}
+
+          {values.type === "video" && (
+            <div className="space-y-2">
+              <Label htmlFor="resource-transcript">Transcript</Label>
+              <Textarea
+                id="resource-transcript"
+                rows={5}
+                placeholder="Paste the transcript so the assistant knows what the video covers"
+                {...form.register("transcript")}
+              />
+              {errors.transcript && <p className="text-sm text-destructive">{errors.transcript.message}</p>}
+            </div>
+          )}
+
+          {isTemplate && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="resource-template">Template</Label>
+                <Textarea
+                  id="resource-template"
+                  rows={6}
+                  className="font-mono text-sm"
+                  placeholder={"Hi {{customer_name}},\n\nYour refund for order {{order_number}} is on its way."}
+                  {...form.register("templateBody")}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Write <code>{"{{variable_name}}"}</code> where the assistant should fill in a value.
+                </p>
+                {errors.templateBody && <p className="text-sm text-destructive">{errors.templateBody.message}</p>}
+              </div>
+
+              {variables.fields.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Variables</Label>
+                  <div className="space-y-2 rounded-md border p-3">
+                    {variables.fields.map((variable, index) => (
+                      <div key={variable.id} className="grid grid-cols-[8rem_1fr_1fr] items-center gap-2">
+                        <code className="truncate text-sm">{variable.name}</code>
+                        <Input
+                          aria-label={`Description of ${variable.name}`}
+                          placeholder="What to fill in"
+                          {...form.register(`templateVariables.${index}.description`)}
+                        />
+                        <Input
+                          aria-label={`Default value of ${variable.name}`}
+                          placeholder="Default value"
+                          {...form.register(`templateVariables.${index}.defaultValue`)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  {errors.templateVariables && (
+                    <p className="text-sm text-destructive">{errors.templateVariables.message}</p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="resource-tags">Tags</Label>
+            <Controller
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <TagInput id="resource-tags" value={field.value ?? []} onChange={field.onChange} suggestions={tags} />
+              )}
+            />
+            {errors.tags && <p className="text-sm text-destructive">{errors.tags.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="resource-instructions">AI instructions</Label>
+            <Tabs defaultValue="write">
+              <TabsList>
+                <TabsTrigger value="write">Write</TabsTrigger>
+                <TabsTrigger value="prompt">Prompt preview</TabsTrigger>
+              </TabsList>
+              <TabsContent value="write" className="space-y-2">
+                <Textarea
+                  id="resource-instructions"
+                  rows={4}
+                  placeholder="When to offer this resource, and what to say about it"
+                  {...form.register("aiInstructions")}
+                />
+                {errors.aiInstructions && <p className="text-sm text-destructive">{errors.aiInstructions.message}</p>}
+              </TabsContent>
+              <TabsContent value="prompt" className="space-y-2">
+                <pre className="max-h-72 overflow-y-auto whitespace-pre-wrap rounded-md border bg-muted/30 p-3 text-xs">{prompt}</pre>
+                <p className="text-xs text-muted-foreground">
+                  Added to the assistant's prompt when the resource is relevant to the conversation, ~{estimateTokenCount(prompt)} tokens.
+                </p>
+                {isTemplate && sample && (
+                  <>
+                    <Label className="text-xs">Filled in with the default values</Label>
+                    <pre className="whitespace-pre-wrap rounded-md border p-3 text-xs">{sample}</pre>
+                  </>
+                )}
+              </TabsContent>
+            </Tabs>
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="submit" form="resource-form" disabled={isSaving}>
+            {isSaving ? "Saving..." : resource ? "Save Changes" : "Create Resource"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,65 @@
+import { Link } from "react-router-dom";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChatStatusBadge } from "@/components/admin/ChatStatusBadge";
+import { useResourceUsage } from "@/hooks/useApiQuery";
+import { RESOURCE_TYPE_LABELS } from "@/lib/resources";
+import { Resource } from "@/types";
+
+interface ResourceUsageSheetProps {
+  /** Resource whose usage to show; the drawer is closed while this is null */
+  resource: Resource | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ResourceUsageSheet({ resource, onOpenChange }: ResourceUsageSheetProps) {
+  const { data: usageResponse, isLoading, error } = useResourceUsage(resource?.id ?? null);
+  const usages = usageResponse?.data || [];
+
+  return (
+    <Sheet open={!!resource} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        {resource && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="pr-6 break-all">{resource.title}</SheetTitle>
+              <SheetDescription>
+                {RESOURCE_TYPE_LABELS[resource.type]} · Chats in which the assistant or an agent referenced it
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-6">
+              {isLoading ? (
+                <Skeleton className="h-48 w-full" />
+              ) : error ? (
+                <p className="text-sm text-destructive">Error loading usage: {error.message}</p>
+              ) : usages.length === 0 ? (
+                <p className="py-12 text-center text-sm text-muted-foreground">No chat has referenced this resource yet.</p>
+              ) : (
+                <ul className="divide-y rounded-md border">
+                  {usages.map(usage => (
+                    <li key={usage.id} className="flex items-center gap-3 p-3 text-sm">
+                      <div className="min-w-0 flex-1">
+                        {usage.chat ? (
+                          <Link to={`/chats/all?chat=${usage.chatId}`} className="font-medium hover:underline">
+                            {usage.chat.requesterName}
+                          </Link>
+                        ) : (
+                          <span className="text-muted-foreground">Deleted chat</span>
+                        )}
+                        <p className="truncate text-xs text-muted-foreground">
+                          {usage.chat?.requesterEmail ?? usage.chatId} · {new Date(usage.referencedAt).toLocaleString()}
+                        </p>
+                      </div>
+                      {usage.chat && <ChatStatusBadge status={usage.chat.status} />}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
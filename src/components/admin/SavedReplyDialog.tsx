@@ -0,0 +1,175 @@
+import { useEffect, useRef } from "react";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCreateSavedReply, useUpdateSavedReply } from "@/hooks/useApiQuery";
+import { usePermission } from "@/hooks/usePermission";
+import { renderSavedReply, SAVED_REPLY_EXAMPLE_VALUES, SAVED_REPLY_VARIABLES } from "@/lib/saved-replies";
+import { savedReplySchema, type SavedReplyFormValues, type SavedReplyInput } from "@/lib/validations";
+import type { SavedReply } from "@/types";
+
+interface SavedReplyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Reply to edit; a new reply is created when absent */
+  reply?: SavedReply | null;
+}
+
+const toFormValues = (reply?: SavedReply | null): SavedReplyFormValues => ({
+  title: reply?.title ?? "",
+  shortcut: reply?.shortcut ?? "",
+  body: reply?.body ?? "",
+  scope: reply?.scope ?? "personal",
+});
+
+export function SavedReplyDialog({ open, onOpenChange, reply }: SavedReplyDialogProps) {
+  const bodyRef = useRef<HTMLTextAreaElement | null>(null);
+  const createReply = useCreateSavedReply();
+  const updateReply = useUpdateSavedReply();
+  const canShare = usePermission('content:manage');
+  const isSaving = createReply.isPending || updateReply.isPending;
+
+  const form = useForm<SavedReplyFormValues, unknown, SavedReplyInput>({
+    resolver: zodResolver(savedReplySchema),
+    defaultValues: toFormValues(reply),
+  });
+  const { errors } = form.formState;
+  const { ref: registerBodyRef, ...bodyField } = form.register("body");
+  const body = form.watch("body");
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(reply));
+  }, [open, reply, form]);
+
+  const insertVariable = (name: string) => {
+    const textarea = bodyRef.current;
+    const current = form.getValues("body");
+    const start = textarea?.selectionStart ?? current.length;
+    const end = textarea?.selectionEnd ?? current.length;
+    const placeholder = `{{${name}}}`;
+    form.setValue("body", current.slice(0, start) + placeholder + current.slice(end), { shouldDirty: true });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const handleSave = async (values: SavedReplyInput) => {
+    try {
+      if (reply) {
+        await updateReply.mutateAsync({ replyId: reply.id, data: values });
+      } else {
+        await createReply.mutateAsync(values);
+      }
+      onOpenChange(false);
+    } catch {
+      // The mutation already reported the error; keep the form open
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{reply ? "Edit Saved Reply" : "New Saved Reply"}</DialogTitle>
+          <DialogDescription>
+            Type <code>/</code> and the shortcut in a chat to insert the reply with the variables filled in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="saved-reply-form" onSubmit={form.handleSubmit(handleSave)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="reply-title">Title</Label>
+              <Input id="reply-title" placeholder="Greeting" {...form.register("title")} />
+              {errors.title && <p className="text-sm text-destructive">{errors.title.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reply-shortcut">Shortcut</Label>
+              <div className="flex items-center gap-1">
+                <span className="text-muted-foreground">/</span>
+                <Input id="reply-shortcut" placeholder="hello" className="font-mono" {...form.register("shortcut")} />
+              </div>
+              {errors.shortcut && <p className="text-sm text-destructive">{errors.shortcut.message}</p>}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reply-body">Reply</Label>
+            <Textarea
+              id="reply-body"
+              rows={5}
+              placeholder="Hi {{customer.firstName}}, thanks for reaching out!"
+              {...bodyField}
+              ref={(element) => {
+                registerBodyRef(element);
+                bodyRef.current = element;
+              }}
+            />
+            <div className="flex flex-wrap gap-1">
+              {SAVED_REPLY_VARIABLES.map(variable => (
+                <Button
+                  key={variable.name}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-6 px-2 font-mono text-xs"
+                  title={variable.description}
+                  onClick={() => insertVariable(variable.name)}
+                >
+                  {variable.name}
+                </Button>
+              ))}
+            </div>
+            {errors.body && <p className="text-sm text-destructive">{errors.body.message}</p>}
+          </div>
+
+          {body && (
+            <div className="space-y-2">
+              <Label>Preview</Label>
+              <p className="whitespace-pre-wrap rounded-md border bg-muted/30 p-3 text-sm">
+                {renderSavedReply(body, SAVED_REPLY_EXAMPLE_VALUES)}
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="reply-scope">Available to</Label>
+            <Controller
+              control={form.control}
+              name="scope"
+              render={({ field }) => (
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <SelectTrigger id="reply-scope">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="personal">Only me</SelectItem>
+                    <SelectItem value="organization" disabled={!canShare}>Everyone in the organization</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            />
+            {!canShare && (
+              <p className="text-xs text-muted-foreground">Managers and admins can share replies with the organization.</p>
+            )}
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="submit" form="saved-reply-form" disabled={isSaving}>
+            {isSaving ? "Saving..." : reply ? "Save Changes" : "Create Reply"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect } from "react";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCreateScraperJob, useUpdateScraperJob } from "@/hooks/useApiQuery";
+import { SCRAPER_FREQUENCIES, SCRAPER_FREQUENCY_LABELS } from "@/lib/url-scraper";
+import { getNextRunAt } from "@/lib/background-jobs";
+import { scraperJobFormSchema, type ScraperJobFormValues, type ScraperJobInput } from "@/lib/validations";
+import type { ScraperJob } from "@/types";
+
+interface ScraperJobDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Job to edit; a new job is created when absent */
+  job?: ScraperJob | null;
+}
+
+const toFormValues = (job?: ScraperJob | null): ScraperJobFormValues => ({
+  url: job?.url ?? "",
+  linkDepth: job?.linkDepth ?? 2,
+  maxPages: job?.maxPages ?? 50,
+  includePatterns: job?.includePatterns.join("\n") ?? "",
+  excludePatterns: job?.excludePatterns.join("\n") ?? "",
+  respectRobotsTxt: job?.respectRobotsTxt ?? true,
+  frequency: job?.frequency ?? "daily",
+  cronExpression: job?.cronExpression ?? "",
+});
+
+export function ScraperJobDialog({ open, onOpenChange, job }: ScraperJobDialogProps) {
+  const createJob = useCreateScraperJob();
+  const updateJob = useUpdateScraperJob();
+  const isSaving = createJob.isPending || updateJob.isPending;
+
+  const form = useForm<ScraperJobFormValues, unknown, ScraperJobInput>({
+    resolver: zodResolver(scraperJobFormSchema),
+    defaultValues: toFormValues(job),
+  });
+  const { errors } = form.formState;
+  const frequency = form.watch("frequency");
+  const cronExpression = form.watch("cronExpression")?.trim() ?? "";
+  const nextRunAt = getNextRunAt({ frequency, cronExpression });
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(job));
+  }, [open, job, form]);
+
+  const handleSave = async (values: ScraperJobInput) => {
+    try {
+      if (job) {
+        await updateJob.mutateAsync({ jobId: job.id, data: values });
+      } else {
+        await createJob.mutateAsync(values);
+      }
+      onOpenChange(false);
+    } catch {
+      // The mutation already reported the error; keep the form open
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{job ? "Edit Scraper Job" : "New Scraper Job"}</DialogTitle>
+          <DialogDescription>
+            Pages are crawled from the start URL and their text is added to the knowledge base.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="scraper-job-form" onSubmit={form.handleSubmit(handleSave)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="scraper-url">Start URL</Label>
+            <Input id="scraper-url" placeholder="https://docs.example.com" {...form.register("url")} />
+            {errors.url && <p className="text-sm text-destructive">{errors.url.message}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="scraper-depth">Link depth</Label>
+              <Input id="scraper-depth" type="number" min={0} max={5} {...form.register("linkDepth")} />
+              {errors.linkDepth && <p className="text-sm text-destructive">{errors.linkDepth.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scraper-max-pages">Max pages</Label>
+              <Input id="scraper-max-pages" type="number" min={1} max={500} {...form.register("maxPages")} />
+              {errors.maxPages && <p className="text-sm text-destructive">{errors.maxPages.message}</p>}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="scraper-include">Include patterns</Label>
+            <Textarea
+              id="scraper-include"
+              rows={2}
+              placeholder="https://docs.example.com/guides/*"
+              {...form.register("includePatterns")}
+            />
+            <p className="text-xs text-muted-foreground">
+              One per line; <code>*</code> matches anything. Leave empty to follow every link on the site.
+            </p>
+            {errors.includePatterns && <p className="text-sm text-destructive">{errors.includePatterns.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="scraper-exclude">Exclude patterns</Label>
+            <Textarea id="scraper-exclude" rows={2} placeholder="*/changelog/*" {...form.register("excludePatterns")} />
+            {errors.excludePatterns && <p className="text-sm text-destructive">{errors.excludePatterns.message}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="scraper-frequency">Schedule</Label>
+              <Controller
+                control={form.control}
+                name="frequency"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger id="scraper-frequency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SCRAPER_FREQUENCIES.map(frequency => (
+                        <SelectItem key={frequency} value={frequency}>{SCRAPER_FREQUENCY_LABELS[frequency]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+            <div className="flex items-end justify-between gap-2 pb-2">
+              <Label htmlFor="scraper-robots">Respect robots.txt</Label>
+              <Controller
+                control={form.control}
+                name="respectRobotsTxt"
+                render={({ field }) => (
+                  <Switch id="scraper-robots" checked={field.value} onCheckedChange={field.onChange} />
+                )}
+              />
+            </div>
+          </div>
+
+          {frequency === "custom" && (
+            <div className="space-y-2">
+              <Label htmlFor="scraper-cron">Cron expression</Label>
+              <Input id="scraper-cron" placeholder="0 6 * * 1-5" className="font-mono" {...form.register("cronExpression")} />
+              <p className="text-xs text-muted-foreground">
+                Minute, hour, day of month, month and day of week, in your local time. <code>@daily</code> and
+                similar shortcuts work too.
+              </p>
+              {errors.cronExpression && <p className="text-sm text-destructive">{errors.cronExpression.message}</p>}
+            </div>
+          )}
+          {nextRunAt && (
+            <p className="text-sm text-muted-foreground">Next run: {new Date(nextRunAt).toLocaleString()}</p>
+          )}
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="submit" form="scraper-job-form" disabled={isSaving}>
+            {isSaving ? "Saving..." : job ? "Save Changes" : "Create Job"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,169 @@
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useScraperRuns } from "@/hooks/useApiQuery";
+import type { ScrapedPageOutcome, ScraperJob, ScraperJobStatus, ScraperRun } from "@/types";
+import { formatDistanceStrict } from "date-fns";
+import { Loader2 } from "lucide-react";
+
+const STATUS_VARIANTS: Record<ScraperJobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  queued: "outline",
+  running: "secondary",
+  completed: "default",
+  failed: "destructive",
+};
+
+const OUTCOME_VARIANTS: Record<ScrapedPageOutcome, "default" | "secondary" | "destructive"> = {
+  fetched: "default",
+  skipped: "secondary",
+  error: "destructive",
+};
+
+export function ScraperStatusBadge({ status }: { status: ScraperJobStatus }) {
+  return (
+    <Badge variant={STATUS_VARIANTS[status] ?? "outline"}>
+      {status === "running" && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+      {status}
+    </Badge>
+  );
+}
+
+function RunDiff({ run }: { run: ScraperRun }) {
+  const { diff } = run;
+  if (!diff) {
+    return <p className="text-sm text-muted-foreground">No content was compared for this run.</p>;
+  }
+  if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+    return <p className="text-sm text-muted-foreground">No content changed since the previous run ({diff.unchangedCount} pages unchanged).</p>;
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      {diff.added.length > 0 && (
+        <div>
+          <p className="font-medium">New pages ({diff.added.length})</p>
+          <ul className="ml-4 list-disc break-all text-green-700">
+            {diff.added.map(url => <li key={url}>{url}</li>)}
+          </ul>
+        </div>
+      )}
+      {diff.changed.map(change => (
+        <div key={change.url}>
+          <p className="font-medium break-all">Changed: {change.url}</p>
+          <pre className="mt-1 overflow-x-auto whitespace-pre-wrap rounded border bg-muted/30 p-2 text-xs">
+            {change.removedLines.map((line, index) => (
+              <span key={`-${index}`} className="block text-destructive">- {line}</span>
+            ))}
+            {change.addedLines.map((line, index) => (
+              <span key={`+${index}`} className="block text-green-700">+ {line}</span>
+            ))}
+          </pre>
+        </div>
+      ))}
+      {diff.removed.length > 0 && (
+        <div>
+          <p className="font-medium">Removed pages ({diff.removed.length})</p>
+          <ul className="ml-4 list-disc break-all text-destructive">
+            {diff.removed.map(url => <li key={url}>{url}</li>)}
+          </ul>
+        </div>
+      )}
+      <p className="text-muted-foreground">{diff.unchangedCount} pages unchanged</p>
+    </div>
+  );
+}
+
+function RunPages({ run }: { run: ScraperRun }) {
+  if (run.pages.length === 0) {
+    return <p className="text-sm text-muted-foreground">No pages were visited.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>URL</TableHead>
+          <TableHead>Outcome</TableHead>
+          <TableHead>Depth</TableHead>
+          <TableHead>Details</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {run.pages.map(page => (
+          <TableRow key={page.url}>
+            <TableCell className="max-w-64 break-all text-xs">{page.url}</TableCell>
+            <TableCell>
+              <Badge variant={OUTCOME_VARIANTS[page.outcome]}>{page.outcome}</Badge>
+            </TableCell>
+            <TableCell>{page.depth}</TableCell>
+            <TableCell className="text-xs text-muted-foreground">
+              {page.outcome === "fetched" ? page.title : page.reason}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+interface ScraperRunHistoryProps {
+  /** Job whose runs are listed; the drawer is closed while this is null */
+  job: ScraperJob | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ScraperRunHistory({ job, onOpenChange }: ScraperRunHistoryProps) {
+  const { data: runsResponse, isLoading } = useScraperRuns(job ?? undefined);
+  const runs = runsResponse?.data || [];
+
+  return (
+    <Sheet open={!!job} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        {job && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="pr-6 break-all">{job.url}</SheetTitle>
+              <SheetDescription>Run history, newest first</SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-6">
+              {isLoading ? (
+                <Skeleton className="h-64 w-full" />
+              ) : runs.length === 0 ? (
+                <p className="py-12 text-center text-sm text-muted-foreground">This job has not run yet.</p>
+              ) : (
+                <Accordion type="single" collapsible defaultValue={runs[0].id}>
+                  {runs.map(run => (
+                    <AccordionItem key={run.id} value={run.id}>
+                      <AccordionTrigger className="hover:no-underline">
+                        <div className="flex flex-1 flex-wrap items-center gap-2 pr-2 text-left text-sm">
+                          <ScraperStatusBadge status={run.status} />
+                          <span>{new Date(run.startedAt).toLocaleString()}</span>
+                          <span className="text-muted-foreground">
+                            {run.trigger === "manual" ? "Manual" : "Scheduled"}
+                            {run.finishedAt && ` · ${formatDistanceStrict(new Date(run.finishedAt), new Date(run.startedAt))}`}
+                          </span>
+                          <span className="ml-auto text-xs text-muted-foreground">
+                            {run.pagesFetched} fetched · {run.pagesSkipped} skipped · {run.errorCount} errors
+                          </span>
+                        </div>
+                      </AccordionTrigger>
+                      <AccordionContent className="space-y-4">
+                        {run.error && <p className="text-sm text-destructive">{run.error}</p>}
+                        <RunDiff run={run} />
+                        <RunPages run={run} />
+                      </AccordionContent>
+                    </AccordionItem>
+                  ))}
+                </Accordion>
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState, type KeyboardEvent } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { X } from "lucide-react";
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  /** Existing tags offered while typing */
+  suggestions: string[];
+  placeholder?: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+/** Free-form tags with autocomplete; Enter or a comma adds the typed tag */
+export function TagInput({ id, value, onChange, suggestions, placeholder = "Add a tag" }: TagInputProps) {
+  const [draft, setDraft] = useState("");
+  const query = draft.trim().toLowerCase();
+  const matches = query
+    ? suggestions.filter(tag => tag.includes(query) && !value.includes(tag)).slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const addTag = (tag: string) => {
+    const normalized = tag.trim().toLowerCase();
+    if (normalized && !value.includes(normalized)) onChange([...value, normalized]);
+    setDraft("");
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" || event.key === ",") {
+      event.preventDefault();
+      addTag(draft);
+    } else if (event.key === "Backspace" && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button
+                type="button"
+                aria-label={`Remove ${tag}`}
+                className="rounded-full hover:text-destructive"
+                onClick={() => onChange(value.filter(existing => existing !== tag))}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        id={id}
+        value={draft}
+        placeholder={placeholder}
+        autoComplete="off"
+        onChange={(event) => setDraft(event.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft.trim() && addTag(draft)}
+      />
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {matches.map(tag => (
+            <Badge
+              key={tag}
+              variant="outline"
+              className="cursor-pointer"
+              // Keeps the input from blurring, which would add the half-typed tag first
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => addTag(tag)}
+            >
+              + {tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { CSSProperties, useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { buildSampleConversation, getRequiredWidgetFields, WIDGET_USER_FIELD_LABELS } from "@/lib/widget";
+import type { WidgetConfig } from "@/types";
+import { PreChatFields } from "@/widget/PreChatFields";
+import { WidgetFrame } from "@/widget/WidgetFrame";
+import { WidgetShadow } from "@/widget/WidgetShadow";
+import { Monitor, Moon, Play, RotateCcw, Smartphone, Sun } from "lucide-react";
+
+// Pause between the lines of the sample conversation
+const SAMPLE_MESSAGE_DELAY_MS = 1200;
+
+// Widths of the placeholder text lines on the stand-in page
+const PAGE_LINE_WIDTHS = ["92%", "84%", "88%", "60%", "90%", "76%"];
+
+type Viewport = "desktop" | "mobile";
+type HostTheme = "light" | "dark";
+type Availability = "open" | "closed";
+
+interface WidgetDesignPreviewProps {
+  /** Settings to show, saved or not */
+  config: WidgetConfig;
+  className?: string;
+}
+
+/**
+ * The widget drawn from the given settings on a stand-in customer page, to
+ * judge its look before publishing. Nothing here talks to the API.
+ */
+export function WidgetDesignPreview({ config, className = "" }: WidgetDesignPreviewProps) {
+  const [viewport, setViewport] = useState<Viewport>("desktop");
+  const [hostTheme, setHostTheme] = useState<HostTheme>("light");
+  const [isOpen, setIsOpen] = useState(true);
+  const [availability, setAvailability] = useState<Availability>("open");
+  const [shownCount, setShownCount] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const { aiName, tone } = config;
+  const sample = useMemo(() => buildSampleConversation({ aiName, tone }), [aiName, tone]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (shownCount >= sample.length) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setShownCount(count => count + 1), SAMPLE_MESSAGE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, shownCount, sample.length]);
+
+  const playSample = () => {
+    setIsOpen(true);
+    setShownCount(0);
+    setIsPlaying(true);
+  };
+
+  const resetSample = () => {
+    setIsPlaying(false);
+    setShownCount(0);
+  };
+
+  const messages = sample.slice(0, shownCount);
+  const isDark = hostTheme === "dark";
+  const isOffline = availability === "closed";
+  const requiredFields = getRequiredWidgetFields(config, isOffline);
+  // The shadow root keeps the app's CSS out, so the stand-in page is styled inline
+  const pageLineStyle = (width: string, height = 10): CSSProperties => ({
+    width,
+    height,
+    marginBottom: 12,
+    borderRadius: 4,
+    background: isDark ? "rgba(255, 255, 255, 0.12)" : "rgba(15, 23, 42, 0.08)",
+  });
+
+  return (
+    <div className={`flex flex-col gap-3 ${className}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={viewport}
+          onValueChange={(value) => value && setViewport(value as Viewport)}
+        >
+          <ToggleGroupItem value="desktop" aria-label="Desktop"><Monitor className="h-4 w-4" /></ToggleGroupItem>
+          <ToggleGroupItem value="mobile" aria-label="Mobile"><Smartphone className="h-4 w-4" /></ToggleGroupItem>
+        </ToggleGroup>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={hostTheme}
+          onValueChange={(value) => value && setHostTheme(value as HostTheme)}
+        >
+          <ToggleGroupItem value="light" aria-label="Light page"><Sun className="h-4 w-4" /></ToggleGroupItem>
+          <ToggleGroupItem value="dark" aria-label="Dark page"><Moon className="h-4 w-4" /></ToggleGroupItem>
+        </ToggleGroup>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={isOpen ? "expanded" : "minimized"}
+          onValueChange={(value) => value && setIsOpen(value === "expanded")}
+        >
+          <ToggleGroupItem value="minimized" className="text-xs">Minimized</ToggleGroupItem>
+          <ToggleGroupItem value="expanded" className="text-xs">Expanded</ToggleGroupItem>
+        </ToggleGroup>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={availability}
+          onValueChange={(value) => value && setAvailability(value as Availability)}
+        >
+          <ToggleGroupItem value="open" className="text-xs">Open</ToggleGroupItem>
+          <ToggleGroupItem value="closed" className="text-xs">Closed</ToggleGroupItem>
+        </ToggleGroup>
+        <div className="ml-auto flex gap-1">
+          <Button variant="outline" size="sm" className="gap-1" disabled={isPlaying} onClick={playSample}>
+            <Play className="h-3 w-3" />
+            Sample chat
+          </Button>
+          {shownCount > 0 && (
+            <Button variant="ghost" size="icon" className="h-9 w-9" aria-label="Clear sample chat" onClick={resetSample}>
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-1 min-h-0 justify-center">
+        <WidgetShadow
+          className={`relative block overflow-hidden rounded-lg border ${
+            viewport === "mobile" ? "h-full max-h-[667px] w-[375px] max-w-full" : "h-full w-full"
+          } ${isDark ? "bg-slate-900" : "bg-white"}`}
+        >
+          <div style={{ padding: 24 }} aria-hidden="true">
+            <div style={pageLineStyle("45%", 20)} />
+            {PAGE_LINE_WIDTHS.map((width, index) => <div key={index} style={pageLineStyle(width)} />)}
+          </div>
+          <WidgetFrame
+            settings={isOffline && shownCount === 0 ? { ...config, welcomeMessage: config.offlineMessage } : config}
+            isOpen={isOpen}
+            onOpenChange={setIsOpen}
+            messages={messages}
+            unread={isOpen ? 0 : messages.filter(message => message.senderType !== "customer").length}
+            contained
+          >
+            {shownCount > 0 ? (
+              <div className="ahw-composer">
+                <textarea className="ahw-input" rows={2} placeholder="Type your message..." aria-label="Message" disabled />
+                <button type="button" className="ahw-button" disabled>Send</button>
+              </div>
+            ) : isOffline && !config.offlineLeadCapture ? (
+              <p className="ahw-notice">Chat is not available right now.</p>
+            ) : (
+              <div className="ahw-form">
+                {requiredFields.map(field => (
+                  <label key={field} className="ahw-field">
+                    {WIDGET_USER_FIELD_LABELS[field]} *
+                    <input className="ahw-input" disabled />
+                  </label>
+                ))}
+                <PreChatFields fields={config.preChatFields} values={{}} disabled />
+                <label className="ahw-field">
+                  Message *
+                  <textarea className="ahw-input" rows={3} disabled />
+                </label>
+                <button type="button" className="ahw-button" disabled>{isOffline ? "Leave a message" : "Start chat"}</button>
+              </div>
+            )}
+          </WidgetFrame>
+        </WidgetShadow>
+      </div>
+    </div>
+  );
+}
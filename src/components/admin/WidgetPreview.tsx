@@ -0,0 +1,38 @@
+import { useEffect, useRef } from "react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useWidgetSettings } from "@/hooks/useApiQuery";
+import { apiClient } from "@/lib/api-client";
+import { mountChatWidget } from "@/widget/mount";
+
+interface WidgetPreviewProps {
+  className?: string;
+}
+
+/**
+ * The organization's real chat widget with its saved settings, contained in a
+ * box standing in for the customer's page. Chats started here reach agents
+ * like any other.
+ */
+export function WidgetPreview({ className = "" }: WidgetPreviewProps) {
+  const { data: settingsResponse, isLoading } = useWidgetSettings();
+  const hostRef = useRef<HTMLDivElement>(null);
+  const widgetId = settingsResponse?.data.widgetId;
+
+  useEffect(() => {
+    if (!widgetId || !hostRef.current) return;
+    const widget = mountChatWidget(hostRef.current, {
+      widgetId,
+      transport: (endpoint, init) => apiClient.sendAsVisitor(endpoint, init),
+      contained: true,
+    });
+    return () => widget.unmount();
+  }, [widgetId]);
+
+  if (isLoading) {
+    return <Skeleton className={`w-full ${className}`} />;
+  }
+
+  return (
+    <div ref={hostRef} className={`relative overflow-hidden rounded-lg border-2 border-dashed border-muted-foreground/25 bg-muted/30 ${className}`} />
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useRollbackWidget, useUsers, useWidgetVersions } from "@/hooks/useApiQuery";
+import { DEFAULT_WIDGET_CONFIG, diffWidgetConfigs } from "@/lib/widget";
+import type { WidgetConfigChange, WidgetConfigVersion, WidgetSettings } from "@/types";
+import { RotateCcw } from "lucide-react";
+
+function ChangeTable({ changes }: { changes: WidgetConfigChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No settings changed.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Setting</TableHead>
+          <TableHead>Before</TableHead>
+          <TableHead>After</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {changes.map(change => (
+          <TableRow key={change.field}>
+            <TableCell className="font-medium">{change.label}</TableCell>
+            <TableCell className="max-w-48 break-words text-xs text-destructive">{change.before}</TableCell>
+            <TableCell className="max-w-48 break-words text-xs text-green-700">{change.after}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+interface WidgetVersionHistoryProps {
+  settings: WidgetSettings;
+}
+
+/** Published widget versions with what each one changed, and rollback to any earlier one */
+export function WidgetVersionHistory({ settings }: WidgetVersionHistoryProps) {
+  const { data: versionsResponse, isLoading } = useWidgetVersions();
+  const { data: usersResponse } = useUsers();
+  const rollbackWidget = useRollbackWidget();
+  const [rollbackTarget, setRollbackTarget] = useState<WidgetConfigVersion | null>(null);
+
+  const versions = versionsResponse?.data || [];
+  const users = usersResponse?.data || [];
+  const draftChanges = diffWidgetConfigs(settings.published, settings.draft);
+
+  const publisherName = (userId: string) => {
+    const user = users.find(candidate => candidate.id === userId);
+    return user ? `${user.firstName} ${user.lastName}` : userId;
+  };
+
+  const handleRollback = () => {
+    if (!rollbackTarget) return;
+    rollbackWidget.mutate(rollbackTarget.version, {
+      onSettled: () => setRollbackTarget(null),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Version History</CardTitle>
+        <CardDescription>
+          Every published configuration, newest first. Rolling back publishes an earlier version again as a new one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {settings.hasUnpublishedChanges && (
+          <div className="space-y-2 rounded-md border border-dashed p-4">
+            <p className="text-sm font-medium">Saved draft, not yet published</p>
+            <ChangeTable changes={draftChanges} />
+          </div>
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : versions.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Nothing has been published yet; customers see the default widget.
+          </p>
+        ) : (
+          <Accordion type="single" collapsible defaultValue={versions[0].id}>
+            {versions.map((version, index) => {
+              const previous = versions[index + 1];
+              const isLive = version.version === settings.publishedVersion;
+
+              return (
+                <AccordionItem key={version.id} value={version.id}>
+                  <AccordionTrigger className="hover:no-underline">
+                    <div className="flex flex-1 flex-wrap items-center gap-2 pr-2 text-left text-sm">
+                      <Badge variant="outline">v{version.version}</Badge>
+                      {isLive && <Badge>Live</Badge>}
+                      <span>{new Date(version.publishedAt).toLocaleString()}</span>
+                      <span className="text-muted-foreground">by {publisherName(version.publishedById)}</span>
+                      {version.restoredFromVersion && (
+                        <span className="ml-auto text-xs text-muted-foreground">
+                          Restored from v{version.restoredFromVersion}
+                        </span>
+                      )}
+                    </div>
+                  </AccordionTrigger>
+                  <AccordionContent className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                      {previous ? `Changes from version ${previous.version}` : "Changes from the default settings"}
+                    </p>
+                    <ChangeTable changes={diffWidgetConfigs(previous?.config ?? DEFAULT_WIDGET_CONFIG, version.config)} />
+                    {!isLive && (
+                      <Button variant="outline" size="sm" className="gap-2" onClick={() => setRollbackTarget(version)}>
+                        <RotateCcw className="h-4 w-4" />
+                        Roll back to this version
+                      </Button>
+                    )}
+                  </AccordionContent>
+                </AccordionItem>
+              );
+            })}
+          </Accordion>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!rollbackTarget} onOpenChange={(open) => !open && setRollbackTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back to version {rollbackTarget?.version}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Customers will see this configuration right away. It is published as a new version, and the draft is
+              replaced with it, so any changes you have not published are lost.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={rollbackWidget.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction disabled={rollbackWidget.isPending} onClick={handleRollback}>
+              {rollbackWidget.isPending ? "Rolling back..." : "Roll back"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
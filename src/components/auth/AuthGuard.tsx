@@ -1,5 +1,7 @@
 import { ReactNode } from "react";
 import { Navigate, useLocation } from "react-router-dom";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/useAuth";
 
 interface AuthGuardProps {
   children: ReactNode;
@@ -7,12 +9,25 @@ interface AuthGuardProps {
 
 export function AuthGuard({ children }: AuthGuardProps) {
   const location = useLocation();
-  const token = localStorage.getItem('auth_token');
+  const { status } = useAuth();
 
-  if (!token) {
+  if (status === 'loading') {
+    // Stored session is still being validated
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="space-y-3 w-full max-w-md">
+          <Skeleton className="h-8 w-1/2" />
+          <Skeleton className="h-4 w-full" />
+          <Skeleton className="h-4 w-3/4" />
+        </div>
+      </div>
+    );
+  }
+
+  if (status === 'unauthenticated') {
     // Redirect to login page with return url
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
   return <>{children}</>;
-}
\ No newline at end of file
+}
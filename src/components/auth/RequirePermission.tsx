@@ -0,0 +1,30 @@
+import { ReactNode } from "react";
+import { ShieldAlert } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { usePermission } from "@/hooks/usePermission";
+import type { Permission } from "@/lib/permissions";
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: ReactNode;
+}
+
+export function RequirePermission({ permission, children }: RequirePermissionProps) {
+  const allowed = usePermission(permission);
+
+  if (!allowed) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-2">
+          <ShieldAlert className="h-10 w-10 mx-auto text-muted-foreground" />
+          <h2 className="text-lg font-semibold">Access denied</h2>
+          <p className="text-sm text-muted-foreground">
+            Your role does not have permission to view this page.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,78 @@
+import { Fragment, type ReactNode } from "react";
+import { parseMarkdown, type MarkdownInline } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+
+function renderInline(nodes: MarkdownInline[]): ReactNode {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case "strong":
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case "emphasis":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "code":
+        return <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">{node.text}</code>;
+      case "link":
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+            {renderInline(node.children)}
+          </a>
+        );
+      case "break":
+        return <br key={index} />;
+    }
+  });
+}
+
+const HEADING_CLASSES = {
+  1: "text-lg font-semibold",
+  2: "text-base font-semibold",
+  3: "text-sm font-semibold",
+};
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+/** Renders the markdown subset supported by `parseMarkdown` */
+export function Markdown({ source, className }: MarkdownProps) {
+  const blocks = parseMarkdown(source);
+
+  return (
+    <div className={cn("space-y-2 text-sm", className)}>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case "heading": {
+            // Rendered inside a page that has its own headings, so `#` starts at h3
+            const Heading = `h${block.level + 2}` as "h3" | "h4" | "h5";
+            return <Heading key={index} className={HEADING_CLASSES[block.level]}>{renderInline(block.children)}</Heading>;
+          }
+          case "paragraph":
+            return <p key={index}>{renderInline(block.children)}</p>;
+          case "list": {
+            const List = block.ordered ? "ol" : "ul";
+            return (
+              <List key={index} className={cn("ml-5 space-y-1", block.ordered ? "list-decimal" : "list-disc")}>
+                {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+              </List>
+            );
+          }
+          case "quote":
+            return (
+              <blockquote key={index} className="border-l-2 pl-3 text-muted-foreground">
+                {renderInline(block.children)}
+              </blockquote>
+            );
+          case "code":
+            return (
+              <pre key={index} className="overflow-x-auto rounded border bg-muted/30 p-2 font-mono text-xs">
+                {block.text}
+              </pre>
+            );
+        }
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { Badge } from '@/components/ui/badge';
+import { useRealtimeStatus } from '@/hooks/useRealtime';
+import type { RealtimeStatus } from '@/lib/realtime-client';
+
+const STATUS_LABELS: Record<RealtimeStatus, string> = {
+  idle: 'Offline',
+  connecting: 'Connecting...',
+  open: 'Live',
+  reconnecting: 'Reconnecting...',
+};
+
+interface RealtimeStatusBadgeProps {
+  /** Shown instead of the connection status while a refetch is running */
+  isUpdating?: boolean;
+  className?: string;
+}
+
+export function RealtimeStatusBadge({ isUpdating = false, className }: RealtimeStatusBadgeProps) {
+  const status = useRealtimeStatus();
+
+  return (
+    <Badge variant={status === 'open' ? 'outline' : 'secondary'} className={className}>
+      {isUpdating ? 'Updating...' : STATUS_LABELS[status]}
+    </Badge>
+  );
+}
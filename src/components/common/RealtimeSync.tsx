@@ -0,0 +1,10 @@
+import { useRealtimeSync } from '@/hooks/useRealtime';
+
+/**
+ * Keeps cached chat data in step with the realtime event stream.
+ * Lives above the routes so the connection survives page changes.
+ */
+export function RealtimeSync() {
+  useRealtimeSync();
+  return null;
+}
@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useState, ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+import { apiClient } from "@/lib/api-client";
+import { authSession } from "@/lib/auth-session";
+import { logger } from "@/lib/logger";
+import type { LoginInput } from "@/lib/validations";
+import { User } from "@/types";
+import { AuthContext, type AuthContextType, type AuthStatus } from "./auth-context";
+
+// Renew the access token this long before it expires
+const REFRESH_LEAD_MS = 60 * 1000;
+// Wait before retrying a session restore the server did not answer, doubling up to the maximum
+const RESTORE_RETRY_MS = 2000;
+const MAX_RESTORE_RETRY_MS = 30 * 1000;
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+  const [user, setUser] = useState<User | null>(null);
+  const [status, setStatus] = useState<AuthStatus>(
+    authSession.getTokens() ? 'loading' : 'unauthenticated'
+  );
+
+  const endSession = useCallback(() => {
+    setUser(null);
+    setStatus('unauthenticated');
+    // Never let cached data from one account leak into the next sign-in
+    queryClient.clear();
+  }, [queryClient]);
+
+  // Restore the session from stored tokens on first load
+  useEffect(() => {
+    if (!authSession.getTokens()) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const restore = (attempt: number) => {
+      apiClient.getCurrentUser()
+        .then((response) => {
+          if (cancelled) return;
+          setUser(response.data);
+          setStatus('authenticated');
+        })
+        .catch((error) => {
+          if (cancelled) return;
+          // Only a rejected session ends it, or one another tab signed out of meanwhile;
+          // an outage keeps the tokens, which may still be refreshed once the server is back
+          if (error?.status === 401 || !authSession.getTokens()) {
+            logger.warn('Stored session could not be restored', error, 'Auth');
+            authSession.clear();
+            endSession();
+            return;
+          }
+          logger.warn('Session restore failed, retrying', { error, attempt }, 'Auth');
+          if (attempt === 0) {
+            toast({
+              title: "Cannot reach the server",
+              description: "Your session is kept; retrying until the server answers.",
+              variant: "destructive",
+            });
+          }
+          timer = setTimeout(() => restore(attempt + 1), Math.min(RESTORE_RETRY_MS * 2 ** attempt, MAX_RESTORE_RETRY_MS));
+        });
+    };
+
+    restore(0);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [endSession]);
+
+  // The API client reports sessions that could not be refreshed (expired, revoked, or signed out in another tab)
+  useEffect(() => authSession.onUnauthorized(endSession), [endSession]);
+
+  // Refresh the access token shortly before it expires while signed in
+  useEffect(() => {
+    if (status !== 'authenticated') return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      const ttl = authSession.getAccessTokenTtl();
+      if (ttl === null) return;
+
+      timer = setTimeout(async () => {
+        // Also true when another tab renewed the session first, which moves the expiry for every tab
+        if (await apiClient.renewSession()) {
+          schedule();
+        } else {
+          authSession.clear();
+          endSession();
+        }
+      }, Math.max(ttl - REFRESH_LEAD_MS, 0));
+    };
+
+    schedule();
+    return () => clearTimeout(timer);
+  }, [status, endSession]);
+
+  const login = useCallback(async (credentials: LoginInput) => {
+    const response = await apiClient.login(credentials);
+    queryClient.clear();
+    setUser(response.data.user);
+    setStatus('authenticated');
+    return response.data.user;
+  }, [queryClient]);
+
+  const logout = useCallback(async () => {
+    try {
+      await apiClient.logout();
+    } catch (error) {
+      // Local sign-out still happens; the server session simply expires on its own
+      logger.warn('Failed to revoke session on the server', error, 'Auth');
+    } finally {
+      endSession();
+    }
+  }, [endSession]);
+
+  const value: AuthContextType = {
+    user,
+    status,
+    isAuthenticated: status === 'authenticated',
+    login,
+    logout,
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
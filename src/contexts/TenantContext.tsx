@@ -1,5 +1,7 @@
-import { createContext, useContext, useState, ReactNode } from "react";
+import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useOrganizations } from "@/hooks/useApiQuery";
+import { useAuth } from "@/hooks/useAuth";
 import { Organization } from "@/types";
 
 interface TenantContextType {
@@ -11,25 +13,50 @@ interface TenantContextType {
   error: any;
 }
 
+const ORG_STORAGE_KEY = 'current_org_id';
+const ORG_QUERY_PARAM = 'org';
+
 const TenantContext = createContext<TenantContextType | undefined>(undefined);
 
 export function TenantProvider({ children }: { children: ReactNode }) {
-  const { data: orgsResponse, isLoading, error } = useOrganizations();
-  const organizations = orgsResponse?.data || [];
-  const [currentOrg, setCurrentOrg] = useState<Organization | null>(
-    organizations.length > 0 ? organizations[0] : null
+  const { isAuthenticated } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Organizations are only readable once signed in
+  const { data: orgsResponse, isLoading, error } = useOrganizations({ enabled: isAuthenticated });
+  const organizations = isAuthenticated ? orgsResponse?.data || [] : [];
+
+  const urlOrgId = searchParams.get(ORG_QUERY_PARAM);
+  const [selectedOrgId, setSelectedOrgId] = useState<string | null>(
+    () => urlOrgId ?? localStorage.getItem(ORG_STORAGE_KEY)
   );
 
-  // Update currentOrg when organizations are loaded
-  if (!currentOrg && organizations.length > 0) {
-    setCurrentOrg(organizations[0]);
-  }
+  // A pasted link or back/forward navigation wins over the stored selection
+  useEffect(() => {
+    if (urlOrgId) setSelectedOrgId(urlOrgId);
+  }, [urlOrgId]);
+
+  // Fall back to the first organization when the selection is unknown or no longer accessible
+  const currentOrg = organizations.find(org => org.id === selectedOrgId) ?? organizations[0] ?? null;
+  const orgId = currentOrg?.id ?? null;
+
+  // Persist the effective selection and keep it in the URL across navigation
+  useEffect(() => {
+    if (!orgId) return;
+    localStorage.setItem(ORG_STORAGE_KEY, orgId);
+    if (searchParams.get(ORG_QUERY_PARAM) !== orgId) {
+      setSearchParams(prev => {
+        const next = new URLSearchParams(prev);
+        next.set(ORG_QUERY_PARAM, orgId);
+        return next;
+      }, { replace: true });
+    }
+  }, [orgId, searchParams, setSearchParams]);
 
   const value: TenantContextType = {
     currentOrg,
     organizations,
-    setCurrentOrg,
-    orgId: currentOrg?.id || null,
+    setCurrentOrg: (org) => setSelectedOrgId(org.id),
+    orgId,
     isLoading,
     error,
   };
@@ -47,4 +74,4 @@ export function useTenant() {
     throw new Error('useTenant must be used within a TenantProvider');
   }
   return context;
-}
\ No newline at end of file
+}
@@ -0,0 +1,16 @@
+import { createContext } from "react";
+import type { LoginInput } from "@/lib/validations";
+import type { User } from "@/types";
+
+export type AuthStatus = 'loading' | 'authenticated' | 'unauthenticated';
+
+export interface AuthContextType {
+  user: User | null;
+  status: AuthStatus;
+  isAuthenticated: boolean;
+  login: (credentials: LoginInput) => Promise<User>;
+  logout: () => Promise<void>;
+}
+
+// Provided by <AuthProvider>; read it through useAuth()
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
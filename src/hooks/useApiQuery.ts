@@ -2,26 +2,67 @@
  * Custom hook for API queries with React Query integration
  */
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiClient } from '@/lib/api-client';
+import { keepPreviousData, useQuery, useInfiniteQuery, useMutation, useQueryClient, type InfiniteData, type QueryClient } from '@tanstack/react-query';
+import { apiClient, type ApiResponse } from '@/lib/api-client';
 import { useToast } from '@/hooks/use-toast';
+import { useTenant } from '@/contexts/TenantContext';
+import { useAuth } from '@/hooks/useAuth';
+import { assertTransition, createStatusChange } from '@/lib/chat-lifecycle';
 import { logger } from '@/lib/logger';
-import type { CreateOrganizationInput, InviteUserInput } from '@/lib/validations';
+import { PENDING_INGESTION_STATUSES } from '@/lib/document-ingestion';
+import { ACTIVE_BACKGROUND_JOB_STATUSES, getExportFileName } from '@/lib/background-jobs';
+import { downloadBlob } from '@/lib/utils';
+import type {
+  BackgroundJobRequest,
+  BusinessHoursInput,
+  CreateOrganizationInput,
+  FAQInput,
+  InviteUserInput,
+  KnowledgeSearchInput,
+  LLMSettingsInput,
+  ReplySuggestionRequest,
+  ResourceInput,
+  ResourceUsageInput,
+  SavedReplyInput,
+  RoutingSettingsInput,
+  ScraperJobInput,
+  SendMessageInput,
+  SuggestionFeedbackInput,
+  WidgetConfigInput,
+} from '@/lib/validations';
+import type {
+  BackgroundJob,
+  BackgroundJobStatus,
+  BackgroundJobType,
+  Chat,
+  ChatStatus,
+  Customer,
+  Document,
+  FAQ,
+  Message,
+  MessageAttachment,
+  Resource,
+  RoutingStrategy,
+  ScraperJob,
+} from '@/types';
 
 // Enhanced chat queries with API client only
 export function useChats(params?: {
   page?: number;
   limit?: number;
-  status?: 'active' | 'resolved' | 'pending';
+  status?: ChatStatus;
 }) {
+  const { orgId } = useTenant();
+
   return useQuery({
-    queryKey: ['chats', params],
+    queryKey: ['chats', orgId, params],
     queryFn: async () => {
       console.log('🔄 useChats: Fetching chats with params:', params);
-      const result = await apiClient.getChats(params);
+      const result = await apiClient.getChats(params, { orgId: orgId! });
       console.log('✅ useChats: Successfully fetched chats via API client:', result);
       return result;
     },
+    enabled: !!orgId,
     staleTime: 30000, // 30 seconds
     retry: (failureCount, error) => {
       // Retry network errors, but not API errors
@@ -31,20 +72,23 @@ export function useChats(params?: {
 }
 
 export function useChat(chatId: string) {
+  const { orgId } = useTenant();
+
   return useQuery({
-    queryKey: ['chat', chatId],
-    queryFn: () => apiClient.getChatById(chatId),
-    enabled: !!chatId
+    queryKey: ['chat', orgId, chatId],
+    queryFn: () => apiClient.getChatById(chatId, { orgId: orgId! }),
+    enabled: !!chatId && !!orgId
   });
 }
 
 export function useCreateChat() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { orgId } = useTenant();
 
   return useMutation({
     mutationFn: (data: { customerId: string; subject: string; priority?: 'low' | 'medium' | 'high' | 'urgent' }) =>
-      apiClient.createChat(data),
+      apiClient.createChat(data, { orgId: orgId! }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['chats'] });
       toast({
@@ -63,19 +107,353 @@ export function useCreateChat() {
   });
 }
 
+/** Applies changes to a chat wherever it is cached: in chat lists and in its detail query */
+export function patchCachedChat(queryClient: QueryClient, orgId: string, chatId: string, changes: Partial<Chat>) {
+  queryClient.setQueriesData<ApiResponse<Chat[]>>({ queryKey: ['chats', orgId] }, (data) => data && {
+    ...data,
+    data: data.data.map(chat => chat.id === chatId ? { ...chat, ...changes } : chat),
+  });
+  queryClient.setQueryData<ApiResponse<Chat>>(['chat', orgId, chatId], (data) => data && {
+    ...data,
+    data: { ...data.data, ...changes },
+  });
+}
+
+/**
+ * Moves a chat through its lifecycle. Invalid transitions are rejected
+ * before any request is made; valid ones show up immediately and are
+ * rolled back if the server refuses them.
+ */
+export function useTransitionChat() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: ({ chat, to, reason }: { chat: Chat; to: ChatStatus; reason?: string }) => {
+      assertTransition(chat.status, to);
+      return apiClient.transitionChat(chat.id, { to, reason }, { orgId: orgId! });
+    },
+    onMutate: async ({ chat, to, reason }) => {
+      await queryClient.cancelQueries({ queryKey: ['chats', orgId] });
+      await queryClient.cancelQueries({ queryKey: ['chat', orgId, chat.id] });
+
+      const change = createStatusChange(chat.status, to, user?.id, reason);
+      patchCachedChat(queryClient, orgId!, chat.id, {
+        status: to,
+        statusHistory: [...(chat.statusHistory ?? []), change],
+        lastUpdatedAt: change.changedAt,
+      });
+    },
+    onSuccess: (response) => {
+      patchCachedChat(queryClient, orgId!, response.data.id, response.data);
+    },
+    onError: (error, { chat }) => {
+      logger.error('Failed to change chat status', { error, chatId: chat.id });
+      patchCachedChat(queryClient, orgId!, chat.id, {
+        status: chat.status,
+        statusHistory: chat.statusHistory,
+        lastUpdatedAt: chat.lastUpdatedAt,
+      });
+      toast({
+        title: "Failed to update chat",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['chats', orgId] });
+    },
+  });
+}
+
+export function useAssignChat() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: ({ chat, agentId }: { chat: Chat; agentId: string | null }) =>
+      apiClient.assignChat(chat.id, agentId, { orgId: orgId! }),
+    onMutate: async ({ chat, agentId }) => {
+      await queryClient.cancelQueries({ queryKey: ['chats', orgId] });
+      patchCachedChat(queryClient, orgId!, chat.id, { assignedAgentId: agentId ?? undefined });
+    },
+    onSuccess: (response) => {
+      patchCachedChat(queryClient, orgId!, response.data.id, response.data);
+    },
+    onError: (error, { chat }) => {
+      logger.error('Failed to assign chat', { error, chatId: chat.id });
+      patchCachedChat(queryClient, orgId!, chat.id, { assignedAgentId: chat.assignedAgentId });
+      toast({
+        title: "Failed to assign agent",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useDeleteChat() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (chatId: string) => apiClient.deleteChat(chatId, { orgId: orgId! }),
+    onMutate: async (chatId) => {
+      await queryClient.cancelQueries({ queryKey: ['chats', orgId] });
+      const previous = queryClient.getQueriesData<ApiResponse<Chat[]>>({ queryKey: ['chats', orgId] });
+      queryClient.setQueriesData<ApiResponse<Chat[]>>({ queryKey: ['chats', orgId] }, (data) => data && {
+        ...data,
+        data: data.data.filter(chat => chat.id !== chatId),
+      });
+      return { previous };
+    },
+    onError: (error, chatId, context) => {
+      logger.error('Failed to delete chat', { error, chatId });
+      context?.previous.forEach(([queryKey, data]) => queryClient.setQueryData<ApiResponse<Chat[]>>(queryKey, data));
+      toast({
+        title: "Error",
+        description: "Failed to delete chat",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['chats', orgId] });
+    },
+  });
+}
+
+// Chat transcript queries
+export type MessagePages = InfiniteData<ApiResponse<Message[]>, string | undefined>;
+
+export function useChatMessages(chatId: string, params?: { limit?: number }) {
+  const limit = params?.limit ?? 20;
+  const { orgId } = useTenant();
+
+  return useInfiniteQuery({
+    queryKey: ['chat-messages', orgId, chatId, limit],
+    queryFn: ({ pageParam }) => apiClient.getChatMessages(chatId, { before: pageParam, limit }, { orgId: orgId! }),
+    initialPageParam: undefined as string | undefined,
+    // Pages walk backwards in time, so the "next" page holds older messages
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    select: (data) => ({
+      ...data,
+      messages: [...data.pages].reverse().flatMap(page => page.data),
+    }),
+    enabled: !!chatId && !!orgId,
+    staleTime: 30000, // 30 seconds
+  });
+}
+
+export function updateNewestPage(
+  data: MessagePages | undefined,
+  update: (messages: Message[]) => Message[]
+): MessagePages | undefined {
+  if (!data || data.pages.length === 0) return data;
+  const [newest, ...older] = data.pages;
+  return { ...data, pages: [{ ...newest, data: update(newest.data) }, ...older] };
+}
+
+export function useSendChatMessage(chatId: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: (data: SendMessageInput & {
+      /** Client id of the optimistic message this send resolves */
+      clientId: string;
+    }) => {
+      const { clientId, ...payload } = data;
+      return apiClient.sendChatMessage(chatId, payload, { orgId: orgId! });
+    },
+    onMutate: async ({ clientId, ...payload }) => {
+      await queryClient.cancelQueries({ queryKey: ['chat-messages', orgId, chatId] });
+
+      const optimistic: Message = {
+        id: clientId,
+        chatId,
+        senderType: 'agent',
+        senderId: user?.id,
+        senderName: user ? `${user.firstName} ${user.lastName}` : 'Agent',
+        body: payload.body,
+        attachments: (payload.attachments ?? []) as MessageAttachment[],
+        deliveryStatus: 'sending',
+        createdAt: new Date().toISOString(),
+      };
+
+      queryClient.setQueriesData<MessagePages>(
+        { queryKey: ['chat-messages', orgId, chatId] },
+        (data) => updateNewestPage(data, messages => [
+          ...messages.filter(message => message.id !== clientId),
+          optimistic,
+        ])
+      );
+    },
+    onSuccess: (response, { clientId }) => {
+      queryClient.setQueriesData<MessagePages>(
+        { queryKey: ['chat-messages', orgId, chatId] },
+        (data) => updateNewestPage(data, messages =>
+          messages.map(message => message.id === clientId ? response.data : message)
+        )
+      );
+      queryClient.invalidateQueries({ queryKey: ['chats'] });
+    },
+    onError: (error, { clientId }) => {
+      logger.error('Failed to send message', { error, chatId });
+      queryClient.setQueriesData<MessagePages>(
+        { queryKey: ['chat-messages', orgId, chatId] },
+        (data) => updateNewestPage(data, messages =>
+          messages.map(message =>
+            message.id === clientId ? { ...message, deliveryStatus: 'failed' } : message
+          )
+        )
+      );
+      toast({
+        title: "Failed to send message",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+// Routing queries
+export function useRoutingSettings() {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['routing-settings', orgId],
+    queryFn: () => apiClient.getRoutingSettings({ orgId: orgId! }),
+    enabled: !!orgId,
+  });
+}
+
+export function useUpdateRoutingSettings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (data: Partial<RoutingSettingsInput>) => apiClient.updateRoutingSettings(data, { orgId: orgId! }),
+    onSuccess: (response) => {
+      queryClient.setQueryData(['routing-settings', orgId], response);
+      toast({
+        title: "Success",
+        description: "Routing settings saved",
+      });
+    },
+    onError: (error) => {
+      logger.error('Failed to update routing settings', { error });
+      toast({
+        title: "Error",
+        description: "Failed to save routing settings",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useSimulateRouting() {
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (data: { strategy?: RoutingStrategy; sampleSize?: number }) =>
+      apiClient.simulateRouting(data, { orgId: orgId! }),
+    onError: (error) => {
+      logger.error('Routing simulation failed', { error });
+    }
+  });
+}
+
+export function useAutoAssignChats() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: () => apiClient.autoAssignChats({ orgId: orgId! }),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['chats', orgId] });
+      queryClient.invalidateQueries({ queryKey: ['routing-settings', orgId] });
+      const assigned = response.data.filter(decision => decision.agentId).length;
+      toast({
+        title: "Queued chats routed",
+        description: `${assigned} of ${response.data.length} queued chats assigned`,
+      });
+    },
+    onError: (error) => {
+      logger.error('Failed to route queued chats', { error });
+      toast({
+        title: "Error",
+        description: "Failed to route queued chats",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+// Business hours hooks
+export function useBusinessHours() {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['business-hours', orgId],
+    queryFn: () => apiClient.getBusinessHours({ orgId: orgId! }),
+    enabled: !!orgId,
+  });
+}
+
+export function useUpdateBusinessHours() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (data: BusinessHoursInput) => apiClient.updateBusinessHours(data, { orgId: orgId! }),
+    onSuccess: (response) => {
+      queryClient.setQueryData(['business-hours', orgId], response);
+      toast({
+        title: "Success",
+        description: "Business hours saved",
+      });
+    },
+    onError: (error) => {
+      logger.error('Failed to update business hours', { error });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save business hours",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
 // Enhanced user queries with API client only
+/**
+ * Users of the current organization. Pass `allOrganizations` on the
+ * cross-tenant admin screens that manage membership.
+ */
 export function useUsers(params?: {
   page?: number;
   limit?: number;
-}) {
+}, options: { allOrganizations?: boolean } = {}) {
+  const { orgId } = useTenant();
+  const scopeOrgId = options.allOrganizations ? null : orgId;
+
   return useQuery({
-    queryKey: ['users', params],
+    queryKey: ['users', scopeOrgId ?? 'all', params],
     queryFn: async () => {
       console.log('🔄 useUsers: Fetching users with params:', params);
-      const result = await apiClient.getUsers(params);
+      const result = await apiClient.getUsers(params, scopeOrgId ? { orgId: scopeOrgId } : undefined);
       console.log('✅ useUsers: Successfully fetched users via API client:', result);
       return result;
     },
+    enabled: options.allOrganizations || !!orgId,
     staleTime: 60000, // 1 minute
     retry: (failureCount, error) => {
       // Retry network errors, but not API errors
@@ -109,6 +487,28 @@ export function useUpdateUser() {
   });
 }
 
+// Callers confirm success themselves, so a bulk move shows one message rather than one per user
+export function useMoveUserToOrganization() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ userId, organizationId }: { userId: string; organizationId: string | null }) =>
+      apiClient.moveUserToOrganization(userId, { organizationId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: (error, { userId }) => {
+      logger.error('Failed to move user', { error, userId });
+      toast({
+        title: "Error",
+        description: "Failed to move user to the organization",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
 export function useDeleteUser() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -134,9 +534,10 @@ export function useDeleteUser() {
 }
 
 // Enhanced organization queries with API client only
-export function useOrganizations() {
+export function useOrganizations(options: { enabled?: boolean } = {}) {
   return useQuery({
     queryKey: ['organizations'],
+    enabled: options.enabled ?? true,
     queryFn: async () => {
       console.log('🔄 useOrganizations: Fetching organizations');
       const result = await apiClient.getOrganizations();
@@ -250,87 +651,1130 @@ export function useInviteUser() {
   });
 }
 
-// Documents hooks
-export function useDocuments(params?: { page?: number; limit?: number; }) {
+// Engagement hooks
+export function useEngagements(params?: { page?: number; limit?: number; search?: string }) {
+  const { orgId } = useTenant();
+
   return useQuery({
-    queryKey: ['documents', params],
-    queryFn: async () => {
-      console.log('🔄 useDocuments: Fetching documents with params:', params);
-      const result = await apiClient.getDocuments(params);
-      console.log('✅ useDocuments: Successfully fetched documents via API client:', result);
-      return result;
-    },
-    staleTime: 60000, // 1 minute
-    retry: (failureCount, error) => {
-      return failureCount < 2 && error.message.includes('fetch');
-    }
+    queryKey: ['engagements', orgId, params],
+    queryFn: () => apiClient.getEngagements(params, { orgId: orgId! }),
+    enabled: !!orgId,
+    placeholderData: keepPreviousData,
   });
 }
 
-// FAQs hooks
-export function useFAQs(params?: { page?: number; limit?: number; }) {
+export function useEngagement(engagementId: string) {
+  const { orgId } = useTenant();
+
   return useQuery({
-    queryKey: ['faqs', params],
-    queryFn: async () => {
-      console.log('🔄 useFAQs: Fetching FAQs with params:', params);
-      const result = await apiClient.getFAQs(params);
-      console.log('✅ useFAQs: Successfully fetched FAQs via API client:', result);
-      return result;
+    queryKey: ['engagement', orgId, engagementId],
+    queryFn: () => apiClient.getEngagementById(engagementId, { orgId: orgId! }),
+    enabled: !!engagementId && !!orgId
+  });
+}
+
+export function useEngagementChats(engagementId: string) {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['engagement-chats', orgId, engagementId],
+    queryFn: () => apiClient.getEngagementChats(engagementId, { orgId: orgId! }),
+    enabled: !!engagementId && !!orgId
+  });
+}
+
+// Customer hooks
+export function useCustomer(customerId: string | undefined) {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['customer', orgId, customerId],
+    queryFn: () => apiClient.getCustomerById(customerId!, { orgId: orgId! }),
+    enabled: !!customerId && !!orgId
+  });
+}
+
+export function useCustomerChats(customerId: string | undefined) {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['customer-chats', orgId, customerId],
+    queryFn: () => apiClient.getCustomerChats(customerId!, { orgId: orgId! }),
+    enabled: !!customerId && !!orgId
+  });
+}
+
+export function useUpdateCustomer(customerId: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (data: Partial<Pick<Customer, 'name' | 'attributes' | 'tags'>>) =>
+      apiClient.updateCustomer(customerId, data, { orgId: orgId! }),
+    onSuccess: (response) => {
+      queryClient.setQueryData(['customer', orgId, customerId], response);
     },
-    staleTime: 60000, // 1 minute
-    retry: (failureCount, error) => {
-      return failureCount < 2 && error.message.includes('fetch');
+    onError: (error) => {
+      logger.error('Failed to update customer', { error, customerId });
+      toast({
+        title: "Error",
+        description: "Failed to update customer",
+        variant: "destructive",
+      });
     }
   });
 }
 
-// Scraper Jobs hooks
-export function useScraperJobs(params?: { page?: number; limit?: number; }) {
-  return useQuery({
-    queryKey: ['scraper-jobs', params],
-    queryFn: async () => {
-      console.log('🔄 useScraperJobs: Fetching scraper jobs with params:', params);
-      const result = await apiClient.getScraperJobs(params);
-      console.log('✅ useScraperJobs: Successfully fetched scraper jobs via API client:', result);
-      return result;
+export function useAddCustomerNote(customerId: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (body: string) => apiClient.addCustomerNote(customerId, body, { orgId: orgId! }),
+    onSuccess: (response) => {
+      queryClient.setQueryData(['customer', orgId, customerId], response);
     },
-    staleTime: 60000, // 1 minute
-    retry: (failureCount, error) => {
-      return failureCount < 2 && error.message.includes('fetch');
+    onError: (error) => {
+      logger.error('Failed to add customer note', { error, customerId });
+      toast({
+        title: "Error",
+        description: "Failed to add note",
+        variant: "destructive",
+      });
     }
   });
 }
 
-// Domains hooks
-export function useDomains(params?: { page?: number; limit?: number; }) {
+// Documents hooks
+export function useDocuments(params?: { page?: number; limit?: number; }) {
+  const { orgId } = useTenant();
+
   return useQuery({
-    queryKey: ['domains', params],
+    queryKey: ['documents', orgId, params],
     queryFn: async () => {
-      console.log('🔄 useDomains: Fetching domains with params:', params);
-      const result = await apiClient.getDomains(params);
-      console.log('✅ useDomains: Successfully fetched domains via API client:', result);
-      return result;
+      console.log('🔄 useDocuments: Fetching documents with params:', params);
+      const result = await apiClient.getDocuments(params, { orgId: orgId! });
+      console.log('✅ useDocuments: Successfully fetched documents via API client:', result);
+      return result as ApiResponse<Document[]>;
     },
+    enabled: !!orgId,
     staleTime: 60000, // 1 minute
+    // Keep polling while any document is still being ingested
+    refetchInterval: (query) =>
+      query.state.data?.data.some(document => PENDING_INGESTION_STATUSES.has(document.ingestionStatus)) ? 2000 : false,
     retry: (failureCount, error) => {
       return failureCount < 2 && error.message.includes('fetch');
     }
   });
 }
 
-// Resources hooks
-export function useResources(params?: { page?: number; limit?: number; }) {
+// Keyed by ingestion status as well, so the text and chunks reload once a document is indexed
+type IngestedDocumentRef = Pick<Document, 'id' | 'ingestionStatus'>;
+
+export function useDocumentChunks(document?: IngestedDocumentRef) {
+  const { orgId } = useTenant();
+
   return useQuery({
-    queryKey: ['resources', params],
-    queryFn: async () => {
-      console.log('🔄 useResources: Fetching resources with params:', params);
-      const result = await apiClient.getResources(params);
-      console.log('✅ useResources: Successfully fetched resources via API client:', result);
-      return result;
-    },
-    staleTime: 60000, // 1 minute
-    retry: (failureCount, error) => {
-      return failureCount < 2 && error.message.includes('fetch');
+    queryKey: ['document-chunks', orgId, document?.id, document?.ingestionStatus],
+    queryFn: () => apiClient.getDocumentChunks(document!.id, { orgId: orgId! }),
+    enabled: !!orgId && !!document,
+  });
+}
+
+export function useDocumentText(document?: IngestedDocumentRef) {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['document-text', orgId, document?.id, document?.ingestionStatus],
+    queryFn: () => apiClient.getDocumentText(document!.id, { orgId: orgId! }),
+    enabled: !!orgId && !!document,
+  });
+}
+
+/** The original upload; fails with 404 for documents whose file was not kept */
+export function useDocumentFile(documentId?: string) {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['document-file', orgId, documentId],
+    queryFn: () => apiClient.getDocumentFile(documentId!, { orgId: orgId! }),
+    enabled: !!orgId && !!documentId,
+    staleTime: Infinity,
+    retry: false,
+  });
+}
+
+export function useUploadDocument() {
+  const queryClient = useQueryClient();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: ({ file, onProgress }: { file: File; onProgress?: (fraction: number) => void }) =>
+      apiClient.uploadDocument(file, { orgId: orgId! }, onProgress),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['documents', orgId] });
+    },
+    // The upload dialog shows the error next to the file, so there is no toast
+    onError: (error, { file }) => {
+      logger.error('Failed to upload document', { error, fileName: file.name });
+    }
+  });
+}
+
+export function useDeleteDocument() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (documentId: string) => apiClient.deleteDocument(documentId, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['documents', orgId] });
+      toast({
+        title: "Document deleted",
+        description: "The document and its extracted text were removed.",
+      });
+    },
+    onError: (error, documentId) => {
+      logger.error('Failed to delete document', { error, documentId });
+      toast({
+        title: "Error",
+        description: "Failed to delete document",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useReindexDocument() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (documentId: string) => apiClient.reindexDocument(documentId, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['documents', orgId] });
+      queryClient.invalidateQueries({ queryKey: ['background-jobs', orgId] });
+      toast({
+        title: "Re-index queued",
+        description: "The document's text and chunks are rebuilt in the background.",
+      });
+    },
+    onError: (error, documentId) => {
+      logger.error('Failed to queue document re-index', { error, documentId });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to re-index document",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+// FAQs hooks
+export function useFAQs(params?: { page?: number; limit?: number; }) {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['faqs', orgId, params],
+    queryFn: async () => {
+      console.log('🔄 useFAQs: Fetching FAQs with params:', params);
+      const result = await apiClient.getFAQs(params, { orgId: orgId! });
+      console.log('✅ useFAQs: Successfully fetched FAQs via API client:', result);
+      return result as ApiResponse<FAQ[]>;
+    },
+    enabled: !!orgId,
+    staleTime: 60000, // 1 minute
+    retry: (failureCount, error) => {
+      return failureCount < 2 && error.message.includes('fetch');
+    }
+  });
+}
+
+export function useCreateFAQ() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (data: FAQInput) => apiClient.createFAQ(data, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['faqs', orgId] });
+      toast({
+        title: "Success",
+        description: "FAQ created",
+      });
+    },
+    onError: (error) => {
+      logger.error('Failed to create FAQ', { error });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create FAQ",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useUpdateFAQ() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: ({ faqId, data }: { faqId: string; data: Partial<FAQInput> }) =>
+      apiClient.updateFAQ(faqId, data, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['faqs', orgId] });
+      toast({
+        title: "Success",
+        description: "FAQ saved",
+      });
+    },
+    onError: (error, { faqId }) => {
+      logger.error('Failed to update FAQ', { error, faqId });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save FAQ",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useDeleteFAQ() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (faqId: string) => apiClient.deleteFAQ(faqId, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['faqs', orgId] });
+      toast({
+        title: "FAQ deleted",
+      });
+    },
+    onError: (error, faqId) => {
+      logger.error('Failed to delete FAQ', { error, faqId });
+      toast({
+        title: "Error",
+        description: "Failed to delete FAQ",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useReorderFAQs() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: ({ category, faqIds }: { category: string; faqIds: string[] }) =>
+      apiClient.reorderFAQs(category, faqIds, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['faqs', orgId] });
+    },
+    onError: (error, { category }) => {
+      logger.error('Failed to reorder FAQs', { error, category });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reorder FAQs",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useImportFAQs() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (faqs: FAQInput[]) => apiClient.importFAQs(faqs, { orgId: orgId! }),
+    onSuccess: ({ data }) => {
+      queryClient.invalidateQueries({ queryKey: ['faqs', orgId] });
+      toast({
+        title: "FAQs imported",
+        description: `${data.created} created, ${data.updated} updated.`,
+      });
+    },
+    onError: (error) => {
+      logger.error('Failed to import FAQs', { error });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import FAQs",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+/** Runs when a query is given; identical searches are served from the cache */
+export function useKnowledgeSearch(search: KnowledgeSearchInput | null) {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['knowledge-search', orgId, search],
+    queryFn: () => apiClient.searchKnowledge(search!, { orgId: orgId! }),
+    enabled: !!orgId && !!search?.query.trim(),
+    staleTime: 30000,
+  });
+}
+
+// Language model settings hooks
+export function useLLMSettings() {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['llm-settings', orgId],
+    queryFn: () => apiClient.getLLMSettings({ orgId: orgId! }),
+    enabled: !!orgId,
+  });
+}
+
+export function useUpdateLLMSettings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (data: LLMSettingsInput) => apiClient.updateLLMSettings(data, { orgId: orgId! }),
+    onSuccess: (response) => {
+      queryClient.setQueryData(['llm-settings', orgId], response);
+      toast({
+        title: "Success",
+        description: "Model settings saved",
+      });
+    },
+    onError: (error) => {
+      logger.error('Failed to update model settings', { error });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save model settings",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+/** The outcome of the test is the mutation's data; only request errors are toasted */
+export function useTestLLMConnection() {
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (data?: LLMSettingsInput) => apiClient.testLLMConnection(data, { orgId: orgId! }),
+    onError: (error) => {
+      logger.error('Failed to test model connection', { error });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to test the connection",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+// Reply assist hooks
+export function useReplySuggestions(chatId: string) {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['reply-suggestions', orgId, chatId],
+    queryFn: () => apiClient.getReplySuggestions(chatId, { orgId: orgId! }),
+    enabled: !!orgId && !!chatId,
+    staleTime: 30000,
+  });
+}
+
+export function useSuggestReplies(chatId: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (data: ReplySuggestionRequest = {}) => apiClient.suggestReplies(chatId, data, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reply-suggestions', orgId, chatId] });
+    },
+    onError: (error) => {
+      logger.error('Failed to suggest replies', { error, chatId });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to suggest replies",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+/** Records what the agent did with a suggestion; failures are only logged so they never get in the agent's way */
+export function useSuggestionFeedback(chatId: string) {
+  const queryClient = useQueryClient();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: ({ suggestionId, data }: { suggestionId: string; data: SuggestionFeedbackInput }) =>
+      apiClient.sendSuggestionFeedback(chatId, suggestionId, data, { orgId: orgId! }),
+    onSuccess: (_, { data }) => {
+      queryClient.invalidateQueries({ queryKey: ['reply-suggestions', orgId, chatId] });
+      if (data.outcome !== 'rejected') {
+        queryClient.invalidateQueries({ queryKey: ['resources', orgId] });
+      }
+    },
+    onError: (error, { suggestionId }) => {
+      logger.error('Failed to record suggestion feedback', { error, chatId, suggestionId });
+    }
+  });
+}
+
+// Scraper Jobs hooks
+export function useScraperJobs(params?: { page?: number; limit?: number; }) {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['scraper-jobs', orgId, params],
+    queryFn: async () => {
+      console.log('🔄 useScraperJobs: Fetching scraper jobs with params:', params);
+      const result = await apiClient.getScraperJobs(params, { orgId: orgId! });
+      console.log('✅ useScraperJobs: Successfully fetched scraper jobs via API client:', result);
+      return result as ApiResponse<ScraperJob[]>;
+    },
+    enabled: !!orgId,
+    staleTime: 60000, // 1 minute
+    // Keep polling while a crawl is waiting on the queue or in progress
+    refetchInterval: (query) =>
+      query.state.data?.data.some(job => job.status === 'queued' || job.status === 'running') ? 2000 : false,
+    retry: (failureCount, error) => {
+      return failureCount < 2 && error.message.includes('fetch');
+    }
+  });
+}
+
+/** Keyed by the job's status as well, so the history reloads when a run finishes */
+export function useScraperRuns(job?: Pick<ScraperJob, 'id' | 'status'>) {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['scraper-runs', orgId, job?.id, job?.status],
+    queryFn: () => apiClient.getScraperRuns(job!.id, { orgId: orgId! }),
+    enabled: !!orgId && !!job,
+  });
+}
+
+export function useCreateScraperJob() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (data: ScraperJobInput) => apiClient.createScraperJob(data, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scraper-jobs', orgId] });
+      toast({
+        title: "Success",
+        description: "Scraper job created",
+      });
+    },
+    onError: (error) => {
+      logger.error('Failed to create scraper job', { error });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create scraper job",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useUpdateScraperJob() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: ({ jobId, data }: { jobId: string; data: Partial<ScraperJobInput> }) =>
+      apiClient.updateScraperJob(jobId, data, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scraper-jobs', orgId] });
+      toast({
+        title: "Success",
+        description: "Scraper job saved",
+      });
+    },
+    onError: (error, { jobId }) => {
+      logger.error('Failed to update scraper job', { error, jobId });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save scraper job",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useDeleteScraperJob() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (jobId: string) => apiClient.deleteScraperJob(jobId, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scraper-jobs', orgId] });
+      toast({
+        title: "Scraper job deleted",
+        description: "The job, its run history and its scraped pages were removed.",
+      });
+    },
+    onError: (error, jobId) => {
+      logger.error('Failed to delete scraper job', { error, jobId });
+      toast({
+        title: "Error",
+        description: "Failed to delete scraper job",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useRunScraperJob() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (jobId: string) => apiClient.runScraperJob(jobId, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scraper-jobs', orgId] });
+      queryClient.invalidateQueries({ queryKey: ['background-jobs', orgId] });
+      toast({
+        title: "Scrape queued",
+        description: "The run history updates when the crawl finishes.",
+      });
+    },
+    onError: (error, jobId) => {
+      logger.error('Failed to start scraper job', { error, jobId });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start scraper job",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+/** Pauses or resumes a job's schedule */
+export function useSetScraperJobPaused() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: ({ jobId, paused }: { jobId: string; paused: boolean }) =>
+      paused
+        ? apiClient.pauseScraperJob(jobId, { orgId: orgId! })
+        : apiClient.resumeScraperJob(jobId, { orgId: orgId! }),
+    onSuccess: (_, { paused }) => {
+      queryClient.invalidateQueries({ queryKey: ['scraper-jobs', orgId] });
+      queryClient.invalidateQueries({ queryKey: ['background-jobs', orgId] });
+      toast({
+        title: paused ? "Schedule paused" : "Schedule resumed",
+        description: paused
+          ? "The job will not run until it is resumed. It can still be run manually."
+          : "The job runs again at its next scheduled time.",
+      });
+    },
+    onError: (error, variables) => {
+      logger.error('Failed to change scraper job schedule', { error, ...variables });
+      toast({
+        title: "Error",
+        description: "Failed to change the job's schedule",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+// Background jobs hooks
+export function useBackgroundJobs(params?: { type?: BackgroundJobType; status?: BackgroundJobStatus }) {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['background-jobs', orgId, params],
+    queryFn: () => apiClient.getBackgroundJobs(params, { orgId: orgId! }),
+    enabled: !!orgId,
+    // Keep polling while anything is waiting or in progress
+    refetchInterval: (query) =>
+      query.state.data?.data.some(job => ACTIVE_BACKGROUND_JOB_STATUSES.has(job.status)) ? 2000 : false,
+  });
+}
+
+export function useCreateBackgroundJob() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (data: BackgroundJobRequest) => apiClient.createBackgroundJob(data, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['background-jobs', orgId] });
+      toast({
+        title: "Job queued",
+        description: "Follow its progress on this page.",
+      });
+    },
+    onError: (error, data) => {
+      logger.error('Failed to queue background job', { error, type: data.type });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to queue the job",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useRetryBackgroundJob() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (jobId: string) => apiClient.retryBackgroundJob(jobId, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['background-jobs', orgId] });
+    },
+    onError: (error, jobId) => {
+      logger.error('Failed to retry background job', { error, jobId });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to retry the job",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useCancelBackgroundJob() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (jobId: string) => apiClient.cancelBackgroundJob(jobId, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['background-jobs', orgId] });
+      // A cancelled scrape puts its scraper job back to its previous status
+      queryClient.invalidateQueries({ queryKey: ['scraper-jobs', orgId] });
+    },
+    onError: (error, jobId) => {
+      logger.error('Failed to cancel background job', { error, jobId });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel the job",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+/** Downloads the file a completed data export produced */
+export function useDownloadExport() {
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (job: BackgroundJob) => apiClient.downloadBackgroundJobFile(job.id, { orgId: orgId! }),
+    onSuccess: (file, job) => downloadBlob(file, getExportFileName(job.payload, job.createdAt)),
+    onError: (error, job) => {
+      logger.error('Failed to download export', { error, jobId: job.id });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to download the export",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+// Domains hooks
+export function useDomains(params?: { page?: number; limit?: number; }) {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['domains', orgId, params],
+    queryFn: async () => {
+      console.log('🔄 useDomains: Fetching domains with params:', params);
+      const result = await apiClient.getDomains(params, { orgId: orgId! });
+      console.log('✅ useDomains: Successfully fetched domains via API client:', result);
+      return result;
+    },
+    enabled: !!orgId,
+    staleTime: 60000, // 1 minute
+    retry: (failureCount, error) => {
+      return failureCount < 2 && error.message.includes('fetch');
+    }
+  });
+}
+
+// Resources hooks
+export function useResources(params?: { page?: number; limit?: number; }) {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['resources', orgId, params],
+    queryFn: async () => {
+      console.log('🔄 useResources: Fetching resources with params:', params);
+      const result = await apiClient.getResources(params, { orgId: orgId! });
+      console.log('✅ useResources: Successfully fetched resources via API client:', result);
+      return result as ApiResponse<Resource[]>;
+    },
+    enabled: !!orgId,
+    staleTime: 60000, // 1 minute
+    retry: (failureCount, error) => {
+      return failureCount < 2 && error.message.includes('fetch');
+    }
+  });
+}
+
+export function useCreateResource() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (data: ResourceInput) => apiClient.createResource(data, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['resources', orgId] });
+      toast({
+        title: "Success",
+        description: "Resource created",
+      });
+    },
+    onError: (error) => {
+      logger.error('Failed to create resource', { error });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create resource",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useUpdateResource() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: ({ resourceId, data }: { resourceId: string; data: Partial<ResourceInput> }) =>
+      apiClient.updateResource(resourceId, data, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['resources', orgId] });
+      toast({
+        title: "Success",
+        description: "Resource saved",
+      });
+    },
+    onError: (error, { resourceId }) => {
+      logger.error('Failed to update resource', { error, resourceId });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save resource",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useDeleteResource() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (resourceId: string) => apiClient.deleteResource(resourceId, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['resources', orgId] });
+      toast({
+        title: "Success",
+        description: "Resource deleted",
+      });
+    },
+    onError: (error, resourceId) => {
+      logger.error('Failed to delete resource', { error, resourceId });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete resource",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useResourceUsage(resourceId: string | null) {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['resource-usage', orgId, resourceId],
+    queryFn: () => apiClient.getResourceUsage(resourceId!, { orgId: orgId! }),
+    enabled: !!orgId && !!resourceId,
+  });
+}
+
+/** Records that a chat referenced a resource; silent, since it happens as a side effect of replying */
+export function useRecordResourceUsage() {
+  const queryClient = useQueryClient();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: ({ resourceId, data }: { resourceId: string; data: ResourceUsageInput }) =>
+      apiClient.recordResourceUsage(resourceId, data, { orgId: orgId! }),
+    onSuccess: (_, { resourceId }) => {
+      queryClient.invalidateQueries({ queryKey: ['resources', orgId] });
+      queryClient.invalidateQueries({ queryKey: ['resource-usage', orgId, resourceId] });
+    },
+    onError: (error, { resourceId }) => {
+      logger.error('Failed to record resource usage', { error, resourceId });
+    }
+  });
+}
+
+// Saved replies hooks
+export function useSavedReplies() {
+  const { orgId } = useTenant();
+  const { user } = useAuth();
+
+  return useQuery({
+    // Personal replies differ per user
+    queryKey: ['saved-replies', orgId, user?.id],
+    queryFn: () => apiClient.getSavedReplies({ orgId: orgId! }),
+    enabled: !!orgId && !!user,
+    staleTime: 60000, // 1 minute
+  });
+}
+
+export function useCreateSavedReply() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (data: SavedReplyInput) => apiClient.createSavedReply(data, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-replies', orgId] });
+      toast({
+        title: "Success",
+        description: "Saved reply created",
+      });
+    },
+    onError: (error) => {
+      logger.error('Failed to create saved reply', { error });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create saved reply",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useUpdateSavedReply() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: ({ replyId, data }: { replyId: string; data: Partial<SavedReplyInput> }) =>
+      apiClient.updateSavedReply(replyId, data, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-replies', orgId] });
+      toast({
+        title: "Success",
+        description: "Saved reply updated",
+      });
+    },
+    onError: (error, { replyId }) => {
+      logger.error('Failed to update saved reply', { error, replyId });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update saved reply",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useDeleteSavedReply() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (replyId: string) => apiClient.deleteSavedReply(replyId, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-replies', orgId] });
+      toast({
+        title: "Success",
+        description: "Saved reply deleted",
+      });
+    },
+    onError: (error, replyId) => {
+      logger.error('Failed to delete saved reply', { error, replyId });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete saved reply",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+/** Counts an insertion into the composer; failures are only logged so they never get in the agent's way */
+export function useRecordSavedReplyUse() {
+  const queryClient = useQueryClient();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (replyId: string) => apiClient.recordSavedReplyUse(replyId, { orgId: orgId! }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-replies', orgId] });
+    },
+    onError: (error, replyId) => {
+      logger.error('Failed to record saved reply use', { error, replyId });
+    }
+  });
+}
+
+// Chat widget hooks
+export function useWidgetSettings() {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['widget-settings', orgId],
+    queryFn: () => apiClient.getWidgetSettings({ orgId: orgId! }),
+    enabled: !!orgId,
+  });
+}
+
+export function useSaveWidgetDraft() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (data: WidgetConfigInput) => apiClient.saveWidgetDraft(data, { orgId: orgId! }),
+    onSuccess: (response) => {
+      queryClient.setQueryData(['widget-settings', orgId], response);
+      toast({
+        title: "Success",
+        description: "Draft saved; publish it to show the changes to customers",
+      });
+    },
+    onError: (error) => {
+      logger.error('Failed to save widget draft', { error });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the draft",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function usePublishWidget() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: () => apiClient.publishWidget({ orgId: orgId! }),
+    onSuccess: (response) => {
+      queryClient.setQueryData(['widget-settings', orgId], response);
+      queryClient.invalidateQueries({ queryKey: ['widget-versions', orgId] });
+      toast({
+        title: "Success",
+        description: `Version ${response.data.publishedVersion} is live`,
+      });
+    },
+    onError: (error) => {
+      logger.error('Failed to publish widget', { error });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to publish the widget",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+export function useWidgetVersions() {
+  const { orgId } = useTenant();
+
+  return useQuery({
+    queryKey: ['widget-versions', orgId],
+    queryFn: () => apiClient.getWidgetVersions({ orgId: orgId! }),
+    enabled: !!orgId,
+  });
+}
+
+export function useRollbackWidget() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { orgId } = useTenant();
+
+  return useMutation({
+    mutationFn: (version: number) => apiClient.rollbackWidget(version, { orgId: orgId! }),
+    onSuccess: (response, version) => {
+      queryClient.setQueryData(['widget-settings', orgId], response);
+      queryClient.invalidateQueries({ queryKey: ['widget-versions', orgId] });
+      toast({
+        title: "Success",
+        description: `Version ${version} is live again as version ${response.data.publishedVersion}`,
+      });
+    },
+    onError: (error) => {
+      logger.error('Failed to roll back widget', { error });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to roll back the widget",
+        variant: "destructive",
+      });
+    }
+  });
+}
+
+// Mock data management
+export function useResetMockData() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: () => apiClient.resetMockData(),
+    onSuccess: () => {
+      // Every cached query may hold data from before the reset
+      queryClient.invalidateQueries();
+      toast({
+        title: "Mock data reset",
+        description: "All collections were restored from the seed files",
+      });
+    },
+    onError: (error) => {
+      logger.error('Failed to reset mock data', { error });
+      toast({
+        title: "Error",
+        description: "Failed to reset mock data",
+        variant: "destructive",
+      });
     }
   });
 }
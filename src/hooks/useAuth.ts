@@ -0,0 +1,14 @@
+/**
+ * Access to the signed-in user and the login/logout actions
+ */
+
+import { useContext } from 'react';
+import { AuthContext } from '@/contexts/auth-context';
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
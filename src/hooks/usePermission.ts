@@ -0,0 +1,11 @@
+/**
+ * Permission hook for hiding actions the signed-in user may not perform
+ */
+
+import { useAuth } from '@/hooks/useAuth';
+import { hasPermission, type Permission } from '@/lib/permissions';
+
+export function usePermission(permission: Permission): boolean {
+  const { user } = useAuth();
+  return hasPermission(user?.role, permission);
+}
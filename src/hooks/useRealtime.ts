@@ -0,0 +1,160 @@
+/**
+ * Realtime hooks
+ * Keep the React Query cache in step with the event stream and expose
+ * connection status and typing indicators to components.
+ */
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { useTenant } from '@/contexts/TenantContext';
+import { useFeatureFlag } from '@/hooks/useFeatureFlag';
+import { useToast } from '@/hooks/use-toast';
+import { patchCachedChat, updateNewestPage, type MessagePages } from '@/hooks/useApiQuery';
+import type { ApiResponse } from '@/lib/api-client';
+import { isMockEnabled } from '@/lib/config';
+import { logger } from '@/lib/logger';
+import { mockBackend } from '@/lib/mock-backend';
+import { realtimeClient, type Typist } from '@/lib/realtime-client';
+import type { Chat, ChatStatus, ChatStatusChange, RealtimeEvent } from '@/types';
+
+// How often a "still typing" event is re-sent while the agent keeps typing
+const TYPING_THROTTLE_MS = 3000;
+
+function withStatusChange(chat: Chat, status: ChatStatus, change?: ChatStatusChange): Chat {
+  const history = chat.statusHistory ?? [];
+  const isRecorded = !change || history.some(entry => entry.changedAt === change.changedAt && entry.to === change.to);
+  return { ...chat, status, statusHistory: isRecorded ? history : [...history, change] };
+}
+
+function applyEvent(queryClient: QueryClient, event: RealtimeEvent, currentUserId?: string) {
+  switch (event.type) {
+    case 'chat.created':
+      queryClient.setQueriesData<ApiResponse<Chat[]>>({ queryKey: ['chats', event.orgId] }, (data) => {
+        if (!data || data.data.some(chat => chat.id === event.chat.id)) return data;
+        return {
+          ...data,
+          data: [event.chat, ...data.data],
+          pagination: data.pagination && { ...data.pagination, total: data.pagination.total + 1 },
+        };
+      });
+      break;
+    case 'message.received':
+      // Our own sends are already in the cache through the optimistic update
+      if (event.actorId && event.actorId === currentUserId) break;
+      queryClient.setQueriesData<MessagePages>(
+        { queryKey: ['chat-messages', event.orgId, event.message.chatId] },
+        (data) => updateNewestPage(data, messages =>
+          messages.some(message => message.id === event.message.id) ? messages : [...messages, event.message]
+        )
+      );
+      patchCachedChat(queryClient, event.orgId, event.message.chatId, { lastUpdatedAt: event.message.createdAt });
+      break;
+    case 'chat.status_changed':
+      queryClient.setQueriesData<ApiResponse<Chat[]>>({ queryKey: ['chats', event.orgId] }, (data) => data && {
+        ...data,
+        data: data.data.map(chat => chat.id === event.chatId ? withStatusChange(chat, event.status, event.change) : chat),
+      });
+      queryClient.setQueryData<ApiResponse<Chat>>(['chat', event.orgId, event.chatId], (data) => data && {
+        ...data,
+        data: withStatusChange(data.data, event.status, event.change),
+      });
+      break;
+    case 'chat.assigned':
+      patchCachedChat(queryClient, event.orgId, event.chatId, { assignedAgentId: event.agentId ?? undefined });
+      break;
+  }
+}
+
+/**
+ * Connects to the event stream of the selected organization and applies
+ * incoming events to cached queries. Mount once, inside the tenant provider.
+ */
+export function useRealtimeSync() {
+  const enabled = useFeatureFlag('realTime');
+  const { user, isAuthenticated } = useAuth();
+  const { orgId } = useTenant();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!enabled || !isAuthenticated || !orgId) return;
+
+    realtimeClient.connect(orgId);
+    const unsubscribe = realtimeClient.subscribe(async (event) => {
+      // Other tabs and the dev server never touched this browser's mock store
+      if (isMockEnabled()) {
+        try {
+          await mockBackend.ingest(event);
+        } catch (error) {
+          // The cache is still patched below; the store catches up on the next write or reload
+          logger.error('Failed to store realtime event', { error, type: event.type, orgId: event.orgId }, 'Realtime');
+        }
+      }
+      applyEvent(queryClient, event, userId);
+
+      if (event.type === 'chat.assigned' && event.agentId === userId && event.actorId !== userId) {
+        toast({
+          title: "New chat assigned",
+          description: "A chat has been assigned to you",
+        });
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      realtimeClient.disconnect();
+    };
+  }, [enabled, isAuthenticated, orgId, userId, queryClient, toast]);
+}
+
+export function useRealtimeStatus() {
+  return useSyncExternalStore(
+    (listener) => realtimeClient.onStatusChange(listener),
+    () => realtimeClient.getStatus()
+  );
+}
+
+const NO_TYPISTS: Typist[] = [];
+
+/** Everyone but the signed-in user who is currently typing in a chat */
+export function useChatTypists(chatId: string | undefined): Typist[] {
+  const { user } = useAuth();
+  const typists = useSyncExternalStore(
+    (listener) => realtimeClient.onTypingChange(listener),
+    () => (chatId ? realtimeClient.getTypists(chatId) : NO_TYPISTS)
+  );
+  return user ? typists.filter(typist => typist.senderId !== user.id) : typists;
+}
+
+/**
+ * Returns a callback to report the signed-in user's typing state in a chat.
+ * Repeated "typing" calls are throttled; "stopped" is always sent.
+ */
+export function useTypingNotifier(chat: Pick<Chat, 'id' | 'organizationId'> | undefined) {
+  const enabled = useFeatureFlag('realTime');
+  const { user } = useAuth();
+  const lastSentAt = useRef(0);
+
+  return useCallback((isTyping: boolean) => {
+    if (!enabled || !chat || !user) return;
+
+    const now = Date.now();
+    if (isTyping && now - lastSentAt.current < TYPING_THROTTLE_MS) return;
+    if (!isTyping && lastSentAt.current === 0) return;
+    lastSentAt.current = isTyping ? now : 0;
+
+    realtimeClient.publish({
+      type: 'typing',
+      orgId: chat.organizationId,
+      occurredAt: new Date(now).toISOString(),
+      actorId: user.id,
+      chatId: chat.id,
+      senderType: 'agent',
+      senderId: user.id,
+      senderName: `${user.firstName} ${user.lastName}`,
+      isTyping,
+    });
+  }, [enabled, chat, user]);
+}
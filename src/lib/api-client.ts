@@ -1,10 +1,62 @@
 /**
- * API client with static mock integration
+ * API client with local mock backend integration
  * Provides a consistent interface for all API calls
  */
 
 import config from './config';
-import type { CreateOrganizationInput, InviteUserInput } from './validations';
+import { mockBackend } from './mock-backend';
+import { authSession } from './auth-session';
+import { logger } from './logger';
+import type {
+  BackgroundJobRequest,
+  BusinessHoursInput,
+  CreateOrganizationInput,
+  FAQInput,
+  InviteUserInput,
+  KnowledgeSearchInput,
+  LLMSettingsInput,
+  LoginInput,
+  ReplySuggestionRequest,
+  ResourceInput,
+  ResourceUsageInput,
+  SavedReplyInput,
+  RoutingSettingsInput,
+  ScraperJobInput,
+  SendMessageInput,
+  SuggestionFeedbackInput,
+  UserOrganizationInput,
+  WidgetConfigInput,
+} from './validations';
+import type {
+  BackgroundJob,
+  BackgroundJobStatus,
+  BackgroundJobType,
+  BusinessHours,
+  Chat,
+  ChatStatus,
+  Customer,
+  Document,
+  DocumentChunk,
+  Engagement,
+  FAQ,
+  KnowledgeSearchResponse,
+  LLMConnectionTestResult,
+  LLMSettings,
+  Message,
+  ReplySuggestion,
+  ReplySuggestionsResponse,
+  Resource,
+  ResourceUsage,
+  SavedReply,
+  RoutingDecision,
+  RoutingSettings,
+  RoutingStrategy,
+  ScraperJob,
+  ScraperRun,
+  User,
+  WidgetConfigVersion,
+  WidgetSettings,
+} from '@/types';
 
 export interface ApiResponse<T> {
   data: T;
@@ -14,10 +66,28 @@ export interface ApiResponse<T> {
     total: number;
     totalPages: number;
   };
+  /** Cursor-paged lists: what to pass to fetch the following page, absent on the last one */
+  nextCursor?: string;
   timestamp: string;
   success: boolean;
 }
 
+export interface AuthSessionResponse {
+  accessToken: string;
+  refreshToken: string;
+  /** Access token lifetime in seconds */
+  expiresIn: number;
+  user: User;
+}
+
+/** Tenant a request is scoped to; sent as the `X-Org-Id` header */
+export interface TenantScope {
+  orgId: string;
+}
+
+// Endpoints that must never trigger a token refresh when they return 401
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/refresh', '/auth/logout'];
+
 export interface ApiError {
   message: string;
   code?: string;
@@ -26,40 +96,65 @@ export interface ApiError {
 
 class ApiClient {
   private baseUrl: string;
+  private refreshPromise: Promise<boolean> | null = null;
 
   constructor() {
-    // Use static mocks in development, real API in production
-    this.baseUrl = config.mock.enabled ? '/mocks' : '/api';
+    this.baseUrl = '/api';
+  }
+
+  // In mock mode requests are answered by the in-browser backend and never hit the network
+  private send(endpoint: string, options: RequestInit): Promise<Response> {
+    if (config.mock.enabled) {
+      return mockBackend.handle(endpoint, options);
+    }
+    return fetch(`${this.baseUrl}${endpoint}`, options);
   }
 
   private async request<T>(
     endpoint: string,
     options: RequestInit = {},
-    retryCount = 0
+    retryCount = 0,
+    authRetried = false
   ): Promise<T> {
-    let url = `${this.baseUrl}${endpoint}`;
     const maxRetries = 2;
+    const isAuthEndpoint = AUTH_ENDPOINTS.some(path => endpoint.startsWith(path));
     
-    // For static mocks, append .json to the endpoint
-    if (config.mock.enabled) {
-      url = `${this.baseUrl}${endpoint}.json`;
+    // Refresh ahead of time rather than waiting for the server to reject an expired token
+    if (!isAuthEndpoint && authSession.getTokens() && authSession.isAccessTokenExpired()) {
+      await this.refreshSession();
     }
     
-    console.log(`🌐 API Request: ${options.method || 'GET'} ${endpoint} (attempt ${retryCount + 1})`);
+    // Only the method, path and status are logged; bodies carry tokens and customer data
+    const method = options.method || 'GET';
+    logger.debug(`API ${method} ${endpoint} (attempt ${retryCount + 1})`, undefined, 'API');
     
+    const tokens = authSession.getTokens();
     const defaultOptions: RequestInit = {
+      ...options,
       headers: {
-        'Content-Type': 'application/json',
+        // Multipart bodies carry their own content type with the boundary
+        ...(!(options.body instanceof FormData) && { 'Content-Type': 'application/json' }),
+        ...(tokens && { Authorization: `Bearer ${tokens.accessToken}` }),
         ...options.headers,
       },
-      ...options,
     };
 
     try {
-      const response = await fetch(url, defaultOptions);
+      const response = await this.send(endpoint, defaultOptions);
       
-      console.log(`🌐 API Response: ${response.status} ${response.statusText}`);
+      logger.debug(`API ${method} ${endpoint} answered ${response.status}`, undefined, 'API');
       
+      if (response.status === 401 && !isAuthEndpoint) {
+        if (!authRetried && await this.refreshSession(tokens)) {
+          return this.request<T>(endpoint, options, retryCount, true);
+        }
+        // The session is gone for good, unless another tab has stored new tokens since; then only this request failed
+        if (authSession.getTokens()?.refreshToken === tokens?.refreshToken) {
+          authSession.clear();
+          authSession.notifyUnauthorized();
+        }
+      }
+
       if (!response.ok) {
         let errorMessage = `HTTP ${response.status}`;
         let errorDetails: any = null;
@@ -82,16 +177,15 @@ class ApiClient {
       }
 
       const data: T = await response.json();
-      console.log(`🌐 API Success:`, data);
       return data;
       
     } catch (error) {
-      console.error(`❌ API Error: ${endpoint}`, {
+      logger.error(`API ${method} ${endpoint} failed`, {
         error: error.message,
         name: error.name,
         attempt: retryCount + 1,
         maxRetries: maxRetries + 1
-      });
+      }, 'API');
       
       // Retry logic for network errors or server errors (500+)
       const shouldRetry = (
@@ -103,64 +197,348 @@ class ApiClient {
       );
       
       if (shouldRetry) {
-        console.log(`🔄 Retrying API request in ${(retryCount + 1) * 1000}ms...`);
+        logger.debug(`Retrying API ${method} ${endpoint} in ${(retryCount + 1) * 1000}ms`, undefined, 'API');
         await new Promise(resolve => setTimeout(resolve, (retryCount + 1) * 1000));
-        return this.request<T>(endpoint, options, retryCount + 1);
+        return this.request<T>(endpoint, options, retryCount + 1, authRetried);
       }
       
       throw error;
     }
   }
 
+  /**
+   * Posts a multipart body, reporting upload progress as a fraction from 0 to 1.
+   * `fetch` cannot observe upload progress, so the real API is called through
+   * XMLHttpRequest; the mock backend answers in one step.
+   */
+  private async upload<T>(
+    endpoint: string,
+    body: FormData,
+    scope: TenantScope,
+    onProgress?: (fraction: number) => void
+  ): Promise<T> {
+    if (config.mock.enabled) {
+      const response = await this.request<T>(endpoint, this.scoped(scope, { method: 'POST', body }));
+      onProgress?.(1);
+      return response;
+    }
+
+    if (authSession.getTokens() && authSession.isAccessTokenExpired()) {
+      await this.refreshSession();
+    }
+    const tokens = authSession.getTokens();
+
+    return new Promise<T>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', `${this.baseUrl}${endpoint}`);
+      if (tokens) xhr.setRequestHeader('Authorization', `Bearer ${tokens.accessToken}`);
+      xhr.setRequestHeader('X-Org-Id', scope.orgId);
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+      };
+      xhr.onload = () => {
+        let payload: unknown = null;
+        try {
+          payload = JSON.parse(xhr.responseText);
+        } catch {
+          // Error pages are not always JSON
+        }
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve(payload as T);
+          return;
+        }
+        const errorResponse = payload as ApiError | null;
+        const apiError = new Error(errorResponse?.message || xhr.statusText || `HTTP ${xhr.status}`);
+        apiError.name = 'ApiError';
+        reject(Object.assign(apiError, { status: xhr.status, details: errorResponse?.details }));
+      };
+      xhr.onerror = () => reject(new TypeError(`Network error while uploading to ${endpoint}`));
+      xhr.send(body);
+    });
+  }
+
+  /** Fetches a binary resource such as an uploaded file; not retried */
+  private async requestBlob(endpoint: string, options: RequestInit = {}): Promise<Blob> {
+    if (authSession.getTokens() && authSession.isAccessTokenExpired()) {
+      await this.refreshSession();
+    }
+    const tokens = authSession.getTokens();
+    const response = await this.send(endpoint, {
+      ...options,
+      headers: {
+        ...(tokens && { Authorization: `Bearer ${tokens.accessToken}` }),
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorResponse: ApiError | null = await response.json().catch(() => null);
+      const apiError = new Error(errorResponse?.message || response.statusText || `HTTP ${response.status}`);
+      apiError.name = 'ApiError';
+      throw Object.assign(apiError, { status: response.status, details: errorResponse?.details });
+    }
+    return response.blob();
+  }
+
+  private scoped(scope?: TenantScope, options: RequestInit = {}): RequestInit {
+    if (!scope) return options;
+    return { ...options, headers: { ...options.headers, 'X-Org-Id': scope.orgId } };
+  }
+
+  /**
+   * Exchanges the refresh token for a new token pair. Concurrent callers share
+   * one in-flight refresh, and tabs take turns through a lock. `seen` is the
+   * pair the caller found stale; when another tab has replaced it meanwhile,
+   * the new pair is used as is. Resolves false when the session cannot be
+   * renewed and the stored tokens are still the ones that failed.
+   */
+  private refreshSession(seen = authSession.getTokens()): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = authSession.withRefreshLock(async () => {
+        // Read again: the tab that held the lock before may have rotated the tokens
+        const tokens = authSession.getTokens();
+        if (!tokens) return false;
+        if (seen && tokens.refreshToken !== seen.refreshToken && !authSession.isAccessTokenExpired()) return true;
+
+        try {
+          const response = await this.request<ApiResponse<AuthSessionResponse>>('/auth/refresh', {
+            method: 'POST',
+            body: JSON.stringify({ refreshToken: tokens.refreshToken }),
+          });
+          authSession.setTokens(response.data);
+          return true;
+        } catch (error) {
+          logger.warn('Session refresh failed', error, 'API');
+          const latest = authSession.getTokens();
+          return !!latest && latest.refreshToken !== tokens.refreshToken;
+        }
+      }).finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  // Auth endpoints
+  async login(credentials: LoginInput): Promise<ApiResponse<AuthSessionResponse>> {
+    const response = await this.request<ApiResponse<AuthSessionResponse>>('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify(credentials),
+    });
+    authSession.setTokens(response.data);
+    return response;
+  }
+
+  /** Revokes the session server-side, then forgets the tokens locally */
+  async logout(): Promise<void> {
+    const tokens = authSession.getTokens();
+    try {
+      if (tokens) {
+        await this.request('/auth/logout', {
+          method: 'POST',
+          body: JSON.stringify({ refreshToken: tokens.refreshToken }),
+        });
+      }
+    } finally {
+      authSession.clear();
+    }
+  }
+
+  async getCurrentUser(): Promise<ApiResponse<User>> {
+    return this.request('/auth/me');
+  }
+
+  /** Proactively renews the access token; used by the auth provider before expiry */
+  async renewSession(): Promise<boolean> {
+    return this.refreshSession();
+  }
+
   // Chat endpoints
-  async getChats(params?: {
+  async getChats(params: {
     page?: number;
     limit?: number;
-    status?: 'active' | 'resolved' | 'pending';
-  }): Promise<ApiResponse<any[]>> {
-    if (config.mock.enabled) {
-      return this.request(`/chats`);
-    }
-    
+    status?: ChatStatus;
+  } | undefined, scope: TenantScope): Promise<ApiResponse<any[]>> {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.set('page', params.page.toString());
     if (params?.limit) searchParams.set('limit', params.limit.toString());
     if (params?.status) searchParams.set('status', params.status);
 
     const query = searchParams.toString();
-    return this.request(`/chats${query ? `?${query}` : ''}`);
+    return this.request(`/chats${query ? `?${query}` : ''}`, this.scoped(scope));
   }
 
-  async getChatById(chatId: string): Promise<ApiResponse<any>> {
-    return this.request(`/chats/${chatId}`);
+  async getChatById(chatId: string, scope: TenantScope): Promise<ApiResponse<any>> {
+    return this.request(`/chats/${chatId}`, this.scoped(scope));
   }
 
   async createChat(data: {
     customerId: string;
     subject: string;
     priority?: 'low' | 'medium' | 'high' | 'urgent';
-  }): Promise<ApiResponse<any>> {
-    return this.request('/chats', {
+  }, scope: TenantScope): Promise<ApiResponse<any>> {
+    return this.request('/chats', this.scoped(scope, {
       method: 'POST',
       body: JSON.stringify(data),
-    });
+    }));
+  }
+
+  /** Moves a chat to another lifecycle status; the server records it in `statusHistory` */
+  async transitionChat(chatId: string, data: {
+    to: ChatStatus;
+    reason?: string;
+  }, scope: TenantScope): Promise<ApiResponse<Chat>> {
+    return this.request(`/chats/${chatId}/transitions`, this.scoped(scope, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  /** Pass `null` to unassign */
+  async assignChat(chatId: string, agentId: string | null, scope: TenantScope): Promise<ApiResponse<Chat>> {
+    return this.request(`/chats/${chatId}/assign`, this.scoped(scope, {
+      method: 'POST',
+      body: JSON.stringify({ agentId }),
+    }));
+  }
+
+  async deleteChat(chatId: string, scope: TenantScope): Promise<ApiResponse<{ success: boolean }>> {
+    return this.request(`/chats/${chatId}`, this.scoped(scope, {
+      method: 'DELETE',
+    }));
+  }
+
+  // Routing endpoints
+  async getRoutingSettings(scope: TenantScope): Promise<ApiResponse<RoutingSettings>> {
+    return this.request('/routing/settings', this.scoped(scope));
+  }
+
+  async updateRoutingSettings(data: Partial<RoutingSettingsInput>, scope: TenantScope): Promise<ApiResponse<RoutingSettings>> {
+    return this.request('/routing/settings', this.scoped(scope, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  /** Shows how the queued chats, plus `sampleSize` made-up ones, would be distributed */
+  async simulateRouting(data: {
+    strategy?: RoutingStrategy;
+    sampleSize?: number;
+  }, scope: TenantScope): Promise<ApiResponse<RoutingDecision[]>> {
+    return this.request('/routing/simulate', this.scoped(scope, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  /** Routes every queued, unassigned chat of the organization */
+  async autoAssignChats(scope: TenantScope): Promise<ApiResponse<RoutingDecision[]>> {
+    return this.request('/routing/assign', this.scoped(scope, { method: 'POST' }));
+  }
+
+  // Business hours endpoints
+  async getBusinessHours(scope: TenantScope): Promise<ApiResponse<BusinessHours>> {
+    return this.request('/business-hours', this.scoped(scope));
+  }
+
+  async updateBusinessHours(data: BusinessHoursInput, scope: TenantScope): Promise<ApiResponse<BusinessHours>> {
+    return this.request('/business-hours', this.scoped(scope, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  // Engagement endpoints
+  /** Customers of the organization, most recently engaged first */
+  async getEngagements(params: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  } | undefined, scope: TenantScope): Promise<ApiResponse<Engagement[]>> {
+    const searchParams = new URLSearchParams({ sort: 'lastEngagedAt', order: 'desc' });
+    if (params?.page) searchParams.set('page', params.page.toString());
+    if (params?.limit) searchParams.set('limit', params.limit.toString());
+    if (params?.search) searchParams.set('search', params.search);
+
+    return this.request(`/engagements?${searchParams.toString()}`, this.scoped(scope));
+  }
+
+  async getEngagementById(engagementId: string, scope: TenantScope): Promise<ApiResponse<Engagement>> {
+    return this.request(`/engagements/${engagementId}`, this.scoped(scope));
+  }
+
+  /** Every chat with the engagement's customer, oldest first */
+  async getEngagementChats(engagementId: string, scope: TenantScope): Promise<ApiResponse<Chat[]>> {
+    return this.request(`/engagements/${engagementId}/chats`, this.scoped(scope));
+  }
+
+  // Customer endpoints
+  async getCustomerById(customerId: string, scope: TenantScope): Promise<ApiResponse<Customer>> {
+    return this.request(`/customers/${customerId}`, this.scoped(scope));
+  }
+
+  /** The customer's chats, newest first */
+  async getCustomerChats(customerId: string, scope: TenantScope): Promise<ApiResponse<Chat[]>> {
+    return this.request(`/customers/${customerId}/chats`, this.scoped(scope));
+  }
+
+  async updateCustomer(
+    customerId: string,
+    data: Partial<Pick<Customer, 'name' | 'attributes' | 'tags'>>,
+    scope: TenantScope
+  ): Promise<ApiResponse<Customer>> {
+    return this.request(`/customers/${customerId}`, this.scoped(scope, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  async addCustomerNote(customerId: string, body: string, scope: TenantScope): Promise<ApiResponse<Customer>> {
+    return this.request(`/customers/${customerId}/notes`, this.scoped(scope, {
+      method: 'POST',
+      body: JSON.stringify({ body }),
+    }));
+  }
+
+  // Chat message endpoints
+  /**
+   * Transcript pages are numbered from the newest end: page 1 holds the most
+   * recent `limit` messages, page 2 the ones before that, and so on. Messages
+   * within a page are in chronological order.
+   */
+  async getChatMessages(chatId: string, params: {
+    /** `nextCursor` of the previous page; leave out for the newest messages */
+    before?: string;
+    limit?: number;
+  } | undefined, scope: TenantScope): Promise<ApiResponse<Message[]>> {
+    const limit = params?.limit ?? 50;
+
+    const searchParams = new URLSearchParams();
+    if (params?.before) searchParams.set('before', params.before);
+    searchParams.set('limit', limit.toString());
+    return this.request(`/chats/${chatId}/messages?${searchParams.toString()}`, this.scoped(scope));
+  }
+
+  /** Sent as the signed-in user */
+  async sendChatMessage(chatId: string, data: SendMessageInput, scope: TenantScope): Promise<ApiResponse<Message>> {
+    return this.request(`/chats/${chatId}/messages`, this.scoped(scope, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }));
   }
 
   // User endpoints
+  /** Without a scope, users from every organization are returned */
   async getUsers(params?: {
     page?: number;
     limit?: number;
-  }): Promise<ApiResponse<any[]>> {
-    if (config.mock.enabled) {
-      return this.request(`/users`);
-    }
-    
+  }, scope?: TenantScope): Promise<ApiResponse<any[]>> {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.set('page', params.page.toString());
     if (params?.limit) searchParams.set('limit', params.limit.toString());
 
     const query = searchParams.toString();
-    return this.request(`/users${query ? `?${query}` : ''}`);
+    return this.request(`/users${query ? `?${query}` : ''}`, this.scoped(scope));
   }
 
   async updateUser(userId: string, data: Partial<any>): Promise<ApiResponse<any>> {
@@ -170,6 +548,13 @@ class ApiClient {
     });
   }
 
+  async moveUserToOrganization(userId: string, data: UserOrganizationInput): Promise<ApiResponse<User>> {
+    return this.request(`/users/${userId}/organization`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
   async deleteUser(userId: string): Promise<ApiResponse<{ success: boolean }>> {
     return this.request(`/users/${userId}`, {
       method: 'DELETE',
@@ -210,73 +595,336 @@ class ApiClient {
   }
 
   // Documents
-  async getDocuments(params?: { page?: number; limit?: number; }): Promise<ApiResponse<any[]>> {
-    if (config.mock.enabled) {
-      return this.request(`/documents`);
-    }
-    
+  async getDocuments(params: { page?: number; limit?: number; } | undefined, scope: TenantScope): Promise<ApiResponse<any[]>> {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.set('page', params.page.toString());
     if (params?.limit) searchParams.set('limit', params.limit.toString());
 
     const query = searchParams.toString();
-    return this.request(`/documents${query ? `?${query}` : ''}`);
+    return this.request(`/documents${query ? `?${query}` : ''}`, this.scoped(scope));
+  }
+
+  /** Uploads a file to the knowledge base; text extraction continues after the response */
+  async uploadDocument(
+    file: File,
+    scope: TenantScope,
+    onProgress?: (fraction: number) => void
+  ): Promise<ApiResponse<Document>> {
+    const body = new FormData();
+    body.append('file', file);
+    return this.upload('/documents/upload', body, scope, onProgress);
+  }
+
+  async getDocumentChunks(documentId: string, scope: TenantScope): Promise<ApiResponse<DocumentChunk[]>> {
+    return this.request(`/documents/${documentId}/chunks`, this.scoped(scope));
+  }
+
+  /** Full extracted text; null until ingestion has finished */
+  async getDocumentText(documentId: string, scope: TenantScope): Promise<ApiResponse<{ text: string | null }>> {
+    return this.request(`/documents/${documentId}/text`, this.scoped(scope));
+  }
+
+  /** The file as it was uploaded */
+  async getDocumentFile(documentId: string, scope: TenantScope): Promise<Blob> {
+    return this.requestBlob(`/documents/${documentId}/file`, this.scoped(scope));
+  }
+
+  async deleteDocument(documentId: string, scope: TenantScope): Promise<ApiResponse<{ success: boolean }>> {
+    return this.request(`/documents/${documentId}`, this.scoped(scope, { method: 'DELETE' }));
+  }
+
+  /** Queues the document to be extracted and chunked again */
+  async reindexDocument(documentId: string, scope: TenantScope): Promise<ApiResponse<BackgroundJob>> {
+    return this.request(`/documents/${documentId}/reindex`, this.scoped(scope, { method: 'POST' }));
   }
 
   // FAQs
-  async getFAQs(params?: { page?: number; limit?: number; }): Promise<ApiResponse<any[]>> {
-    if (config.mock.enabled) {
-      return this.request(`/faqs`);
-    }
-    
+  async getFAQs(params: { page?: number; limit?: number; } | undefined, scope: TenantScope): Promise<ApiResponse<any[]>> {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.set('page', params.page.toString());
     if (params?.limit) searchParams.set('limit', params.limit.toString());
 
     const query = searchParams.toString();
-    return this.request(`/faqs${query ? `?${query}` : ''}`);
+    return this.request(`/faqs${query ? `?${query}` : ''}`, this.scoped(scope));
+  }
+
+  async createFAQ(data: FAQInput, scope: TenantScope): Promise<ApiResponse<FAQ>> {
+    return this.request('/faqs', this.scoped(scope, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  async updateFAQ(faqId: string, data: Partial<FAQInput>, scope: TenantScope): Promise<ApiResponse<FAQ>> {
+    return this.request(`/faqs/${faqId}`, this.scoped(scope, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  async deleteFAQ(faqId: string, scope: TenantScope): Promise<ApiResponse<{ success: boolean }>> {
+    return this.request(`/faqs/${faqId}`, this.scoped(scope, { method: 'DELETE' }));
+  }
+
+  /** `faqIds` lists every FAQ of the category in its new order */
+  async reorderFAQs(category: string, faqIds: string[], scope: TenantScope): Promise<ApiResponse<FAQ[]>> {
+    return this.request('/faqs/reorder', this.scoped(scope, {
+      method: 'POST',
+      body: JSON.stringify({ category, faqIds }),
+    }));
+  }
+
+  async importFAQs(faqs: FAQInput[], scope: TenantScope): Promise<ApiResponse<{ created: number; updated: number }>> {
+    return this.request('/faqs/import', this.scoped(scope, {
+      method: 'POST',
+      body: JSON.stringify({ faqs }),
+    }));
+  }
+
+  // Knowledge base
+  async searchKnowledge(data: KnowledgeSearchInput, scope: TenantScope): Promise<ApiResponse<KnowledgeSearchResponse>> {
+    return this.request('/knowledge/search', this.scoped(scope, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  // Language model settings
+  async getLLMSettings(scope: TenantScope): Promise<ApiResponse<LLMSettings>> {
+    return this.request('/llm/settings', this.scoped(scope));
+  }
+
+  /** Leave `apiKey` out to keep the saved key; changing the provider or endpoint drops it */
+  async updateLLMSettings(data: LLMSettingsInput, scope: TenantScope): Promise<ApiResponse<LLMSettings>> {
+    return this.request('/llm/settings', this.scoped(scope, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  /** Tests unsaved settings when given, otherwise the saved ones */
+  async testLLMConnection(data: LLMSettingsInput | undefined, scope: TenantScope): Promise<ApiResponse<LLMConnectionTestResult>> {
+    return this.request('/llm/settings/test', this.scoped(scope, {
+      method: 'POST',
+      ...(data && { body: JSON.stringify(data) }),
+    }));
+  }
+
+  // Reply assist
+  /** Suggestions drafted for a chat, newest first */
+  async getReplySuggestions(chatId: string, scope: TenantScope): Promise<ApiResponse<ReplySuggestion[]>> {
+    return this.request(`/chats/${chatId}/suggestions`, this.scoped(scope));
+  }
+
+  async suggestReplies(chatId: string, data: ReplySuggestionRequest, scope: TenantScope): Promise<ApiResponse<ReplySuggestionsResponse>> {
+    return this.request(`/chats/${chatId}/suggestions`, this.scoped(scope, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  async sendSuggestionFeedback(chatId: string, suggestionId: string, data: SuggestionFeedbackInput, scope: TenantScope): Promise<ApiResponse<ReplySuggestion>> {
+    return this.request(`/chats/${chatId}/suggestions/${suggestionId}/feedback`, this.scoped(scope, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }));
   }
 
   // Scraper Jobs
-  async getScraperJobs(params?: { page?: number; limit?: number; }): Promise<ApiResponse<any[]>> {
-    if (config.mock.enabled) {
-      return this.request(`/scraper-jobs`);
-    }
-    
+  async getScraperJobs(params: { page?: number; limit?: number; } | undefined, scope: TenantScope): Promise<ApiResponse<any[]>> {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.set('page', params.page.toString());
     if (params?.limit) searchParams.set('limit', params.limit.toString());
 
     const query = searchParams.toString();
-    return this.request(`/scraper-jobs${query ? `?${query}` : ''}`);
+    return this.request(`/scraper-jobs${query ? `?${query}` : ''}`, this.scoped(scope));
+  }
+
+  async createScraperJob(data: ScraperJobInput, scope: TenantScope): Promise<ApiResponse<ScraperJob>> {
+    return this.request('/scraper-jobs', this.scoped(scope, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  async updateScraperJob(jobId: string, data: Partial<ScraperJobInput>, scope: TenantScope): Promise<ApiResponse<ScraperJob>> {
+    return this.request(`/scraper-jobs/${jobId}`, this.scoped(scope, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  async deleteScraperJob(jobId: string, scope: TenantScope): Promise<ApiResponse<{ success: boolean }>> {
+    return this.request(`/scraper-jobs/${jobId}`, this.scoped(scope, { method: 'DELETE' }));
+  }
+
+  /** Starts a crawl; the returned run is still `running` */
+  /** Queues a crawl; the run appears in the job's history once the queue starts it */
+  async runScraperJob(jobId: string, scope: TenantScope): Promise<ApiResponse<BackgroundJob>> {
+    return this.request(`/scraper-jobs/${jobId}/run`, this.scoped(scope, { method: 'POST' }));
+  }
+
+  async pauseScraperJob(jobId: string, scope: TenantScope): Promise<ApiResponse<ScraperJob>> {
+    return this.request(`/scraper-jobs/${jobId}/pause`, this.scoped(scope, { method: 'POST' }));
+  }
+
+  async resumeScraperJob(jobId: string, scope: TenantScope): Promise<ApiResponse<ScraperJob>> {
+    return this.request(`/scraper-jobs/${jobId}/resume`, this.scoped(scope, { method: 'POST' }));
+  }
+
+  /** Run history of a job, newest first */
+  async getScraperRuns(jobId: string, scope: TenantScope): Promise<ApiResponse<ScraperRun[]>> {
+    return this.request(`/scraper-jobs/${jobId}/runs`, this.scoped(scope));
+  }
+
+  // Background jobs
+  async getBackgroundJobs(
+    params: { type?: BackgroundJobType; status?: BackgroundJobStatus } | undefined,
+    scope: TenantScope
+  ): Promise<ApiResponse<BackgroundJob[]>> {
+    const searchParams = new URLSearchParams();
+    if (params?.type) searchParams.set('type', params.type);
+    if (params?.status) searchParams.set('status', params.status);
+    const query = searchParams.toString();
+    return this.request(`/background-jobs${query ? `?${query}` : ''}`, this.scoped(scope));
+  }
+
+  async createBackgroundJob(data: BackgroundJobRequest, scope: TenantScope): Promise<ApiResponse<BackgroundJob>> {
+    return this.request('/background-jobs', this.scoped(scope, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  async retryBackgroundJob(jobId: string, scope: TenantScope): Promise<ApiResponse<BackgroundJob>> {
+    return this.request(`/background-jobs/${jobId}/retry`, this.scoped(scope, { method: 'POST' }));
+  }
+
+  async cancelBackgroundJob(jobId: string, scope: TenantScope): Promise<ApiResponse<BackgroundJob>> {
+    return this.request(`/background-jobs/${jobId}/cancel`, this.scoped(scope, { method: 'POST' }));
+  }
+
+  /** File produced by a completed data export */
+  async downloadBackgroundJobFile(jobId: string, scope: TenantScope): Promise<Blob> {
+    return this.requestBlob(`/background-jobs/${jobId}/download`, this.scoped(scope));
   }
 
   // Domains
-  async getDomains(params?: { page?: number; limit?: number; }): Promise<ApiResponse<any[]>> {
-    if (config.mock.enabled) {
-      return this.request(`/domains`);
-    }
-    
+  async getDomains(params: { page?: number; limit?: number; } | undefined, scope: TenantScope): Promise<ApiResponse<any[]>> {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.set('page', params.page.toString());
     if (params?.limit) searchParams.set('limit', params.limit.toString());
 
     const query = searchParams.toString();
-    return this.request(`/domains${query ? `?${query}` : ''}`);
+    return this.request(`/domains${query ? `?${query}` : ''}`, this.scoped(scope));
   }
 
   // Resources
-  async getResources(params?: { page?: number; limit?: number; }): Promise<ApiResponse<any[]>> {
-    if (config.mock.enabled) {
-      return this.request(`/resources`);
-    }
-    
+  async getResources(params: { page?: number; limit?: number; } | undefined, scope: TenantScope): Promise<ApiResponse<any[]>> {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.set('page', params.page.toString());
     if (params?.limit) searchParams.set('limit', params.limit.toString());
 
     const query = searchParams.toString();
-    return this.request(`/resources${query ? `?${query}` : ''}`);
+    return this.request(`/resources${query ? `?${query}` : ''}`, this.scoped(scope));
+  }
+
+  async createResource(data: ResourceInput, scope: TenantScope): Promise<ApiResponse<Resource>> {
+    return this.request('/resources', this.scoped(scope, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  async updateResource(resourceId: string, data: Partial<ResourceInput>, scope: TenantScope): Promise<ApiResponse<Resource>> {
+    return this.request(`/resources/${resourceId}`, this.scoped(scope, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  async deleteResource(resourceId: string, scope: TenantScope): Promise<ApiResponse<{ success: boolean }>> {
+    return this.request(`/resources/${resourceId}`, this.scoped(scope, { method: 'DELETE' }));
+  }
+
+  /** Chats that referenced the resource, most recent first */
+  async getResourceUsage(resourceId: string, scope: TenantScope): Promise<ApiResponse<ResourceUsage[]>> {
+    return this.request(`/resources/${resourceId}/usage`, this.scoped(scope));
+  }
+
+  async recordResourceUsage(resourceId: string, data: ResourceUsageInput, scope: TenantScope): Promise<ApiResponse<ResourceUsage>> {
+    return this.request(`/resources/${resourceId}/usage`, this.scoped(scope, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  // Saved replies
+  /** Organization-wide replies and the signed-in user's personal ones */
+  async getSavedReplies(scope: TenantScope): Promise<ApiResponse<SavedReply[]>> {
+    return this.request('/saved-replies', this.scoped(scope));
+  }
+
+  async createSavedReply(data: SavedReplyInput, scope: TenantScope): Promise<ApiResponse<SavedReply>> {
+    return this.request('/saved-replies', this.scoped(scope, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  async updateSavedReply(replyId: string, data: Partial<SavedReplyInput>, scope: TenantScope): Promise<ApiResponse<SavedReply>> {
+    return this.request(`/saved-replies/${replyId}`, this.scoped(scope, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  async deleteSavedReply(replyId: string, scope: TenantScope): Promise<ApiResponse<{ success: boolean }>> {
+    return this.request(`/saved-replies/${replyId}`, this.scoped(scope, { method: 'DELETE' }));
+  }
+
+  async recordSavedReplyUse(replyId: string, scope: TenantScope): Promise<ApiResponse<SavedReply>> {
+    return this.request(`/saved-replies/${replyId}/use`, this.scoped(scope, { method: 'POST' }));
+  }
+
+  // Chat widget
+  async getWidgetSettings(scope: TenantScope): Promise<ApiResponse<WidgetSettings>> {
+    return this.request('/widget/settings', this.scoped(scope));
+  }
+
+  /** Saves the draft; customers keep seeing the published configuration */
+  async saveWidgetDraft(data: WidgetConfigInput, scope: TenantScope): Promise<ApiResponse<WidgetSettings>> {
+    return this.request('/widget/settings/draft', this.scoped(scope, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }));
+  }
+
+  async publishWidget(scope: TenantScope): Promise<ApiResponse<WidgetSettings>> {
+    return this.request('/widget/settings/publish', this.scoped(scope, { method: 'POST' }));
+  }
+
+  /** Published configurations, newest first */
+  async getWidgetVersions(scope: TenantScope): Promise<ApiResponse<WidgetConfigVersion[]>> {
+    return this.request('/widget/versions', this.scoped(scope));
+  }
+
+  /** Publishes an earlier version again as a new version, replacing the draft */
+  async rollbackWidget(version: number, scope: TenantScope): Promise<ApiResponse<WidgetSettings>> {
+    return this.request(`/widget/versions/${version}/rollback`, this.scoped(scope, { method: 'POST' }));
+  }
+
+  /**
+   * Sends a request the way the embeddable widget does, without the session,
+   * so the widget can run inside this app against the same backend.
+   */
+  sendAsVisitor(endpoint: string, init: RequestInit = {}): Promise<Response> {
+    return this.send(endpoint, init);
+  }
+
+  // Mock data management
+  async resetMockData(): Promise<ApiResponse<{ success: boolean }>> {
+    return this.request('/mock/reset', { method: 'POST' });
   }
 
   // Health check
@@ -25,11 +25,100 @@ export const openApiSpec = {
     }
   ],
   paths: {
+    "/auth/login": {
+      post: {
+        summary: "Sign in with email and password",
+        operationId: "login",
+        security: [],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/LoginRequest" }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Session created",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/AuthSession" }
+              }
+            }
+          },
+          "401": { description: "Invalid email or password" }
+        }
+      }
+    },
+    "/auth/refresh": {
+      post: {
+        summary: "Exchange a refresh token for a new token pair",
+        description: "The refresh token is rotated; the previous one stops working.",
+        operationId: "refreshSession",
+        security: [],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/RefreshTokenRequest" }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Session renewed",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/AuthSession" }
+              }
+            }
+          },
+          "401": { description: "Refresh token is invalid, expired or revoked" }
+        }
+      }
+    },
+    "/auth/logout": {
+      post: {
+        summary: "Revoke the session behind a refresh token",
+        operationId: "logout",
+        security: [],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/RefreshTokenRequest" }
+            }
+          }
+        },
+        responses: {
+          "200": { description: "Session revoked" }
+        }
+      }
+    },
+    "/auth/me": {
+      get: {
+        summary: "Get the signed-in user",
+        operationId: "getCurrentUser",
+        responses: {
+          "200": {
+            description: "Current user",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/User" }
+              }
+            }
+          },
+          "401": { description: "Missing, expired or revoked access token" }
+        }
+      }
+    },
     "/chats": {
       get: {
         summary: "Get chat conversations",
         operationId: "getChats",
         parameters: [
+          { $ref: "#/components/parameters/OrgId" },
           {
             name: "page",
             in: "query",
@@ -43,10 +132,7 @@ export const openApiSpec = {
           {
             name: "status",
             in: "query",
-            schema: { 
-              type: "string",
-              enum: ["active", "resolved", "pending"]
-            }
+            schema: { $ref: "#/components/schemas/ChatStatus" }
           }
         ],
         responses: {
@@ -122,111 +208,3101 @@ export const openApiSpec = {
             }
           }
         }
+      },
+      delete: {
+        summary: "Delete chat",
+        operationId: "deleteChat",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "chatId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "200": { description: "Chat deleted" },
+          "403": {
+            description: "Role lacks chats:delete",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Error" }
+              }
+            }
+          }
+        }
       }
     },
-    "/users": {
-      get: {
-        summary: "Get users",
-        operationId: "getUsers",
+    "/chats/{chatId}/transitions": {
+      post: {
+        summary: "Move a chat to another lifecycle status",
+        description: "Appends an entry to the chat's statusHistory. Archiving requires chats:archive.",
+        operationId: "transitionChat",
         parameters: [
+          { $ref: "#/components/parameters/OrgId" },
           {
-            name: "page",
-            in: "query",
-            schema: { type: "integer", default: 1 }
+            name: "chatId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ChatTransitionRequest" }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Updated chat",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Chat" }
+              }
+            }
           },
+          "400": { description: "Validation error, such as an unknown status" },
+          "409": {
+            description: "The transition is not allowed from the chat's current status",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Error" }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/chats/{chatId}/assign": {
+      post: {
+        summary: "Assign a chat to an agent",
+        description: "Pass a null agentId to unassign. The agent must belong to the organization.",
+        operationId: "assignChat",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
           {
-            name: "limit", 
-            in: "query",
-            schema: { type: "integer", default: 10 }
+            name: "chatId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
           }
         ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["agentId"],
+                properties: {
+                  agentId: { type: "string", nullable: true, example: "user_002" }
+                }
+              }
+            }
+          }
+        },
         responses: {
           "200": {
-            description: "List of users",
+            description: "Updated chat",
             content: {
               "application/json": {
-                schema: {
-                  type: "object",
-                  properties: {
-                    data: {
-                      type: "array",
-                      items: { $ref: "#/components/schemas/User" }
-                    },
-                    pagination: { $ref: "#/components/schemas/Pagination" }
-                  }
-                }
+                schema: { $ref: "#/components/schemas/Chat" }
+              }
+            }
+          },
+          "400": {
+            description: "The agent is not a member of the organization",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Error" }
               }
             }
           }
         }
       }
     },
-    "/organizations": {
+    "/routing/settings": {
       get: {
-        summary: "Get organizations",
-        operationId: "getOrganizations",
+        summary: "Get the organization's routing settings",
+        operationId: "getRoutingSettings",
+        parameters: [{ $ref: "#/components/parameters/OrgId" }],
         responses: {
           "200": {
-            description: "List of organizations",
+            description: "Routing settings",
             content: {
               "application/json": {
-                schema: {
-                  type: "array",
-                  items: { $ref: "#/components/schemas/Organization" }
-                }
+                schema: { $ref: "#/components/schemas/RoutingSettings" }
+              }
+            }
+          }
+        }
+      },
+      put: {
+        summary: "Update the organization's routing settings",
+        description: "Requires settings:manage. Omitted fields keep their current value.",
+        operationId: "updateRoutingSettings",
+        parameters: [{ $ref: "#/components/parameters/OrgId" }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/RoutingSettings" }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Updated routing settings",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/RoutingSettings" }
               }
             }
           }
         }
       }
-    }
-  },
-  components: {
-    schemas: {
-      Chat: {
-        type: "object",
-        required: ["id", "customerId", "status", "createdAt"],
-        properties: {
-          id: { type: "string", example: "chat_001" },
-          customerId: { type: "string", example: "user_001" },
-          customerName: { type: "string", example: "John Doe" },
-          customerEmail: { type: "string", example: "john@example.com" },
-          subject: { type: "string", example: "Billing inquiry" },
-          status: { 
-            type: "string", 
-            enum: ["active", "resolved", "pending"],
-            example: "active" 
-          },
-          priority: {
-            type: "string",
-            enum: ["low", "medium", "high", "urgent"],
-            example: "medium"
-          },
-          assignedAgent: { type: "string", example: "agent_001" },
-          lastMessage: { type: "string", example: "How can I help you today?" },
-          messageCount: { type: "integer", example: 5 },
-          createdAt: { type: "string", format: "date-time" },
-          updatedAt: { type: "string", format: "date-time" }
+    },
+    "/business-hours": {
+      get: {
+        summary: "Get the organization's business hours",
+        description: "Organizations that have not set any get a switched-off schedule, so support is always open.",
+        operationId: "getBusinessHours",
+        parameters: [{ $ref: "#/components/parameters/OrgId" }],
+        responses: {
+          "200": {
+            description: "Business hours",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/BusinessHours" }
+              }
+            }
+          }
         }
       },
-      User: {
-        type: "object",
-        required: ["id", "name", "email", "role"],
-        properties: {
-          id: { type: "string", example: "user_001" },
-          name: { type: "string", example: "John Doe" },
-          email: { type: "string", example: "john@example.com" },
-          role: { 
-            type: "string", 
-            enum: ["admin", "agent", "supervisor"],
-            example: "agent" 
+      put: {
+        summary: "Replace the organization's business hours",
+        description: "Requires settings:manage.",
+        operationId: "updateBusinessHours",
+        parameters: [{ $ref: "#/components/parameters/OrgId" }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/BusinessHours" }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Updated business hours",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/BusinessHours" }
+              }
+            }
           },
-          status: {
-            type: "string",
-            enum: ["active", "inactive", "pending"],
-            example: "active"
+          "400": { description: "Validation error, such as an unknown timezone or a date listed twice" }
+        }
+      }
+    },
+    "/routing/simulate": {
+      post: {
+        summary: "Preview how queued chats would be routed",
+        description: "Routes the queued chats plus sampleSize made-up chats without saving anything. Requires settings:manage.",
+        operationId: "simulateRouting",
+        parameters: [{ $ref: "#/components/parameters/OrgId" }],
+        requestBody: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  strategy: { $ref: "#/components/schemas/RoutingStrategy" },
+                  sampleSize: { type: "integer", minimum: 0, maximum: 50, default: 0 }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "One decision per routed chat",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/RoutingDecision" }
+                }
+              }
+            }
+          },
+          "400": { description: "Validation error, such as an unknown strategy" }
+        }
+      }
+    },
+    "/routing/assign": {
+      post: {
+        summary: "Assign all queued chats using the configured strategy",
+        description: "Requires chats:assign. Chats without an available agent stay queued.",
+        operationId: "autoAssignChats",
+        parameters: [{ $ref: "#/components/parameters/OrgId" }],
+        responses: {
+          "200": {
+            description: "One decision per queued chat",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/RoutingDecision" }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/llm/settings": {
+      get: {
+        summary: "Get the organization's language model settings",
+        description: "The API key is never returned; hasApiKey and apiKeyPreview show whether one is saved.",
+        operationId: "getLLMSettings",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" }
+        ],
+        responses: {
+          "200": {
+            description: "Saved settings, or the offline defaults",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/LLMSettings" }
+              }
+            }
+          }
+        }
+      },
+      put: {
+        summary: "Save the language model settings",
+        description: "Requires settings:manage. Without apiKey the saved key is kept, unless the provider or endpoint changes.",
+        operationId: "updateLLMSettings",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/LLMSettingsInput" }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Settings saved",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/LLMSettings" }
+              }
+            }
+          },
+          "400": { description: "Validation error, or the provider needs an API key" }
+        }
+      }
+    },
+    "/llm/settings/test": {
+      post: {
+        summary: "Test the connection to the language model",
+        description: "Requires settings:manage. Tests the submitted settings before they are saved, or the saved ones when there is no body. A failed test is reported in the result, not as an error.",
+        operationId: "testLLMConnection",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" }
+        ],
+        requestBody: {
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/LLMSettingsInput" }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Test result",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/LLMConnectionTestResult" }
+              }
+            }
+          },
+          "400": { description: "Validation error" }
+        }
+      }
+    },
+    "/chats/{chatId}/messages": {
+      get: {
+        summary: "Get chat transcript, newest page first",
+        operationId: "getChatMessages",
+        parameters: [
+          {
+            name: "chatId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          },
+          {
+            name: "before",
+            in: "query",
+            description: "nextCursor of the previous page; without it the page holds the most recent messages",
+            schema: { type: "string" }
+          },
+          {
+            name: "limit",
+            in: "query",
+            schema: { type: "integer", default: 50, maximum: 200 }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "Messages in chronological order within the page",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/Message" }
+                    },
+                    nextCursor: {
+                      type: "string",
+                      description: "Pass as before to fetch older messages; absent once the start of the transcript is reached"
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+      post: {
+        summary: "Send a message in a chat",
+        operationId: "sendChatMessage",
+        parameters: [
+          {
+            name: "chatId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/SendMessageRequest" }
+            }
+          }
+        },
+        responses: {
+          "201": {
+            description: "Message accepted",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Message" }
+              }
+            }
+          },
+          "400": { description: "Validation error, such as an empty body" }
+        }
+      }
+    },
+    "/chats/{chatId}/suggestions": {
+      get: {
+        summary: "List reply suggestions drafted for a chat",
+        operationId: "getReplySuggestions",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          { name: "chatId", in: "path", required: true, schema: { type: "string" } }
+        ],
+        responses: {
+          "200": {
+            description: "Suggestions with the agent's verdict, newest first",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: { type: "array", items: { $ref: "#/components/schemas/ReplySuggestion" } }
+                  }
+                }
+              }
+            }
+          },
+          "404": { description: "Chat not found" }
+        }
+      },
+      post: {
+        summary: "Draft reply suggestions",
+        description: "Searches the knowledge base for the customer's last messages and asks the language model for replies grounded in the results.",
+        operationId: "suggestReplies",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          { name: "chatId", in: "path", required: true, schema: { type: "string" } }
+        ],
+        requestBody: {
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  count: { type: "integer", minimum: 1, maximum: 3, default: 3, description: "The model may return fewer" }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          "201": {
+            description: "Suggestions drafted",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    suggestions: { type: "array", items: { $ref: "#/components/schemas/ReplySuggestion" } },
+                    query: { type: "string", description: "What the knowledge base was searched for" }
+                  }
+                }
+              }
+            }
+          },
+          "400": { description: "Validation error, or the customer has not written yet" },
+          "404": { description: "Chat not found" }
+        }
+      }
+    },
+    "/chats/{chatId}/suggestions/{suggestionId}/feedback": {
+      post: {
+        summary: "Record what the agent did with a suggestion",
+        description: "Accepted and edited suggestions that cite resources also record a resource usage for the message.",
+        operationId: "sendSuggestionFeedback",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          { name: "chatId", in: "path", required: true, schema: { type: "string" } },
+          { name: "suggestionId", in: "path", required: true, schema: { type: "string" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["outcome"],
+                properties: {
+                  outcome: { type: "string", enum: ["accepted", "edited", "rejected"] },
+                  messageId: { type: "string", description: "The message sent from the suggestion", example: "msg_010" },
+                  finalText: { type: "string", description: "Required when edited" }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Feedback recorded",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/ReplySuggestion" }
+              }
+            }
+          },
+          "400": { description: "Validation error, or the message belongs to another chat" },
+          "404": { description: "Chat or suggestion not found" },
+          "409": { description: "Feedback was already recorded for the suggestion" }
+        }
+      }
+    },
+    "/engagements": {
+      get: {
+        summary: "List customers of the organization",
+        description: "search matches name, email and phone number.",
+        operationId: "getEngagements",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          { name: "page", in: "query", schema: { type: "integer", default: 1 } },
+          { name: "limit", in: "query", schema: { type: "integer" } },
+          { name: "search", in: "query", schema: { type: "string" } },
+          { name: "sort", in: "query", schema: { type: "string", example: "lastEngagedAt" } },
+          { name: "order", in: "query", schema: { type: "string", enum: ["asc", "desc"] } }
+        ],
+        responses: {
+          "200": {
+            description: "Page of engagements",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/Engagement" }
+                    },
+                    pagination: { $ref: "#/components/schemas/Pagination" }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/engagements/{engagementId}": {
+      get: {
+        summary: "Get one customer's engagement",
+        operationId: "getEngagementById",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "engagementId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "Engagement",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Engagement" }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/engagements/{engagementId}/chats": {
+      get: {
+        summary: "Get every chat with the customer",
+        description: "Chats whose requester email or phone number matches the engagement, oldest first.",
+        operationId: "getEngagementChats",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "engagementId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "The customer's chats",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/Chat" }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/customers/{customerId}": {
+      get: {
+        summary: "Get a customer profile",
+        operationId: "getCustomerById",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "customerId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "Customer",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Customer" }
+              }
+            }
+          }
+        }
+      },
+      patch: {
+        summary: "Update a customer's name, tags or attributes",
+        operationId: "updateCustomer",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "customerId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  tags: { type: "array", items: { type: "string" } },
+                  attributes: { type: "object", additionalProperties: { type: "string" } }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Updated customer",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Customer" }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/customers/{customerId}/chats": {
+      get: {
+        summary: "Get every chat linked to the customer",
+        description: "Newest first.",
+        operationId: "getCustomerChats",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "customerId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "The customer's chats",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/Chat" }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/customers/{customerId}/notes": {
+      post: {
+        summary: "Add a note to the customer",
+        description: "The signed-in user is recorded as the author.",
+        operationId: "addCustomerNote",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "customerId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["body"],
+                properties: {
+                  body: { type: "string" }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          "201": {
+            description: "Customer including the new note",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Customer" }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/documents/upload": {
+      post: {
+        summary: "Upload a knowledge base document",
+        description: "Text extraction and chunking continue after the response; poll the document until its ingestionStatus is indexed or failed. Requires content:manage.",
+        operationId: "uploadDocument",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "multipart/form-data": {
+              schema: {
+                type: "object",
+                required: ["file"],
+                properties: {
+                  file: {
+                    type: "string",
+                    format: "binary",
+                    description: "PDF, DOC, DOCX, TXT or MD file of at most 10 MB"
+                  }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          "201": {
+            description: "Document, queued for ingestion",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Document" }
+              }
+            }
+          },
+          "400": {
+            description: "Missing file, unsupported type or file too large",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Error" }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/documents/{documentId}": {
+      delete: {
+        summary: "Delete a document and its extracted text",
+        operationId: "deleteDocument",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "documentId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "200": { description: "Document deleted" }
+        }
+      }
+    },
+    "/documents/{documentId}/chunks": {
+      get: {
+        summary: "Get the chunks the AI agent retrieves from a document",
+        description: "Ordered by position. Empty until the document is indexed.",
+        operationId: "getDocumentChunks",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "documentId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "Chunks of the document",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/DocumentChunk" }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/documents/{documentId}/text": {
+      get: {
+        summary: "Get the full text extracted from a document",
+        operationId: "getDocumentText",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "documentId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "Extracted text; null until the document is indexed",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    text: { type: "string", nullable: true }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/documents/{documentId}/file": {
+      get: {
+        summary: "Download the original file",
+        operationId: "getDocumentFile",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "documentId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "The file as uploaded, with its content type",
+            content: {
+              "application/octet-stream": {
+                schema: { type: "string", format: "binary" }
+              }
+            }
+          },
+          "404": { description: "The document does not exist or its file was not kept" }
+        }
+      }
+    },
+    "/documents/{documentId}/reindex": {
+      post: {
+        summary: "Re-index a document",
+        description: "Queues a background job that extracts and chunks the stored file again. Requires content:manage.",
+        operationId: "reindexDocument",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "documentId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "202": {
+            description: "Re-index queued",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/BackgroundJob" }
+              }
+            }
+          },
+          "404": { description: "Document not found" },
+          "409": { description: "The document is already being ingested" }
+        }
+      }
+    },
+    "/faqs": {
+      get: {
+        summary: "List FAQs",
+        description: "Sorted by category, then by position within the category. Includes drafts.",
+        operationId: "getFAQs",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          { name: "page", in: "query", schema: { type: "integer", default: 1 } },
+          { name: "limit", in: "query", schema: { type: "integer" } },
+          { name: "status", in: "query", schema: { type: "string", enum: ["draft", "published"] } },
+          { name: "category", in: "query", schema: { type: "string" } }
+        ],
+        responses: {
+          "200": {
+            description: "FAQs",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/FAQ" }
+                }
+              }
+            }
+          }
+        }
+      },
+      post: {
+        summary: "Create a FAQ",
+        description: "Requires content:manage. The FAQ is added at the end of its category.",
+        operationId: "createFAQ",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/FAQInput" }
+            }
+          }
+        },
+        responses: {
+          "201": {
+            description: "FAQ created",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/FAQ" }
+              }
+            }
+          },
+          "400": { description: "Validation error" }
+        }
+      }
+    },
+    "/faqs/{faqId}": {
+      patch: {
+        summary: "Update a FAQ",
+        description: "Requires content:manage. Only the fields sent are changed; a FAQ moved to another category goes to its end.",
+        operationId: "updateFAQ",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "faqId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/FAQInput" }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Updated FAQ",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/FAQ" }
+              }
+            }
+          },
+          "400": { description: "Validation error" },
+          "404": { description: "FAQ not found" }
+        }
+      },
+      delete: {
+        summary: "Delete a FAQ",
+        description: "Requires content:manage.",
+        operationId: "deleteFAQ",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "faqId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "204": { description: "FAQ deleted" },
+          "404": { description: "FAQ not found" }
+        }
+      }
+    },
+    "/faqs/reorder": {
+      post: {
+        summary: "Reorder the FAQs of a category",
+        description: "Requires content:manage.",
+        operationId: "reorderFAQs",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["category", "faqIds"],
+                properties: {
+                  category: { type: "string", example: "Billing" },
+                  faqIds: {
+                    type: "array",
+                    items: { type: "string" },
+                    description: "Every FAQ of the category, in the new order"
+                  }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "The category's FAQs in their new order",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/FAQ" }
+                }
+              }
+            }
+          },
+          "400": { description: "The list does not contain every FAQ of the category exactly once" }
+        }
+      }
+    },
+    "/faqs/import": {
+      post: {
+        summary: "Import FAQs",
+        description: "Requires content:manage. A FAQ whose question matches an existing one, ignoring case, updates it; the rest are created.",
+        operationId: "importFAQs",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["faqs"],
+                properties: {
+                  faqs: {
+                    type: "array",
+                    maxItems: 1000,
+                    items: { $ref: "#/components/schemas/FAQInput" }
+                  }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "How many FAQs were created and updated",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    created: { type: "integer" },
+                    updated: { type: "integer" }
+                  }
+                }
+              }
+            }
+          },
+          "400": { description: "Validation error, naming the first invalid FAQ" }
+        }
+      }
+    },
+    "/knowledge/search": {
+      post: {
+        summary: "Search the knowledge base",
+        description: "Ranks document chunks, published FAQs, resources and scraped pages against a question with BM25, and returns the context the assistant would be given.",
+        operationId: "searchKnowledge",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["query"],
+                properties: {
+                  query: { type: "string", minLength: 1, maxLength: 500, example: "How do I reset my password?" },
+                  sourceTypes: {
+                    type: "array",
+                    items: { type: "string", enum: ["document", "faq", "resource", "scraped-page"] },
+                    description: "Only return these sources; all of them when absent"
+                  },
+                  limit: { type: "integer", minimum: 1, maximum: 25, default: 8 }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Matches, best first",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/KnowledgeSearchResponse" }
+              }
+            }
+          },
+          "400": { description: "Validation error" }
+        }
+      }
+    },
+    "/resources": {
+      get: {
+        summary: "List resources",
+        description: "Each resource includes usageCount, the number of chats that referenced it, and lastUsedAt.",
+        operationId: "getResources",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          { name: "page", in: "query", schema: { type: "integer", minimum: 1 } },
+          { name: "limit", in: "query", schema: { type: "integer", minimum: 1 } }
+        ],
+        responses: {
+          "200": {
+            description: "Resources of the organization",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: { type: "array", items: { $ref: "#/components/schemas/Resource" } }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+      post: {
+        summary: "Create a resource",
+        description: "Requires content:manage. Fields that do not apply to the type are dropped.",
+        operationId: "createResource",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ResourceInput" }
+            }
+          }
+        },
+        responses: {
+          "201": {
+            description: "Resource created",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Resource" }
+              }
+            }
+          },
+          "400": { description: "Validation error" }
+        }
+      }
+    },
+    "/resources/{resourceId}": {
+      patch: {
+        summary: "Update a resource",
+        description: "Requires content:manage. The changes are merged into the resource, which is then validated as a whole, so changing the type may require its fields.",
+        operationId: "updateResource",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          { name: "resourceId", in: "path", required: true, schema: { type: "string" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ResourceInput" }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Resource updated",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Resource" }
+              }
+            }
+          },
+          "400": { description: "Validation error" },
+          "404": { description: "Resource not found" }
+        }
+      },
+      delete: {
+        summary: "Delete a resource",
+        description: "Requires content:manage. Its usage records are deleted with it.",
+        operationId: "deleteResource",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          { name: "resourceId", in: "path", required: true, schema: { type: "string" } }
+        ],
+        responses: {
+          "200": { description: "Resource deleted" },
+          "404": { description: "Resource not found" }
+        }
+      }
+    },
+    "/resources/{resourceId}/usage": {
+      get: {
+        summary: "List chats that referenced a resource",
+        operationId: "getResourceUsage",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          { name: "resourceId", in: "path", required: true, schema: { type: "string" } }
+        ],
+        responses: {
+          "200": {
+            description: "Usage records, most recent first",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: { type: "array", items: { $ref: "#/components/schemas/ResourceUsage" } }
+                  }
+                }
+              }
+            }
+          },
+          "404": { description: "Resource not found" }
+        }
+      },
+      post: {
+        summary: "Record that a chat referenced a resource",
+        description: "Recording the same chat and message again returns the existing record with 200.",
+        operationId: "recordResourceUsage",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          { name: "resourceId", in: "path", required: true, schema: { type: "string" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["chatId"],
+                properties: {
+                  chatId: { type: "string", example: "chat_001" },
+                  messageId: { type: "string", description: "Message of the chat that referenced the resource", example: "msg_003" }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          "201": {
+            description: "Usage recorded",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/ResourceUsage" }
+              }
+            }
+          },
+          "400": { description: "Validation error, or the message belongs to another chat" },
+          "404": { description: "Resource or chat not found" }
+        }
+      }
+    },
+    "/saved-replies": {
+      get: {
+        summary: "List saved replies",
+        description: "Organization-wide replies and the signed-in user's personal ones, ordered by shortcut.",
+        operationId: "getSavedReplies",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          { name: "page", in: "query", schema: { type: "integer", minimum: 1 } },
+          { name: "limit", in: "query", schema: { type: "integer", minimum: 1 } }
+        ],
+        responses: {
+          "200": {
+            description: "Saved replies the user can insert",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: { type: "array", items: { $ref: "#/components/schemas/SavedReply" } }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+      post: {
+        summary: "Create a saved reply",
+        description: "Anyone may create personal replies; organization-wide ones require content:manage.",
+        operationId: "createSavedReply",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/SavedReplyInput" }
+            }
+          }
+        },
+        responses: {
+          "201": {
+            description: "Saved reply created",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/SavedReply" }
+              }
+            }
+          },
+          "400": { description: "Validation error, including unknown variables" },
+          "403": { description: "Organization-wide reply without content:manage" },
+          "409": { description: "The shortcut is already used by a reply the user can see" }
+        }
+      }
+    },
+    "/saved-replies/{replyId}": {
+      patch: {
+        summary: "Update a saved reply",
+        description: "Organization-wide replies require content:manage. A shared reply made personal belongs to the editor.",
+        operationId: "updateSavedReply",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          { name: "replyId", in: "path", required: true, schema: { type: "string" } }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/SavedReplyInput" }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Saved reply updated",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/SavedReply" }
+              }
+            }
+          },
+          "400": { description: "Validation error" },
+          "403": { description: "Organization-wide reply without content:manage" },
+          "404": { description: "Saved reply not found, or another user's personal reply" },
+          "409": { description: "The shortcut is already in use" }
+        }
+      },
+      delete: {
+        summary: "Delete a saved reply",
+        operationId: "deleteSavedReply",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          { name: "replyId", in: "path", required: true, schema: { type: "string" } }
+        ],
+        responses: {
+          "200": { description: "Saved reply deleted" },
+          "403": { description: "Organization-wide reply without content:manage" },
+          "404": { description: "Saved reply not found" }
+        }
+      }
+    },
+    "/saved-replies/{replyId}/use": {
+      post: {
+        summary: "Record that a saved reply was inserted",
+        description: "Increments usageCount and sets lastUsedAt, so unused replies can be found and pruned.",
+        operationId: "recordSavedReplyUse",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          { name: "replyId", in: "path", required: true, schema: { type: "string" } }
+        ],
+        responses: {
+          "200": {
+            description: "Updated saved reply",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/SavedReply" }
+              }
+            }
+          },
+          "404": { description: "Saved reply not found" }
+        }
+      }
+    },
+    "/scraper-jobs": {
+      post: {
+        summary: "Create a scraper job",
+        description: "Requires content:manage. Scheduled jobs get a nextRunAt; manual ones are pending until they are run.",
+        operationId: "createScraperJob",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ScraperJobInput" }
+            }
+          }
+        },
+        responses: {
+          "201": {
+            description: "Scraper job created",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/ScraperJob" }
+              }
+            }
+          },
+          "400": {
+            description: "Validation error",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Error" }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/scraper-jobs/{jobId}": {
+      patch: {
+        summary: "Update a scraper job",
+        description: "Requires content:manage. Only the fields sent are changed.",
+        operationId: "updateScraperJob",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "jobId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ScraperJobInput" }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Updated scraper job",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/ScraperJob" }
+              }
+            }
+          },
+          "400": { description: "Validation error, e.g. a custom frequency without a cron expression" },
+          "404": { description: "Scraper job not found" }
+        }
+      },
+      delete: {
+        summary: "Delete a scraper job",
+        description: "Also removes the job's run history and scraped pages. Requires content:manage.",
+        operationId: "deleteScraperJob",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "jobId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "204": { description: "Scraper job deleted" },
+          "404": { description: "Scraper job not found" }
+        }
+      }
+    },
+    "/scraper-jobs/{jobId}/runs": {
+      get: {
+        summary: "List a scraper job's runs",
+        operationId: "getScraperRuns",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "jobId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "Runs, newest first",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/ScraperRun" }
+                }
+              }
+            }
+          },
+          "404": { description: "Scraper job not found" }
+        }
+      }
+    },
+    "/scraper-jobs/{jobId}/run": {
+      post: {
+        summary: "Run a scraper job now",
+        description: "Queues the crawl on the background queue; poll the job until its status is completed or failed. Requires content:manage.",
+        operationId: "runScraperJob",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "jobId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "202": {
+            description: "Run queued",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/BackgroundJob" }
+              }
+            }
+          },
+          "404": { description: "Scraper job not found" },
+          "409": { description: "The job is already running" }
+        }
+      }
+    },
+    "/scraper-jobs/{jobId}/pause": {
+      post: {
+        summary: "Pause a scraper job's schedule",
+        description: "Clears nextRunAt and cancels scheduled runs that have not started. Requires content:manage.",
+        operationId: "pauseScraperJob",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "jobId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "Paused scraper job",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/ScraperJob" }
+              }
+            }
+          },
+          "404": { description: "Scraper job not found" }
+        }
+      }
+    },
+    "/scraper-jobs/{jobId}/resume": {
+      post: {
+        summary: "Resume a paused scraper job",
+        description: "The next run is computed from now, so runs missed while paused are skipped. Requires content:manage.",
+        operationId: "resumeScraperJob",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "jobId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "Resumed scraper job",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/ScraperJob" }
+              }
+            }
+          },
+          "404": { description: "Scraper job not found" }
+        }
+      }
+    },
+    "/background-jobs": {
+      get: {
+        summary: "List background jobs",
+        description: "Requires settings:manage.",
+        operationId: "getBackgroundJobs",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          { name: "page", in: "query", schema: { type: "integer", default: 1 } },
+          { name: "limit", in: "query", schema: { type: "integer" } },
+          {
+            name: "type",
+            in: "query",
+            schema: { type: "string", enum: ["scrape", "document-reindex", "summary-generation", "data-export"] }
+          },
+          {
+            name: "status",
+            in: "query",
+            schema: { type: "string", enum: ["queued", "running", "completed", "failed", "cancelled"] }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "Jobs, newest first",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/BackgroundJob" }
+                }
+              }
+            }
+          }
+        }
+      },
+      post: {
+        summary: "Queue a summary or export job",
+        description: "Requires settings:manage.",
+        operationId: "createBackgroundJob",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["type"],
+                properties: {
+                  type: { type: "string", enum: ["summary-generation", "data-export"] },
+                  payload: {
+                    type: "object",
+                    description: "Required for data-export",
+                    properties: {
+                      collection: { type: "string", enum: ["chats", "customers", "engagements", "documents", "faqs"] },
+                      format: { type: "string", enum: ["csv", "json"] }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          "201": {
+            description: "Job queued",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/BackgroundJob" }
+              }
+            }
+          },
+          "400": { description: "Validation error" }
+        }
+      }
+    },
+    "/background-jobs/{jobId}/retry": {
+      post: {
+        summary: "Retry a failed or cancelled job",
+        description: "Queues the job again with its attempts reset. Requires settings:manage.",
+        operationId: "retryBackgroundJob",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "jobId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "Job queued again",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/BackgroundJob" }
+              }
+            }
+          },
+          "404": { description: "Background job not found" },
+          "409": { description: "Only failed or cancelled jobs can be retried" }
+        }
+      }
+    },
+    "/background-jobs/{jobId}/cancel": {
+      post: {
+        summary: "Cancel a queued job",
+        description: "Requires settings:manage.",
+        operationId: "cancelBackgroundJob",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "jobId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "Cancelled job",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/BackgroundJob" }
+              }
+            }
+          },
+          "404": { description: "Background job not found" },
+          "409": { description: "Only queued jobs can be cancelled" }
+        }
+      }
+    },
+    "/background-jobs/{jobId}/download": {
+      get: {
+        summary: "Download a data export",
+        description: "Requires settings:manage.",
+        operationId: "downloadBackgroundJobFile",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "jobId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "The exported file",
+            content: {
+              "text/csv": {
+                schema: { type: "string" }
+              },
+              "application/json": {
+                schema: { type: "string" }
+              }
+            }
+          },
+          "404": { description: "The export file is not available" }
+        }
+      }
+    },
+    "/widget/settings": {
+      get: {
+        summary: "Get the organization's chat widget settings",
+        operationId: "getWidgetSettings",
+        parameters: [{ $ref: "#/components/parameters/OrgId" }],
+        responses: {
+          "200": {
+            description: "Saved settings, or the defaults",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/WidgetSettings" }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/widget/settings/draft": {
+      put: {
+        summary: "Save the widget draft",
+        description: "Requires settings:manage. Customers keep seeing the published configuration until the draft is published.",
+        operationId: "saveWidgetDraft",
+        parameters: [{ $ref: "#/components/parameters/OrgId" }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/WidgetConfig" }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Draft saved",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/WidgetSettings" }
+              }
+            }
+          },
+          "400": { description: "Validation error" }
+        }
+      }
+    },
+    "/widget/settings/publish": {
+      post: {
+        summary: "Publish the widget draft",
+        description: "Requires settings:manage. Records the draft as the next version.",
+        operationId: "publishWidget",
+        parameters: [{ $ref: "#/components/parameters/OrgId" }],
+        responses: {
+          "200": {
+            description: "Draft published",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/WidgetSettings" }
+              }
+            }
+          },
+          "409": { description: "The draft is already published (NOTHING_TO_PUBLISH)" }
+        }
+      }
+    },
+    "/widget/versions": {
+      get: {
+        summary: "List published widget versions",
+        description: "Newest first.",
+        operationId: "getWidgetVersions",
+        parameters: [{ $ref: "#/components/parameters/OrgId" }],
+        responses: {
+          "200": {
+            description: "Published versions",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/WidgetConfigVersion" }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/widget/versions/{version}/rollback": {
+      post: {
+        summary: "Publish an earlier widget version again",
+        description: "Requires settings:manage. The version is published as a new one and replaces the draft.",
+        operationId: "rollbackWidget",
+        parameters: [
+          { $ref: "#/components/parameters/OrgId" },
+          {
+            name: "version",
+            in: "path",
+            required: true,
+            schema: { type: "integer", minimum: 1 }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "Version published again",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/WidgetSettings" }
+              }
+            }
+          },
+          "404": { description: "Version not found" },
+          "409": { description: "The version is already live (ALREADY_PUBLISHED)" }
+        }
+      }
+    },
+    "/widget/{widgetId}/config": {
+      get: {
+        summary: "Get the settings the chat widget needs",
+        description: "Public; called by the widget on the customer's site.",
+        operationId: "getWidgetConfig",
+        security: [],
+        parameters: [
+          {
+            name: "widgetId",
+            in: "path",
+            required: true,
+            schema: { type: "string", example: "wgt_org_001" }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "Widget settings without organization details",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/PublicWidgetSettings" }
+              }
+            }
+          },
+          "404": { description: "Unknown widget" }
+        }
+      }
+    },
+    "/widget/{widgetId}/chats": {
+      post: {
+        summary: "Start a chat from the widget",
+        description: "Public. The widget's required fields must be filled in unless it allows anonymous chats. The message becomes the chat's first message.",
+        operationId: "startWidgetChat",
+        security: [],
+        parameters: [
+          {
+            name: "widgetId",
+            in: "path",
+            required: true,
+            schema: { type: "string", example: "wgt_org_001" }
+          }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/WidgetChatStartRequest" }
+            }
+          }
+        },
+        responses: {
+          "201": {
+            description: "Chat started",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/WidgetChatSession" }
+              }
+            }
+          },
+          "400": { description: "Validation error, a required field is missing or a pre-chat answer breaks its field's rules; outside business hours name and email are required" },
+          "404": { description: "Unknown widget" },
+          "409": { description: "OFFLINE: support is closed and the widget does not take messages while offline" }
+        }
+      }
+    },
+    "/widget/{widgetId}/chats/{chatId}": {
+      get: {
+        summary: "Get a widget chat as the visitor sees it",
+        description: "Public. System messages are left out.",
+        operationId: "getWidgetTranscript",
+        security: [],
+        parameters: [
+          {
+            name: "widgetId",
+            in: "path",
+            required: true,
+            schema: { type: "string", example: "wgt_org_001" }
+          },
+          {
+            name: "chatId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          },
+          {
+            name: "X-Visitor-Token",
+            in: "header",
+            required: true,
+            description: "Token returned when the chat was started",
+            schema: { type: "string" }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "Chat status and messages, oldest first",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/WidgetTranscript" }
+              }
+            }
+          },
+          "404": { description: "Unknown widget or chat, or the token does not match" }
+        }
+      }
+    },
+    "/widget/{widgetId}/chats/{chatId}/messages": {
+      post: {
+        summary: "Send a message as the visitor",
+        description: "Public.",
+        operationId: "sendWidgetMessage",
+        security: [],
+        parameters: [
+          {
+            name: "widgetId",
+            in: "path",
+            required: true,
+            schema: { type: "string", example: "wgt_org_001" }
+          },
+          {
+            name: "chatId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          },
+          {
+            name: "X-Visitor-Token",
+            in: "header",
+            required: true,
+            description: "Token returned when the chat was started",
+            schema: { type: "string" }
+          }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["body"],
+                properties: {
+                  body: { type: "string", maxLength: 2000 }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          "201": {
+            description: "Message sent",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/WidgetMessage" }
+              }
+            }
+          },
+          "400": { description: "Validation error" },
+          "404": { description: "Unknown widget or chat, or the token does not match" },
+          "409": { description: "The chat has ended (CHAT_ENDED)" }
+        }
+      }
+    },
+    "/users": {
+      get: {
+        summary: "Get users",
+        operationId: "getUsers",
+        parameters: [
+          {
+            name: "page",
+            in: "query",
+            schema: { type: "integer", default: 1 }
+          },
+          {
+            name: "limit", 
+            in: "query",
+            schema: { type: "integer", default: 10 }
+          }
+        ],
+        responses: {
+          "200": {
+            description: "List of users",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/User" }
+                    },
+                    pagination: { $ref: "#/components/schemas/Pagination" }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+      post: {
+        summary: "Invite a user to the caller's organization",
+        operationId: "inviteUser",
+        description: "Requires users:invite. The user joins the caller's organization; any organizationId in the body is ignored.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["firstName", "lastName", "email"],
+                properties: {
+                  firstName: { type: "string", maxLength: 50 },
+                  lastName: { type: "string", maxLength: 50 },
+                  email: { type: "string", format: "email" },
+                  role: { type: "string", enum: ["admin", "agent", "manager"], default: "agent" }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          "201": {
+            description: "Invited user",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { data: { $ref: "#/components/schemas/User" } }
+                }
+              }
+            }
+          },
+          "400": { description: "VALIDATION_ERROR" },
+          "403": { description: "Missing users:invite, or a role other than agent without users:change-role" }
+        }
+      }
+    },
+    "/users/{userId}/organization": {
+      put: {
+        summary: "Move a user to another organization",
+        operationId: "moveUserToOrganization",
+        description: "Requires org:update. The generic user update never changes organizationId.",
+        parameters: [
+          {
+            name: "userId",
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+          }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["organizationId"],
+                properties: {
+                  organizationId: { type: "string", nullable: true, description: "null leaves the user unassigned" }
+                }
+              }
+            }
+          }
+        },
+        responses: {
+          "200": {
+            description: "Updated user",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { data: { $ref: "#/components/schemas/User" } }
+                }
+              }
+            }
+          },
+          "400": { description: "VALIDATION_ERROR" },
+          "403": { description: "Missing org:update" },
+          "404": { description: "Unknown user or organization" }
+        }
+      }
+    },
+    "/organizations": {
+      get: {
+        summary: "Get organizations",
+        operationId: "getOrganizations",
+        responses: {
+          "200": {
+            description: "List of organizations",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/Organization" }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  },
+  security: [{ bearerAuth: [] }],
+  components: {
+    parameters: {
+      OrgId: {
+        name: "X-Org-Id",
+        in: "header",
+        required: true,
+        description: "Organization the request is scoped to. Tenant-owned resources outside it are reported as not found.",
+        schema: { type: "string", example: "org_001" }
+      }
+    },
+    securitySchemes: {
+      bearerAuth: {
+        type: "http",
+        scheme: "bearer",
+        bearerFormat: "JWT"
+      }
+    },
+    schemas: {
+      LoginRequest: {
+        type: "object",
+        required: ["email", "password"],
+        properties: {
+          email: { type: "string", format: "email" },
+          password: { type: "string" }
+        }
+      },
+      RefreshTokenRequest: {
+        type: "object",
+        required: ["refreshToken"],
+        properties: {
+          refreshToken: { type: "string" }
+        }
+      },
+      AuthSession: {
+        type: "object",
+        required: ["accessToken", "refreshToken", "expiresIn", "user"],
+        properties: {
+          accessToken: { type: "string", description: "JWT carrying sub, sid, role and exp claims" },
+          refreshToken: { type: "string" },
+          expiresIn: { type: "integer", description: "Access token lifetime in seconds", example: 900 },
+          user: { $ref: "#/components/schemas/User" }
+        }
+      },
+      Chat: {
+        type: "object",
+        required: ["id", "customerId", "status", "createdAt"],
+        properties: {
+          id: { type: "string", example: "chat_001" },
+          organizationId: { type: "string", example: "org_001" },
+          customerId: { type: "string", example: "cus_001", description: "Set by the server from the requester's email or phone number" },
+          customerName: { type: "string", example: "John Doe" },
+          customerEmail: { type: "string", example: "john@example.com" },
+          subject: { type: "string", example: "Billing inquiry" },
+          status: { $ref: "#/components/schemas/ChatStatus" },
+          statusHistory: {
+            type: "array",
+            items: { $ref: "#/components/schemas/ChatStatusChange" }
+          },
+          priority: {
+            type: "string",
+            enum: ["low", "medium", "high", "urgent"],
+            example: "medium"
+          },
+          assignedAgent: { type: "string", example: "agent_001" },
+          requiredSkills: {
+            type: "array",
+            items: { type: "string" },
+            description: "Skills an agent needs for skills-based routing",
+            example: ["billing"]
+          },
+          lastMessage: { type: "string", example: "How can I help you today?" },
+          messageCount: { type: "integer", example: 5 },
+          outOfHours: { type: "boolean", readOnly: true, description: "Started while support was closed" },
+          preChatAnswers: {
+            type: "array",
+            readOnly: true,
+            description: "Answers to the widget's custom pre-chat fields",
+            items: { $ref: "#/components/schemas/PreChatAnswer" }
+          },
+          createdAt: { type: "string", format: "date-time" },
+          updatedAt: { type: "string", format: "date-time" }
+        }
+      },
+      ChatStatus: {
+        type: "string",
+        enum: ["queued", "active", "on-hold", "resolved", "closed", "missed", "archived"],
+        example: "active"
+      },
+      ChatStatusChange: {
+        type: "object",
+        required: ["from", "to", "changedAt"],
+        properties: {
+          from: { allOf: [{ $ref: "#/components/schemas/ChatStatus" }], nullable: true },
+          to: { $ref: "#/components/schemas/ChatStatus" },
+          changedAt: { type: "string", format: "date-time" },
+          changedBy: { type: "string", description: "User who made the change", example: "user_001" },
+          reason: { type: "string", example: "Cancelled by agent" }
+        }
+      },
+      ChatTransitionRequest: {
+        type: "object",
+        required: ["to"],
+        properties: {
+          to: { $ref: "#/components/schemas/ChatStatus" },
+          reason: { type: "string", maxLength: 500 }
+        }
+      },
+      RoutingStrategy: {
+        type: "string",
+        enum: ["round-robin", "least-busy", "skills-based", "sticky"],
+        example: "least-busy"
+      },
+      RoutingSettings: {
+        type: "object",
+        properties: {
+          enabled: { type: "boolean", description: "Assign new chats automatically" },
+          strategy: { $ref: "#/components/schemas/RoutingStrategy" },
+          defaultMaxConcurrentChats: { type: "integer", minimum: 1, maximum: 50, example: 5 },
+          allowAwayAgents: { type: "boolean", description: "Fall back to away agents when nobody is online" },
+          deferOutOfHours: { type: "boolean", description: "Leave chats started outside business hours queued until support opens" },
+          lastAssignedAgentId: { type: "string", readOnly: true, description: "Where round robin continues from" },
+          updatedAt: { type: "string", format: "date-time", readOnly: true }
+        }
+      },
+      DayHours: {
+        type: "object",
+        required: ["isOpen", "start", "end"],
+        properties: {
+          isOpen: { type: "boolean" },
+          start: { type: "string", pattern: "^\\d{2}:\\d{2}$", example: "09:00" },
+          end: { type: "string", pattern: "^\\d{2}:\\d{2}$", example: "17:00", description: "After start" }
+        }
+      },
+      BusinessHours: {
+        type: "object",
+        required: ["enabled", "timezone", "weekly", "holidays", "exceptions"],
+        properties: {
+          id: { type: "string", readOnly: true, example: "org_001" },
+          organizationId: { type: "string", readOnly: true, example: "org_001" },
+          enabled: { type: "boolean", description: "When off, support is always open" },
+          timezone: { type: "string", description: "IANA timezone the hours are in", example: "America/New_York" },
+          weekly: {
+            type: "object",
+            required: ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"],
+            additionalProperties: { $ref: "#/components/schemas/DayHours" }
+          },
+          holidays: {
+            type: "array",
+            description: "Dates closed all day",
+            items: {
+              type: "object",
+              required: ["date", "name"],
+              properties: {
+                date: { type: "string", format: "date", example: "2026-12-25" },
+                name: { type: "string", example: "Christmas Day" }
+              }
+            }
+          },
+          exceptions: {
+            type: "array",
+            description: "Dates whose hours replace the weekly ones",
+            items: {
+              allOf: [
+                { $ref: "#/components/schemas/DayHours" },
+                {
+                  type: "object",
+                  required: ["date", "name"],
+                  properties: {
+                    date: { type: "string", format: "date", example: "2026-12-24" },
+                    name: { type: "string", example: "Christmas Eve" }
+                  }
+                }
+              ]
+            }
+          },
+          updatedAt: { type: "string", format: "date-time", readOnly: true }
+        }
+      },
+      BusinessHoursStatus: {
+        type: "object",
+        required: ["isOpen", "reason", "timezone"],
+        properties: {
+          isOpen: { type: "boolean" },
+          reason: { type: "string", example: "Outside opening hours" },
+          timezone: { type: "string", example: "America/New_York" },
+          nextOpening: {
+            type: "object",
+            description: "Absent while open, or when nothing opens in the next four weeks",
+            properties: {
+              date: { type: "string", format: "date" },
+              time: { type: "string", example: "09:00" }
+            }
+          }
+        }
+      },
+      RoutingDecision: {
+        type: "object",
+        required: ["chatId", "agentId", "strategy", "reason"],
+        properties: {
+          chatId: { type: "string", example: "chat_003" },
+          requesterName: { type: "string", example: "Jane Cooper" },
+          agentId: { type: "string", nullable: true, description: "Null when the chat stays queued" },
+          strategy: { $ref: "#/components/schemas/RoutingStrategy" },
+          reason: { type: "string", example: "least busy (1/5 open chats)" }
+        }
+      },
+      LLMSettingsInput: {
+        type: "object",
+        required: ["provider", "model", "temperature", "maxTokens"],
+        properties: {
+          provider: { type: "string", enum: ["local", "mock", "openai", "anthropic"] },
+          model: { type: "string", example: "gpt-4o" },
+          endpoint: { type: "string", format: "uri", description: "Overrides the provider's default base URL" },
+          temperature: { type: "number", minimum: 0, maximum: 2, example: 0.3 },
+          maxTokens: { type: "integer", minimum: 16, maximum: 8192, example: 400 },
+          fallbackModel: { type: "string", description: "Tried once when the model fails; must differ from model" },
+          apiKey: { type: "string", writeOnly: true, description: "Required by hosted providers; blank keeps the saved key" }
+        }
+      },
+      LLMSettings: {
+        type: "object",
+        required: ["provider", "model", "temperature", "maxTokens", "hasApiKey"],
+        properties: {
+          id: { type: "string", example: "org_001" },
+          organizationId: { type: "string", example: "org_001" },
+          provider: { type: "string", enum: ["local", "mock", "openai", "anthropic"] },
+          model: { type: "string" },
+          endpoint: { type: "string" },
+          temperature: { type: "number" },
+          maxTokens: { type: "integer" },
+          fallbackModel: { type: "string" },
+          hasApiKey: { type: "boolean" },
+          apiKeyPreview: { type: "string", example: "sk-…1234" },
+          updatedAt: { type: "string", format: "date-time" }
+        }
+      },
+      LLMConnectionTestResult: {
+        type: "object",
+        properties: {
+          ok: { type: "boolean" },
+          provider: { type: "string" },
+          model: { type: "string", description: "The model that answered, or that failed last" },
+          usedFallback: { type: "boolean" },
+          latencyMs: { type: "integer" },
+          message: { type: "string", example: "gpt-4o answered" }
+        }
+      },
+      Message: {
+        type: "object",
+        required: ["id", "chatId", "senderType", "body", "deliveryStatus", "createdAt"],
+        properties: {
+          id: { type: "string", example: "msg_001" },
+          chatId: { type: "string", example: "chat_001" },
+          senderType: {
+            type: "string",
+            enum: ["customer", "agent", "ai", "system"],
+            example: "agent"
+          },
+          senderId: { type: "string", example: "user_001" },
+          senderName: { type: "string", example: "Alice Johnson" },
+          body: { type: "string", example: "How can I help you today?" },
+          attachments: {
+            type: "array",
+            items: { $ref: "#/components/schemas/MessageAttachment" }
+          },
+          deliveryStatus: {
+            type: "string",
+            enum: ["sending", "sent", "delivered", "read", "failed"],
+            example: "delivered"
+          },
+          createdAt: { type: "string", format: "date-time" },
+          updatedAt: { type: "string", format: "date-time" }
+        }
+      },
+      MessageAttachment: {
+        type: "object",
+        required: ["id", "fileName", "mimeType", "url"],
+        properties: {
+          id: { type: "string", example: "att_001" },
+          fileName: { type: "string", example: "screenshot.png" },
+          mimeType: { type: "string", example: "image/png" },
+          sizeKb: { type: "integer", example: 312 },
+          url: { type: "string" }
+        }
+      },
+      SendMessageRequest: {
+        type: "object",
+        description: "The message is sent as the signed-in user; any sender fields in the body are ignored.",
+        required: ["body"],
+        properties: {
+          body: { type: "string", maxLength: 5000 },
+          attachments: {
+            type: "array",
+            items: { $ref: "#/components/schemas/MessageAttachment" }
+          }
+        }
+      },
+      ReplySuggestion: {
+        type: "object",
+        required: ["id", "chatId", "text", "sources", "provider", "model", "status"],
+        properties: {
+          id: { type: "string", example: "sugg_001" },
+          organizationId: { type: "string", example: "org_001" },
+          chatId: { type: "string", example: "chat_001" },
+          text: { type: "string", description: "Reply text without citation markers" },
+          sources: {
+            type: "array",
+            description: "Knowledge the suggestion cites",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                sourceType: { type: "string", enum: ["document", "faq", "resource", "scraped-page"] },
+                sourceId: { type: "string" },
+                title: { type: "string" },
+                url: { type: "string" }
+              }
+            }
+          },
+          provider: { type: "string", example: "local" },
+          model: { type: "string", example: "local-extractive" },
+          status: { type: "string", enum: ["pending", "accepted", "edited", "rejected"] },
+          requestedById: { type: "string" },
+          createdAt: { type: "string", format: "date-time" },
+          reviewedAt: { type: "string", format: "date-time" },
+          messageId: { type: "string" },
+          finalText: { type: "string", description: "What was sent, for edited suggestions" }
+        }
+      },
+      CustomerNote: {
+        type: "object",
+        required: ["id", "body", "authorId", "createdAt"],
+        properties: {
+          id: { type: "string", example: "note_001" },
+          body: { type: "string" },
+          authorId: { type: "string", example: "user_001" },
+          createdAt: { type: "string", format: "date-time" }
+        }
+      },
+      Customer: {
+        type: "object",
+        required: ["id", "name", "emails", "phones"],
+        properties: {
+          id: { type: "string", example: "cus_001" },
+          organizationId: { type: "string", example: "org_001" },
+          name: { type: "string", example: "John Anderson" },
+          emails: { type: "array", items: { type: "string" } },
+          phones: { type: "array", items: { type: "string" } },
+          attributes: { type: "object", additionalProperties: { type: "string" }, example: { plan: "Professional" } },
+          tags: { type: "array", items: { type: "string" } },
+          notes: { type: "array", items: { $ref: "#/components/schemas/CustomerNote" } },
+          mergedCustomerIds: {
+            type: "array",
+            items: { type: "string" },
+            description: "Profiles merged into this one because a chat matched both"
+          },
+          createdAt: { type: "string", format: "date-time" },
+          updatedAt: { type: "string", format: "date-time" }
+        }
+      },
+      Document: {
+        type: "object",
+        required: ["id", "title", "fileType", "ingestionStatus"],
+        properties: {
+          id: { type: "string", example: "doc_001" },
+          organizationId: { type: "string", example: "org_001" },
+          title: { type: "string", example: "User Guide v2.1.pdf" },
+          fileType: { type: "string", example: "PDF" },
+          fileSizeKb: { type: "integer", example: 2048 },
+          uploadedById: { type: "string", example: "user_001" },
+          uploadedAt: { type: "string", format: "date-time" },
+          lastModifiedAt: { type: "string", format: "date-time" },
+          ingestionStatus: {
+            type: "string",
+            enum: ["queued", "parsing", "indexed", "failed"],
+            description: "Only indexed documents are used by the AI agent"
+          },
+          chunkCount: { type: "integer", example: 3 },
+          characterCount: { type: "integer", example: 762 },
+          ingestionError: { type: "string", description: "Why ingestion failed" },
+          indexedAt: { type: "string", format: "date-time" }
+        }
+      },
+      DocumentChunk: {
+        type: "object",
+        required: ["id", "documentId", "index", "text", "tokenCount"],
+        properties: {
+          id: { type: "string", example: "doc_001_chunk_0" },
+          documentId: { type: "string", example: "doc_001" },
+          organizationId: { type: "string", example: "org_001" },
+          index: { type: "integer", description: "Position within the document, from 0" },
+          text: { type: "string" },
+          tokenCount: { type: "integer", description: "Approximate size in model tokens", example: 190 }
+        }
+      },
+      FAQInput: {
+        type: "object",
+        required: ["question", "answer"],
+        properties: {
+          question: { type: "string", maxLength: 300, example: "How do I reset my password?" },
+          answer: { type: "string", maxLength: 10000, description: "Markdown" },
+          category: { type: "string", maxLength: 60, default: "General" },
+          tags: {
+            type: "array",
+            maxItems: 20,
+            items: { type: "string" },
+            description: "Stored lowercase, without duplicates"
+          },
+          status: { type: "string", enum: ["draft", "published"], default: "draft" }
+        }
+      },
+      FAQ: {
+        allOf: [
+          { $ref: "#/components/schemas/FAQInput" },
+          {
+            type: "object",
+            required: ["id", "category", "tags", "status", "order"],
+            properties: {
+              id: { type: "string", example: "faq_001" },
+              organizationId: { type: "string", example: "org_001" },
+              order: { type: "integer", description: "Position within the category, starting at 0" },
+              createdAt: { type: "string", format: "date-time" },
+              updatedAt: { type: "string", format: "date-time" }
+            }
+          }
+        ]
+      },
+      KnowledgeSearchResult: {
+        type: "object",
+        required: ["id", "sourceType", "sourceId", "title", "snippet", "score", "matchedTerms", "tokenCount"],
+        properties: {
+          id: { type: "string", description: "Passage id, e.g. a document chunk", example: "chunk_001_2" },
+          sourceType: { type: "string", enum: ["document", "faq", "resource", "scraped-page"] },
+          sourceId: { type: "string", example: "doc_001" },
+          title: { type: "string" },
+          url: { type: "string", description: "App path for documents, FAQs and resources; external URL for web pages" },
+          snippet: { type: "string", description: "The passage text given to the model" },
+          score: { type: "number", example: 4.802 },
+          matchedTerms: { type: "array", items: { type: "string" }, description: "Normalized query terms found in the passage" },
+          tokenCount: { type: "integer" }
+        }
+      },
+      KnowledgeSearchResponse: {
+        type: "object",
+        properties: {
+          results: { type: "array", items: { $ref: "#/components/schemas/KnowledgeSearchResult" } },
+          context: { type: "string", description: "Numbered results in rank order, cut off at about 1500 tokens" },
+          contextTokenCount: { type: "integer" },
+          contextResultIds: { type: "array", items: { type: "string" } },
+          passageCount: { type: "integer", description: "Passages searched in the selected sources" }
+        }
+      },
+      ResourceInput: {
+        type: "object",
+        required: ["title", "type"],
+        properties: {
+          title: { type: "string", maxLength: 200, example: "Product Demo Video" },
+          type: { type: "string", enum: ["document", "video", "link", "template"] },
+          url: {
+            type: "string",
+            description: "Required for documents (file path or address); videos and links need an http or https address; ignored for templates"
+          },
+          tags: { type: "array", items: { type: "string" }, maxItems: 20 },
+          aiInstructions: { type: "string", maxLength: 4000, description: "How the assistant should use the resource" },
+          transcript: { type: "string", description: "Videos only" },
+          templateBody: { type: "string", description: "Templates only; required. {{name}} marks a variable", example: "Hi {{customer_name}}," },
+          templateVariables: {
+            type: "array",
+            description: "Templates only; every variable used in the body must be listed",
+            items: {
+              type: "object",
+              required: ["name"],
+              properties: {
+                name: { type: "string", pattern: "^[A-Za-z_][A-Za-z0-9_]*$" },
+                description: { type: "string" },
+                defaultValue: { type: "string" }
+              }
+            }
+          }
+        }
+      },
+      Resource: {
+        allOf: [
+          { $ref: "#/components/schemas/ResourceInput" },
+          {
+            type: "object",
+            required: ["id", "url", "tags", "aiInstructions"],
+            properties: {
+              id: { type: "string", example: "resource_001" },
+              organizationId: { type: "string", example: "org_001" },
+              uploadedById: { type: "string" },
+              uploadedAt: { type: "string", format: "date-time" },
+              updatedAt: { type: "string", format: "date-time" },
+              usageCount: { type: "integer", description: "Chats that referenced the resource; included when listing" },
+              lastUsedAt: { type: "string", format: "date-time" }
+            }
+          }
+        ]
+      },
+      ResourceUsage: {
+        type: "object",
+        required: ["id", "resourceId", "chatId", "referencedAt"],
+        properties: {
+          id: { type: "string", example: "ru_001" },
+          organizationId: { type: "string", example: "org_001" },
+          resourceId: { type: "string", example: "resource_001" },
+          chatId: { type: "string", example: "chat_001" },
+          messageId: { type: "string", example: "msg_003" },
+          referencedAt: { type: "string", format: "date-time" },
+          chat: {
+            type: "object",
+            description: "Included when listing; absent once the chat is deleted",
+            properties: {
+              requesterName: { type: "string" },
+              requesterEmail: { type: "string" },
+              status: { type: "string" }
+            }
+          }
+        }
+      },
+      SavedReplyInput: {
+        type: "object",
+        required: ["title", "shortcut", "body"],
+        properties: {
+          title: { type: "string", maxLength: 100, example: "Greeting" },
+          shortcut: { type: "string", maxLength: 30, pattern: "^[a-z0-9][a-z0-9-]*$", description: "Typed after a slash in the composer; a leading slash is dropped", example: "hello" },
+          body: {
+            type: "string",
+            maxLength: 5000,
+            description: "Variables: customer.firstName, customer.lastName, customer.name, customer.email, agent.firstName, agent.name, agent.pseudonym",
+            example: "Hi {{customer.firstName}}, this is {{agent.pseudonym}}."
+          },
+          scope: { type: "string", enum: ["personal", "organization"], default: "personal" }
+        }
+      },
+      SavedReply: {
+        allOf: [
+          { $ref: "#/components/schemas/SavedReplyInput" },
+          {
+            type: "object",
+            required: ["id", "scope", "createdById", "usageCount"],
+            properties: {
+              id: { type: "string", example: "sr_001" },
+              organizationId: { type: "string", example: "org_001" },
+              createdById: { type: "string", example: "user_001" },
+              usageCount: { type: "integer", description: "Times the reply was inserted" },
+              lastUsedAt: { type: "string", format: "date-time" },
+              createdAt: { type: "string", format: "date-time" },
+              updatedAt: { type: "string", format: "date-time" }
+            }
+          }
+        ]
+      },
+      ScraperJobInput: {
+        type: "object",
+        required: ["url", "linkDepth", "maxPages", "frequency"],
+        properties: {
+          url: { type: "string", format: "uri", example: "https://docs.example.com" },
+          linkDepth: { type: "integer", minimum: 0, maximum: 5, example: 2 },
+          maxPages: { type: "integer", minimum: 1, maximum: 500, example: 50 },
+          includePatterns: {
+            type: "array",
+            items: { type: "string" },
+            description: "Glob patterns (* matches anything) a followed URL must match"
+          },
+          excludePatterns: {
+            type: "array",
+            items: { type: "string" },
+            example: ["*/blog/*"]
+          },
+          respectRobotsTxt: { type: "boolean", default: true },
+          frequency: { type: "string", enum: ["manual", "hourly", "daily", "weekly", "monthly", "custom"] },
+          cronExpression: {
+            type: "string",
+            description: "Five-field cron expression in local time; required when frequency is custom",
+            example: "30 2 * * MON-FRI"
+          }
+        }
+      },
+      ScraperJob: {
+        allOf: [
+          { $ref: "#/components/schemas/ScraperJobInput" },
+          {
+            type: "object",
+            required: ["id", "status"],
+            properties: {
+              id: { type: "string", example: "scraper_001" },
+              organizationId: { type: "string", example: "org_001" },
+              status: { type: "string", enum: ["pending", "queued", "running", "completed", "failed"] },
+              paused: { type: "boolean", description: "The schedule is suspended; manual runs still work" },
+              nextRunAt: { type: "string", format: "date-time", description: "Absent for manual and paused jobs" },
+              lastScrapedAt: { type: "string", format: "date-time" },
+              createdAt: { type: "string", format: "date-time" },
+              updatedAt: { type: "string", format: "date-time" }
+            }
+          }
+        ]
+      },
+      ScrapedPage: {
+        type: "object",
+        required: ["url", "depth", "outcome"],
+        properties: {
+          url: { type: "string", format: "uri" },
+          depth: { type: "integer", description: "Links followed from the start page" },
+          outcome: { type: "string", enum: ["fetched", "skipped", "error"] },
+          statusCode: { type: "integer", example: 200 },
+          title: { type: "string" },
+          reason: { type: "string", example: "Disallowed by robots.txt" }
+        }
+      },
+      ScraperRun: {
+        type: "object",
+        required: ["id", "jobId", "status", "trigger", "startedAt", "pagesFetched", "pagesSkipped", "errorCount", "pages"],
+        properties: {
+          id: { type: "string", example: "run_001" },
+          jobId: { type: "string", example: "scraper_001" },
+          organizationId: { type: "string", example: "org_001" },
+          status: { type: "string", enum: ["running", "completed", "failed"] },
+          trigger: { type: "string", enum: ["manual", "schedule"] },
+          startedAt: { type: "string", format: "date-time" },
+          finishedAt: { type: "string", format: "date-time" },
+          pagesFetched: { type: "integer" },
+          pagesSkipped: { type: "integer" },
+          errorCount: { type: "integer" },
+          pages: {
+            type: "array",
+            items: { $ref: "#/components/schemas/ScrapedPage" }
+          },
+          diff: {
+            type: "object",
+            description: "Content changes since the previous run",
+            properties: {
+              added: { type: "array", items: { type: "string" } },
+              removed: { type: "array", items: { type: "string" } },
+              changed: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    url: { type: "string" },
+                    addedLines: { type: "array", items: { type: "string" } },
+                    removedLines: { type: "array", items: { type: "string" } }
+                  }
+                }
+              },
+              unchangedCount: { type: "integer" }
+            }
+          },
+          error: { type: "string", description: "Why the whole run failed" }
+        }
+      },
+      BackgroundJob: {
+        type: "object",
+        required: ["id", "type", "label", "status", "payload", "attempts", "maxAttempts", "runAt", "createdAt"],
+        properties: {
+          id: { type: "string", example: "bg_001" },
+          organizationId: { type: "string", example: "org_001" },
+          type: { type: "string", enum: ["scrape", "document-reindex", "summary-generation", "data-export"] },
+          label: { type: "string", description: "What the job works on", example: "https://docs.techcorp.com" },
+          status: { type: "string", enum: ["queued", "running", "completed", "failed", "cancelled"] },
+          payload: {
+            type: "object",
+            additionalProperties: { type: "string" },
+            example: { scraperJobId: "scraper_001", trigger: "schedule" }
+          },
+          attempts: { type: "integer", description: "Attempts started so far" },
+          maxAttempts: { type: "integer", example: 3 },
+          runAt: { type: "string", format: "date-time", description: "Earliest time the job is picked up; pushed back between retries" },
+          createdAt: { type: "string", format: "date-time" },
+          createdById: { type: "string" },
+          startedAt: { type: "string", format: "date-time" },
+          finishedAt: { type: "string", format: "date-time" },
+          error: { type: "string", description: "Why the last attempt failed" },
+          result: { type: "string", example: "4 pages fetched, 1 skipped, 1 errors" }
+        }
+      },
+      WidgetConfig: {
+        type: "object",
+        required: [
+          "primaryColor", "secondaryColor", "highlightColor", "position", "headerText", "subHeaderText",
+          "minimizedText", "welcomeMessage", "autoOpen", "aiName", "tone", "customPrompt", "sessionTimeout",
+          "idleTimeout", "anonymous", "requiredFields", "preChatFields", "enableCalls", "enableVoicemails",
+          "offlineMessage", "offlineLeadCapture"
+        ],
+        properties: {
+          primaryColor: { type: "string", pattern: "^#[0-9a-fA-F]{6}$", example: "#0052CC" },
+          secondaryColor: { type: "string", pattern: "^#[0-9a-fA-F]{6}$", example: "#17A2B8" },
+          highlightColor: { type: "string", pattern: "^#[0-9a-fA-F]{6}$", example: "#FFC107" },
+          position: { type: "string", enum: ["bottom-right", "bottom-left"] },
+          headerText: { type: "string", maxLength: 60, example: "Customer Support" },
+          subHeaderText: { type: "string", example: "We're here to help" },
+          minimizedText: { type: "string", example: "Chat with us" },
+          welcomeMessage: { type: "string", example: "Hello! How can I help you today?" },
+          autoOpen: { type: "boolean" },
+          aiName: { type: "string", example: "Assistant" },
+          tone: { type: "string", enum: ["friendly", "professional", "casual", "formal"] },
+          customPrompt: { type: "string" },
+          sessionTimeout: { type: "integer", description: "Minutes", example: 30 },
+          idleTimeout: { type: "integer", description: "Minutes; at most sessionTimeout", example: 10 },
+          anonymous: { type: "boolean", description: "Visitors may start a chat without giving any details" },
+          requiredFields: {
+            type: "array",
+            items: { type: "string", enum: ["name", "email", "phone"] }
+          },
+          preChatFields: {
+            type: "array",
+            maxItems: 10,
+            description: "Custom questions asked after the required fields, in this order",
+            items: { $ref: "#/components/schemas/PreChatField" }
+          },
+          enableCalls: { type: "boolean" },
+          enableVoicemails: { type: "boolean" },
+          offlineMessage: { type: "string", maxLength: 500, description: "Shown instead of the welcome message outside business hours" },
+          offlineLeadCapture: { type: "boolean", description: "Outside business hours, take a message with name and email instead of refusing chats" }
+        }
+      },
+      PreChatField: {
+        type: "object",
+        required: ["id", "type", "label", "required"],
+        properties: {
+          id: { type: "string", example: "field_1", description: "Key of the answer in WidgetChatStartRequest.fields" },
+          type: { type: "string", enum: ["text", "select", "checkbox", "consent"] },
+          label: { type: "string", maxLength: 200, example: "Order number" },
+          required: { type: "boolean", description: "Checkbox and consent fields must be ticked" },
+          placeholder: { type: "string", maxLength: 100, description: "Text and select fields" },
+          options: {
+            type: "array",
+            description: "Choices of a select field; at least two",
+            items: { type: "string" },
+            example: ["Billing", "Technical issue"]
+          },
+          validation: {
+            type: "object",
+            description: "Rules for a text field's answer",
+            properties: {
+              minLength: { type: "integer", minimum: 0, maximum: 500 },
+              maxLength: { type: "integer", minimum: 1, maximum: 500 },
+              pattern: { type: "string", description: "Regular expression the whole answer must match", example: "ORD-\\d{5}" },
+              patternMessage: { type: "string", example: "Enter an order number such as ORD-12345" }
+            }
+          }
+        }
+      },
+      PreChatAnswer: {
+        type: "object",
+        required: ["fieldId", "label", "type", "value"],
+        properties: {
+          fieldId: { type: "string", example: "field_1" },
+          label: { type: "string", description: "The field's label when the chat started", example: "Order number" },
+          type: { type: "string", enum: ["text", "select", "checkbox", "consent"] },
+          value: {
+            oneOf: [{ type: "string" }, { type: "boolean" }],
+            example: "ORD-48213"
+          }
+        }
+      },
+      WidgetSettings: {
+        type: "object",
+        required: ["widgetId", "draft", "published", "publishedVersion", "hasUnpublishedChanges"],
+        properties: {
+          id: { type: "string", example: "org_001" },
+          organizationId: { type: "string", example: "org_001" },
+          widgetId: { type: "string", example: "wgt_org_001" },
+          draft: { $ref: "#/components/schemas/WidgetConfig" },
+          published: { $ref: "#/components/schemas/WidgetConfig" },
+          publishedVersion: { type: "integer", description: "0 while the defaults are live", example: 2 },
+          hasUnpublishedChanges: { type: "boolean" },
+          updatedAt: { type: "string", format: "date-time" },
+          updatedById: { type: "string" },
+          publishedAt: { type: "string", format: "date-time" },
+          publishedById: { type: "string" }
+        }
+      },
+      WidgetConfigVersion: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          organizationId: { type: "string" },
+          version: { type: "integer", example: 2 },
+          config: { $ref: "#/components/schemas/WidgetConfig" },
+          publishedAt: { type: "string", format: "date-time" },
+          publishedById: { type: "string" },
+          restoredFromVersion: { type: "integer", description: "Set when the version was published by a rollback" }
+        }
+      },
+      PublicWidgetSettings: {
+        description: "widgetId and the appearance, welcome, pre-chat and offline fields of the published WidgetConfig",
+        allOf: [
+          { $ref: "#/components/schemas/WidgetConfig" },
+          {
+            type: "object",
+            properties: {
+              availability: { $ref: "#/components/schemas/BusinessHoursStatus" }
+            }
+          }
+        ]
+      },
+      WidgetChatStartRequest: {
+        type: "object",
+        required: ["message"],
+        properties: {
+          name: { type: "string", maxLength: 100 },
+          email: { type: "string", format: "email" },
+          phone: { type: "string", example: "+1 555 0100" },
+          message: { type: "string", maxLength: 2000 },
+          pageUrl: { type: "string", description: "Page the visitor wrote from" },
+          fields: {
+            type: "object",
+            description: "Answers to the custom pre-chat fields, keyed by field id",
+            additionalProperties: { oneOf: [{ type: "string", maxLength: 500 }, { type: "boolean" }] },
+            example: { field_1: "ORD-48213", field_3: true }
+          }
+        }
+      },
+      WidgetChatSession: {
+        type: "object",
+        properties: {
+          chatId: { type: "string" },
+          visitorToken: { type: "string", description: "Send as X-Visitor-Token to read and continue the chat" },
+          status: { $ref: "#/components/schemas/ChatStatus" }
+        }
+      },
+      WidgetMessage: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          senderType: { type: "string", enum: ["customer", "agent", "ai"] },
+          senderName: { type: "string" },
+          body: { type: "string" },
+          createdAt: { type: "string", format: "date-time" }
+        }
+      },
+      WidgetTranscript: {
+        type: "object",
+        properties: {
+          chatId: { type: "string" },
+          status: { $ref: "#/components/schemas/ChatStatus" },
+          messages: {
+            type: "array",
+            items: { $ref: "#/components/schemas/WidgetMessage" }
+          }
+        }
+      },
+      Engagement: {
+        type: "object",
+        required: ["id", "customerName", "customerEmail", "engagementCount", "lastEngagedAt"],
+        properties: {
+          id: { type: "string", example: "eng_001" },
+          organizationId: { type: "string", example: "org_001" },
+          customerName: { type: "string", example: "John Anderson" },
+          customerEmail: { type: "string", example: "john@customer.com" },
+          contactNumber: { type: "string", example: "+1-555-0123" },
+          engagementCount: { type: "integer", example: 5 },
+          lastEngagedAt: { type: "string", format: "date-time" },
+          agentsInvolved: {
+            type: "array",
+            items: { type: "string" },
+            description: "Agent ids, oldest first"
+          },
+          aiSummary: { type: "string" }
+        }
+      },
+      User: {
+        type: "object",
+        required: ["id", "name", "email", "role"],
+        properties: {
+          id: { type: "string", example: "user_001" },
+          name: { type: "string", example: "John Doe" },
+          email: { type: "string", example: "john@example.com" },
+          role: { 
+            type: "string", 
+            enum: ["admin", "agent", "supervisor"],
+            example: "agent" 
+          },
+          status: {
+            type: "string",
+            enum: ["active", "inactive", "pending"],
+            example: "active"
           },
           organizationId: { type: "string", example: "org_001" },
+          skills: {
+            type: "array",
+            items: { type: "string" },
+            example: ["billing", "spanish"]
+          },
+          maxConcurrentChats: { type: "integer", description: "Overrides the organization's routing default" },
           lastLoginAt: { type: "string", format: "date-time" },
           createdAt: { type: "string", format: "date-time" }
         }
@@ -0,0 +1,103 @@
+/**
+ * Client-side auth session storage
+ * Keeps the access/refresh token pair in localStorage and lets the API client
+ * tell the rest of the app when the session can no longer be used.
+ */
+
+const ACCESS_TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'auth_refresh_token';
+// Web Lock held while renewing; refresh tokens are single-use, so two tabs must never renew at once
+const REFRESH_LOCK_NAME = 'auth_refresh';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface AccessTokenClaims {
+  /** User id */
+  sub: string;
+  /** Session id, used to revoke the session server-side */
+  sid?: string;
+  role?: string;
+  /** Issued at / expiry, in seconds since the epoch */
+  iat?: number;
+  exp?: number;
+}
+
+type UnauthorizedListener = () => void;
+
+const unauthorizedListeners = new Set<UnauthorizedListener>();
+
+// Signing out in one tab signs out every other open tab as well
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if ((event.key === ACCESS_TOKEN_KEY || event.key === null) && !event.newValue) {
+      unauthorizedListeners.forEach(listener => listener());
+    }
+  });
+}
+
+function decodeBase64Url(segment: string): string {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  return atob(padded);
+}
+
+export function decodeAccessToken(token: string): AccessTokenClaims | null {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+
+  try {
+    return JSON.parse(decodeBase64Url(payload));
+  } catch {
+    return null;
+  }
+}
+
+export const authSession = {
+  getTokens(): AuthTokens | null {
+    const accessToken = localStorage.getItem(ACCESS_TOKEN_KEY);
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (!accessToken || !refreshToken) return null;
+    return { accessToken, refreshToken };
+  },
+
+  setTokens(tokens: AuthTokens) {
+    localStorage.setItem(ACCESS_TOKEN_KEY, tokens.accessToken);
+    localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+  },
+
+  clear() {
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  },
+
+  /** Milliseconds until the access token expires, or null if it carries no expiry */
+  getAccessTokenTtl(): number | null {
+    const tokens = this.getTokens();
+    const exp = tokens ? decodeAccessToken(tokens.accessToken)?.exp : undefined;
+    return exp ? exp * 1000 - Date.now() : null;
+  },
+
+  isAccessTokenExpired(skewMs = 5000): boolean {
+    const ttl = this.getAccessTokenTtl();
+    return ttl !== null && ttl <= skewMs;
+  },
+
+  /** Runs `task` while no other tab is renewing the session; browsers without Web Locks run it at once */
+  withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+    if (typeof navigator === 'undefined' || !navigator.locks) return task();
+    return navigator.locks.request(REFRESH_LOCK_NAME, task);
+  },
+
+  /** Called by the API client once a 401 could not be recovered by refreshing */
+  notifyUnauthorized() {
+    unauthorizedListeners.forEach(listener => listener());
+  },
+
+  onUnauthorized(listener: UnauthorizedListener): () => void {
+    unauthorizedListeners.add(listener);
+    return () => unauthorizedListeners.delete(listener);
+  },
+};
@@ -0,0 +1,71 @@
+/**
+ * Scheduler and shared background queue
+ * Schedules for recurring scraper jobs, retry backoff, and the labels and
+ * limits of every kind of work the background queue runs.
+ */
+
+import { getNextCronRun, isValidCron } from './cron';
+import type { BackgroundJob, BackgroundJobStatus, BackgroundJobType, ScraperFrequency, ScraperJob } from '@/types';
+
+/** When each preset frequency fires; 03:00 keeps daily and longer crawls outside office hours */
+export const FREQUENCY_CRON_EXPRESSIONS: Record<Exclude<ScraperFrequency, 'manual' | 'custom'>, string> = {
+  hourly: '0 * * * *',
+  daily: '0 3 * * *',
+  weekly: '0 3 * * 1',
+  monthly: '0 3 1 * *',
+};
+
+type ScheduledJob = Pick<ScraperJob, 'frequency' | 'cronExpression' | 'paused'>;
+
+/** Cron expression the job runs on, or null when it only runs manually */
+export function getScheduleExpression({ frequency, cronExpression }: Pick<ScraperJob, 'frequency' | 'cronExpression'>): string | null {
+  if (frequency === 'manual') return null;
+  if (frequency === 'custom') return cronExpression && isValidCron(cronExpression) ? cronExpression : null;
+  return FREQUENCY_CRON_EXPRESSIONS[frequency];
+}
+
+/** Next scheduled run after `after`, or undefined for manual, paused and never-firing jobs */
+export function getNextRunAt(job: ScheduledJob, after: Date = new Date()): string | undefined {
+  const expression = job.paused ? null : getScheduleExpression(job);
+  return expression ? getNextCronRun(expression, after)?.toISOString() : undefined;
+}
+
+export const RETRY_BASE_DELAY_MS = 60 * 1000;
+export const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+/** Exponential backoff before retrying: 1, 2, 4… minutes after the given failed attempt, capped */
+export function getRetryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+export const BACKGROUND_JOB_TYPES: BackgroundJobType[] = ['scrape', 'document-reindex', 'summary-generation', 'data-export'];
+
+export const BACKGROUND_JOB_TYPE_LABELS: Record<BackgroundJobType, string> = {
+  scrape: 'Website scrape',
+  'document-reindex': 'Document re-index',
+  'summary-generation': 'Chat summaries',
+  'data-export': 'Data export',
+};
+
+export const ACTIVE_BACKGROUND_JOB_STATUSES: ReadonlySet<BackgroundJobStatus> = new Set(['queued', 'running']);
+
+/** Attempts before a job is marked failed; parsing the same file again would fail the same way */
+export const DEFAULT_MAX_ATTEMPTS: Record<BackgroundJobType, number> = {
+  scrape: 3,
+  'document-reindex': 1,
+  'summary-generation': 3,
+  'data-export': 2,
+};
+
+export const EXPORTABLE_COLLECTIONS = ['chats', 'customers', 'engagements', 'documents', 'faqs'] as const;
+
+export type ExportableCollection = typeof EXPORTABLE_COLLECTIONS[number];
+
+export const EXPORT_FORMATS = ['csv', 'json'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/** Name of the file a data export produces, e.g. chats-2025-01-27.csv */
+export function getExportFileName(payload: BackgroundJob['payload'], createdAt: string): string {
+  return `${payload.collection}-${createdAt.slice(0, 10)}.${payload.format}`;
+}
@@ -0,0 +1,169 @@
+/**
+ * Business hours
+ * Decides whether support is open at a given moment. Hours are kept in the
+ * organization's timezone, so a schedule gives the same answer wherever the
+ * browser runs. Holidays close a whole day; exceptions replace a date's
+ * weekly hours.
+ */
+
+import type { BusinessHoliday, BusinessHours, BusinessHoursException, BusinessHoursStatus, DayHours, Weekday } from '@/types';
+
+export const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  monday: 'Monday',
+  tuesday: 'Tuesday',
+  wednesday: 'Wednesday',
+  thursday: 'Thursday',
+  friday: 'Friday',
+  saturday: 'Saturday',
+  sunday: 'Sunday',
+};
+
+/** Suggestions for the timezone picker; any IANA zone the browser knows is accepted */
+export const COMMON_TIMEZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
+
+// Nothing opening within this many days counts as "no next opening"
+const NEXT_OPENING_LOOKAHEAD_DAYS = 28;
+
+const OFFICE_HOURS: DayHours = { isOpen: true, start: '09:00', end: '17:00' };
+const CLOSED_DAY: DayHours = { isOpen: false, start: '09:00', end: '17:00' };
+
+/** Schedule of an organization that has not set one: weekdays 9 to 5, but switched off so support is always open */
+export function createDefaultBusinessHours(organizationId: string): BusinessHours {
+  return {
+    id: organizationId,
+    organizationId,
+    enabled: false,
+    timezone: 'UTC',
+    weekly: {
+      monday: OFFICE_HOURS,
+      tuesday: OFFICE_HOURS,
+      wednesday: OFFICE_HOURS,
+      thursday: OFFICE_HOURS,
+      friday: OFFICE_HOURS,
+      saturday: CLOSED_DAY,
+      sunday: CLOSED_DAY,
+    },
+    holidays: [],
+    exceptions: [],
+    updatedAt: new Date(0).toISOString(),
+  };
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ZonedTime {
+  /** `YYYY-MM-DD` */
+  date: string;
+  /** `HH:MM` */
+  time: string;
+}
+
+/** The calendar date and time of day of `at` in `timezone` */
+export function getZonedTime(at: Date, timezone: string): ZonedTime {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(at).map(part => [part.type, part.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+// Calendar arithmetic on `YYYY-MM-DD` strings; done in UTC so daylight saving never shifts the day
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+export function getWeekday(date: string): Weekday {
+  return WEEKDAYS[(new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7];
+}
+
+interface DateHours {
+  hours: DayHours;
+  holiday?: BusinessHoliday;
+  exception?: BusinessHoursException;
+}
+
+/** The hours that apply on a date, and the holiday or exception that set them */
+export function getHoursForDate(schedule: BusinessHours, date: string): DateHours {
+  const holiday = schedule.holidays.find(entry => entry.date === date);
+  if (holiday) return { hours: CLOSED_DAY, holiday };
+  const exception = schedule.exceptions.find(entry => entry.date === date);
+  if (exception) return { hours: exception, exception };
+  return { hours: schedule.weekly[getWeekday(date)] };
+}
+
+function findNextOpening(schedule: BusinessHours, now: ZonedTime): BusinessHoursStatus['nextOpening'] {
+  for (let offset = 0; offset <= NEXT_OPENING_LOOKAHEAD_DAYS; offset++) {
+    const date = addDays(now.date, offset);
+    const { hours } = getHoursForDate(schedule, date);
+    // Today only counts if it has not opened yet
+    if (hours.isOpen && (offset > 0 || now.time < hours.start)) return { date, time: hours.start };
+  }
+  return undefined;
+}
+
+/** Whether support is open at `at`; always open while the schedule is switched off */
+export function getBusinessHoursStatus(schedule: BusinessHours, at: Date = new Date()): BusinessHoursStatus {
+  const { timezone } = schedule;
+  if (!schedule.enabled) {
+    return { isOpen: true, reason: 'No business hours set', timezone };
+  }
+
+  const now = getZonedTime(at, timezone);
+  const { hours, holiday, exception } = getHoursForDate(schedule, now.date);
+  if (hours.isOpen && hours.start <= now.time && now.time < hours.end) {
+    return { isOpen: true, reason: exception ? `Special hours for ${exception.name}` : 'Within opening hours', timezone };
+  }
+
+  const closedFor = holiday?.name ?? (exception && !exception.isOpen ? exception.name : undefined);
+  return {
+    isOpen: false,
+    reason: closedFor ? `Closed for ${closedFor}` : 'Outside opening hours',
+    timezone,
+    nextOpening: findNextOpening(schedule, now),
+  };
+}
+
+/** "today at 09:00", "tomorrow at 09:00", "on Monday at 09:00" or "on 2026-12-28 at 09:00", seen from `at` */
+export function describeNextOpening(status: BusinessHoursStatus, at: Date = new Date()): string | undefined {
+  if (!status.nextOpening) return undefined;
+  const { date, time } = status.nextOpening;
+  const today = getZonedTime(at, status.timezone).date;
+  if (date === today) return `today at ${time}`;
+  if (date === addDays(today, 1)) return `tomorrow at ${time}`;
+  if (date < addDays(today, 7)) return `on ${WEEKDAY_LABELS[getWeekday(date)]} at ${time}`;
+  return `on ${date} at ${time}`;
+}
@@ -0,0 +1,102 @@
+/**
+ * Chat lifecycle
+ * Defines the statuses a chat moves through and which transitions are
+ * allowed. Shared by the UI, which only offers valid actions, and the mock
+ * backend, which rejects anything else.
+ *
+ *   queued → active ⇄ on-hold → resolved → closed → archived
+ *   queued → missed, and any open chat can be closed directly
+ */
+
+import type { Permission } from './permissions';
+import type { ChatStatus, ChatStatusChange } from '@/types';
+
+export const CHAT_STATUSES: ChatStatus[] = [
+  'queued',
+  'active',
+  'on-hold',
+  'resolved',
+  'closed',
+  'missed',
+  'archived',
+];
+
+export const CHAT_TRANSITIONS: Record<ChatStatus, ChatStatus[]> = {
+  queued: ['active', 'missed', 'closed'],
+  active: ['on-hold', 'resolved', 'closed'],
+  'on-hold': ['active', 'resolved', 'closed'],
+  resolved: ['active', 'closed', 'archived'],
+  closed: ['active', 'archived'],
+  missed: ['active', 'closed', 'archived'],
+  archived: [],
+};
+
+/** Transitions that need more than `chats:view` */
+export const TRANSITION_PERMISSIONS: Partial<Record<ChatStatus, Permission>> = {
+  archived: 'chats:archive',
+};
+
+export const CHAT_STATUS_LABELS: Record<ChatStatus, string> = {
+  queued: 'Queued',
+  active: 'Active',
+  'on-hold': 'On hold',
+  resolved: 'Resolved',
+  closed: 'Closed',
+  missed: 'Missed',
+  archived: 'Archived',
+};
+
+/** Statuses in which agents can still reply to the customer */
+export const OPEN_CHAT_STATUSES: ReadonlySet<ChatStatus> = new Set(['queued', 'active', 'on-hold']);
+
+export class InvalidTransitionError extends Error {
+  constructor(public from: ChatStatus, public to: ChatStatus) {
+    super(`A ${CHAT_STATUS_LABELS[from].toLowerCase()} chat cannot become ${CHAT_STATUS_LABELS[to].toLowerCase()}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export function canTransition(from: ChatStatus, to: ChatStatus): boolean {
+  return CHAT_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function assertTransition(from: ChatStatus, to: ChatStatus): void {
+  if (!canTransition(from, to)) throw new InvalidTransitionError(from, to);
+}
+
+/** Label for the action that moves a chat from one status to another */
+export function getTransitionLabel(from: ChatStatus, to: ChatStatus): string {
+  switch (to) {
+    case 'active':
+      if (from === 'queued') return 'Accept';
+      if (from === 'on-hold') return 'Resume';
+      return 'Reopen';
+    case 'on-hold':
+      return 'Put on hold';
+    case 'resolved':
+      return 'Resolve';
+    case 'closed':
+      return from === 'queued' ? 'Cancel' : 'Close';
+    case 'missed':
+      return 'Mark as missed';
+    case 'archived':
+      return 'Archive';
+    default:
+      return CHAT_STATUS_LABELS[to];
+  }
+}
+
+export function createStatusChange(
+  from: ChatStatus | null,
+  to: ChatStatus,
+  changedBy?: string,
+  reason?: string
+): ChatStatusChange {
+  return {
+    from,
+    to,
+    changedAt: new Date().toISOString(),
+    ...(changedBy && { changedBy }),
+    ...(reason && { reason }),
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Chat routing engine
+ * Picks an agent for a queued chat. Strategies only rank the agents that
+ * are available — online (or away, when allowed) and below their open chat
+ * limit — so every strategy honours the same capacity rules.
+ */
+
+import { OPEN_CHAT_STATUSES } from './chat-lifecycle';
+import { isEngagementChat } from './engagements';
+import type { Chat, Engagement, RoutingDecision, RoutingSettings, RoutingStrategy, User } from '@/types';
+
+export const ROUTING_STRATEGIES: RoutingStrategy[] = ['round-robin', 'least-busy', 'skills-based', 'sticky'];
+
+/** Made-up chats a routing simulation may add to the queued ones */
+export const MAX_SIMULATED_CHATS = 50;
+
+export const ROUTING_STRATEGY_LABELS: Record<RoutingStrategy, string> = {
+  'round-robin': 'Round robin',
+  'least-busy': 'Least busy',
+  'skills-based': 'Skills based',
+  sticky: 'Sticky (previous agent)',
+};
+
+export const ROUTING_STRATEGY_DESCRIPTIONS: Record<RoutingStrategy, string> = {
+  'round-robin': 'Agents take turns in a fixed order.',
+  'least-busy': 'The agent with the fewest open chats gets the next one.',
+  'skills-based': "Only agents with every skill the chat needs are considered; ties go to the least busy.",
+  sticky: 'Returning customers go back to an agent they talked to before, otherwise the least busy agent.',
+};
+
+export function createDefaultRoutingSettings(organizationId: string): RoutingSettings {
+  return {
+    id: organizationId,
+    organizationId,
+    enabled: false,
+    strategy: 'least-busy',
+    defaultMaxConcurrentChats: 5,
+    allowAwayAgents: false,
+    deferOutOfHours: true,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export interface AgentLoad {
+  agent: User;
+  openChats: number;
+  capacity: number;
+}
+
+export interface RoutingContext {
+  /** Members of the organization */
+  agents: User[];
+  /** Chats of the organization, used to work out each agent's load */
+  chats: Chat[];
+  engagements: Engagement[];
+  settings: RoutingSettings;
+}
+
+interface Candidate {
+  load: AgentLoad;
+  reason: string;
+}
+
+type StrategyFn = (chat: Chat, available: AgentLoad[], context: RoutingContext) => Candidate | undefined;
+
+const byLoad = (a: AgentLoad, b: AgentLoad) =>
+  a.openChats / a.capacity - b.openChats / b.capacity || a.agent.id.localeCompare(b.agent.id);
+
+const describeLoad = ({ openChats, capacity }: AgentLoad) => `${openChats}/${capacity} open chats`;
+
+function leastBusy(available: AgentLoad[]): Candidate | undefined {
+  const [load] = [...available].sort(byLoad);
+  return load && { load, reason: `least busy (${describeLoad(load)})` };
+}
+
+const strategies: Record<RoutingStrategy, StrategyFn> = {
+  'round-robin': (_chat, available, { settings }) => {
+    const ordered = [...available].sort((a, b) => a.agent.id.localeCompare(b.agent.id));
+    const load = ordered.find(entry => entry.agent.id > (settings.lastAssignedAgentId ?? '')) ?? ordered[0];
+    return load && { load, reason: 'next in rotation' };
+  },
+
+  'least-busy': (_chat, available) => leastBusy(available),
+
+  'skills-based': (chat, available) => {
+    const required = chat.requiredSkills ?? [];
+    if (required.length === 0) return leastBusy(available);
+    const qualified = available.filter(({ agent }) => required.every(skill => agent.skills?.includes(skill)));
+    const match = leastBusy(qualified);
+    return match && { ...match, reason: `has ${required.join(', ')}; ${match.reason}` };
+  },
+
+  sticky: (chat, available, { engagements }) => {
+    const history = engagements.find(engagement => isEngagementChat(chat, engagement));
+    // agentsInvolved is oldest first, so prefer whoever spoke to the customer last
+    const previous = [...(history?.agentsInvolved ?? [])].reverse();
+    for (const agentId of previous) {
+      const load = available.find(entry => entry.agent.id === agentId);
+      if (load) return { load, reason: 'handled this customer before' };
+    }
+    const fallback = leastBusy(available);
+    return fallback && { ...fallback, reason: `no previous agent available; ${fallback.reason}` };
+  },
+};
+
+export function getAgentLoads({ agents, chats, settings }: RoutingContext): AgentLoad[] {
+  return agents.map(agent => ({
+    agent,
+    openChats: chats.filter(chat => chat.assignedAgentId === agent.id && OPEN_CHAT_STATUSES.has(chat.status)).length,
+    capacity: agent.maxConcurrentChats ?? settings.defaultMaxConcurrentChats,
+  }));
+}
+
+/** Agents that may receive a chat right now */
+export function getAvailableAgents(loads: AgentLoad[], settings: RoutingSettings): AgentLoad[] {
+  const hasCapacity = loads.filter(load => load.openChats < load.capacity);
+  const online = hasCapacity.filter(({ agent }) => agent.onlineStatus === 'online');
+  if (online.length > 0 || !settings.allowAwayAgents) return online;
+  return hasCapacity.filter(({ agent }) => agent.onlineStatus === 'away');
+}
+
+export function routeChat(chat: Chat, context: RoutingContext, strategy = context.settings.strategy): RoutingDecision {
+  const available = getAvailableAgents(getAgentLoads(context), context.settings);
+  const decision = { chatId: chat.id, requesterName: chat.requesterName, strategy };
+
+  if (available.length === 0) {
+    return { ...decision, agentId: null, reason: 'no agent is available with spare capacity' };
+  }
+  const candidate = strategies[strategy](chat, available, context);
+  if (!candidate) {
+    return { ...decision, agentId: null, reason: 'no available agent matches this chat' };
+  }
+  return { ...decision, agentId: candidate.load.agent.id, reason: candidate.reason };
+}
+
+/**
+ * Routes chats one after another, counting each assignment against the
+ * agent's capacity before the next chat is routed. Nothing is persisted.
+ */
+export function routeBatch(
+  queued: Chat[],
+  context: RoutingContext,
+  strategy = context.settings.strategy
+): { decisions: RoutingDecision[]; settings: RoutingSettings } {
+  let chats = context.chats;
+  let settings = context.settings;
+  const decisions = queued.map(chat => {
+    const decision = routeChat(chat, { ...context, chats, settings }, strategy);
+    if (decision.agentId) {
+      const routed = { ...chat, assignedAgentId: decision.agentId };
+      chats = chats.some(existing => existing.id === chat.id)
+        ? chats.map(existing => existing.id === chat.id ? routed : existing)
+        : [...chats, routed];
+      settings = { ...settings, lastAssignedAgentId: decision.agentId };
+    }
+    return decision;
+  });
+  return { decisions, settings };
+}
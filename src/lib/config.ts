@@ -20,6 +20,10 @@ export interface AppConfig {
     enableMultiTenant: boolean;
     enableRealTimeUpdates: boolean;
   };
+  realtime: {
+    /** Base URL of the server-sent events endpoint */
+    url: string;
+  };
   ui: {
     defaultPageSize: number;
     maxFileUploadSize: number;
@@ -28,6 +32,8 @@ export interface AppConfig {
   mock: {
     enabled: boolean;
     // Note: apiDelay removed for static mocks (no artificial delay needed)
+    /** Password the mock backend accepts for every seeded user */
+    demoPassword: string;
   };
 }
 
@@ -48,6 +54,9 @@ const config: AppConfig = {
     enableMultiTenant: import.meta.env.VITE_FEATURE_MULTITENANT === 'true',
     enableRealTimeUpdates: import.meta.env.VITE_FEATURE_REALTIME === 'true',
   },
+  realtime: {
+    url: import.meta.env.VITE_REALTIME_URL || 'http://localhost:4001',
+  },
   ui: {
     defaultPageSize: 10,
     maxFileUploadSize: 10 * 1024 * 1024, // 10MB
@@ -56,6 +65,7 @@ const config: AppConfig = {
   mock: {
     enabled: import.meta.env.MODE === 'development',
     // Static mocks don't need artificial delay
+    demoPassword: 'password',
   },
 };
 
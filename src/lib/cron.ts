@@ -0,0 +1,168 @@
+/**
+ * Cron expressions
+ * Parses the five-field format (minute hour day-of-month month day-of-week)
+ * with `*`, lists, ranges, steps and month/weekday names, plus the
+ * `@hourly`-style aliases, and finds the next time an expression fires.
+ * Times are evaluated in the browser's local timezone.
+ */
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+export const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Names accepted in place of numbers, starting at `min` */
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as Sunday and folded into 0
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES },
+];
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day fields were restricted; when both are, a day matching either fires */
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const named = spec.names?.indexOf(value.toUpperCase()) ?? -1;
+  const number = named >= 0 ? named + spec.min : /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!Number.isInteger(number) || number < spec.min || number > spec.max) {
+    throw new CronParseError(`"${value}" is not a valid ${spec.name} (${spec.min}-${spec.max})`);
+  }
+  return number;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronParseError(`"${part}" has an invalid step in the ${spec.name} field`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      [start, end] = [spec.min, spec.max];
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      [start, end] = [parseValue(from, spec), parseValue(to, spec)];
+      if (start > end) {
+        throw new CronParseError(`"${range}" is an empty range in the ${spec.name} field`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+/** Parses an expression or alias; throws CronParseError with the offending part */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const source = CRON_ALIASES[trimmed.toLowerCase()] ?? trimmed;
+  const fields = source.split(/\s+/).filter(Boolean);
+  if (fields.length !== 5) {
+    throw new CronParseError('Use five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // As in Vixie cron, a field starting with `*` (such as `*/2`) does not restrict the day
+    daysOfMonthRestricted: !fields[2].startsWith('*'),
+    daysOfWeekRestricted: !fields[4].startsWith('*'),
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+}
+
+// Long enough for a 29 February schedule to come round
+const SEARCH_LIMIT_YEARS = 5;
+
+/**
+ * First time strictly after `after` at which the expression fires, or null
+ * when it never does (e.g. 30 February).
+ */
+export function getNextCronRun(expression: string | CronSchedule, after: Date = new Date()): Date | null {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = new Date(date.getTime());
+  limit.setFullYear(limit.getFullYear() + SEARCH_LIMIT_YEARS);
+
+  // Skip whole months, days and hours that cannot match before stepping through minutes
+  while (date < limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
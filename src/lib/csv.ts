@@ -0,0 +1,86 @@
+/**
+ * CSV helpers
+ * Reads and writes RFC 4180 CSV: fields containing commas, quotes or line
+ * breaks are quoted, and quotes inside them are doubled. Text that a
+ * spreadsheet would run as a formula is written with a leading `'`.
+ */
+
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const ESCAPED_FORMULA = /^'(?=[=+\-@\t\r])/;
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  // Nested values keep their structure so an export can be read back
+  const raw = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Text such as a visitor's message is kept as text; numbers like -5 cannot carry a formula
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes rows with a header line. Columns default to every key found in
+ * the rows, in order of first appearance.
+ */
+export function toCsv(rows: Array<Record<string, unknown>>, columns?: string[]): string {
+  const header = columns ?? [...new Set(rows.flatMap(row => Object.keys(row)))];
+  const lines = [header, ...rows.map(row => header.map(column => row[column]))]
+    .map(cells => cells.map(formatCell).join(','));
+  return lines.join('\r\n');
+}
+
+/**
+ * Reads CSV into rows of cells. Accepts quoted fields with embedded commas,
+ * doubled quotes and line breaks, and either line ending; blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  // A byte order mark from spreadsheet exports would end up in the first header
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/** Parses CSV whose first row names the columns; the `'` written before formula-like text is dropped again */
+export function parseCsvRecords(text: string): Array<Record<string, string>> {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map(column => column.trim());
+  return rows.map(cells => Object.fromEntries(
+    columns.map((column, index) => [column, (cells[index] ?? '').replace(ESCAPED_FORMULA, '')])
+  ));
+}
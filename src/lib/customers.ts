@@ -0,0 +1,95 @@
+/**
+ * Customer identity
+ * Resolves the requester of a chat to a customer profile. A chat belongs to
+ * every customer that shares its email address or phone number, so one that
+ * matches two profiles proves they are the same person and they are merged.
+ */
+
+import { OPEN_CHAT_STATUSES } from './chat-lifecycle';
+import { normalizeEmail, normalizePhone } from './engagements';
+import type { Chat, Customer } from '@/types';
+
+type ChatIdentity = Pick<Chat, 'requesterName' | 'requesterEmail' | 'requesterPhone'>;
+
+export function matchesCustomer(customer: Customer, chat: ChatIdentity): boolean {
+  const email = normalizeEmail(chat.requesterEmail);
+  const phone = normalizePhone(chat.requesterPhone);
+  return (!!email && customer.emails.some(known => normalizeEmail(known) === email))
+    || (!!phone && customer.phones.some(known => normalizePhone(known) === phone));
+}
+
+/** Matching customers, oldest first so the longest-known profile survives a merge */
+export function findMatchingCustomers(customers: Customer[], chat: ChatIdentity): Customer[] {
+  return customers
+    .filter(customer => matchesCustomer(customer, chat))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Adds the chat's email and phone to the customer when they are new */
+export function withChatIdentity(customer: Customer, chat: ChatIdentity): Customer {
+  const email = normalizeEmail(chat.requesterEmail);
+  const phone = normalizePhone(chat.requesterPhone);
+  const hasEmail = !email || customer.emails.some(known => normalizeEmail(known) === email);
+  const hasPhone = !phone || customer.phones.some(known => normalizePhone(known) === phone);
+  if (hasEmail && hasPhone) return customer;
+  return {
+    ...customer,
+    emails: hasEmail ? customer.emails : [...customer.emails, email],
+    phones: hasPhone ? customer.phones : [...customer.phones, chat.requesterPhone.trim()],
+  };
+}
+
+export function customerFromChat(
+  chat: ChatIdentity & Pick<Chat, 'organizationId'>
+): Omit<Customer, 'id' | 'createdAt' | 'updatedAt'> {
+  return withChatIdentity({
+    id: '',
+    organizationId: chat.organizationId,
+    name: chat.requesterName,
+    emails: [],
+    phones: [],
+    attributes: {},
+    tags: [],
+    notes: [],
+    createdAt: '',
+    updatedAt: '',
+  }, chat);
+}
+
+const union = (a: string[], b: string[]) => [...new Set([...a, ...b])];
+
+/**
+ * Folds `source` into `target`. Identities, tags and notes are combined; for
+ * attributes set on both, the target's value wins.
+ */
+export function mergeCustomers(target: Customer, source: Customer): Customer {
+  return {
+    ...target,
+    emails: union(target.emails, source.emails),
+    phones: union(target.phones, source.phones),
+    attributes: { ...source.attributes, ...target.attributes },
+    tags: union(target.tags, source.tags),
+    notes: [...target.notes, ...source.notes].sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    mergedCustomerIds: union(target.mergedCustomerIds ?? [], [source.id, ...(source.mergedCustomerIds ?? [])]),
+  };
+}
+
+export interface CustomerStats {
+  totalChats: number;
+  openChats: number;
+  firstSeenAt?: string;
+  lastSeenAt?: string;
+  /** Agents who handled any of the chats, most recent first */
+  agentIds: string[];
+}
+
+export function getCustomerStats(chats: Chat[]): CustomerStats {
+  const ordered = [...chats].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return {
+    totalChats: ordered.length,
+    openChats: ordered.filter(chat => OPEN_CHAT_STATUSES.has(chat.status)).length,
+    firstSeenAt: ordered[ordered.length - 1]?.createdAt,
+    lastSeenAt: ordered[0]?.lastUpdatedAt,
+    agentIds: [...new Set(ordered.flatMap(chat => chat.assignedAgentId ? [chat.assignedAgentId] : []))],
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Knowledge base ingestion
+ * Validates uploads against the configured limits, extracts their text and
+ * splits it into overlapping chunks the AI agent can retrieve.
+ */
+
+import config, { type AppConfig } from './config';
+import { DocumentParseError, parseDocx, parsePdf, parsePlainText, type DocumentParser } from './document-parsers';
+import type { DocumentIngestionStatus } from '@/types';
+
+export const INGESTION_STATUS_LABELS: Record<DocumentIngestionStatus, string> = {
+  queued: 'Queued',
+  parsing: 'Parsing',
+  indexed: 'Indexed',
+  failed: 'Failed',
+};
+
+/** Statuses that will still change without anyone acting on the document */
+export const PENDING_INGESTION_STATUSES = new Set<DocumentIngestionStatus>(['queued', 'parsing']);
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+};
+
+// Extensions we can read; other supported types are accepted but fail with a hint
+const DOCUMENT_PARSERS: Record<string, DocumentParser> = {
+  '.pdf': parsePdf,
+  '.docx': parseDocx,
+  '.txt': parsePlainText,
+  '.md': parsePlainText,
+};
+
+/** Lower-case extension including the dot, or an empty string */
+export function getFileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot).toLowerCase() : '';
+}
+
+/** The browser's type for the file, or one derived from its extension */
+export function getMimeType(file: Pick<File, 'name' | 'type'>): string {
+  return file.type || MIME_TYPES[getFileExtension(file.name)] || 'application/octet-stream';
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+}
+
+/** Returns why the file cannot be uploaded, or null when it is acceptable */
+export function validateUploadFile(
+  file: Pick<File, 'name' | 'size'>,
+  ui: AppConfig['ui'] = config.ui
+): string | null {
+  if (!ui.supportedFileTypes.includes(getFileExtension(file.name))) {
+    return `Unsupported file type. Allowed types: ${ui.supportedFileTypes.join(', ')}`;
+  }
+  if (file.size === 0) {
+    return 'The file is empty';
+  }
+  if (file.size > ui.maxFileUploadSize) {
+    return `The file is larger than ${formatFileSize(ui.maxFileUploadSize)}`;
+  }
+  return null;
+}
+
+export async function extractDocumentText(fileName: string, data: Uint8Array): Promise<string> {
+  const extension = getFileExtension(fileName);
+  const parser = DOCUMENT_PARSERS[extension];
+  if (!parser) {
+    throw new DocumentParseError(extension === '.doc'
+      ? 'Legacy Word (.doc) files cannot be read. Save the document as .docx and upload it again'
+      : `Text cannot be extracted from ${extension || 'files without an extension'}`);
+  }
+  const text = normalizeWhitespace(await parser(data));
+  if (!text) throw new DocumentParseError('The document contains no text');
+  return text;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Approximate number of model tokens in a text: about four characters each
+ * for English prose, and never fewer than the number of words.
+ */
+export function estimateTokenCount(text: string): number {
+  const words = text.match(/\S+/g)?.length ?? 0;
+  return Math.max(Math.ceil(text.length / 4), words);
+}
+
+export interface ChunkOptions {
+  /** Target chunk length in characters */
+  size: number;
+  /** Characters repeated from the end of the previous chunk */
+  overlap: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = { size: 1200, overlap: 200 };
+
+/** Breaks a passage that is too long on sentence ends, then on words, then anywhere */
+function splitPassage(passage: string, size: number): string[] {
+  if (passage.length <= size) return [passage];
+  for (const separator of [/(?<=[.!?])\s+/, /\s+/]) {
+    const parts = passage.split(separator);
+    if (parts.length > 1) return parts.flatMap(part => splitPassage(part, size));
+  }
+  return passage.match(new RegExp(`[\\s\\S]{1,${size}}`, 'g')) ?? [];
+}
+
+/**
+ * Packs paragraphs into chunks of about `size` characters. Each chunk after
+ * the first starts with the last `overlap` characters of the one before it,
+ * cut at a word boundary, so a sentence split between chunks stays findable.
+ */
+export function chunkText(text: string, { size, overlap }: ChunkOptions = DEFAULT_CHUNK_OPTIONS): string[] {
+  // Pieces of one paragraph are rejoined with a space, paragraphs with a blank line
+  const pieces = text
+    .split(/\n{2,}/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .flatMap(paragraph => splitPassage(paragraph, size)
+      .map((piece, index) => ({ piece, separator: index === 0 ? '\n\n' : ' ' })));
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const { piece, separator } of pieces) {
+    if (current && current.length + separator.length + piece.length > size) {
+      chunks.push(current);
+      const tail = overlap > 0 ? current.slice(-overlap) : '';
+      const boundary = tail.search(/\s/);
+      current = boundary >= 0 ? tail.slice(boundary + 1) : '';
+    }
+    current = current ? `${current}${separator}${piece}` : piece;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
@@ -0,0 +1,216 @@
+/**
+ * Text extraction for uploaded documents
+ * Small, dependency-free readers for the formats the knowledge base accepts.
+ * DOCX files are ZIP archives and PDF content streams are usually deflated;
+ * both are inflated with the platform's DecompressionStream.
+ */
+
+export class DocumentParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentParseError';
+  }
+}
+
+export type DocumentParser = (data: Uint8Array) => Promise<string>;
+
+async function inflate(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const decodeUtf8 = (data: Uint8Array) => new TextDecoder('utf-8').decode(data);
+
+// Byte-for-byte, so offsets in the string match offsets in the file
+const decodeLatin1 = (data: Uint8Array) => new TextDecoder('latin1').decode(data);
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return XML_ENTITIES[name] ?? entity;
+  });
+}
+
+// ZIP ----------------------------------------------------------------------
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/** Returns the uncompressed contents of one file in a ZIP archive, or null when it is missing */
+async function readZipEntry(data: Uint8Array, name: string): Promise<Uint8Array | null> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // The end-of-central-directory record sits within the last 64 KB (its comment is at most 65535 bytes)
+  let eocd = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) throw new DocumentParseError('The file is not a valid ZIP archive');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let index = 0; index < entryCount; index++) {
+    if (view.getUint32(offset, true) !== CENTRAL_ENTRY_SIGNATURE) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const entryName = decodeUtf8(data.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (entryName === name) {
+      if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+        throw new DocumentParseError('The ZIP archive is damaged');
+      }
+      const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const contents = data.subarray(start, start + compressedSize);
+      if (method === 0) return contents;
+      if (method === 8) return inflate(contents, 'deflate-raw');
+      throw new DocumentParseError(`Unsupported ZIP compression method ${method}`);
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
+
+// DOCX ---------------------------------------------------------------------
+
+export const parseDocx: DocumentParser = async (data) => {
+  const xml = await readZipEntry(data, 'word/document.xml');
+  if (!xml) throw new DocumentParseError('The file is not a Word document (word/document.xml is missing)');
+
+  const paragraphs = decodeUtf8(xml).match(/<w:p[ >][\s\S]*?<\/w:p>/g) ?? [];
+  return paragraphs
+    .map(paragraph => [...paragraph.matchAll(/<w:t(?: [^>]*)?>([\s\S]*?)<\/w:t>|<w:(tab|br)(?: [^>]*)?\/>/g)]
+      .map(([, text, element]) => text ?? (element === 'tab' ? '\t' : '\n'))
+      .join(''))
+    .map(decodeXmlEntities)
+    .join('\n');
+};
+
+// PDF ----------------------------------------------------------------------
+
+const PDF_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+function decodePdfString(literal: string): string {
+  return literal
+    .slice(1, -1)
+    .replace(/\\(\r\n|\n|\r)/g, '')
+    .replace(/\\([0-7]{1,3}|[\s\S])/g, (_match, escape: string) => {
+      if (/^[0-7]+$/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+      return PDF_ESCAPES[escape] ?? escape;
+    });
+}
+
+function decodePdfHexString(literal: string): string {
+  const hex = literal.slice(1, -1).replace(/\s/g, '');
+  let text = '';
+  for (let index = 0; index < hex.length; index += 2) {
+    text += String.fromCharCode(parseInt(hex.slice(index, index + 2).padEnd(2, '0'), 16));
+  }
+  return text;
+}
+
+// Strings, array brackets, numbers, names and operators of a content stream
+const PDF_TOKEN = /\((?:\\[\s\S]|[^\\)])*\)|<[0-9A-Fa-f\s]*>|\[|\]|[-+]?(?:\d+\.?\d*|\.\d+)|\/[^\s/[\]()<>{}%]+|[A-Za-z'"*]+/g;
+
+// In a TJ array, a gap wider than this (thousandths of an em) is a word break
+const TJ_SPACE_THRESHOLD = -200;
+
+/** Text shown by the text operators (Tj, TJ, ' and ") of one content stream */
+function extractContentText(content: string): string {
+  let text = '';
+  let operands: Array<string | number> = [];
+  let array: Array<string | number> | null = null;
+
+  const newLine = () => {
+    if (text && !text.endsWith('\n')) text += '\n';
+  };
+
+  for (const [token] of content.matchAll(PDF_TOKEN)) {
+    if (token.startsWith('(')) (array ?? operands).push(decodePdfString(token));
+    else if (token.startsWith('<')) (array ?? operands).push(decodePdfHexString(token));
+    else if (token === '[') array = [];
+    else if (token === ']') {
+      operands.push(array ? array.map(part => typeof part === 'string' ? part : part < TJ_SPACE_THRESHOLD ? ' ' : '').join('') : '');
+      array = null;
+    } else if (/^[-+.\d]/.test(token)) (array ?? operands).push(Number(token));
+    else if (token.startsWith('/')) continue; // font and resource names never hold text
+    else {
+      const strings = operands.filter((operand): operand is string => typeof operand === 'string');
+      switch (token) {
+        case 'Tj':
+        case 'TJ':
+          text += strings.join('');
+          break;
+        case "'":
+        case '"':
+          newLine();
+          text += strings.join('');
+          break;
+        case 'Td':
+        case 'TD':
+          if (operands[1] !== 0) newLine();
+          break;
+        case 'T*':
+        case 'ET':
+          newLine();
+          break;
+      }
+      operands = [];
+    }
+  }
+  return text;
+}
+
+export const parsePdf: DocumentParser = async (data) => {
+  const source = decodeLatin1(data);
+  if (!source.startsWith('%PDF-')) throw new DocumentParseError('The file is not a PDF');
+  if (/\/Encrypt\b/.test(source)) throw new DocumentParseError('Encrypted PDFs are not supported');
+
+  const texts: string[] = [];
+  for (const match of source.matchAll(/\bstream\r?\n/g)) {
+    const start = match.index! + match[0].length;
+    const dictionary = source.slice(source.lastIndexOf(' obj', match.index), match.index);
+    // Prefer a direct /Length; an indirect one ("/Length 12 0 R") would need the xref table
+    const length = /\/Length\s+(\d+)(?!\s+\d+\s+R)/.exec(dictionary);
+    const end = length
+      ? start + Number(length[1])
+      : source.slice(0, source.indexOf('endstream', start)).trimEnd().length;
+    if (end < start) break;
+    // Images, fonts and other binary streams never hold page text
+    if (/\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType)|\/Length1|\/DCTDecode|\/JPXDecode/.test(dictionary)) continue;
+
+    let bytes = data.subarray(start, end);
+    try {
+      if (/\/FlateDecode/.test(dictionary)) bytes = await inflate(bytes, 'deflate');
+      else if (/\/Filter/.test(dictionary)) continue;
+    } catch {
+      continue;
+    }
+    const content = decodeLatin1(bytes);
+    if (!/\bBT\b/.test(content)) continue;
+    texts.push(extractContentText(content));
+  }
+
+  const text = texts.join('\n').trim();
+  if (!text) {
+    throw new DocumentParseError('No text could be found. Scanned PDFs need OCR, which is not supported yet');
+  }
+  return text;
+};
+
+// Plain text -----------------------------------------------------------------
+
+export const parsePlainText: DocumentParser = async (data) => decodeUtf8(data).replace(/^\uFEFF/, '');
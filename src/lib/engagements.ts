@@ -0,0 +1,30 @@
+/**
+ * Engagement matching
+ * An engagement groups every chat a customer has had with an organization.
+ * Chats carry no customer id, so they are matched on the requester's email
+ * or phone number.
+ */
+
+import type { Chat, Engagement } from '@/types';
+
+export const normalizeEmail = (email: string | undefined) => email?.trim().toLowerCase() ?? '';
+
+/** Digits only, so "+1-555-0123" and "1 (555) 0123" compare equal */
+export const normalizePhone = (phone: string | undefined) => phone?.replace(/\D/g, '') ?? '';
+
+export function isEngagementChat(
+  chat: Pick<Chat, 'requesterEmail' | 'requesterPhone'>,
+  engagement: Pick<Engagement, 'customerEmail' | 'contactNumber'>
+): boolean {
+  const email = normalizeEmail(engagement.customerEmail);
+  const phone = normalizePhone(engagement.contactNumber);
+  return (!!email && normalizeEmail(chat.requesterEmail) === email)
+    || (!!phone && normalizePhone(chat.requesterPhone) === phone);
+}
+
+/** The customer's chats in the order they happened */
+export function getEngagementChats(chats: Chat[], engagement: Engagement): Chat[] {
+  return chats
+    .filter(chat => chat.organizationId === engagement.organizationId && isEngagementChat(chat, engagement))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
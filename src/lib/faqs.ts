@@ -0,0 +1,86 @@
+/**
+ * FAQ import and export
+ * CSV and JSON files use the same columns, so an export can be edited in a
+ * spreadsheet and imported again, and help-center exports only need their
+ * headers renamed.
+ */
+
+import { parseCsvRecords, toCsv } from './csv';
+import { faqSchema, type FAQInput } from './validations';
+import type { FAQ } from '@/types';
+
+export const FAQ_TRANSFER_COLUMNS = ['question', 'answer', 'category', 'tags', 'status'] as const;
+
+// Tags share one CSV cell
+const TAG_SEPARATOR = ';';
+
+export type FAQFileFormat = 'csv' | 'json';
+
+/** FAQs sorted the way they are shown: by category, then by their position in it */
+export function sortFAQs<T extends Pick<FAQ, 'category' | 'order'>>(faqs: T[]): T[] {
+  return [...faqs].sort((a, b) => a.category.localeCompare(b.category) || a.order - b.order);
+}
+
+export function serializeFAQs(faqs: FAQ[], format: FAQFileFormat): string {
+  const rows = sortFAQs(faqs).map(faq => ({
+    question: faq.question,
+    answer: faq.answer,
+    category: faq.category,
+    tags: format === 'csv' ? faq.tags.join(`${TAG_SEPARATOR} `) : faq.tags,
+    status: faq.status,
+  }));
+  return format === 'csv' ? toCsv(rows, [...FAQ_TRANSFER_COLUMNS]) : JSON.stringify(rows, null, 2);
+}
+
+export interface FAQImportResult {
+  faqs: FAQInput[];
+  /** One message per rejected row, with its row number in the file */
+  errors: string[];
+}
+
+function readRows(text: string, format: FAQFileFormat): Array<Record<string, unknown>> {
+  if (format === 'csv') return parseCsvRecords(text);
+
+  const parsed: unknown = JSON.parse(text);
+  // Besides a plain array, accept this API's `{ data }` envelope and `{ faqs }` exports
+  const envelope = parsed as { data?: unknown; faqs?: unknown } | null;
+  const rows = Array.isArray(parsed) ? parsed : envelope?.data ?? envelope?.faqs;
+  if (!Array.isArray(rows)) {
+    throw new Error('The JSON file must contain an array of FAQs');
+  }
+  return rows as Array<Record<string, unknown>>;
+}
+
+/**
+ * Reads FAQs from an uploaded file. Rows that fail validation are reported
+ * instead of aborting the import; rows without a status become drafts.
+ */
+export function parseFAQFile(text: string, format: FAQFileFormat): FAQImportResult {
+  const result: FAQImportResult = { faqs: [], errors: [] };
+  // CSV row numbers count the header line, as a spreadsheet shows them
+  const firstRow = format === 'csv' ? 2 : 1;
+
+  readRows(text, format).forEach((row, index) => {
+    const tags = typeof row.tags === 'string'
+      ? row.tags.split(TAG_SEPARATOR).map(tag => tag.trim()).filter(Boolean)
+      : row.tags;
+    const parsed = faqSchema.safeParse({
+      ...row,
+      tags,
+      status: typeof row.status === 'string' ? row.status.trim().toLowerCase() || undefined : row.status,
+    });
+    if (parsed.success) {
+      result.faqs.push(parsed.data);
+    } else {
+      const issue = parsed.error.issues[0];
+      result.errors.push(`Row ${index + firstRow}: ${issue.path.length ? `${issue.path[0]}: ` : ''}${issue.message}`);
+    }
+  });
+
+  return result;
+}
+
+export function getFAQFileFormat(fileName: string): FAQFileFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  return extension === 'csv' || extension === 'json' ? extension : null;
+}
@@ -0,0 +1,229 @@
+/**
+ * Knowledge base retrieval
+ * One BM25 index over every knowledge source: document chunks, published
+ * FAQs, resources and scraped pages. It runs offline and is rebuilt for each
+ * search, which is fast enough for the amount of content a tenant manages
+ * here. The passages it returns are the ones the assistant would be given.
+ */
+
+import { chunkText, estimateTokenCount } from './document-ingestion';
+import { stripMarkdown } from './markdown';
+import type { Document, DocumentChunk, FAQ, KnowledgeSearchResult, KnowledgeSourceType, Resource } from '@/types';
+
+export const KNOWLEDGE_SOURCE_TYPES: KnowledgeSourceType[] = ['document', 'faq', 'resource', 'scraped-page'];
+
+export const KNOWLEDGE_SOURCE_LABELS: Record<KnowledgeSourceType, string> = {
+  document: 'Document',
+  faq: 'FAQ',
+  resource: 'Resource',
+  'scraped-page': 'Web page',
+};
+
+export const DEFAULT_RESULT_LIMIT = 8;
+
+/** Roughly what is left for retrieved passages once instructions and the conversation are in the prompt */
+export const CONTEXT_TOKEN_BUDGET = 1500;
+
+// Standard BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Titles are short and on-topic, so their terms count as if they appeared this many times
+const TITLE_WEIGHT = 2;
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i',
+  'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'there',
+  'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+/** A searchable piece of a knowledge source */
+export interface KnowledgePassage {
+  /** Unique across sources, e.g. the chunk id */
+  id: string;
+  sourceType: KnowledgeSourceType;
+  sourceId: string;
+  title: string;
+  text: string;
+  /** Where the source can be opened; external for web pages */
+  url?: string;
+}
+
+// Light suffix stripping so "passwords" finds "password" and "resetting" finds "reset"
+function stem(token: string): string {
+  if (token.length <= 4) return token;
+  if (token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.endsWith('ing')) return token.slice(0, -3).replace(/(.)\1$/, '$1');
+  if (token.endsWith('ed')) return token.slice(0, -2).replace(/(.)\1$/, '$1');
+  if (token.endsWith('es') && /(ss|sh|ch|x)es$/.test(token)) return token.slice(0, -2);
+  if (token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    // Words in any script; other combining marks, such as Devanagari vowel signs, stay part of their word
+    .split(/[^\p{L}\p{N}\p{M}]+/u)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+interface IndexedPassage {
+  passage: KnowledgePassage;
+  termCounts: Map<string, number>;
+  length: number;
+}
+
+export interface KnowledgeIndex {
+  passages: IndexedPassage[];
+  /** Number of passages containing each term */
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+export function buildKnowledgeIndex(passages: KnowledgePassage[]): KnowledgeIndex {
+  const documentFrequency = new Map<string, number>();
+  const indexed = passages.map(passage => {
+    const termCounts = new Map<string, number>();
+    const count = (tokens: string[], weight: number) => tokens.forEach(token => {
+      termCounts.set(token, (termCounts.get(token) ?? 0) + weight);
+    });
+    count(tokenize(passage.title), TITLE_WEIGHT);
+    count(tokenize(passage.text), 1);
+    termCounts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+    const length = [...termCounts.values()].reduce((sum, value) => sum + value, 0);
+    return { passage, termCounts, length };
+  });
+  const totalLength = indexed.reduce((sum, entry) => sum + entry.length, 0);
+
+  return {
+    passages: indexed,
+    documentFrequency,
+    averageLength: indexed.length > 0 ? totalLength / indexed.length : 0,
+  };
+}
+
+export interface KnowledgeSearchOptions {
+  limit?: number;
+  /** Only search these sources; all of them when absent or empty */
+  sourceTypes?: KnowledgeSourceType[];
+}
+
+/** Ranks passages against the query, best first; passages sharing no term with it are left out */
+export function searchKnowledge(index: KnowledgeIndex, query: string, options: KnowledgeSearchOptions = {}): KnowledgeSearchResult[] {
+  const terms = [...new Set(tokenize(query))];
+  const total = index.passages.length;
+  const sourceTypes = options.sourceTypes?.length ? new Set(options.sourceTypes) : null;
+
+  return index.passages
+    .filter(({ passage }) => !sourceTypes || sourceTypes.has(passage.sourceType))
+    .map(({ passage, termCounts, length }) => {
+      const matchedTerms: string[] = [];
+      const score = terms.reduce((sum, term) => {
+        const frequency = termCounts.get(term) ?? 0;
+        if (frequency === 0) return sum;
+        matchedTerms.push(term);
+        const containing = index.documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (total - containing + 0.5) / (containing + 0.5));
+        const normalizedLength = index.averageLength > 0 ? length / index.averageLength : 1;
+        return sum + idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * normalizedLength));
+      }, 0);
+      return { passage, score, matchedTerms };
+    })
+    .filter(({ matchedTerms }) => matchedTerms.length > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? DEFAULT_RESULT_LIMIT)
+    .map(({ passage, score, matchedTerms }) => ({
+      id: passage.id,
+      sourceType: passage.sourceType,
+      sourceId: passage.sourceId,
+      title: passage.title,
+      url: passage.url,
+      snippet: passage.text,
+      score: Math.round(score * 1000) / 1000,
+      matchedTerms,
+      tokenCount: estimateTokenCount(passage.text),
+    }));
+}
+
+/**
+ * The retrieved passages as the model would receive them: numbered so an
+ * answer can cite them, best first, and stopping before the token budget runs out.
+ */
+export function buildModelContext(results: KnowledgeSearchResult[], budget = CONTEXT_TOKEN_BUDGET): { context: string; usedResultIds: string[] } {
+  const sections: string[] = [];
+  const usedResultIds: string[] = [];
+  let tokens = 0;
+
+  for (const result of results) {
+    const section = `[${sections.length + 1}] ${KNOWLEDGE_SOURCE_LABELS[result.sourceType]}: ${result.title}\n${result.snippet}`;
+    const sectionTokens = estimateTokenCount(section);
+    if (tokens + sectionTokens > budget) break;
+    sections.push(section);
+    usedResultIds.push(result.id);
+    tokens += sectionTokens;
+  }
+
+  return { context: sections.join('\n\n'), usedResultIds };
+}
+
+export function documentPassages(document: Document, chunks: DocumentChunk[]): KnowledgePassage[] {
+  return chunks
+    .filter(chunk => chunk.documentId === document.id)
+    .sort((a, b) => a.index - b.index)
+    .map(chunk => ({
+      id: chunk.id,
+      sourceType: 'document',
+      sourceId: document.id,
+      title: document.title,
+      text: chunk.text,
+      url: `/content/documents?document=${document.id}`,
+    }));
+}
+
+export function faqPassage(faq: FAQ): KnowledgePassage {
+  return {
+    id: faq.id,
+    sourceType: 'faq',
+    sourceId: faq.id,
+    title: faq.question,
+    text: `Q: ${faq.question}\nA: ${stripMarkdown(faq.answer)}`,
+    url: `/content/faqs?faq=${faq.id}`,
+  };
+}
+
+/**
+ * Resource files and links are not fetched, so a resource is searched by its title, tags and AI
+ * instructions, plus a video's transcript or a template's text, split like documents.
+ */
+export function resourcePassages(resource: Resource): KnowledgePassage[] {
+  const text = [
+    resource.aiInstructions,
+    resource.tags.length ? `Tags: ${resource.tags.join(', ')}` : '',
+    resource.transcript ?? '',
+    resource.templateBody ?? '',
+  ].filter(Boolean).join('\n\n');
+
+  return chunkText(text || resource.title).map((chunk, index) => ({
+    id: `${resource.id}_${index}`,
+    sourceType: 'resource',
+    sourceId: resource.id,
+    title: resource.title,
+    text: chunk,
+    url: `/content/resources?resource=${resource.id}`,
+  }));
+}
+
+export function scrapedPagePassages(page: { id: string; url: string; title: string; text: string }): KnowledgePassage[] {
+  return chunkText(page.text).map((text, index) => ({
+    id: `${page.id}_${index}`,
+    sourceType: 'scraped-page',
+    sourceId: page.id,
+    title: page.title,
+    text,
+    url: page.url,
+  }));
+}
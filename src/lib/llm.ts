@@ -0,0 +1,276 @@
+/**
+ * Language model providers
+ * Features that need a model (reply suggestions, later summaries) go through
+ * `LLMProvider`, so a hosted model can be plugged in without touching them.
+ * Each organization picks a provider and model in its `LLMSettings`.
+ *
+ * Two providers run offline. `local` is a deterministic stand-in: it answers
+ * with the sentences of the numbered knowledge passages in the prompt that are
+ * closest to the last user message, and cites them as `[n]`. `mock` gives the
+ * same answers but behaves like a hosted API (it needs an API key and has a
+ * model that is always down) so the settings flow can be tried without network.
+ */
+
+import { estimateTokenCount } from './document-ingestion';
+import { tokenize } from './knowledge-search';
+import type { LLMProviderId, LLMSettings } from '@/types';
+
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  /** The provider's default model when absent */
+  model?: string;
+  /** Alternative completions to return; providers may return fewer */
+  n?: number;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMCompletion {
+  provider: string;
+  model: string;
+  choices: string[];
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/** Where and as whom a hosted provider is called */
+export interface LLMConnection {
+  apiKey?: string;
+  /** Base URL; the provider's default endpoint when absent */
+  endpoint?: string;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  /** Models offered in the settings; the first is the default */
+  models: string[];
+  requiresApiKey: boolean;
+  defaultEndpoint?: string;
+  complete(request: LLMCompletionRequest, connection?: LLMConnection): Promise<LLMCompletion>;
+}
+
+export class LLMProviderError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+export const DEFAULT_LLM_PROVIDER: LLMProviderId = 'local';
+
+// Numbered passages as `buildModelContext()` writes them, "[1] FAQ: Title" and then the text, at the end of a system message
+const PASSAGE = /(?:^|\n)\[(\d+)\][^\n]*\n([\s\S]*?)(?=\n\n\[\d+\]|$)/g;
+
+/** Statements of a passage; questions are skipped so an FAQ is answered rather than repeated, and headings for being too short */
+function sentencesOf(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .map(line => line.replace(/^[QA]:\s*/, '').trim())
+    .flatMap(line => line.split(/(?<=[.!?])\s+/))
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.split(/\s+/).length >= 4 && !sentence.endsWith('?'));
+}
+
+function extractiveComplete(provider: LLMProviderId, model: string, { messages, n = 1, maxTokens }: LLMCompletionRequest): LLMCompletion {
+  const prompt = messages.map(message => message.content).join('\n\n');
+  const instructions = messages.filter(message => message.role === 'system').map(message => message.content);
+  const question = [...messages].reverse().find(message => message.role === 'user')?.content ?? '';
+  const questionTerms = new Set(tokenize(question));
+
+  const choices: string[] = [];
+  for (const [, number, text] of instructions.flatMap(content => [...content.matchAll(PASSAGE)])) {
+    if (choices.length >= n) break;
+    // The sentence sharing the most terms with the question; the earliest wins a tie
+    let best = { sentence: '', overlap: 0 };
+    for (const sentence of sentencesOf(text)) {
+      const overlap = new Set(tokenize(sentence).filter(term => questionTerms.has(term))).size;
+      if (overlap > best.overlap) best = { sentence, overlap };
+    }
+    if (best.overlap > 0) choices.push(`${best.sentence} [${number}]`);
+  }
+  if (choices.length === 0) {
+    choices.push('Could you share a few more details so I can look into this for you?');
+  }
+
+  const limited = maxTokens ? choices.map(choice => choice.slice(0, maxTokens * 4)) : choices;
+  return {
+    provider,
+    model,
+    choices: limited,
+    promptTokens: estimateTokenCount(prompt),
+    completionTokens: limited.reduce((sum, choice) => sum + estimateTokenCount(choice), 0),
+  };
+}
+
+const MOCK_KEY_PREFIX = 'mock-';
+const MOCK_UNAVAILABLE_MODEL = 'mock-unavailable';
+
+// The parts of the hosted APIs' responses that are read
+interface OpenAIChatResponse {
+  model?: string;
+  choices?: { message?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface AnthropicMessageResponse {
+  model?: string;
+  content?: { type: string; text?: string }[];
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+async function postJson<T>(url: string, headers: Record<string, string>, body: unknown): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new LLMProviderError(`Could not reach ${new URL(url).host}`);
+  }
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new LLMProviderError(data?.error?.message ?? `The provider answered ${response.status}`, response.status);
+  }
+  return data;
+}
+
+const providers = new Map<LLMProviderId, LLMProvider>([
+  ['local', {
+    id: 'local',
+    label: 'Local (offline)',
+    models: ['local-extractive'],
+    requiresApiKey: false,
+    complete: async (request) => extractiveComplete('local', request.model ?? 'local-extractive', request),
+  }],
+  ['mock', {
+    id: 'mock',
+    label: 'Mock hosted API (offline)',
+    models: ['mock-large', 'mock-small', MOCK_UNAVAILABLE_MODEL],
+    requiresApiKey: true,
+    defaultEndpoint: 'https://llm.mock.local/v1',
+    complete: async (request, connection) => {
+      if (!connection?.apiKey?.startsWith(MOCK_KEY_PREFIX)) {
+        throw new LLMProviderError(`Invalid API key; mock keys start with "${MOCK_KEY_PREFIX}"`, 401);
+      }
+      const model = request.model ?? 'mock-large';
+      if (model === MOCK_UNAVAILABLE_MODEL) {
+        throw new LLMProviderError(`The model ${model} is overloaded, try again later`, 503);
+      }
+      return extractiveComplete('mock', model, request);
+    },
+  }],
+  ['openai', {
+    id: 'openai',
+    label: 'OpenAI',
+    models: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1'],
+    requiresApiKey: true,
+    defaultEndpoint: 'https://api.openai.com/v1',
+    complete: async ({ messages, model = 'gpt-4o', n = 1, temperature, maxTokens }, connection) => {
+      const data = await postJson<OpenAIChatResponse>(
+        `${connection?.endpoint || 'https://api.openai.com/v1'}/chat/completions`,
+        { Authorization: `Bearer ${connection?.apiKey ?? ''}` },
+        { model, messages, n, temperature, max_tokens: maxTokens },
+      );
+      return {
+        provider: 'openai',
+        model: data.model ?? model,
+        choices: (data.choices ?? []).map(choice => choice.message?.content ?? ''),
+        promptTokens: data.usage?.prompt_tokens ?? 0,
+        completionTokens: data.usage?.completion_tokens ?? 0,
+      };
+    },
+  }],
+  ['anthropic', {
+    id: 'anthropic',
+    label: 'Anthropic',
+    models: ['claude-3-5-sonnet-latest', 'claude-3-5-haiku-latest'],
+    requiresApiKey: true,
+    defaultEndpoint: 'https://api.anthropic.com/v1',
+    // The Messages API returns one completion, so alternatives take one call each
+    complete: async ({ messages, model = 'claude-3-5-sonnet-latest', n = 1, temperature, maxTokens = 1024 }, connection) => {
+      const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+      const conversation = messages.filter(message => message.role !== 'system');
+      const responses = await Promise.all(Array.from({ length: n }, () => postJson<AnthropicMessageResponse>(
+        `${connection?.endpoint || 'https://api.anthropic.com/v1'}/messages`,
+        { 'x-api-key': connection?.apiKey ?? '', 'anthropic-version': '2023-06-01' },
+        { model, system, messages: conversation, temperature, max_tokens: maxTokens },
+      )));
+      return {
+        provider: 'anthropic',
+        model: responses[0]?.model ?? model,
+        choices: responses.map(data => (data.content ?? []).map(block => block.text ?? '').join('')),
+        promptTokens: responses.reduce((sum, data) => sum + (data.usage?.input_tokens ?? 0), 0),
+        completionTokens: responses.reduce((sum, data) => sum + (data.usage?.output_tokens ?? 0), 0),
+      };
+    },
+  }],
+]);
+
+export const LLM_PROVIDERS: LLMProvider[] = [...providers.values()];
+
+export function registerLLMProvider(provider: LLMProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function getLLMProvider(id: LLMProviderId = DEFAULT_LLM_PROVIDER): LLMProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new LLMProviderError(`Unknown language model provider: ${id}`);
+  }
+  return provider;
+}
+
+/** Settings of an organization that has not configured a model */
+export function createDefaultLLMSettings(orgId: string): LLMSettings {
+  return {
+    id: orgId,
+    organizationId: orgId,
+    provider: DEFAULT_LLM_PROVIDER,
+    model: 'local-extractive',
+    temperature: 0.3,
+    maxTokens: 400,
+    hasApiKey: false,
+    updatedAt: new Date(0).toISOString(),
+  };
+}
+
+/** Enough of a secret to recognize it, e.g. `sk-…9f2c` */
+export function maskSecret(secret: string): string {
+  return secret.length > 10 ? `${secret.slice(0, 3)}…${secret.slice(-4)}` : '••••';
+}
+
+/**
+ * Completes with the organization's model, and once more with its fallback
+ * model when the first call fails; the completion names the model that answered.
+ */
+export async function completeWithSettings(
+  settings: Pick<LLMSettings, 'provider' | 'model' | 'endpoint' | 'temperature' | 'maxTokens' | 'fallbackModel'>,
+  apiKey: string | undefined,
+  request: Omit<LLMCompletionRequest, 'model' | 'temperature' | 'maxTokens'>,
+): Promise<LLMCompletion & { usedFallback: boolean }> {
+  const provider = getLLMProvider(settings.provider);
+  const connection = { apiKey, endpoint: settings.endpoint };
+  const call = (model: string) => provider.complete({
+    ...request,
+    model,
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens,
+  }, connection);
+
+  try {
+    return { ...await call(settings.model), usedFallback: false };
+  } catch (error) {
+    if (!settings.fallbackModel) throw error;
+    return { ...await call(settings.fallbackModel), usedFallback: true };
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Markdown parsing
+ * Supports the subset FAQ answers need: headings, paragraphs, lists, quotes,
+ * fenced code, bold, italics, inline code and links. Output is a tree the
+ * `Markdown` component renders, so no HTML from the source reaches the page.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'emphasis'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; children: MarkdownInline[] }
+  | { type: 'code'; text: string };
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const FENCE = /^```/;
+
+// Links may only leave the page for the web or an email client
+const SAFE_LINK = /^(https?:|mailto:|\/|#)/i;
+
+// Earliest match wins; on a tie the first pattern listed does
+const INLINE_PATTERNS: Array<{ pattern: RegExp; build: (match: RegExpExecArray) => MarkdownInline }> = [
+  { pattern: /`([^`]+)`/, build: (match) => ({ type: 'code', text: match[1] }) },
+  {
+    pattern: /\[([^\]]+)\]\(([^)\s]+)\)/,
+    build: (match) => SAFE_LINK.test(match[2])
+      ? { type: 'link', href: match[2], children: parseInline(match[1]) }
+      : { type: 'text', text: match[1] },
+  },
+  { pattern: /\*\*(.+?)\*\*|__(.+?)__/, build: (match) => ({ type: 'strong', children: parseInline(match[1] ?? match[2]) }) },
+  { pattern: /\*(?!\s)(.+?)\*|\b_(?!\s)(.+?)_\b/, build: (match) => ({ type: 'emphasis', children: parseInline(match[1] ?? match[2]) }) },
+  { pattern: / {2,}\n|\\\n/, build: () => ({ type: 'break' }) },
+];
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    let earliest: { match: RegExpExecArray; build: (match: RegExpExecArray) => MarkdownInline } | undefined;
+    for (const { pattern, build } of INLINE_PATTERNS) {
+      const match = pattern.exec(rest);
+      if (match && (!earliest || match.index < earliest.match.index)) earliest = { match, build };
+    }
+    if (!earliest) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+    if (earliest.match.index > 0) nodes.push({ type: 'text', text: rest.slice(0, earliest.match.index) });
+    nodes.push(earliest.build(earliest.match));
+    rest = rest.slice(earliest.match.index + earliest.match[0].length);
+  }
+
+  return nodes;
+}
+
+/** Splits markdown into blocks; lines that continue a paragraph are joined with a space */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line.trim())) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !FENCE.test(lines[i].trim())) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2]) });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.test(line);
+    if (ordered || UNORDERED_ITEM.test(line)) {
+      flushParagraph();
+      const itemPattern = ordered ? ORDERED_ITEM : UNORDERED_ITEM;
+      const items: MarkdownInline[][] = [];
+      for (; i < lines.length; i++) {
+        const item = itemPattern.exec(lines[i]);
+        if (!item) break;
+        items.push(parseInline(item[1]));
+      }
+      i--;
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) quoted.push(QUOTE.exec(lines[i])![1]);
+      i--;
+      blocks.push({ type: 'quote', children: parseInline(quoted.join('\n')) });
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+function inlineText(nodes: MarkdownInline[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.text;
+      case 'break':
+        return ' ';
+      default:
+        return inlineText(node.children);
+    }
+  }).join('');
+}
+
+/** Plain text of a markdown source, for previews and search */
+export function stripMarkdown(source: string): string {
+  return parseMarkdown(source)
+    .map(block => {
+      switch (block.type) {
+        case 'code':
+          return block.text;
+        case 'list':
+          return block.items.map(inlineText).join(' ');
+        default:
+          return inlineText(block.children);
+      }
+    })
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
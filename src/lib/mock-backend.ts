@@ -0,0 +1,2930 @@
+/**
+ * In-browser mock backend
+ * Implements the REST routes used by the API client on top of IndexedDB,
+ * with create/update/delete semantics, pagination and filtering.
+ */
+
+import config from './config';
+import { mockDb, type MockRecord } from './mock-db';
+import { decodeAccessToken } from './auth-session';
+import { hasPermission, type Permission } from './permissions';
+import { realtimeClient } from './realtime-client';
+import { canTransition, createStatusChange, InvalidTransitionError, TRANSITION_PERMISSIONS } from './chat-lifecycle';
+import { createDefaultRoutingSettings, routeBatch, routeChat, type RoutingContext } from './chat-routing';
+import { createDefaultBusinessHours, getBusinessHoursStatus } from './business-hours';
+import { customerFromChat, findMatchingCustomers, mergeCustomers, withChatIdentity } from './customers';
+import { getEngagementChats } from './engagements';
+import { chunkText, estimateTokenCount, extractDocumentText, getFileExtension, getMimeType, PENDING_INGESTION_STATUSES, validateUploadFile } from './document-ingestion';
+import { crawlSite, diffCrawl, type PageContent, type PageFetcher } from './url-scraper';
+import {
+  ACTIVE_BACKGROUND_JOB_STATUSES,
+  DEFAULT_MAX_ATTEMPTS,
+  getExportFileName,
+  getNextRunAt,
+  getRetryDelay,
+  getScheduleExpression,
+} from './background-jobs';
+import { toCsv } from './csv';
+import { sortFAQs } from './faqs';
+import {
+  buildKnowledgeIndex,
+  buildModelContext,
+  documentPassages,
+  faqPassage,
+  resourcePassages,
+  scrapedPagePassages,
+  searchKnowledge,
+  type KnowledgePassage,
+} from './knowledge-search';
+import {
+  assignChatSchema,
+  backgroundJobRequestSchema,
+  businessHoursSchema,
+  chatTransitionSchema,
+  customerNoteSchema,
+  faqImportSchema,
+  faqReorderSchema,
+  faqSchema,
+  knowledgeSearchSchema,
+  llmSettingsSchema,
+  loginSchema,
+  recordBodySchema,
+  refreshTokenSchema,
+  replySuggestionRequestSchema,
+  resourceSchema,
+  resourceUsageSchema,
+  savedReplySchema,
+  routingSettingsSchema,
+  routingSimulationSchema,
+  scraperJobSchema,
+  sendMessageSchema,
+  suggestionFeedbackSchema,
+  inviteUserSchema,
+  updateUserSchema,
+  userOrganizationSchema,
+  widgetChatStartSchema,
+  widgetConfigSchema,
+  widgetMessageSchema,
+} from './validations';
+import { completeWithSettings, createDefaultLLMSettings, getLLMProvider, LLMProviderError, maskSecret } from './llm';
+import { buildAssistPrompt, buildAssistQuery, parseCitations } from './reply-assist';
+import {
+  buildPreChatAnswers,
+  createDefaultWidgetSettings,
+  diffWidgetConfigs,
+  findMissingWidgetFields,
+  findPreChatError,
+  getWidgetOrgId,
+  isWidgetChatOpen,
+  toPublicWidgetSettings,
+  VISITOR_TOKEN_HEADER,
+  WIDGET_USER_FIELD_LABELS,
+} from './widget';
+import { logger } from './logger';
+import type {
+  BackgroundJob,
+  BackgroundJobStatus,
+  BackgroundJobType,
+  BusinessHours,
+  Chat,
+  ChatStatus,
+  ChatStatusChange,
+  Customer,
+  CustomerNote,
+  Document,
+  DocumentChunk,
+  Engagement,
+  FAQ,
+  LLMConnectionTestResult,
+  LLMSettings,
+  Message,
+  RealtimeEvent,
+  ReplySuggestion,
+  Resource,
+  ResourceUsage,
+  RoutingSettings,
+  RoutingStrategy,
+  SavedReply,
+  ScraperJob,
+  ScraperRun,
+  User,
+  WidgetChatSession,
+  WidgetConfig,
+  WidgetConfigVersion,
+  WidgetMessage,
+  WidgetSettings,
+  WidgetTranscript,
+} from '@/types';
+
+type RouteParams = Record<string, string>;
+
+/** Identity resolved from the bearer token; absent on public routes */
+export interface MockAuth {
+  userId: string;
+  sessionId: string;
+  role: string;
+  /** Organization the user belongs to */
+  organizationId?: string;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  params: RouteParams;
+  query: URLSearchParams;
+  headers: Headers;
+  body: unknown;
+  auth?: MockAuth;
+}
+
+type RouteHandler = (request: MockRequest) => Promise<Response> | Response;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+  /** Public routes are served without a bearer token */
+  isPublic: boolean;
+  /** Permission the caller's role must hold */
+  permission?: Permission;
+}
+
+interface RouteOptions {
+  isPublic?: boolean;
+  permission?: Permission;
+}
+
+interface MockSession extends MockRecord {
+  userId: string;
+  refreshToken: string;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+}
+
+export class MockHttpError extends Error {
+  constructor(public status: number, message: string, public code?: string) {
+    super(message);
+    this.name = 'MockHttpError';
+  }
+}
+
+// Collections served by the generic CRUD routes, with the prefix used for new ids.
+// Messages are left out: they are only reachable through their chat, which scopes them to its organization.
+const COLLECTIONS: Record<string, string> = {
+  chats: 'chat',
+  users: 'user',
+  organizations: 'org',
+  engagements: 'eng',
+  customers: 'cus',
+  documents: 'doc',
+  faqs: 'faq',
+  'scraper-jobs': 'scraper',
+  domains: 'domain',
+  resources: 'resource',
+};
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// The mock issues unsigned tokens; the marker only tells them apart from arbitrary strings
+const MOCK_TOKEN_SIGNATURE = 'mock-signature';
+
+// Collections whose records belong to exactly one organization
+const TENANT_COLLECTIONS = new Set([
+  'chats',
+  'engagements',
+  'customers',
+  'documents',
+  'faqs',
+  'scraper-jobs',
+  'domains',
+  'resources',
+]);
+
+// Permissions required to write to a collection through the generic routes; reads only need a session
+const WRITE_PERMISSIONS: Record<string, { create?: Permission; update?: Permission; delete?: Permission }> = {
+  chats: { delete: 'chats:delete' },
+  customers: { delete: 'chats:delete' },
+  users: { create: 'users:invite', update: 'users:update', delete: 'users:delete' },
+  organizations: { create: 'org:create', update: 'org:update', delete: 'org:delete' },
+  documents: { create: 'content:manage', update: 'content:manage', delete: 'content:manage' },
+  faqs: { create: 'content:manage', update: 'content:manage', delete: 'content:manage' },
+  'scraper-jobs': { create: 'content:manage', update: 'content:manage', delete: 'content:manage' },
+  domains: { create: 'security:manage', update: 'security:manage', delete: 'security:manage' },
+  resources: { create: 'content:manage', update: 'content:manage', delete: 'content:manage' },
+};
+
+// Fields the generic create and update routes leave alone; chats start queued and their status
+// only changes through POST /chats/:chatId/transitions, which checks permissions and records the history
+const PROTECTED_FIELDS: Record<string, string[]> = {
+  chats: ['status', 'statusHistory'],
+};
+
+// Fields the generic create and update routes refuse, with the route that changes them instead;
+// assigning a chat takes `chats:assign` and an agent of the chat's organization
+const DEDICATED_ROUTE_FIELDS: Record<string, Record<string, string>> = {
+  chats: { assignedAgentId: 'POST /chats/:chatId/assign' },
+};
+
+function parseRecordBody(body: unknown): MockRecord {
+  const parsed = recordBodySchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid request body', 'VALIDATION_ERROR');
+  }
+  return parsed.data as MockRecord;
+}
+
+function writableFields(collection: string, body: unknown): MockRecord {
+  const changes = { ...parseRecordBody(body) };
+  for (const [field, route] of Object.entries(DEDICATED_ROUTE_FIELDS[collection] ?? {})) {
+    if (field in changes) throw new MockHttpError(400, `${field} can only be changed through ${route}`, 'VALIDATION_ERROR');
+  }
+  for (const field of PROTECTED_FIELDS[collection] ?? []) delete changes[field];
+  return changes;
+}
+
+// Query parameters that control paging and sorting rather than filter on a field
+const RESERVED_QUERY_KEYS = new Set(['page', 'limit', 'search', 'sort', 'order']);
+
+export function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export function ok(data: unknown, status = 200, extra: Record<string, unknown> = {}): Response {
+  return json({ data, ...extra, timestamp: new Date().toISOString(), success: true }, status);
+}
+
+/** Position of a message in its transcript; ISO timestamps sort as text, and the id breaks ties */
+function messageCursor(message: Record<string, unknown>): string {
+  return `${String(message.createdAt)}|${String(message.id)}`;
+}
+
+export function createId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** A token that grants access on its own, so it comes from the platform's secure random source */
+function createSecret(prefix: string): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `${prefix}_${Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Filters, sorts and pages a collection from list query parameters.
+ * Any non-reserved parameter is matched against the record field of the same
+ * name. Without a `limit` every matching record is returned in one page.
+ */
+export function paginate<T extends MockRecord>(records: T[], query: URLSearchParams): Response {
+  let result = records;
+
+  query.forEach((value, key) => {
+    if (RESERVED_QUERY_KEYS.has(key) || value === '') return;
+    result = result.filter(record => {
+      const field = record[key];
+      return Array.isArray(field) ? field.map(String).includes(value) : String(field) === value;
+    });
+  });
+
+  const search = query.get('search')?.trim().toLowerCase();
+  if (search) {
+    result = result.filter(record =>
+      Object.values(record).some(value =>
+        typeof value === 'string' && value.toLowerCase().includes(search)
+      )
+    );
+  }
+
+  const sort = query.get('sort');
+  if (sort) {
+    const direction = query.get('order') === 'desc' ? -1 : 1;
+    result = [...result].sort((a, b) => String(a[sort] ?? '').localeCompare(String(b[sort] ?? '')) * direction);
+  }
+
+  const total = result.length;
+  const limit = Number(query.get('limit')) || total || 1;
+  const page = Math.max(Number(query.get('page')) || 1, 1);
+  const start = (page - 1) * limit;
+
+  return ok(result.slice(start, start + limit), 200, {
+    pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+  });
+}
+
+/** Records of another tenant are reported as missing rather than forbidden, so ids do not leak */
+function belongsTo(record: MockRecord | undefined, orgId?: string): boolean {
+  return !!record && (!orgId || record.organizationId === orgId);
+}
+
+export async function findRecord<T extends MockRecord>(collection: string, id: string, orgId?: string): Promise<T> {
+  const records = await mockDb.getCollection<T>(collection);
+  const record = records.find(r => r.id === id);
+  if (!record || !belongsTo(record, orgId)) {
+    throw new MockHttpError(404, `${collection} record ${id} not found`, 'NOT_FOUND');
+  }
+  return record;
+}
+
+export async function updateRecord<T extends MockRecord>(
+  collection: string,
+  id: string,
+  changes: (record: T) => Partial<T>,
+  orgId?: string
+): Promise<T> {
+  return mockDb.update<T, T>(collection, (records) => {
+    const index = records.findIndex(r => r.id === id);
+    if (index === -1 || !belongsTo(records[index], orgId)) {
+      throw new MockHttpError(404, `${collection} record ${id} not found`, 'NOT_FOUND');
+    }
+    // Records never move between tenants through an update
+    const tenant = orgId ? { organizationId: records[index].organizationId } : {};
+    const updated = { ...records[index], ...changes(records[index]), ...tenant, id } as T;
+    records[index] = updated;
+    return { records, result: updated };
+  });
+}
+
+export async function insertRecord<T extends MockRecord>(collection: string, record: T): Promise<T> {
+  return mockDb.update<T, T>(collection, (records) => ({ records: [...records, record], result: record }));
+}
+
+function encodeBase64Url(value: unknown): string {
+  return btoa(JSON.stringify(value)).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+function issueTokens(user: MockRecord, session: MockSession) {
+  const iat = Math.floor(Date.now() / 1000);
+  const accessToken = [
+    encodeBase64Url({ alg: 'none', typ: 'JWT' }),
+    encodeBase64Url({ sub: user.id, sid: session.id, role: user.role, iat, exp: iat + ACCESS_TOKEN_TTL_SECONDS }),
+    MOCK_TOKEN_SIGNATURE,
+  ].join('.');
+
+  return {
+    accessToken,
+    refreshToken: session.refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    user,
+  };
+}
+
+function createSession(userId: string): MockSession {
+  const now = Date.now();
+  return {
+    id: createId('sess'),
+    userId,
+    refreshToken: createSecret('rt'),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + REFRESH_TOKEN_TTL_MS).toISOString(),
+  };
+}
+
+function isSessionActive(session: MockSession | undefined): session is MockSession {
+  return !!session && !session.revokedAt && new Date(session.expiresAt).getTime() > Date.now();
+}
+
+/**
+ * Validates a chat status change against the lifecycle and returns the
+ * fields that apply it, including the new `statusHistory` entry.
+ */
+function transitionChat(chat: MockRecord, to: ChatStatus, actorId?: string, reason?: string): MockRecord {
+  const from = chat.status as ChatStatus;
+  if (!canTransition(from, to)) {
+    throw new MockHttpError(409, new InvalidTransitionError(from, to).message, 'INVALID_TRANSITION');
+  }
+  const change = createStatusChange(from, to, actorId, reason);
+  const history = (chat.statusHistory as ChatStatusChange[] | undefined) ?? [];
+  return { ...chat, status: to, statusHistory: [...history, change], lastUpdatedAt: change.changedAt };
+}
+
+/** Tells other subscribers about status and assignment changes made through a chat update */
+function publishChatChanges(previous: MockRecord, updated: MockRecord, actorId?: string) {
+  const base = {
+    orgId: String(updated.organizationId),
+    occurredAt: new Date().toISOString(),
+    actorId,
+    chatId: updated.id,
+  };
+  if (previous.status !== updated.status) {
+    const history = (updated.statusHistory as ChatStatusChange[] | undefined) ?? [];
+    realtimeClient.publish({
+      ...base,
+      type: 'chat.status_changed',
+      status: updated.status as ChatStatus,
+      change: history[history.length - 1],
+    });
+  }
+  if (previous.assignedAgentId !== updated.assignedAgentId) {
+    realtimeClient.publish({ ...base, type: 'chat.assigned', agentId: (updated.assignedAgentId as string) ?? null });
+  }
+}
+
+// Per-organization routing settings; not exposed through the generic CRUD routes
+const ROUTING_SETTINGS_COLLECTION = 'routing-settings';
+
+async function getRoutingSettings(orgId: string): Promise<RoutingSettings> {
+  const records = await mockDb.getCollection(ROUTING_SETTINGS_COLLECTION);
+  const stored = records.find(record => record.id === orgId) as unknown as RoutingSettings | undefined;
+  // Settings saved before a field existed take its default
+  return { ...createDefaultRoutingSettings(orgId), ...stored };
+}
+
+async function saveRoutingSettings(settings: RoutingSettings): Promise<RoutingSettings> {
+  const saved = { ...settings, updatedAt: new Date().toISOString() };
+  await mockDb.update(ROUTING_SETTINGS_COLLECTION, (records) => ({
+    records: [...records.filter(record => record.id !== saved.id), saved as unknown as MockRecord],
+    result: undefined,
+  }));
+  return saved;
+}
+
+// Per-organization support schedule; not exposed through the generic CRUD routes
+const BUSINESS_HOURS_COLLECTION = 'business-hours';
+
+async function getBusinessHours(orgId: string): Promise<BusinessHours> {
+  const records = await mockDb.getCollection(BUSINESS_HOURS_COLLECTION);
+  const stored = records.find(record => record.id === orgId) as unknown as BusinessHours | undefined;
+  return stored ?? createDefaultBusinessHours(orgId);
+}
+
+async function saveBusinessHours(schedule: BusinessHours): Promise<BusinessHours> {
+  const saved = { ...schedule, updatedAt: new Date().toISOString() };
+  await mockDb.update(BUSINESS_HOURS_COLLECTION, (records) => ({
+    records: [...records.filter(record => record.id !== saved.id), saved as unknown as MockRecord],
+    result: undefined,
+  }));
+  return saved;
+}
+
+// Per-organization language model settings with the API key; not exposed through the generic CRUD routes
+const LLM_SETTINGS_COLLECTION = 'llm-settings';
+
+type StoredLLMSettings = LLMSettings & { apiKey?: string };
+
+async function getLLMSettings(orgId: string): Promise<StoredLLMSettings> {
+  const records = await mockDb.getCollection(LLM_SETTINGS_COLLECTION);
+  const stored = records.find(record => record.id === orgId) as unknown as StoredLLMSettings | undefined;
+  return stored ?? createDefaultLLMSettings(orgId);
+}
+
+/** The settings as clients see them: the API key only as a masked preview */
+function toPublicLLMSettings({ apiKey, ...settings }: StoredLLMSettings): LLMSettings {
+  return { ...settings, hasApiKey: !!apiKey, apiKeyPreview: apiKey ? maskSecret(apiKey) : undefined };
+}
+
+/**
+ * Applies submitted settings to the saved ones. A missing key keeps the saved
+ * one only while the provider and endpoint stay the same, so a saved key is
+ * never sent to a server it was not meant for.
+ */
+function mergeLLMSettings(current: StoredLLMSettings, body: unknown): StoredLLMSettings {
+  const parsed = llmSettingsSchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid model settings', 'VALIDATION_ERROR');
+  }
+  const { apiKey: submittedKey, ...fields } = parsed.data;
+  const provider = getLLMProvider(fields.provider);
+  const sameTarget = fields.provider === current.provider && fields.endpoint === current.endpoint;
+  const keptKey = sameTarget ? current.apiKey : undefined;
+  const apiKey = provider.requiresApiKey ? submittedKey ?? keptKey : undefined;
+  if (provider.requiresApiKey && !apiKey) {
+    throw new MockHttpError(400, `An API key is required for ${provider.label}`, 'VALIDATION_ERROR');
+  }
+  return {
+    ...current,
+    endpoint: undefined,
+    fallbackModel: undefined,
+    ...fields,
+    apiKey,
+    hasApiKey: !!apiKey,
+  };
+}
+
+// Customer-facing widget settings, every published configuration, and the visitor token of each chat started from a widget keyed by chat id
+const WIDGET_SETTINGS_COLLECTION = 'widget-settings';
+const WIDGET_VERSIONS_COLLECTION = 'widget-config-versions';
+const WIDGET_VISITORS_COLLECTION = 'widget-visitors';
+
+interface WidgetVisitor extends MockRecord {
+  organizationId: string;
+  widgetId: string;
+  token: string;
+  createdAt: string;
+}
+
+async function getWidgetSettings(orgId: string): Promise<WidgetSettings> {
+  const records = await mockDb.getCollection(WIDGET_SETTINGS_COLLECTION);
+  const stored = records.find(record => record.id === orgId) as unknown as WidgetSettings | undefined;
+  return stored ?? createDefaultWidgetSettings(orgId);
+}
+
+async function saveWidgetSettings(settings: WidgetSettings): Promise<WidgetSettings> {
+  await mockDb.update(WIDGET_SETTINGS_COLLECTION, (records) => ({
+    records: [...records.filter(record => record.id !== settings.id), settings as unknown as MockRecord],
+    result: undefined,
+  }));
+  return settings;
+}
+
+/** Makes a configuration live as the next version, and the draft along with it */
+async function publishWidgetConfig(
+  current: WidgetSettings,
+  config: WidgetConfig,
+  userId: string,
+  restoredFromVersion?: number
+): Promise<WidgetSettings> {
+  const now = new Date().toISOString();
+  const versions = await mockDb.getCollection<WidgetConfigVersion & MockRecord>(WIDGET_VERSIONS_COLLECTION);
+  const version = Math.max(current.publishedVersion, ...versions
+    .filter(record => record.organizationId === current.organizationId)
+    .map(record => record.version)) + 1;
+  await insertRecord<WidgetConfigVersion & MockRecord>(WIDGET_VERSIONS_COLLECTION, {
+    id: createId('wcv'),
+    organizationId: current.organizationId,
+    version,
+    config,
+    publishedAt: now,
+    publishedById: userId,
+    ...(restoredFromVersion && { restoredFromVersion }),
+  });
+  return saveWidgetSettings({
+    ...current,
+    draft: config,
+    published: config,
+    publishedVersion: version,
+    hasUnpublishedChanges: false,
+    publishedAt: now,
+    publishedById: userId,
+    updatedAt: now,
+  });
+}
+
+/** Settings of the widget with this public id; unknown ids and organizations that are gone are a 404 */
+async function findWidgetSettings(widgetId: string): Promise<WidgetSettings> {
+  const records = await mockDb.getCollection(WIDGET_SETTINGS_COLLECTION);
+  const stored = records.find(record => record.widgetId === widgetId) as unknown as WidgetSettings | undefined;
+  const orgId = stored?.organizationId ?? getWidgetOrgId(widgetId);
+  const organizations = await mockDb.getCollection('organizations');
+  if (!orgId || !organizations.some(org => org.id === orgId)) {
+    throw new MockHttpError(404, `Widget ${widgetId} not found`, 'NOT_FOUND');
+  }
+  const settings = stored ?? createDefaultWidgetSettings(orgId);
+  if (settings.widgetId !== widgetId) {
+    throw new MockHttpError(404, `Widget ${widgetId} not found`, 'NOT_FOUND');
+  }
+  return settings;
+}
+
+/** The widget's chat the request's visitor token was issued for */
+async function findVisitorChat(request: MockRequest, settings: WidgetSettings): Promise<MockRecord> {
+  const token = request.headers.get(VISITOR_TOKEN_HEADER);
+  const visitors = await mockDb.getCollection<WidgetVisitor>(WIDGET_VISITORS_COLLECTION);
+  const visitor = visitors.find(record => record.id === request.params.chatId && record.widgetId === settings.widgetId);
+  if (!token || visitor?.token !== token) {
+    throw new MockHttpError(404, `Chat ${request.params.chatId} not found`, 'NOT_FOUND');
+  }
+  return findRecord('chats', visitor.id, settings.organizationId);
+}
+
+function toWidgetMessage(message: MockRecord): WidgetMessage {
+  const { id, senderType, senderName, body, createdAt } = message as unknown as Message;
+  return { id, senderType, senderName, body, createdAt };
+}
+
+async function insertCustomerMessage(chat: MockRecord, body: string): Promise<MockRecord> {
+  const now = new Date().toISOString();
+  const message = await insertRecord('messages', {
+    id: createId('msg'),
+    chatId: chat.id,
+    senderType: 'customer',
+    senderName: String(chat.requesterName || 'Visitor'),
+    body,
+    attachments: [],
+    deliveryStatus: 'sent',
+    createdAt: now,
+  });
+  await updateRecord('chats', chat.id, () => ({ lastUpdatedAt: now }));
+  realtimeClient.publish({
+    type: 'message.received',
+    orgId: String(chat.organizationId),
+    occurredAt: now,
+    message: message as unknown as Message,
+  });
+  return message;
+}
+
+async function loadRoutingContext(orgId: string): Promise<RoutingContext> {
+  const [users, chats, engagements, settings] = await Promise.all([
+    mockDb.getCollection('users'),
+    mockDb.getCollection('chats'),
+    mockDb.getCollection('engagements'),
+    getRoutingSettings(orgId),
+  ]);
+  return {
+    agents: users.filter(user => user.organizationId === orgId) as unknown as User[],
+    chats: chats.filter(chat => chat.organizationId === orgId) as unknown as Chat[],
+    engagements: engagements.filter(engagement => engagement.organizationId === orgId) as unknown as Engagement[],
+    settings,
+  };
+}
+
+/**
+ * Links a new chat to its customer: creates the profile on first contact,
+ * records new emails and phone numbers, and merges profiles the chat shows to
+ * be the same person. Chats of merged profiles are moved to the survivor.
+ * A `customerId` the chat already carries wins over identity matching; chats
+ * without an email or phone number stay anonymous.
+ */
+async function resolveCustomer(chat: Chat, orgId: string): Promise<string | undefined> {
+  const { customerId, mergedIds } = await mockDb.update('customers', (records) => {
+    const now = new Date().toISOString();
+    const tenantCustomers = records.filter(record => record.organizationId === orgId) as unknown as Customer[];
+    const linked = tenantCustomers.find(customer => customer.id === chat.customerId);
+    const matches = findMatchingCustomers(tenantCustomers, chat).filter(customer => customer.id !== linked?.id);
+    const [target, ...duplicates] = linked ? [linked, ...matches] : matches;
+
+    if (!target) {
+      if (!chat.requesterEmail?.trim() && !chat.requesterPhone?.trim()) {
+        return { records, result: { customerId: undefined, mergedIds: [] as string[] } };
+      }
+      const created = { ...customerFromChat({ ...chat, organizationId: orgId }), id: createId('cus'), createdAt: now, updatedAt: now };
+      return { records: [...records, created as unknown as MockRecord], result: { customerId: created.id, mergedIds: [] as string[] } };
+    }
+
+    const merged: Customer = { ...duplicates.reduce(mergeCustomers, withChatIdentity(target, chat)), updatedAt: now };
+    const mergedIds = duplicates.map(duplicate => duplicate.id);
+    return {
+      records: records
+        .filter(record => !mergedIds.includes(record.id))
+        .map(record => record.id === target.id ? merged as unknown as MockRecord : record),
+      result: { customerId: target.id as string | undefined, mergedIds },
+    };
+  });
+
+  if (mergedIds.length > 0) {
+    await mockDb.update('chats', (records) => ({
+      records: records.map(record => mergedIds.includes(record.customerId as string) ? { ...record, customerId } : record),
+      result: undefined,
+    }));
+  }
+  return customerId;
+}
+
+/**
+ * Saves a new chat: starts it queued with its status history, links the
+ * customer, flags it when support is closed and lets smart routing pick an
+ * agent. Out-of-hours chats stay unassigned if routing defers them; anyone
+ * else is assigned through POST /chats/:chatId/assign.
+ */
+async function createChat(fields: MockRecord, orgId: string, actorId?: string): Promise<MockRecord> {
+  const record: MockRecord = { ...fields, organizationId: orgId, status: 'queued', assignedAgentId: undefined };
+  record.statusHistory = [createStatusChange(null, 'queued', actorId)];
+  record.customerId = await resolveCustomer(record as unknown as Chat, orgId);
+  if (!getBusinessHoursStatus(await getBusinessHours(orgId)).isOpen) record.outOfHours = true;
+  const context = await loadRoutingContext(orgId);
+  if (context.settings.enabled && !(record.outOfHours && context.settings.deferOutOfHours)) {
+    const decision = routeChat(record as unknown as Chat, context);
+    if (decision.agentId) {
+      record.assignedAgentId = decision.agentId;
+      await saveRoutingSettings({ ...context.settings, lastAssignedAgentId: decision.agentId });
+    }
+  }
+  const created = await insertRecord('chats', record);
+  realtimeClient.publish({
+    type: 'chat.created',
+    orgId,
+    occurredAt: new Date().toISOString(),
+    actorId,
+    chat: created as unknown as Chat,
+  });
+  return created;
+}
+
+// Chunks of each document's text, and the uploaded file with its full extracted text
+// keyed by document id; neither is exposed through the generic CRUD routes
+const DOCUMENT_CHUNKS_COLLECTION = 'document-chunks';
+const DOCUMENT_CONTENTS_COLLECTION = 'document-contents';
+
+interface DocumentContent extends MockRecord {
+  organizationId: string;
+  file?: Blob;
+  mimeType?: string;
+  text?: string;
+}
+
+async function findDocumentContent(documentId: string): Promise<DocumentContent | undefined> {
+  const records = await mockDb.getCollection<DocumentContent>(DOCUMENT_CONTENTS_COLLECTION);
+  return records.find(record => record.id === documentId);
+}
+
+// Documents this session is extracting right now; one left queued or parsing by a closed tab is not in here
+const ingestingDocuments = new Set<string>();
+
+/**
+ * Extracts and chunks a document, moving it from queued through parsing to
+ * indexed, or to failed with the reason. `source` is the uploaded file, or
+ * text extracted earlier when a document is re-indexed. Runs after the
+ * request has been answered, as a worker would on the real backend.
+ */
+async function ingestDocument(document: Document, source: Uint8Array | string): Promise<Document> {
+  const setStatus = async (changes: Partial<Document>) =>
+    await updateRecord<MockRecord>('documents', document.id, () => ({
+      ...changes,
+      lastModifiedAt: new Date().toISOString(),
+    })) as unknown as Document;
+
+  ingestingDocuments.add(document.id);
+  try {
+    await setStatus({ ingestionStatus: 'parsing', ingestionError: undefined });
+    const text = typeof source === 'string' ? source : await extractDocumentText(document.title, source);
+    const chunks: DocumentChunk[] = chunkText(text).map((chunk, index) => ({
+      id: `${document.id}_chunk_${index}`,
+      documentId: document.id,
+      organizationId: document.organizationId,
+      index,
+      text: chunk,
+      tokenCount: estimateTokenCount(chunk),
+    }));
+    await mockDb.update(DOCUMENT_CHUNKS_COLLECTION, (records) => ({
+      records: [...records.filter(record => record.documentId !== document.id), ...chunks as unknown as MockRecord[]],
+      result: undefined,
+    }));
+    await mockDb.update(DOCUMENT_CONTENTS_COLLECTION, (records) => ({
+      records: records.map(record => record.id === document.id ? { ...record, text } : record),
+      result: undefined,
+    }));
+    return await setStatus({
+      ingestionStatus: 'indexed',
+      chunkCount: chunks.length,
+      characterCount: text.length,
+      indexedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.warn('Document ingestion failed', { documentId: document.id, error }, 'MockBackend');
+    const failed: Partial<Document> = {
+      ingestionStatus: 'failed',
+      ingestionError: error instanceof Error ? error.message : 'The document could not be read',
+    };
+    // The document may have been deleted while it was being parsed
+    return await setStatus(failed).catch(() => ({ ...document, ...failed }));
+  } finally {
+    ingestingDocuments.delete(document.id);
+  }
+}
+
+// Run history and the latest text of every page a job fetched; not exposed through the generic CRUD routes
+const SCRAPER_RUNS_COLLECTION = 'scraper-runs';
+const SCRAPED_PAGES_COLLECTION = 'scraped-pages';
+
+// Offline test site served from public/fixtures/scraper-site
+const FIXTURE_SITE_HOST = 'fixture-site.local';
+const FIXTURE_CONTENT_TYPES: Record<string, string> = { html: 'text/html', txt: 'text/plain' };
+
+/**
+ * Fetches pages for a crawl. The fixture site is read from the app's own
+ * static files; other sites are requested directly from the browser, which
+ * only works for servers that allow cross-origin requests.
+ */
+const fetchScraperPage: PageFetcher = async (url) => {
+  const { hostname, pathname } = new URL(url);
+  if (hostname === FIXTURE_SITE_HOST) {
+    const path = pathname.endsWith('/') ? `${pathname}index.html` : pathname;
+    // Without text/html in Accept the dev server answers 404 for missing files instead of serving the app
+    const response = await fetch(`/fixtures/scraper-site${path}`, { headers: { Accept: 'text/plain' } });
+    return {
+      status: response.status,
+      contentType: FIXTURE_CONTENT_TYPES[path.split('.').pop() ?? ''] ?? 'application/octet-stream',
+      body: await response.text(),
+    };
+  }
+  const response = await fetch(url);
+  return { status: response.status, contentType: response.headers.get('Content-Type') ?? '', body: await response.text() };
+};
+
+/** Marks the job running and records the start of a run */
+async function startScraperRun(job: ScraperJob, trigger: ScraperRun['trigger']): Promise<ScraperRun> {
+  await updateRecord<MockRecord>('scraper-jobs', job.id, () => ({ status: 'running' }));
+  const run: ScraperRun = {
+    id: createId('run'),
+    jobId: job.id,
+    organizationId: job.organizationId,
+    status: 'running',
+    trigger,
+    startedAt: new Date().toISOString(),
+    pagesFetched: 0,
+    pagesSkipped: 0,
+    errorCount: 0,
+    pages: [],
+  };
+  await insertRecord(SCRAPER_RUNS_COLLECTION, run as unknown as MockRecord);
+  return run;
+}
+
+/**
+ * Crawls the job's site and completes the run: records every page, compares
+ * the content with the previous run and keeps the new text for the next one.
+ * A run fails when its start page cannot be fetched.
+ */
+async function runScraperJob(job: ScraperJob, run: ScraperRun): Promise<ScraperRun> {
+  const finish = async (changes: Partial<ScraperRun>): Promise<ScraperRun> => {
+    const finishedAt = new Date().toISOString();
+    const finished = await updateRecord<MockRecord>(SCRAPER_RUNS_COLLECTION, run.id, () => ({ ...changes, finishedAt }));
+    // The schedule is read from the stored job, which may have been edited during the crawl
+    await updateRecord<MockRecord>('scraper-jobs', job.id, (record) => ({
+      status: changes.status,
+      lastScrapedAt: finishedAt,
+      nextRunAt: getNextRunAt(record as unknown as ScraperJob),
+      updatedAt: finishedAt,
+    }));
+    return finished as unknown as ScraperRun;
+  };
+
+  try {
+    const { pages, contents } = await crawlSite(job, fetchScraperPage);
+    const start = pages[0];
+    const counts = {
+      pages,
+      pagesFetched: pages.filter(page => page.outcome === 'fetched').length,
+      pagesSkipped: pages.filter(page => page.outcome === 'skipped').length,
+      errorCount: pages.filter(page => page.outcome === 'error').length,
+    };
+    if (start?.outcome !== 'fetched') {
+      return await finish({ ...counts, status: 'failed', error: `The start page could not be fetched (${start?.reason ?? 'no response'})` });
+    }
+
+    const fetchedAt = new Date().toISOString();
+    const diff = await mockDb.update(SCRAPED_PAGES_COLLECTION, (records) => {
+      const previous = records.filter(record => record.jobId === job.id) as unknown as PageContent[];
+      const latest = contents.map((content, index) => ({
+        ...content,
+        id: `${job.id}_page_${index}`,
+        jobId: job.id,
+        organizationId: job.organizationId,
+        fetchedAt,
+      }));
+      return {
+        records: [...records.filter(record => record.jobId !== job.id), ...latest],
+        result: diffCrawl(previous, contents),
+      };
+    });
+    return await finish({ ...counts, status: 'completed', diff });
+  } catch (error) {
+    logger.warn('Scraper run failed', { jobId: job.id, error }, 'MockBackend');
+    const failed: Partial<ScraperRun> = { status: 'failed', error: error instanceof Error ? error.message : 'The crawl failed' };
+    // The job may have been deleted while it was running
+    return await finish(failed).catch(() => ({ ...run, ...failed }));
+  }
+}
+
+/** Everything the assistant may draw on: indexed documents, published FAQs, resources and scraped pages */
+async function loadKnowledgePassages(orgId: string): Promise<KnowledgePassage[]> {
+  const [documents, chunks, faqs, resources, pages] = await Promise.all([
+    mockDb.getCollection('documents'),
+    mockDb.getCollection(DOCUMENT_CHUNKS_COLLECTION),
+    mockDb.getCollection('faqs'),
+    mockDb.getCollection('resources'),
+    mockDb.getCollection(SCRAPED_PAGES_COLLECTION),
+  ]);
+  const ofTenant = <T>(records: MockRecord[]) => records.filter(record => record.organizationId === orgId) as unknown as T[];
+  const tenantChunks = ofTenant<DocumentChunk>(chunks);
+
+  return [
+    ...ofTenant<Document>(documents)
+      .filter(document => document.ingestionStatus === 'indexed')
+      .flatMap(document => documentPassages(document, tenantChunks)),
+    ...ofTenant<FAQ>(faqs).filter(faq => faq.status === 'published').map(faqPassage),
+    ...ofTenant<Resource>(resources).flatMap(resourcePassages),
+    ...ofTenant<{ id: string; url: string; title: string; text: string }>(pages).flatMap(scrapedPagePassages),
+  ];
+}
+
+// Chats that referenced a resource; not exposed through the generic CRUD routes
+const RESOURCE_USAGES_COLLECTION = 'resource-usages';
+
+/** Records that a chat referenced a resource, once per chat and message */
+async function recordResourceUsage(usage: Omit<ResourceUsage, 'id' | 'referencedAt' | 'chat'>): Promise<{ usage: ResourceUsage; created: boolean }> {
+  return mockDb.update<MockRecord, { usage: ResourceUsage; created: boolean }>(RESOURCE_USAGES_COLLECTION, (records) => {
+    const existing = records.find(record => record.resourceId === usage.resourceId
+      && record.chatId === usage.chatId
+      && record.messageId === usage.messageId);
+    if (existing) return { records, result: { usage: existing as unknown as ResourceUsage, created: false } };
+    const created: ResourceUsage = { ...usage, id: createId('ru'), referencedAt: new Date().toISOString() };
+    return { records: [...records, created as unknown as MockRecord], result: { usage: created, created: true } };
+  });
+}
+
+// Saved replies have per-user visibility, so they are not served by the generic CRUD routes
+const SAVED_REPLIES_COLLECTION = 'saved-replies';
+
+/** Organization-wide replies, and the personal ones of the user */
+const isVisibleReply = (reply: MockRecord, auth?: MockAuth) =>
+  reply.scope === 'organization' || reply.createdById === auth?.userId;
+
+// Drafted replies and the agent's verdict on them; not exposed through the generic CRUD routes
+const REPLY_SUGGESTIONS_COLLECTION = 'reply-suggestions';
+
+// Shared queue of background work, and the files data exports produce; not exposed through the generic CRUD routes
+const BACKGROUND_JOBS_COLLECTION = 'background-jobs';
+const EXPORT_FILES_COLLECTION = 'export-files';
+// How often the scheduler looks for due scraper jobs and delayed retries
+const SCHEDULER_INTERVAL_MS = 30 * 1000;
+// Work still in progress this long after it started was left behind by a closed tab
+const STALE_JOB_AFTER_MS = 10 * 60 * 1000;
+
+interface ExportFile extends MockRecord {
+  organizationId: string;
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+interface BackgroundTask {
+  /** Does the work and describes the outcome; throwing fails the attempt */
+  run: (job: BackgroundJob) => Promise<string>;
+  /** Called once a failed attempt has been queued again */
+  onRetry?: (job: BackgroundJob) => Promise<void>;
+  /** Called when a queued job is cancelled before it started */
+  onCancel?: (job: BackgroundJob) => Promise<void>;
+}
+
+type NewBackgroundJob = Pick<BackgroundJob, 'organizationId' | 'type' | 'label' | 'payload'>
+  & Partial<Pick<BackgroundJob, 'createdById' | 'maxAttempts'>>;
+
+function createBackgroundJob(job: NewBackgroundJob): BackgroundJob {
+  const now = new Date().toISOString();
+  return {
+    maxAttempts: DEFAULT_MAX_ATTEMPTS[job.type],
+    ...job,
+    id: createId('bg'),
+    status: 'queued',
+    attempts: 0,
+    runAt: now,
+    createdAt: now,
+  };
+}
+
+const isActiveReindex = (record: MockRecord, documentId: string) =>
+  record.type === 'document-reindex'
+  && (record.payload as BackgroundJob['payload']).documentId === documentId
+  && ACTIVE_BACKGROUND_JOB_STATUSES.has(record.status as BackgroundJobStatus);
+
+const isActiveScrape = (record: MockRecord, scraperJobId: string) =>
+  record.type === 'scrape'
+  && (record.payload as BackgroundJob['payload']).scraperJobId === scraperJobId
+  && ACTIVE_BACKGROUND_JOB_STATUSES.has(record.status as BackgroundJobStatus);
+
+/** A job whose queued scrape was cancelled goes back to the outcome of its latest run */
+async function restoreScraperStatus(scraperJobId: string): Promise<void> {
+  const runs = await mockDb.getCollection(SCRAPER_RUNS_COLLECTION);
+  const latest = runs
+    .filter(run => run.jobId === scraperJobId)
+    .sort((a, b) => String(b.startedAt).localeCompare(String(a.startedAt)))[0];
+  await updateRecord('scraper-jobs', scraperJobId, (record) =>
+    record.status === 'queued' ? { status: latest?.status ?? 'pending' } : {}
+  );
+}
+
+/**
+ * A scraper job left `running` without its crawl running on the queue, e.g.
+ * after a tab closed mid-crawl, fails its unfinished run. It waits for its
+ * retry when one is queued and shows as failed otherwise, so it can run again.
+ */
+async function resetOrphanedScraperJobs(): Promise<void> {
+  const tasks = await mockDb.getCollection(BACKGROUND_JOBS_COLLECTION);
+  const isCrawling = (scraperJobId: string) =>
+    tasks.some(task => isActiveScrape(task, scraperJobId) && task.status === 'running');
+  const hasRetry = (scraperJobId: string) =>
+    tasks.some(task => isActiveScrape(task, scraperJobId) && task.status === 'queued');
+  const orphaned = await mockDb.update('scraper-jobs', (records) => {
+    const ids = new Set<string>();
+    const updated = records.map(record => {
+      if (record.status !== 'running' || isCrawling(record.id)) return record;
+      ids.add(record.id);
+      return { ...record, status: hasRetry(record.id) ? 'queued' : 'failed' };
+    });
+    return { records: updated, result: ids };
+  });
+  if (orphaned.size === 0) return;
+  const finishedAt = new Date().toISOString();
+  await mockDb.update(SCRAPER_RUNS_COLLECTION, (records) => ({
+    records: records.map(run => orphaned.has(String(run.jobId)) && run.status === 'running'
+      ? { ...run, status: 'failed', error: 'The crawl stopped before it finished', finishedAt }
+      : run),
+    result: undefined,
+  }));
+  logger.warn('Reset orphaned scraper jobs', { jobIds: [...orphaned] }, 'MockBackend');
+}
+
+/**
+ * A document left queued or parsing for a while with nothing working on it,
+ * e.g. after a tab closed mid-upload, fails so it can be re-indexed.
+ */
+async function resetOrphanedDocuments(now = new Date()): Promise<void> {
+  const staleBefore = new Date(now.getTime() - STALE_JOB_AFTER_MS).toISOString();
+  const tasks = await mockDb.getCollection(BACKGROUND_JOBS_COLLECTION);
+  await mockDb.update('documents', (records) => ({
+    records: records.map(record => {
+      const document = record as unknown as Document;
+      const isOrphaned = PENDING_INGESTION_STATUSES.has(document.ingestionStatus)
+        && document.lastModifiedAt < staleBefore
+        && !ingestingDocuments.has(document.id)
+        && !tasks.some(task => isActiveReindex(task, document.id));
+      return isOrphaned
+        ? { ...record, ingestionStatus: 'failed', ingestionError: 'Processing stopped before it finished' }
+        : record;
+    }),
+    result: undefined,
+  }));
+}
+
+/** Drops a job's scrapes that have not started, e.g. a pending retry */
+async function cancelQueuedScrapes(scraperJobId: string): Promise<void> {
+  const now = new Date().toISOString();
+  await mockDb.update(BACKGROUND_JOBS_COLLECTION, (records) => ({
+    records: records.map(record =>
+      isActiveScrape(record, scraperJobId) && record.status === 'queued' ? { ...record, status: 'cancelled', finishedAt: now } : record
+    ),
+    result: undefined,
+  }));
+}
+
+/** Stands in for the model-written summary: the customer's opening question and how far the chat went */
+function summarizeTranscript(messages: Message[]): string {
+  const sorted = [...messages].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const opening = sorted.find(message => message.senderType === 'customer')?.body.trim() ?? '';
+  const question = opening.length > 160 ? `${opening.slice(0, 157)}...` : opening;
+  const replies = sorted.filter(message => message.senderType === 'agent' || message.senderType === 'ai').length;
+  const outline = `${replies} ${replies === 1 ? 'reply' : 'replies'} in ${sorted.length} messages.`;
+  return question ? `Customer asked: "${question}" ${outline}` : outline;
+}
+
+const backgroundTasks: Record<BackgroundJobType, BackgroundTask> = {
+  scrape: {
+    run: async (task) => {
+      const job = await findRecord('scraper-jobs', task.payload.scraperJobId, task.organizationId) as unknown as ScraperJob;
+      const run = await runScraperJob(job, await startScraperRun(job, task.payload.trigger === 'schedule' ? 'schedule' : 'manual'));
+      if (run.status === 'failed') {
+        throw new Error(run.error ?? 'The crawl failed');
+      }
+      return `${run.pagesFetched} pages fetched, ${run.pagesSkipped} skipped, ${run.errorCount} errors`;
+    },
+    // The scraper table shows the retry as the job's next run
+    onRetry: async (task) => {
+      await updateRecord('scraper-jobs', task.payload.scraperJobId, () => ({ nextRunAt: task.runAt }));
+    },
+    onCancel: (task) => restoreScraperStatus(task.payload.scraperJobId),
+  },
+
+  'document-reindex': {
+    run: async (task) => {
+      const document = await findRecord('documents', task.payload.documentId, task.organizationId) as unknown as Document;
+      const content = await findDocumentContent(document.id);
+      const source = content?.file ? new Uint8Array(await content.file.arrayBuffer()) : content?.text;
+      if (source === undefined) {
+        throw new Error('Neither the original file nor its text is stored for this document');
+      }
+      const indexed = await ingestDocument(document, source);
+      if (indexed.ingestionStatus === 'failed') {
+        throw new Error(indexed.ingestionError ?? 'The document could not be read');
+      }
+      return `${indexed.chunkCount ?? 0} chunks indexed`;
+    },
+  },
+
+  'summary-generation': {
+    run: async (task) => {
+      const messages = await mockDb.getCollection('messages') as unknown as Message[];
+      const count = await mockDb.update('chats', (records) => {
+        let summarized = 0;
+        const updated = records.map(chat => {
+          if (chat.organizationId !== task.organizationId || String(chat.summary ?? '').trim()) return chat;
+          const transcript = messages.filter(message => message.chatId === chat.id);
+          if (transcript.length === 0) return chat;
+          summarized++;
+          return { ...chat, summary: summarizeTranscript(transcript) };
+        });
+        return { records: updated, result: summarized };
+      });
+      return `${count} ${count === 1 ? 'chat' : 'chats'} summarized`;
+    },
+  },
+
+  'data-export': {
+    run: async (task) => {
+      const { collection, format } = task.payload;
+      const records = (await mockDb.getCollection(collection)).filter(record => record.organizationId === task.organizationId);
+      const file: ExportFile = {
+        id: task.id,
+        organizationId: task.organizationId,
+        fileName: getExportFileName(task.payload, task.createdAt),
+        mimeType: format === 'csv' ? 'text/csv' : 'application/json',
+        content: format === 'csv' ? toCsv(records) : JSON.stringify(records, null, 2),
+      };
+      await mockDb.update(EXPORT_FILES_COLLECTION, (files) => ({
+        records: [...files.filter(existing => existing.id !== file.id), file],
+        result: undefined,
+      }));
+      return `${records.length} records exported to ${file.fileName}`;
+    },
+  },
+};
+
+/** Takes the oldest due job off the queue and counts the attempt */
+async function claimNextBackgroundJob(): Promise<BackgroundJob | undefined> {
+  const now = new Date().toISOString();
+  return mockDb.update(BACKGROUND_JOBS_COLLECTION, (records) => {
+    const next = (records as unknown as BackgroundJob[])
+      .filter(job => job.status === 'queued' && job.runAt <= now)
+      .sort((a, b) => a.runAt.localeCompare(b.runAt))[0];
+    if (!next) return { records, result: undefined };
+    const claimed: BackgroundJob = { ...next, status: 'running', attempts: next.attempts + 1, startedAt: now, finishedAt: undefined };
+    return {
+      records: records.map(record => record.id === next.id ? claimed as unknown as MockRecord : record),
+      result: claimed,
+    };
+  });
+}
+
+/** Runs one attempt; a failure is queued again after a backoff until the job runs out of attempts */
+async function executeBackgroundJob(job: BackgroundJob): Promise<void> {
+  const task = backgroundTasks[job.type];
+  try {
+    const result = await task.run(job);
+    await updateRecord(BACKGROUND_JOBS_COLLECTION, job.id, () => ({
+      status: 'completed',
+      result,
+      error: undefined,
+      finishedAt: new Date().toISOString(),
+    }));
+  } catch (error) {
+    logger.warn('Background job failed', { jobId: job.id, type: job.type, attempt: job.attempts, error }, 'MockBackend');
+    const retry = job.attempts < job.maxAttempts;
+    const changes: Partial<BackgroundJob> = {
+      status: retry ? 'queued' : 'failed',
+      error: error instanceof Error ? error.message : 'The job failed',
+      finishedAt: new Date().toISOString(),
+      ...(retry && { runAt: new Date(Date.now() + getRetryDelay(job.attempts)).toISOString() }),
+    };
+    const updated = await updateRecord(BACKGROUND_JOBS_COLLECTION, job.id, () => changes).catch(() => undefined);
+    if (retry && updated) await task.onRetry?.(updated as unknown as BackgroundJob).catch(() => undefined);
+  }
+}
+
+let isProcessingQueue = false;
+
+/**
+ * Works through due jobs one at a time, oldest first, like a single queue
+ * worker. Safe to call often: a call while the worker is busy does nothing,
+ * and the busy worker picks the new job up next.
+ */
+async function processBackgroundJobs(): Promise<void> {
+  if (isProcessingQueue) return;
+  isProcessingQueue = true;
+  try {
+    for (let job = await claimNextBackgroundJob(); job; job = await claimNextBackgroundJob()) {
+      await executeBackgroundJob(job);
+    }
+  } catch (error) {
+    logger.warn('Background queue stopped', error, 'MockBackend');
+  } finally {
+    isProcessingQueue = false;
+  }
+}
+
+async function enqueueBackgroundJob(job: NewBackgroundJob): Promise<BackgroundJob> {
+  const created = await insertRecord(BACKGROUND_JOBS_COLLECTION, createBackgroundJob(job) as unknown as MockRecord);
+  void processBackgroundJobs();
+  return created as unknown as BackgroundJob;
+}
+
+/**
+ * Handles jobs left `running` by a worker that went away, e.g. a tab closed
+ * mid-job. Each counts as a failed attempt: it is queued again while it has
+ * attempts left and fails otherwise.
+ */
+async function recoverStaleBackgroundJobs(now = new Date()): Promise<void> {
+  const staleBefore = new Date(now.getTime() - STALE_JOB_AFTER_MS).toISOString();
+  const finishedAt = now.toISOString();
+  const requeued = await mockDb.update(BACKGROUND_JOBS_COLLECTION, (records) => {
+    const retried: BackgroundJob[] = [];
+    const updated = records.map(record => {
+      const job = record as unknown as BackgroundJob;
+      if (job.status !== 'running' || !job.startedAt || job.startedAt > staleBefore) return record;
+      const retry = job.attempts < job.maxAttempts;
+      const recovered: BackgroundJob = {
+        ...job,
+        status: retry ? 'queued' : 'failed',
+        error: 'The job stopped before it finished',
+        finishedAt,
+        ...(retry && { runAt: finishedAt }),
+      };
+      if (retry) retried.push(recovered);
+      return recovered as unknown as MockRecord;
+    });
+    return { records: updated, result: retried };
+  });
+  if (requeued.length > 0) {
+    logger.warn('Requeued stale background jobs', { jobIds: requeued.map(job => job.id) }, 'MockBackend');
+  }
+  for (const job of requeued) {
+    await backgroundTasks[job.type].onRetry?.(job).catch(() => undefined);
+  }
+}
+
+/**
+ * Queues the scheduled scrapes that are due, keeps every job's next run up to
+ * date, and wakes the worker for delayed retries. A job whose slots were
+ * missed while the app was closed runs once, not once per missed slot.
+ */
+async function runScheduler(now = new Date()): Promise<void> {
+  await resetOrphanedScraperJobs();
+  await resetOrphanedDocuments(now);
+  const queued = await mockDb.getCollection(BACKGROUND_JOBS_COLLECTION);
+  const due = await mockDb.update('scraper-jobs', (records) => {
+    const dueJobs: ScraperJob[] = [];
+    const updated = records.map(record => {
+      const job = record as unknown as ScraperJob;
+      // A job with a crawl in progress, queued or waiting to be retried is left to that work
+      if (job.status === 'running' || job.status === 'queued' || queued.some(task => isActiveScrape(task, job.id))) return record;
+      const isScheduled = !job.paused && !!getScheduleExpression(job);
+      const isDue = isScheduled && !!job.nextRunAt && new Date(job.nextRunAt) <= now;
+      if (isDue) dueJobs.push(job);
+      const nextRunAt = !isScheduled ? undefined : !job.nextRunAt || isDue ? getNextRunAt(job, now) : job.nextRunAt;
+      if (isDue) return { ...record, nextRunAt, status: 'queued' };
+      return nextRunAt === job.nextRunAt ? record : { ...record, nextRunAt };
+    });
+    return { records: updated, result: dueJobs };
+  });
+
+  if (due.length > 0) {
+    await mockDb.update(BACKGROUND_JOBS_COLLECTION, (records) => ({
+      records: [
+        ...records,
+        ...due.map(job => createBackgroundJob({
+          organizationId: job.organizationId,
+          type: 'scrape',
+          label: job.url,
+          payload: { scraperJobId: job.id, trigger: 'schedule' },
+        }) as unknown as MockRecord),
+      ],
+      result: undefined,
+    }));
+  }
+  void processBackgroundJobs();
+}
+
+/** Assigns a chat (or unassigns it with `null`) after checking the agent belongs to the tenant */
+async function assignChat(chatId: string, agentId: string | null, orgId: string, actorId?: string): Promise<MockRecord> {
+  if (agentId) {
+    const users = await mockDb.getCollection('users');
+    if (!users.some(user => user.id === agentId && user.organizationId === orgId)) {
+      throw new MockHttpError(400, 'Agent is not a member of this organization', 'VALIDATION_ERROR');
+    }
+  }
+  let previous: MockRecord | undefined;
+  const updated = await updateRecord('chats', chatId, (chat) => {
+    previous = chat;
+    return { assignedAgentId: agentId ?? undefined, lastUpdatedAt: new Date().toISOString() };
+  }, orgId);
+  if (previous) publishChatChanges(previous, updated, actorId);
+  return updated;
+}
+
+/**
+ * Resolves the tenant from the `X-Org-Id` header. Roles without `org:view`
+ * may only act within their own organization.
+ */
+function requireTenant({ headers, auth }: MockRequest): string {
+  const orgId = headers.get('X-Org-Id');
+  if (!orgId) {
+    throw new MockHttpError(400, 'X-Org-Id header is required', 'TENANT_REQUIRED');
+  }
+  if (!hasPermission(auth?.role, 'org:view') && orgId !== auth?.organizationId) {
+    throw new MockHttpError(403, 'You do not have access to this organization', 'FORBIDDEN');
+  }
+  return orgId;
+}
+
+async function authenticate(headers: Headers): Promise<MockAuth> {
+  const token = headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const claims = token?.endsWith(`.${MOCK_TOKEN_SIGNATURE}`) ? decodeAccessToken(token) : null;
+  if (!claims?.sid || !claims.exp || claims.exp * 1000 <= Date.now()) {
+    throw new MockHttpError(401, 'Authentication required', 'UNAUTHORIZED');
+  }
+
+  const sessions = await mockDb.getCollection<MockSession>('sessions');
+  if (!isSessionActive(sessions.find(s => s.id === claims.sid))) {
+    throw new MockHttpError(401, 'Session has been revoked', 'UNAUTHORIZED');
+  }
+
+  const users = await mockDb.getCollection('users');
+  const user = users.find(u => u.id === claims.sub);
+  if (!user) {
+    throw new MockHttpError(401, 'User no longer exists', 'UNAUTHORIZED');
+  }
+
+  return {
+    userId: user.id,
+    sessionId: claims.sid,
+    role: String(user.role),
+    organizationId: user.organizationId as string | undefined,
+  };
+}
+
+// Defaults applied to records created through the generic POST routes
+const createDefaults: Record<string, () => Record<string, unknown>> = {
+  users: () => ({
+    avatarUrl: '',
+    onlineStatus: 'offline',
+    createdAt: new Date().toISOString(),
+  }),
+  organizations: () => ({
+    logoUrl: '/placeholder.svg',
+    activeAgents: 0,
+    status: 'active',
+    members: [],
+    createdAt: new Date().toISOString(),
+  }),
+  chats: () => ({
+    status: 'queued',
+    createdAt: new Date().toISOString(),
+    lastUpdatedAt: new Date().toISOString(),
+    summary: '',
+  }),
+};
+
+class MockBackend {
+  private routes: Route[] = [];
+  private schedulerTimer?: ReturnType<typeof setInterval>;
+
+  constructor() {
+    this.registerRoutes();
+  }
+
+  /**
+   * Started by the first request, so the scheduler only runs while the mock
+   * backend is in use. Jobs a previous session left running are recovered first.
+   */
+  private startScheduler() {
+    if (this.schedulerTimer) return;
+    const tick = () => runScheduler().catch(error => logger.warn('Scheduler tick failed', error, 'MockBackend'));
+    this.schedulerTimer = setInterval(tick, SCHEDULER_INTERVAL_MS);
+    void recoverStaleBackgroundJobs()
+      .catch(error => logger.warn('Could not recover stale background jobs', error, 'MockBackend'))
+      .then(tick);
+  }
+
+  private on(method: string, path: string, handler: RouteHandler, options: RouteOptions = {}) {
+    const keys: string[] = [];
+    const pattern = new RegExp(
+      '^' + path.replace(/:([A-Za-z]+)/g, (_, key) => {
+        keys.push(key);
+        return '([^/]+)';
+      }) + '/?$'
+    );
+    this.routes.push({
+      method,
+      pattern,
+      keys,
+      handler,
+      isPublic: options.isPublic ?? false,
+      permission: options.permission,
+    });
+  }
+
+  private registerRoutes() {
+    this.on('GET', '/health', () =>
+      json({
+        status: 'ok',
+        timestamp: new Date().toISOString(),
+        version: config.app.version,
+        message: 'Local mock backend is working',
+      }),
+      { isPublic: true }
+    );
+
+    // Wipes every organization's data, so only admins may do it
+    this.on('POST', '/mock/reset', async () => {
+      // Keep sign-ins alive so resetting the data does not log everyone out
+      const sessions = await mockDb.getCollection<MockSession>('sessions');
+      await mockDb.reset();
+      await mockDb.update<MockSession, void>('sessions', () => ({ records: sessions, result: undefined }));
+      return ok({ success: true });
+    }, { permission: 'data:reset' });
+
+    this.registerAuthRoutes();
+    this.registerTenantRoutes();
+    this.registerChatRoutes();
+    this.registerRoutingRoutes();
+    this.registerBusinessHoursRoutes();
+    this.registerLLMRoutes();
+    this.registerEngagementRoutes();
+    this.registerCustomerRoutes();
+    this.registerMessageRoutes();
+    this.registerDocumentRoutes();
+    this.registerFaqRoutes();
+    this.registerKnowledgeRoutes();
+    this.registerReplyAssistRoutes();
+    this.registerResourceRoutes();
+    this.registerSavedReplyRoutes();
+    this.registerScraperRoutes();
+    this.registerBackgroundJobRoutes();
+    this.registerWidgetRoutes();
+
+    // Generic CRUD for every collection; registered last so specific routes win
+    Object.keys(COLLECTIONS).forEach(collection => this.registerCollection(collection));
+  }
+
+  private registerAuthRoutes() {
+    this.on('POST', '/auth/login', async ({ body }) => {
+      const parsed = loginSchema.safeParse(body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid credentials', 'VALIDATION_ERROR');
+      }
+      const email = String(parsed.data.email).trim().toLowerCase();
+      const users = await mockDb.getCollection('users');
+      const user = users.find(u => String(u.email).toLowerCase() === email);
+
+      // Every seeded user shares the documented demo password
+      if (!user || parsed.data.password !== config.mock.demoPassword) {
+        throw new MockHttpError(401, 'Invalid email or password', 'INVALID_CREDENTIALS');
+      }
+
+      const session = await insertRecord('sessions', createSession(user.id));
+      return ok(issueTokens(user, session));
+    }, { isPublic: true });
+
+    this.on('POST', '/auth/refresh', async ({ body }) => {
+      const parsed = refreshTokenSchema.safeParse(body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid refresh token', 'VALIDATION_ERROR');
+      }
+      const { refreshToken } = parsed.data;
+      const session = await mockDb.update<MockSession, MockSession>('sessions', (sessions) => {
+        const index = sessions.findIndex(s => s.refreshToken === refreshToken);
+        if (!isSessionActive(sessions[index])) {
+          throw new MockHttpError(401, 'Refresh token is invalid or expired', 'UNAUTHORIZED');
+        }
+        // Rotate the refresh token so a leaked one can only be used once
+        const rotated = { ...sessions[index], refreshToken: createSession(sessions[index].userId).refreshToken };
+        sessions[index] = rotated;
+        return { records: sessions, result: rotated };
+      });
+
+      return ok(issueTokens(await findRecord('users', session.userId), session));
+    }, { isPublic: true });
+
+    // Always succeeds, so signing out works even with a missing or unknown token
+    this.on('POST', '/auth/logout', async ({ body }) => {
+      const refreshToken = refreshTokenSchema.safeParse(body ?? {}).data?.refreshToken;
+      await mockDb.update<MockSession, void>('sessions', (sessions) => ({
+        records: sessions.map(s =>
+          refreshToken && s.refreshToken === refreshToken && !s.revokedAt
+            ? { ...s, revokedAt: new Date().toISOString() }
+            : s
+        ),
+        result: undefined,
+      }));
+      return ok({ success: true });
+    }, { isPublic: true });
+
+    this.on('GET', '/auth/me', async ({ auth }) => ok(await findRecord('users', auth!.userId)));
+  }
+
+  private registerTenantRoutes() {
+    // The tenant switcher only offers organizations the caller may enter
+    this.on('GET', '/organizations', async ({ query, auth }) => {
+      const organizations = await mockDb.getCollection('organizations');
+      const visible = hasPermission(auth?.role, 'org:view')
+        ? organizations
+        : organizations.filter(org => org.id === auth?.organizationId);
+      return paginate(visible, query);
+    });
+
+    // Users are scoped when a tenant is given; the unscoped list is for membership management
+    this.on('GET', '/users', async (request) => {
+      const users = await mockDb.getCollection('users');
+      if (request.headers.has('X-Org-Id')) {
+        const orgId = requireTenant(request);
+        return paginate(users.filter(user => user.organizationId === orgId), request.query);
+      }
+      if (!hasPermission(request.auth?.role, 'users:view')) {
+        throw new MockHttpError(403, 'Listing users across organizations is not allowed', 'FORBIDDEN');
+      }
+      return paginate(users, request.query);
+    });
+
+    // Registered ahead of the generic routes, which would let any field through. Only users
+    // of the caller's own organization can be edited, they only change organization through
+    // PUT /users/:id/organization, and changing a role takes an admin.
+    const updateUser: RouteHandler = async (request) => {
+      const { params, body, auth } = request;
+      const parsed = updateUserSchema.safeParse(body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid user', 'VALIDATION_ERROR');
+      }
+      if (!auth?.organizationId) {
+        throw new MockHttpError(403, 'Only members of an organization can edit its users', 'FORBIDDEN');
+      }
+      const changes = parsed.data;
+      return ok(await updateRecord('users', params.id, (user) => {
+        if (changes.role && changes.role !== user.role && !hasPermission(auth.role, 'users:change-role')) {
+          throw new MockHttpError(403, 'Your role is not allowed to perform this action (users:change-role)', 'FORBIDDEN');
+        }
+        return changes;
+      }, auth.organizationId));
+    };
+    this.on('PUT', '/users/:id', updateUser, { permission: 'users:update' });
+    this.on('PATCH', '/users/:id', updateUser, { permission: 'users:update' });
+
+    // The one way a user changes organization, so it takes the permission to manage organizations
+    this.on('PUT', '/users/:id/organization', async ({ params, body }) => {
+      const parsed = userOrganizationSchema.safeParse(body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid organization', 'VALIDATION_ERROR');
+      }
+      const { organizationId } = parsed.data;
+      if (organizationId) await findRecord('organizations', organizationId);
+      return ok(await updateRecord('users', params.id, () => ({ organizationId: organizationId ?? undefined })));
+    }, { permission: 'org:update' });
+
+    // Invited users join the inviter's organization; inviting anyone but an agent takes an admin
+    this.on('POST', '/users', async ({ body, auth }) => {
+      const parsed = inviteUserSchema.safeParse(body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid user', 'VALIDATION_ERROR');
+      }
+      if (!auth?.organizationId) {
+        throw new MockHttpError(403, 'Only members of an organization can invite users', 'FORBIDDEN');
+      }
+      const invite = parsed.data;
+      if (invite.role !== 'agent' && !hasPermission(auth.role, 'users:change-role')) {
+        throw new MockHttpError(403, 'Your role is not allowed to perform this action (users:change-role)', 'FORBIDDEN');
+      }
+      return ok(await insertRecord('users', {
+        ...createDefaults.users(),
+        ...invite,
+        organizationId: auth.organizationId,
+        id: createId(COLLECTIONS.users),
+      }), 201);
+    }, { permission: 'users:invite' });
+  }
+
+  private registerChatRoutes() {
+    this.on('POST', '/chats/:chatId/transitions', async (request) => {
+      const { params, body, auth } = request;
+      const parsed = chatTransitionSchema.safeParse(body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid transition', 'VALIDATION_ERROR');
+      }
+      const to = parsed.data.to as ChatStatus;
+      const permission = TRANSITION_PERMISSIONS[to];
+      if (permission && !hasPermission(auth?.role, permission)) {
+        throw new MockHttpError(403, `Your role is not allowed to perform this action (${permission})`, 'FORBIDDEN');
+      }
+
+      let previous: MockRecord | undefined;
+      const updated = await updateRecord(
+        'chats',
+        params.chatId,
+        (chat) => {
+          previous = chat;
+          return transitionChat(chat, to, auth?.userId, parsed.data.reason);
+        },
+        requireTenant(request)
+      );
+      if (previous) publishChatChanges(previous, updated, auth?.userId);
+      return ok(updated);
+    });
+
+    this.on('POST', '/chats/:chatId/assign', async (request) => {
+      const { params, body, auth } = request;
+      const parsed = assignChatSchema.safeParse(body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid assignment', 'VALIDATION_ERROR');
+      }
+      return ok(await assignChat(params.chatId, parsed.data.agentId ?? null, requireTenant(request), auth?.userId));
+    }, { permission: 'chats:assign' });
+  }
+
+  private registerLLMRoutes() {
+    this.on('GET', '/llm/settings', async (request) =>
+      ok(toPublicLLMSettings(await getLLMSettings(requireTenant(request))))
+    );
+
+    this.on('PUT', '/llm/settings', async (request) => {
+      const orgId = requireTenant(request);
+      const settings = {
+        ...mergeLLMSettings(await getLLMSettings(orgId), request.body),
+        id: orgId,
+        organizationId: orgId,
+        updatedAt: new Date().toISOString(),
+      };
+      await mockDb.update(LLM_SETTINGS_COLLECTION, (records) => ({
+        records: [...records.filter(record => record.id !== orgId), settings as unknown as MockRecord],
+        result: undefined,
+      }));
+      return ok(toPublicLLMSettings(settings));
+    }, { permission: 'settings:manage' });
+
+    // Tests the submitted settings before they are saved, or the saved ones without a body; a failed test is still a 200
+    this.on('POST', '/llm/settings/test', async (request) => {
+      const current = await getLLMSettings(requireTenant(request));
+      const settings = request.body ? mergeLLMSettings(current, request.body) : current;
+      const startedAt = Date.now();
+      let result: LLMConnectionTestResult;
+      try {
+        const completion = await completeWithSettings(settings, settings.apiKey, {
+          messages: [
+            { role: 'system', content: 'This is a connection test. Reply with OK.' },
+            { role: 'user', content: 'Are you there?' },
+          ],
+        });
+        result = {
+          ok: true,
+          provider: settings.provider,
+          model: completion.model,
+          usedFallback: completion.usedFallback,
+          latencyMs: Date.now() - startedAt,
+          message: completion.usedFallback
+            ? `${settings.model} failed; the fallback model ${completion.model} answered`
+            : `${completion.model} answered`,
+        };
+      } catch (error) {
+        result = {
+          ok: false,
+          provider: settings.provider,
+          model: settings.fallbackModel ?? settings.model,
+          usedFallback: !!settings.fallbackModel,
+          latencyMs: Date.now() - startedAt,
+          message: error instanceof Error ? error.message : 'The provider did not answer',
+        };
+      }
+      return ok(result);
+    }, { permission: 'settings:manage' });
+  }
+
+  private registerRoutingRoutes() {
+    this.on('GET', '/routing/settings', async (request) =>
+      ok(await getRoutingSettings(requireTenant(request)))
+    );
+
+    this.on('PUT', '/routing/settings', async (request) => {
+      const orgId = requireTenant(request);
+      const parsed = routingSettingsSchema.partial().safeParse(request.body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid routing settings', 'VALIDATION_ERROR');
+      }
+      const current = await getRoutingSettings(orgId);
+      return ok(await saveRoutingSettings({ ...current, ...parsed.data, id: orgId, organizationId: orgId }));
+    }, { permission: 'settings:manage' });
+
+    // Dry run over the queued chats plus optional made-up ones; nothing is saved
+    this.on('POST', '/routing/simulate', async (request) => {
+      const parsed = routingSimulationSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid simulation', 'VALIDATION_ERROR');
+      }
+      const context = await loadRoutingContext(requireTenant(request));
+      const strategy = (parsed.data.strategy as RoutingStrategy | undefined) ?? context.settings.strategy;
+      const sampleSize = parsed.data.sampleSize ?? 0;
+
+      const queued = context.chats.filter(chat => chat.status === 'queued' && !chat.assignedAgentId);
+      const templates = context.chats.length > 0 ? context.chats : queued;
+      const samples: Chat[] = Array.from({ length: templates.length > 0 ? sampleSize : 0 }, (_, index) => {
+        const template = templates[index % templates.length];
+        return {
+          ...template,
+          id: `sim_${index + 1}`,
+          status: 'queued',
+          assignedAgentId: undefined,
+          statusHistory: [],
+        };
+      });
+
+      const { decisions } = routeBatch([...queued, ...samples], context, strategy);
+      return ok(decisions);
+    }, { permission: 'settings:manage' });
+
+    // Routes every queued, unassigned chat of the tenant now; deferred out-of-hours chats wait until support opens
+    this.on('POST', '/routing/assign', async (request) => {
+      const orgId = requireTenant(request);
+      const context = await loadRoutingContext(orgId);
+      const isOpen = getBusinessHoursStatus(await getBusinessHours(orgId)).isOpen;
+      const queued = context.chats.filter(chat =>
+        chat.status === 'queued' && !chat.assignedAgentId && (isOpen || !chat.outOfHours || !context.settings.deferOutOfHours)
+      );
+      const { decisions, settings } = routeBatch(queued, context);
+
+      for (const decision of decisions) {
+        if (decision.agentId) await assignChat(decision.chatId, decision.agentId, orgId, request.auth?.userId);
+      }
+      await saveRoutingSettings(settings);
+      return ok(decisions);
+    }, { permission: 'chats:assign' });
+  }
+
+  private registerBusinessHoursRoutes() {
+    this.on('GET', '/business-hours', async (request) =>
+      ok(await getBusinessHours(requireTenant(request)))
+    );
+
+    this.on('PUT', '/business-hours', async (request) => {
+      const orgId = requireTenant(request);
+      const parsed = businessHoursSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid business hours', 'VALIDATION_ERROR');
+      }
+      const schedule = parsed.data as Pick<BusinessHours, 'enabled' | 'timezone' | 'weekly' | 'holidays' | 'exceptions'>;
+      const current = await getBusinessHours(orgId);
+      return ok(await saveBusinessHours({ ...current, ...schedule, id: orgId, organizationId: orgId }));
+    }, { permission: 'settings:manage' });
+  }
+
+  private registerEngagementRoutes() {
+    this.on('GET', '/engagements/:engagementId/chats', async (request) => {
+      const orgId = requireTenant(request);
+      const engagement = await findRecord('engagements', request.params.engagementId, orgId);
+      const chats = await mockDb.getCollection('chats');
+      return ok(getEngagementChats(chats as unknown as Chat[], engagement as unknown as Engagement));
+    });
+  }
+
+  private registerCustomerRoutes() {
+    // Previous conversations for the customer sidebar, newest first
+    this.on('GET', '/customers/:customerId/chats', async (request) => {
+      const orgId = requireTenant(request);
+      const { customerId } = request.params;
+      await findRecord('customers', customerId, orgId);
+      const chats = await mockDb.getCollection('chats');
+      return ok(chats
+        .filter(chat => chat.organizationId === orgId && chat.customerId === customerId)
+        .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt))));
+    });
+
+    this.on('POST', '/customers/:customerId/notes', async (request) => {
+      const { params, body, auth } = request;
+      const parsed = customerNoteSchema.safeParse(body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid note', 'VALIDATION_ERROR');
+      }
+      const now = new Date().toISOString();
+      const note: CustomerNote = { id: createId('note'), body: String(parsed.data.body), authorId: auth?.userId ?? '', createdAt: now };
+      return ok(await updateRecord('customers', params.customerId, (customer) => ({
+        notes: [...((customer.notes as CustomerNote[] | undefined) ?? []), note],
+        updatedAt: now,
+      }), requireTenant(request)), 201);
+    });
+  }
+
+  private registerMessageRoutes() {
+    this.on('GET', '/chats/:chatId/messages', async (request) => {
+      const { params, query } = request;
+      await findRecord('chats', params.chatId, requireTenant(request));
+      const messages = await mockDb.getCollection('messages');
+      const transcript = messages
+        .filter(message => message.chatId === params.chatId)
+        .map(message => ({ message, position: messageCursor(message) }))
+        .sort((a, b) => a.position.localeCompare(b.position));
+
+      // Without a cursor the page is the newest end of the transcript. A cursor
+      // rather than an offset keeps messages arriving meanwhile from shifting older pages.
+      const limit = Number(query.get('limit')) || 50;
+      const before = query.get('before');
+      const older = before === null ? transcript : transcript.filter(entry => entry.position < before);
+      const page = older.slice(Math.max(older.length - limit, 0));
+
+      return ok(page.map(entry => entry.message), 200, {
+        nextCursor: older.length > page.length ? page[0].position : undefined,
+      });
+    });
+
+    this.on('POST', '/chats/:chatId/messages', async (request) => {
+      const { params, body, auth } = request;
+      const parsed = sendMessageSchema.safeParse(body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid message', 'VALIDATION_ERROR');
+      }
+      await findRecord('chats', params.chatId, requireTenant(request));
+      // Sent as the signed-in user, whatever the body claims
+      const sender = auth && await findRecord('users', auth.userId).catch(() => undefined);
+
+      const now = new Date().toISOString();
+      const message = await insertRecord('messages', {
+        id: createId('msg'),
+        chatId: params.chatId,
+        senderType: 'agent',
+        senderId: auth?.userId,
+        senderName: sender ? `${sender.firstName} ${sender.lastName}` : 'Agent',
+        body: parsed.data.body,
+        attachments: parsed.data.attachments ?? [],
+        deliveryStatus: 'sent',
+        createdAt: now,
+      });
+      const chat = await updateRecord('chats', params.chatId, () => ({ lastUpdatedAt: now }));
+
+      realtimeClient.publish({
+        type: 'message.received',
+        orgId: String(chat.organizationId),
+        occurredAt: now,
+        actorId: auth?.userId,
+        message: message as unknown as Message,
+      });
+      return ok(message, 201);
+    });
+  }
+
+  private registerDocumentRoutes() {
+    // Multipart upload with a single `file` field; ingestion continues in the background
+    this.on('POST', '/documents/upload', async (request) => {
+      const orgId = requireTenant(request);
+      const file = request.body instanceof FormData ? request.body.get('file') : null;
+      if (!(file instanceof File)) {
+        throw new MockHttpError(400, 'A file is required', 'VALIDATION_ERROR');
+      }
+      const invalid = validateUploadFile(file);
+      if (invalid) {
+        throw new MockHttpError(400, invalid, 'VALIDATION_ERROR');
+      }
+
+      const now = new Date().toISOString();
+      const document: Document = {
+        id: createId(COLLECTIONS.documents),
+        organizationId: orgId,
+        title: file.name,
+        fileType: getFileExtension(file.name).slice(1).toUpperCase(),
+        fileSizeKb: Math.ceil(file.size / 1024),
+        uploadedById: request.auth?.userId ?? '',
+        uploadedAt: now,
+        lastModifiedAt: now,
+        ingestionStatus: 'queued',
+      };
+      await insertRecord('documents', document as unknown as MockRecord);
+      await insertRecord<DocumentContent>(DOCUMENT_CONTENTS_COLLECTION, {
+        id: document.id,
+        organizationId: orgId,
+        file,
+        mimeType: getMimeType(file),
+      });
+
+      void ingestDocument(document, new Uint8Array(await file.arrayBuffer()));
+      return ok(document, 201);
+    }, { permission: 'content:manage' });
+
+    this.on('DELETE', '/documents/:documentId', async (request) => {
+      const { documentId } = request.params;
+      const orgId = requireTenant(request);
+      await mockDb.update('documents', (records) => {
+        if (!belongsTo(records.find(r => r.id === documentId), orgId)) {
+          throw new MockHttpError(404, `documents record ${documentId} not found`, 'NOT_FOUND');
+        }
+        return { records: records.filter(r => r.id !== documentId), result: undefined };
+      });
+      await mockDb.update(DOCUMENT_CHUNKS_COLLECTION, (records) => ({
+        records: records.filter(record => record.documentId !== documentId),
+        result: undefined,
+      }));
+      await mockDb.update(DOCUMENT_CONTENTS_COLLECTION, (records) => ({
+        records: records.filter(record => record.id !== documentId),
+        result: undefined,
+      }));
+      return ok({ success: true });
+    }, { permission: 'content:manage' });
+
+    // Extracts and chunks the document again on the background queue
+    this.on('POST', '/documents/:documentId/reindex', async (request) => {
+      const orgId = requireTenant(request);
+      const document = await findRecord('documents', request.params.documentId, orgId) as unknown as Document;
+      // Only work in progress blocks a re-index, not the status, which a closed tab can leave at queued or parsing
+      if (ingestingDocuments.has(document.id)) {
+        throw new MockHttpError(409, 'The document is already being processed', 'INVALID_STATE');
+      }
+      const task = await mockDb.update(BACKGROUND_JOBS_COLLECTION, (records) => {
+        // The document stays indexed until the worker picks the job up, so the queue is checked too
+        if (records.some(record => isActiveReindex(record, document.id))) {
+          throw new MockHttpError(409, 'The document is already being processed', 'INVALID_STATE');
+        }
+        const created = createBackgroundJob({
+          organizationId: orgId,
+          type: 'document-reindex',
+          label: document.title,
+          payload: { documentId: document.id },
+          createdById: request.auth?.userId,
+        });
+        return { records: [...records, created as unknown as MockRecord], result: created };
+      });
+      void processBackgroundJobs();
+      return ok(task, 202);
+    }, { permission: 'content:manage' });
+
+    this.on('GET', '/documents/:documentId/chunks', async (request) => {
+      const { documentId } = request.params;
+      await findRecord('documents', documentId, requireTenant(request));
+      const chunks = await mockDb.getCollection(DOCUMENT_CHUNKS_COLLECTION);
+      return ok(chunks
+        .filter(chunk => chunk.documentId === documentId)
+        .sort((a, b) => Number(a.index) - Number(b.index)));
+    });
+
+    // Null until ingestion has finished
+    this.on('GET', '/documents/:documentId/text', async (request) => {
+      const { documentId } = request.params;
+      await findRecord('documents', documentId, requireTenant(request));
+      const content = await findDocumentContent(documentId);
+      return ok({ text: content?.text ?? null });
+    });
+
+    // The original upload; seeded documents only have their extracted text
+    this.on('GET', '/documents/:documentId/file', async (request) => {
+      const { documentId } = request.params;
+      const document = await findRecord('documents', documentId, requireTenant(request));
+      const content = await findDocumentContent(documentId);
+      if (!content?.file) {
+        throw new MockHttpError(404, 'The original file is not available', 'NOT_FOUND');
+      }
+      return new Response(content.file, {
+        status: 200,
+        headers: {
+          'Content-Type': content.mimeType ?? 'application/octet-stream',
+          'Content-Disposition': `inline; filename="${encodeURIComponent(String(document.title))}"`,
+        },
+      });
+    });
+  }
+
+  private registerFaqRoutes() {
+    const parseFaq = (body: unknown, partial: boolean) => {
+      const parsed = (partial ? faqSchema.partial() : faqSchema).safeParse(body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid FAQ', 'VALIDATION_ERROR');
+      }
+      return parsed.data;
+    };
+    // New FAQs, and FAQs moved to another category, go to the end of the category
+    const nextOrder = (records: MockRecord[], orgId: string, category: string) => records
+      .filter(record => record.organizationId === orgId && record.category === category)
+      .reduce((next, record) => Math.max(next, Number(record.order) + 1), 0);
+
+    this.on('GET', '/faqs', async (request) => {
+      const orgId = requireTenant(request);
+      const faqs = await mockDb.getCollection('faqs') as unknown as FAQ[];
+      return paginate(sortFAQs(faqs.filter(faq => faq.organizationId === orgId)) as unknown as MockRecord[], request.query);
+    });
+
+    this.on('POST', '/faqs', async (request) => {
+      const orgId = requireTenant(request);
+      const fields = parseFaq(request.body, false);
+      const now = new Date().toISOString();
+      const faq = await mockDb.update('faqs', (records) => {
+        const created: MockRecord = {
+          ...fields,
+          id: createId(COLLECTIONS.faqs),
+          organizationId: orgId,
+          order: nextOrder(records, orgId, fields.category),
+          createdAt: now,
+          updatedAt: now,
+        };
+        return { records: [...records, created], result: created };
+      });
+      return ok(faq, 201);
+    }, { permission: 'content:manage' });
+
+    const update: RouteHandler = async (request) => {
+      const orgId = requireTenant(request);
+      const changes = parseFaq(request.body, true);
+      const faqs = await mockDb.getCollection('faqs');
+      return ok(await updateRecord('faqs', request.params.faqId, (record) => ({
+        ...changes,
+        ...(changes.category !== undefined && changes.category !== record.category && {
+          order: nextOrder(faqs, orgId, changes.category),
+        }),
+        updatedAt: new Date().toISOString(),
+      }), orgId));
+    };
+    this.on('PUT', '/faqs/:faqId', update, { permission: 'content:manage' });
+    this.on('PATCH', '/faqs/:faqId', update, { permission: 'content:manage' });
+
+    // Sets the order of one category from the full list of its FAQs
+    this.on('POST', '/faqs/reorder', async (request) => {
+      const orgId = requireTenant(request);
+      const parsed = faqReorderSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid order', 'VALIDATION_ERROR');
+      }
+      const { category, faqIds } = parsed.data;
+      const now = new Date().toISOString();
+      const reordered = await mockDb.update('faqs', (records) => {
+        const inCategory = records.filter(record => record.organizationId === orgId && record.category === category);
+        const isComplete = faqIds.length === inCategory.length
+          && new Set(faqIds).size === faqIds.length
+          && inCategory.every(record => faqIds.includes(record.id));
+        if (!isComplete) {
+          throw new MockHttpError(400, `List every FAQ in ${category} exactly once`, 'VALIDATION_ERROR');
+        }
+        const updated = records.map(record => inCategory.includes(record)
+          ? { ...record, order: faqIds.indexOf(record.id), updatedAt: now }
+          : record);
+        return {
+          records: updated,
+          result: sortFAQs(updated.filter(record => record.organizationId === orgId && record.category === category) as unknown as FAQ[]),
+        };
+      });
+      return ok(reordered);
+    }, { permission: 'content:manage' });
+
+    // Existing FAQs with the same question (ignoring case) are updated instead of duplicated
+    this.on('POST', '/faqs/import', async (request) => {
+      const orgId = requireTenant(request);
+      const parsed = faqImportSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        // Point at the offending FAQ by its 1-based position in the list, and at the field
+        const [, index, field] = issue?.path ?? [];
+        const position = typeof index === 'number' ? `FAQ ${index + 1}${field ? ` ${field}` : ''}: ` : '';
+        throw new MockHttpError(400, `${position}${issue?.message ?? 'Invalid import'}`, 'VALIDATION_ERROR');
+      }
+      const now = new Date().toISOString();
+      const counts = await mockDb.update('faqs', (records) => {
+        const updated = [...records];
+        let created = 0;
+        let changed = 0;
+        for (const fields of parsed.data.faqs) {
+          const key = fields.question.toLowerCase();
+          const index = updated.findIndex(record => record.organizationId === orgId && String(record.question).toLowerCase() === key);
+          if (index === -1) {
+            updated.push({
+              ...fields,
+              id: createId(COLLECTIONS.faqs),
+              organizationId: orgId,
+              order: nextOrder(updated, orgId, fields.category),
+              createdAt: now,
+              updatedAt: now,
+            });
+            created++;
+          } else {
+            const existing = updated[index];
+            updated[index] = {
+              ...existing,
+              ...fields,
+              order: existing.category === fields.category ? existing.order : nextOrder(updated, orgId, fields.category),
+              updatedAt: now,
+            };
+            changed++;
+          }
+        }
+        return { records: updated, result: { created, updated: changed } };
+      });
+      return ok(counts);
+    }, { permission: 'content:manage' });
+  }
+
+  // Searching only reads content, so like other reads it needs just a session
+  private registerKnowledgeRoutes() {
+    this.on('POST', '/knowledge/search', async (request) => {
+      const orgId = requireTenant(request);
+      const parsed = knowledgeSearchSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid search', 'VALIDATION_ERROR');
+      }
+      const { query, sourceTypes, limit } = parsed.data;
+      const passages = await loadKnowledgePassages(orgId);
+      // Indexed across every source so scores do not shift when sources are filtered out
+      const results = searchKnowledge(buildKnowledgeIndex(passages), query, { sourceTypes, limit });
+      const { context, usedResultIds } = buildModelContext(results);
+      return ok({
+        results,
+        context,
+        contextTokenCount: estimateTokenCount(context),
+        contextResultIds: usedResultIds,
+        passageCount: sourceTypes?.length
+          ? passages.filter(passage => sourceTypes.includes(passage.sourceType)).length
+          : passages.length,
+      });
+    });
+  }
+
+  // Like sending messages, drafting replies needs just a session
+  private registerReplyAssistRoutes() {
+    this.on('GET', '/chats/:chatId/suggestions', async (request) => {
+      const { chatId } = request.params;
+      await findRecord('chats', chatId, requireTenant(request));
+      const suggestions = await mockDb.getCollection(REPLY_SUGGESTIONS_COLLECTION);
+      return ok(suggestions
+        .filter(suggestion => suggestion.chatId === chatId)
+        .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt))));
+    });
+
+    this.on('POST', '/chats/:chatId/suggestions', async (request) => {
+      const orgId = requireTenant(request);
+      const { chatId } = request.params;
+      const parsed = replySuggestionRequestSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid request', 'VALIDATION_ERROR');
+      }
+      const chat = await findRecord('chats', chatId, orgId) as unknown as Chat;
+      const messages = (await mockDb.getCollection('messages'))
+        .filter(message => message.chatId === chatId) as unknown as Message[];
+      const query = buildAssistQuery(messages);
+      if (!query) {
+        throw new MockHttpError(400, 'The customer has not written anything to reply to yet', 'NO_CUSTOMER_MESSAGE');
+      }
+
+      const results = searchKnowledge(buildKnowledgeIndex(await loadKnowledgePassages(orgId)), query);
+      const { context, usedResultIds } = buildModelContext(results);
+      const contextResults = usedResultIds.map(id => results.find(result => result.id === id)!);
+      const settings = await getLLMSettings(orgId);
+      const completion = await completeWithSettings(settings, settings.apiKey, {
+        messages: buildAssistPrompt(chat, messages, context),
+        n: parsed.data.count,
+      }).catch((error: unknown) => {
+        if (!(error instanceof LLMProviderError)) throw error;
+        throw new MockHttpError(502, `The language model did not answer: ${error.message}`, 'LLM_ERROR');
+      });
+
+      const now = new Date().toISOString();
+      const suggestions = completion.choices.slice(0, parsed.data.count).map((choice): ReplySuggestion => ({
+        ...parseCitations(choice, contextResults),
+        id: createId('sugg'),
+        organizationId: orgId,
+        chatId,
+        provider: completion.provider,
+        model: completion.model,
+        status: 'pending',
+        requestedById: request.auth?.userId ?? '',
+        createdAt: now,
+      }));
+      await mockDb.update(REPLY_SUGGESTIONS_COLLECTION, (records) => ({
+        records: [...records, ...(suggestions as unknown as MockRecord[])],
+        result: undefined,
+      }));
+      return ok({ suggestions, query }, 201);
+    });
+
+    // Sent suggestions also count as references to the resources they cite
+    this.on('POST', '/chats/:chatId/suggestions/:suggestionId/feedback', async (request) => {
+      const orgId = requireTenant(request);
+      const { chatId, suggestionId } = request.params;
+      const parsed = suggestionFeedbackSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid feedback', 'VALIDATION_ERROR');
+      }
+      const { outcome, messageId, finalText } = parsed.data;
+      await findRecord('chats', chatId, orgId);
+      if (messageId) {
+        const message = await findRecord('messages', messageId);
+        if (message.chatId !== chatId) {
+          throw new MockHttpError(400, `Message ${messageId} is not part of chat ${chatId}`, 'VALIDATION_ERROR');
+        }
+      }
+
+      const suggestion = await mockDb.update(REPLY_SUGGESTIONS_COLLECTION, (records) => {
+        const index = records.findIndex(record => record.id === suggestionId && record.chatId === chatId);
+        if (index === -1) {
+          throw new MockHttpError(404, `reply-suggestions record ${suggestionId} not found`, 'NOT_FOUND');
+        }
+        if (records[index].status !== 'pending') {
+          throw new MockHttpError(409, `The suggestion was already ${records[index].status}`, 'ALREADY_REVIEWED');
+        }
+        const updated = {
+          ...records[index],
+          status: outcome,
+          reviewedAt: new Date().toISOString(),
+          ...(outcome !== 'rejected' && messageId && { messageId }),
+          ...(outcome === 'edited' && { finalText }),
+        };
+        records[index] = updated;
+        return { records, result: updated as unknown as ReplySuggestion };
+      });
+
+      if (outcome !== 'rejected' && messageId) {
+        // Resources deleted since the suggestion was made are skipped
+        const resources = await mockDb.getCollection('resources');
+        const resourceIds = new Set(suggestion.sources
+          .filter(source => source.sourceType === 'resource' && resources.some(resource => resource.id === source.sourceId))
+          .map(source => source.sourceId));
+        for (const resourceId of resourceIds) {
+          await recordResourceUsage({ organizationId: orgId, resourceId, chatId, messageId });
+        }
+      }
+      return ok(suggestion);
+    });
+  }
+
+  private registerResourceRoutes() {
+    const parseResource = (body: unknown) => {
+      const parsed = resourceSchema.safeParse(body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid resource', 'VALIDATION_ERROR');
+      }
+      return parsed.data;
+    };
+
+    this.on('GET', '/resources', async (request) => {
+      const orgId = requireTenant(request);
+      const [resources, usages] = await Promise.all([
+        mockDb.getCollection('resources'),
+        mockDb.getCollection(RESOURCE_USAGES_COLLECTION),
+      ]);
+      const tenantUsages = usages.filter(usage => usage.organizationId === orgId);
+      return paginate(resources
+        .filter(resource => resource.organizationId === orgId)
+        .map(resource => {
+          const used = tenantUsages.filter(usage => usage.resourceId === resource.id);
+          return {
+            ...resource,
+            usageCount: new Set(used.map(usage => usage.chatId)).size,
+            lastUsedAt: used.map(usage => String(usage.referencedAt)).sort().at(-1),
+          };
+        }), request.query);
+    });
+
+    this.on('POST', '/resources', async (request) => {
+      const orgId = requireTenant(request);
+      const now = new Date().toISOString();
+      return ok(await insertRecord('resources', {
+        ...parseResource(request.body),
+        id: createId(COLLECTIONS.resources),
+        organizationId: orgId,
+        uploadedById: request.auth?.userId ?? '',
+        uploadedAt: now,
+        updatedAt: now,
+      }), 201);
+    }, { permission: 'content:manage' });
+
+    // Validated as the whole saved resource, since the fields a type requires may come from either side
+    const update: RouteHandler = async (request) => {
+      const orgId = requireTenant(request);
+      return ok(await updateRecord('resources', request.params.resourceId, (record) => ({
+        ...parseResource({ ...record, ...parseRecordBody(request.body) }),
+        updatedAt: new Date().toISOString(),
+      }), orgId));
+    };
+    this.on('PUT', '/resources/:resourceId', update, { permission: 'content:manage' });
+    this.on('PATCH', '/resources/:resourceId', update, { permission: 'content:manage' });
+
+    this.on('DELETE', '/resources/:resourceId', async (request) => {
+      const { resourceId } = request.params;
+      const orgId = requireTenant(request);
+      await mockDb.update('resources', (records) => {
+        if (!belongsTo(records.find(r => r.id === resourceId), orgId)) {
+          throw new MockHttpError(404, `resources record ${resourceId} not found`, 'NOT_FOUND');
+        }
+        return { records: records.filter(r => r.id !== resourceId), result: undefined };
+      });
+      await mockDb.update(RESOURCE_USAGES_COLLECTION, (records) => ({
+        records: records.filter(record => record.resourceId !== resourceId),
+        result: undefined,
+      }));
+      return ok({ success: true });
+    }, { permission: 'content:manage' });
+
+    this.on('GET', '/resources/:resourceId/usage', async (request) => {
+      const orgId = requireTenant(request);
+      const { resourceId } = request.params;
+      await findRecord('resources', resourceId, orgId);
+      const [usages, chats] = await Promise.all([
+        mockDb.getCollection(RESOURCE_USAGES_COLLECTION),
+        mockDb.getCollection<Chat & MockRecord>('chats'),
+      ]);
+      return paginate(usages
+        .filter(usage => usage.resourceId === resourceId && usage.organizationId === orgId)
+        .sort((a, b) => String(b.referencedAt).localeCompare(String(a.referencedAt)))
+        .map(usage => {
+          const chat = chats.find(record => record.id === usage.chatId);
+          return {
+            ...usage,
+            chat: chat && { requesterName: chat.requesterName, requesterEmail: chat.requesterEmail, status: chat.status },
+          };
+        }), request.query);
+    });
+
+    // Any signed-in user may record a reference: agents and the assistant cite resources in their replies
+    this.on('POST', '/resources/:resourceId/usage', async (request) => {
+      const orgId = requireTenant(request);
+      const { resourceId } = request.params;
+      const parsed = resourceUsageSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid usage', 'VALIDATION_ERROR');
+      }
+      const { chatId, messageId } = parsed.data;
+      await findRecord('resources', resourceId, orgId);
+      await findRecord('chats', chatId, orgId);
+      if (messageId) {
+        const message = await findRecord('messages', messageId);
+        if (message.chatId !== chatId) {
+          throw new MockHttpError(400, `Message ${messageId} is not part of chat ${chatId}`, 'VALIDATION_ERROR');
+        }
+      }
+      const { usage, created } = await recordResourceUsage({ organizationId: orgId, resourceId, chatId, messageId });
+      return ok(usage, created ? 201 : 200);
+    });
+  }
+
+  private registerSavedReplyRoutes() {
+    const parseReply = (body: unknown, partial: boolean) => {
+      const parsed = (partial ? savedReplySchema.partial() : savedReplySchema).safeParse(body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid saved reply', 'VALIDATION_ERROR');
+      }
+      return parsed.data;
+    };
+    // Anyone may keep personal replies; organization-wide ones are shared content
+    const requireScopePermission = (request: MockRequest, scope: unknown) => {
+      if (scope === 'organization' && !hasPermission(request.auth?.role, 'content:manage')) {
+        throw new MockHttpError(403, 'Your role is not allowed to perform this action (content:manage)', 'FORBIDDEN');
+      }
+    };
+    // Unique among the replies the author sees; another user's personal reply may share a shared reply's shortcut
+    const requireFreeShortcut = (records: MockRecord[], request: MockRequest, orgId: string, reply: MockRecord) => {
+      const taken = records.some(record => record.id !== reply.id
+        && record.organizationId === orgId
+        && record.shortcut === reply.shortcut
+        && isVisibleReply(record, request.auth));
+      if (taken) {
+        throw new MockHttpError(409, `The shortcut /${reply.shortcut} is already in use`, 'DUPLICATE_SHORTCUT');
+      }
+    };
+    // Other users' personal replies are reported as missing
+    const findVisible = (records: MockRecord[], request: MockRequest, orgId: string) => {
+      const { replyId } = request.params;
+      const index = records.findIndex(record => record.id === replyId);
+      if (index === -1 || !belongsTo(records[index], orgId) || !isVisibleReply(records[index], request.auth)) {
+        throw new MockHttpError(404, `saved-replies record ${replyId} not found`, 'NOT_FOUND');
+      }
+      return index;
+    };
+
+    this.on('GET', '/saved-replies', async (request) => {
+      const orgId = requireTenant(request);
+      const replies = await mockDb.getCollection(SAVED_REPLIES_COLLECTION);
+      return paginate(replies
+        .filter(reply => reply.organizationId === orgId && isVisibleReply(reply, request.auth))
+        .sort((a, b) => String(a.shortcut).localeCompare(String(b.shortcut))), request.query);
+    });
+
+    this.on('POST', '/saved-replies', async (request) => {
+      const orgId = requireTenant(request);
+      const fields = parseReply(request.body, false);
+      requireScopePermission(request, fields.scope);
+      const now = new Date().toISOString();
+      const reply = await mockDb.update(SAVED_REPLIES_COLLECTION, (records) => {
+        const created: MockRecord = {
+          ...fields,
+          id: createId('reply'),
+          organizationId: orgId,
+          createdById: request.auth?.userId ?? '',
+          usageCount: 0,
+          createdAt: now,
+          updatedAt: now,
+        };
+        requireFreeShortcut(records, request, orgId, created);
+        return { records: [...records, created], result: created };
+      });
+      return ok(reply, 201);
+    });
+
+    const update: RouteHandler = async (request) => {
+      const orgId = requireTenant(request);
+      const changes = parseReply(request.body, true);
+      return ok(await mockDb.update(SAVED_REPLIES_COLLECTION, (records) => {
+        const index = findVisible(records, request, orgId);
+        const current = records[index];
+        requireScopePermission(request, current.scope);
+        requireScopePermission(request, changes.scope);
+        // A shared reply made personal becomes the editor's
+        const updated: MockRecord = {
+          ...current,
+          ...changes,
+          ...(changes.scope === 'personal' && current.scope === 'organization' && { createdById: request.auth?.userId }),
+          updatedAt: new Date().toISOString(),
+        };
+        requireFreeShortcut(records, request, orgId, updated);
+        records[index] = updated;
+        return { records, result: updated };
+      }));
+    };
+    this.on('PUT', '/saved-replies/:replyId', update);
+    this.on('PATCH', '/saved-replies/:replyId', update);
+
+    this.on('DELETE', '/saved-replies/:replyId', async (request) => {
+      const orgId = requireTenant(request);
+      await mockDb.update(SAVED_REPLIES_COLLECTION, (records) => {
+        const index = findVisible(records, request, orgId);
+        requireScopePermission(request, records[index].scope);
+        return { records: records.filter((_, i) => i !== index), result: undefined };
+      });
+      return ok({ success: true });
+    });
+
+    // Counted when an agent inserts the reply, whether or not the message is sent as is
+    this.on('POST', '/saved-replies/:replyId/use', async (request) => {
+      const orgId = requireTenant(request);
+      return ok(await mockDb.update(SAVED_REPLIES_COLLECTION, (records) => {
+        const index = findVisible(records, request, orgId);
+        const updated = {
+          ...records[index],
+          usageCount: Number(records[index].usageCount ?? 0) + 1,
+          lastUsedAt: new Date().toISOString(),
+        };
+        records[index] = updated;
+        return { records, result: updated as unknown as SavedReply };
+      }));
+    });
+  }
+
+  private registerScraperRoutes() {
+    const parseJob = (body: unknown, partial: boolean) => {
+      const parsed = (partial ? scraperJobSchema.partial() : scraperJobSchema).safeParse(body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid scraper job', 'VALIDATION_ERROR');
+      }
+      return parsed.data;
+    };
+    // Checked on the job as saved, since an update may change only the frequency or only the expression
+    const scheduleOf = (job: ScraperJob) => {
+      if (job.frequency === 'custom' && !job.cronExpression) {
+        throw new MockHttpError(400, 'Enter a cron expression for a custom schedule', 'VALIDATION_ERROR');
+      }
+      return { nextRunAt: getNextRunAt(job) };
+    };
+
+    this.on('POST', '/scraper-jobs', async (request) => {
+      const orgId = requireTenant(request);
+      const now = new Date().toISOString();
+      const fields = parseJob(request.body, false);
+      const job = await insertRecord('scraper-jobs', {
+        ...fields,
+        ...scheduleOf(fields as ScraperJob),
+        id: createId(COLLECTIONS['scraper-jobs']),
+        organizationId: orgId,
+        status: 'pending',
+        createdAt: now,
+        updatedAt: now,
+      });
+      return ok(job, 201);
+    }, { permission: 'content:manage' });
+
+    const update: RouteHandler = async (request) => {
+      const changes = parseJob(request.body, true);
+      return ok(await updateRecord('scraper-jobs', request.params.jobId, (record) => ({
+        ...changes,
+        ...scheduleOf({ ...record, ...changes } as unknown as ScraperJob),
+        updatedAt: new Date().toISOString(),
+      }), requireTenant(request)));
+    };
+    this.on('PUT', '/scraper-jobs/:jobId', update, { permission: 'content:manage' });
+    this.on('PATCH', '/scraper-jobs/:jobId', update, { permission: 'content:manage' });
+
+    this.on('DELETE', '/scraper-jobs/:jobId', async (request) => {
+      const { jobId } = request.params;
+      const orgId = requireTenant(request);
+      await mockDb.update('scraper-jobs', (records) => {
+        if (!belongsTo(records.find(r => r.id === jobId), orgId)) {
+          throw new MockHttpError(404, `scraper-jobs record ${jobId} not found`, 'NOT_FOUND');
+        }
+        return { records: records.filter(r => r.id !== jobId), result: undefined };
+      });
+      for (const collection of [SCRAPER_RUNS_COLLECTION, SCRAPED_PAGES_COLLECTION]) {
+        await mockDb.update(collection, (records) => ({
+          records: records.filter(record => record.jobId !== jobId),
+          result: undefined,
+        }));
+      }
+      await cancelQueuedScrapes(jobId);
+      return ok({ success: true });
+    }, { permission: 'content:manage' });
+
+    this.on('GET', '/scraper-jobs/:jobId/runs', async (request) => {
+      const { jobId } = request.params;
+      await findRecord('scraper-jobs', jobId, requireTenant(request));
+      const runs = await mockDb.getCollection(SCRAPER_RUNS_COLLECTION);
+      return ok(runs
+        .filter(run => run.jobId === jobId)
+        .sort((a, b) => String(b.startedAt).localeCompare(String(a.startedAt))));
+    });
+
+    // Queues a crawl and answers at once; poll the job or its runs for the outcome
+    this.on('POST', '/scraper-jobs/:jobId/run', async (request) => {
+      const orgId = requireTenant(request);
+      // A job still marked running after its crawl was lost can be run again
+      await resetOrphanedScraperJobs();
+      // Marked before the work is queued so the worker's own status change cannot be overwritten
+      const job = await updateRecord('scraper-jobs', request.params.jobId, (record) => {
+        if (record.status === 'running') {
+          throw new MockHttpError(409, 'This job is already running', 'JOB_RUNNING');
+        }
+        return { status: 'queued' };
+      }, orgId) as unknown as ScraperJob;
+      const now = new Date().toISOString();
+      // Two clicks cannot queue two crawls; a queued run or pending retry gives way to this one
+      const task = await mockDb.update(BACKGROUND_JOBS_COLLECTION, (records) => {
+        const active = records.filter(record => isActiveScrape(record, job.id));
+        if (active.some(record => record.status === 'running')) {
+          throw new MockHttpError(409, 'This job is already running', 'JOB_RUNNING');
+        }
+        // Someone is watching a manual run, so it is not retried
+        const created = createBackgroundJob({
+          organizationId: orgId,
+          type: 'scrape',
+          label: job.url,
+          payload: { scraperJobId: job.id, trigger: 'manual' },
+          createdById: request.auth?.userId,
+          maxAttempts: 1,
+        });
+        return {
+          records: [
+            ...records.map(record => active.includes(record) ? { ...record, status: 'cancelled', finishedAt: now } : record),
+            created as unknown as MockRecord,
+          ],
+          result: created,
+        };
+      });
+      void processBackgroundJobs();
+      return ok(task, 202);
+    }, { permission: 'content:manage' });
+
+    // Paused jobs keep their settings and history; pending retries are dropped
+    this.on('POST', '/scraper-jobs/:jobId/pause', async (request) => {
+      const job = await updateRecord('scraper-jobs', request.params.jobId, () => ({
+        paused: true,
+        nextRunAt: undefined,
+        updatedAt: new Date().toISOString(),
+      }), requireTenant(request));
+      await cancelQueuedScrapes(job.id);
+      await restoreScraperStatus(job.id);
+      return ok(await findRecord('scraper-jobs', job.id));
+    }, { permission: 'content:manage' });
+
+    // The next run is the next scheduled slot; runs missed while paused are not made up
+    this.on('POST', '/scraper-jobs/:jobId/resume', async (request) => {
+      return ok(await updateRecord('scraper-jobs', request.params.jobId, (record) => ({
+        paused: false,
+        nextRunAt: getNextRunAt({ ...record, paused: false } as unknown as ScraperJob),
+        updatedAt: new Date().toISOString(),
+      }), requireTenant(request)));
+    }, { permission: 'content:manage' });
+  }
+
+  private registerBackgroundJobRoutes() {
+    this.on('GET', '/background-jobs', async (request) => {
+      const orgId = requireTenant(request);
+      const jobs = await mockDb.getCollection(BACKGROUND_JOBS_COLLECTION);
+      return paginate(jobs
+        .filter(job => job.organizationId === orgId)
+        .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt))), request.query);
+    }, { permission: 'settings:manage' });
+
+    this.on('POST', '/background-jobs', async (request) => {
+      const orgId = requireTenant(request);
+      const parsed = backgroundJobRequestSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid background job', 'VALIDATION_ERROR');
+      }
+      const { type, payload } = parsed.data;
+      const label = type === 'data-export'
+        ? `${payload.collection} as ${payload.format.toUpperCase()}`
+        : 'Chats without a summary';
+      return ok(await enqueueBackgroundJob({
+        organizationId: orgId,
+        type,
+        label,
+        payload,
+        createdById: request.auth?.userId,
+      }), 201);
+    }, { permission: 'settings:manage' });
+
+    // Failed and cancelled jobs start over with a fresh set of attempts
+    this.on('POST', '/background-jobs/:jobId/retry', async (request) => {
+      const job = await updateRecord(BACKGROUND_JOBS_COLLECTION, request.params.jobId, (record) => {
+        if (record.status !== 'failed' && record.status !== 'cancelled') {
+          throw new MockHttpError(409, 'Only failed or cancelled jobs can be retried', 'INVALID_STATE');
+        }
+        return { status: 'queued', attempts: 0, runAt: new Date().toISOString(), error: undefined, finishedAt: undefined };
+      }, requireTenant(request));
+      void processBackgroundJobs();
+      return ok(job);
+    }, { permission: 'settings:manage' });
+
+    this.on('POST', '/background-jobs/:jobId/cancel', async (request) => {
+      const job = await updateRecord(BACKGROUND_JOBS_COLLECTION, request.params.jobId, (record) => {
+        if (record.status !== 'queued') {
+          throw new MockHttpError(409, 'Only queued jobs can be cancelled', 'INVALID_STATE');
+        }
+        return { status: 'cancelled', finishedAt: new Date().toISOString() };
+      }, requireTenant(request)) as unknown as BackgroundJob;
+      await backgroundTasks[job.type].onCancel?.(job).catch(() => undefined);
+      return ok(job);
+    }, { permission: 'settings:manage' });
+
+    this.on('GET', '/background-jobs/:jobId/download', async (request) => {
+      const job = await findRecord(BACKGROUND_JOBS_COLLECTION, request.params.jobId, requireTenant(request));
+      const files = await mockDb.getCollection<ExportFile>(EXPORT_FILES_COLLECTION);
+      const file = files.find(record => record.id === job.id);
+      if (!file) {
+        throw new MockHttpError(404, 'The export file is not available', 'NOT_FOUND');
+      }
+      return new Response(file.content, {
+        status: 200,
+        headers: {
+          'Content-Type': file.mimeType,
+          'Content-Disposition': `attachment; filename="${encodeURIComponent(file.fileName)}"`,
+        },
+      });
+    }, { permission: 'settings:manage' });
+  }
+
+  private registerWidgetRoutes() {
+    this.on('GET', '/widget/settings', async (request) =>
+      ok(await getWidgetSettings(requireTenant(request)))
+    );
+
+    // Edits stay in the draft; customers keep seeing the published configuration
+    this.on('PUT', '/widget/settings/draft', async (request) => {
+      const parsed = widgetConfigSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid widget settings', 'VALIDATION_ERROR');
+      }
+      const draft = parsed.data as WidgetConfig;
+      const current = await getWidgetSettings(requireTenant(request));
+      return ok(await saveWidgetSettings({
+        ...current,
+        draft,
+        hasUnpublishedChanges: diffWidgetConfigs(current.published, draft).length > 0,
+        updatedAt: new Date().toISOString(),
+        updatedById: request.auth?.userId,
+      }));
+    }, { permission: 'settings:manage' });
+
+    this.on('POST', '/widget/settings/publish', async (request) => {
+      const current = await getWidgetSettings(requireTenant(request));
+      if (!current.hasUnpublishedChanges) {
+        throw new MockHttpError(409, 'The draft has no changes to publish', 'NOTHING_TO_PUBLISH');
+      }
+      return ok(await publishWidgetConfig(current, current.draft, request.auth?.userId ?? ''));
+    }, { permission: 'settings:manage' });
+
+    this.on('GET', '/widget/versions', async (request) => {
+      const orgId = requireTenant(request);
+      const versions = await mockDb.getCollection(WIDGET_VERSIONS_COLLECTION);
+      return ok(versions
+        .filter(version => version.organizationId === orgId)
+        .sort((a, b) => Number(b.version) - Number(a.version)));
+    });
+
+    // Publishes an earlier version again as the newest one, so the history only grows; the draft is replaced too
+    this.on('POST', '/widget/versions/:version/rollback', async (request) => {
+      const orgId = requireTenant(request);
+      const number = Number(request.params.version);
+      const versions = await mockDb.getCollection<WidgetConfigVersion & MockRecord>(WIDGET_VERSIONS_COLLECTION);
+      const target = versions.find(version => version.organizationId === orgId && version.version === number);
+      if (!target) {
+        throw new MockHttpError(404, `Version ${request.params.version} not found`, 'NOT_FOUND');
+      }
+      const current = await getWidgetSettings(orgId);
+      if (current.publishedVersion === target.version) {
+        throw new MockHttpError(409, `Version ${target.version} is already live`, 'ALREADY_PUBLISHED');
+      }
+      return ok(await publishWidgetConfig(current, target.config, request.auth?.userId ?? '', target.version));
+    }, { permission: 'settings:manage' });
+
+    // Everything below is called by the widget on a customer's site, without a session
+    this.on('GET', '/widget/:widgetId/config', async (request) => {
+      const settings = await findWidgetSettings(request.params.widgetId);
+      const availability = getBusinessHoursStatus(await getBusinessHours(settings.organizationId));
+      return ok(toPublicWidgetSettings(settings, availability));
+    }, { isPublic: true });
+
+    this.on('POST', '/widget/:widgetId/chats', async (request) => {
+      const settings = await findWidgetSettings(request.params.widgetId);
+      const parsed = widgetChatStartSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid chat request', 'VALIDATION_ERROR');
+      }
+      // While closed the widget only takes messages to answer later, if at all
+      const { isOpen } = getBusinessHoursStatus(await getBusinessHours(settings.organizationId));
+      if (!isOpen && !settings.published.offlineLeadCapture) {
+        throw new MockHttpError(409, "We're closed right now, please come back during opening hours", 'OFFLINE');
+      }
+      const { name, email, phone, message, pageUrl, fields } = parsed.data;
+      const missing = findMissingWidgetFields(settings.published, { name, email, phone }, !isOpen);
+      if (missing.length > 0) {
+        throw new MockHttpError(400, `${WIDGET_USER_FIELD_LABELS[missing[0]]} is required`, 'VALIDATION_ERROR');
+      }
+      const { preChatFields } = settings.published;
+      const preChatError = findPreChatError(preChatFields, fields);
+      if (preChatError) {
+        throw new MockHttpError(400, preChatError, 'VALIDATION_ERROR');
+      }
+
+      const now = new Date().toISOString();
+      const chat = await createChat({
+        id: createId(COLLECTIONS.chats),
+        requesterName: name || 'Visitor',
+        requesterEmail: email,
+        requesterPhone: phone,
+        ipAddress: '',
+        browser: request.headers.get('User-Agent') ?? '',
+        pageUrl: pageUrl ?? '',
+        geo: '',
+        status: 'queued',
+        summary: '',
+        preChatAnswers: buildPreChatAnswers(preChatFields, fields),
+        createdAt: now,
+        lastUpdatedAt: now,
+      }, settings.organizationId);
+      const visitor = await insertRecord<WidgetVisitor>(WIDGET_VISITORS_COLLECTION, {
+        id: chat.id,
+        organizationId: settings.organizationId,
+        widgetId: settings.widgetId,
+        token: createSecret('vt'),
+        createdAt: now,
+      });
+      await insertCustomerMessage(chat, message);
+
+      const session: WidgetChatSession = { chatId: chat.id, visitorToken: visitor.token, status: chat.status as ChatStatus };
+      return ok(session, 201);
+    }, { isPublic: true });
+
+    // The conversation without system notes; polled by the widget while it is open
+    this.on('GET', '/widget/:widgetId/chats/:chatId', async (request) => {
+      const chat = await findVisitorChat(request, await findWidgetSettings(request.params.widgetId));
+      const messages = await mockDb.getCollection('messages');
+      const transcript: WidgetTranscript = {
+        chatId: chat.id,
+        status: chat.status as ChatStatus,
+        messages: messages
+          .filter(message => message.chatId === chat.id && message.senderType !== 'system')
+          .sort((a, b) => String(a.createdAt).localeCompare(String(b.createdAt)))
+          .map(toWidgetMessage),
+      };
+      return ok(transcript);
+    }, { isPublic: true });
+
+    this.on('POST', '/widget/:widgetId/chats/:chatId/messages', async (request) => {
+      const chat = await findVisitorChat(request, await findWidgetSettings(request.params.widgetId));
+      const parsed = widgetMessageSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.issues[0]?.message ?? 'Invalid message', 'VALIDATION_ERROR');
+      }
+      if (!isWidgetChatOpen(chat.status as ChatStatus)) {
+        throw new MockHttpError(409, 'This chat has ended; start a new one to keep talking', 'CHAT_ENDED');
+      }
+      return ok(toWidgetMessage(await insertCustomerMessage(chat, parsed.data.body)), 201);
+    }, { isPublic: true });
+  }
+
+  private registerCollection(collection: string) {
+    const base = `/${collection}`;
+    const permissions = WRITE_PERMISSIONS[collection] ?? {};
+    const tenantOf = (request: MockRequest) =>
+      TENANT_COLLECTIONS.has(collection) ? requireTenant(request) : undefined;
+
+    this.on('GET', base, async (request) => {
+      const orgId = tenantOf(request);
+      const records = await mockDb.getCollection(collection);
+      return paginate(orgId ? records.filter(r => r.organizationId === orgId) : records, request.query);
+    });
+
+    this.on('GET', `${base}/:id`, async (request) =>
+      ok(await findRecord(collection, request.params.id, tenantOf(request)))
+    );
+
+    this.on('POST', base, async (request) => {
+      const orgId = tenantOf(request);
+      const record: MockRecord = {
+        ...createDefaults[collection]?.(),
+        ...writableFields(collection, request.body),
+        ...(orgId && { organizationId: orgId }),
+        id: createId(COLLECTIONS[collection]),
+      };
+      if (collection === 'chats' && orgId) {
+        return ok(await createChat(record, orgId, request.auth?.userId), 201);
+      }
+      return ok(await insertRecord(collection, record), 201);
+    }, { permission: permissions.create });
+
+    const update: RouteHandler = async (request) => {
+      const timestamps = collection === 'chats'
+        ? { lastUpdatedAt: new Date().toISOString() }
+        : {};
+      let previous: MockRecord | undefined;
+      const updated = await updateRecord(
+        collection,
+        request.params.id,
+        (record) => {
+          previous = record;
+          return { ...writableFields(collection, request.body), ...timestamps };
+        },
+        tenantOf(request)
+      );
+      if (collection === 'chats' && previous) publishChatChanges(previous, updated, request.auth?.userId);
+      return ok(updated);
+    };
+    this.on('PUT', `${base}/:id`, update, { permission: permissions.update });
+    this.on('PATCH', `${base}/:id`, update, { permission: permissions.update });
+
+    this.on('DELETE', `${base}/:id`, async (request) => {
+      const { id } = request.params;
+      const orgId = tenantOf(request);
+      await mockDb.update(collection, (records) => {
+        if (!belongsTo(records.find(r => r.id === id), orgId)) {
+          throw new MockHttpError(404, `${collection} record ${id} not found`, 'NOT_FOUND');
+        }
+        return { records: records.filter(r => r.id !== id), result: undefined };
+      });
+      return ok({ success: true });
+    }, { permission: permissions.delete });
+  }
+
+  /**
+   * Persists an event received from the realtime server, as the real backend
+   * would have done before broadcasting it. Events this backend published
+   * itself come back as no-ops.
+   */
+  async ingest(event: RealtimeEvent): Promise<void> {
+    const upsert = async (collection: string, record: MockRecord) => {
+      await mockDb.update(collection, (records) => ({
+        records: records.some(r => r.id === record.id) ? records : [...records, record],
+        result: undefined,
+      }));
+    };
+
+    switch (event.type) {
+      case 'chat.created': {
+        const chats = await mockDb.getCollection('chats');
+        if (chats.some(chat => chat.id === event.chat.id)) break;
+        const chat = { ...event.chat, organizationId: event.orgId };
+        await upsert('chats', { ...chat, customerId: await resolveCustomer(chat, event.orgId) });
+        break;
+      }
+      case 'message.received':
+        await upsert('messages', { ...event.message });
+        await updateRecord('chats', event.message.chatId, () => ({ lastUpdatedAt: event.message.createdAt }))
+          .catch(() => undefined);
+        break;
+      case 'chat.status_changed':
+        await updateRecord('chats', event.chatId, (chat) => {
+          const history = (chat.statusHistory as ChatStatusChange[] | undefined) ?? [];
+          const change = event.change;
+          const isRecorded = !change || history.some(entry => entry.changedAt === change.changedAt && entry.to === change.to);
+          return { status: event.status, statusHistory: isRecorded ? history : [...history, change] };
+        }).catch(() => undefined);
+        break;
+      case 'chat.assigned':
+        await updateRecord('chats', event.chatId, () => ({ assignedAgentId: event.agentId ?? undefined }))
+          .catch(() => undefined);
+        break;
+    }
+  }
+
+  /** Resolves a request the same way `fetch` would against the real API */
+  async handle(endpoint: string, init: RequestInit = {}): Promise<Response> {
+    this.startScheduler();
+    const method = (init.method || 'GET').toUpperCase();
+    const url = new URL(endpoint, 'http://mock.local');
+    const path = url.pathname;
+
+    for (const route of this.routes) {
+      if (route.method !== method) continue;
+      const match = route.pattern.exec(path);
+      if (!match) continue;
+
+      const params: RouteParams = {};
+      route.keys.forEach((key, index) => {
+        params[key] = decodeURIComponent(match[index + 1]);
+      });
+
+      try {
+        const body = typeof init.body === 'string' ? JSON.parse(init.body) : init.body;
+        const headers = new Headers(init.headers);
+        const auth = route.isPublic ? undefined : await authenticate(headers);
+        if (route.permission && !hasPermission(auth?.role, route.permission)) {
+          throw new MockHttpError(403, `Your role is not allowed to perform this action (${route.permission})`, 'FORBIDDEN');
+        }
+
+        return await route.handler({
+          method,
+          path,
+          params,
+          query: url.searchParams,
+          headers,
+          body,
+          auth,
+        });
+      } catch (error) {
+        if (error instanceof MockHttpError) {
+          return json({ message: error.message, code: error.code }, error.status);
+        }
+        logger.error(`Mock backend failed handling ${method} ${path}`, error, 'MockBackend');
+        return json({ message: 'Internal mock backend error', code: 'INTERNAL_ERROR' }, 500);
+      }
+    }
+
+    return json({ message: `No mock route for ${method} ${path}`, code: 'NOT_FOUND' }, 404);
+  }
+}
+
+export const mockBackend = new MockBackend();
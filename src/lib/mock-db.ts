@@ -0,0 +1,138 @@
+/**
+ * IndexedDB storage for the local mock backend
+ * Collections are seeded lazily from the static JSON files in /public/mocks
+ * and written back on every mutation so state survives page reloads.
+ */
+
+import { logger } from './logger';
+
+const DB_NAME = 'agent-hub-mock';
+const DB_VERSION = 1;
+const STORE_NAME = 'collections';
+
+export interface MockRecord {
+  id: string;
+  [key: string]: unknown;
+}
+
+class MockDatabase {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  // Fallback when IndexedDB is unavailable (e.g. some private browsing modes)
+  private memory = new Map<string, MockRecord[]>();
+  // Collections currently being seeded, so concurrent reads share one fetch
+  private seeding = new Map<string, Promise<MockRecord[]>>();
+  // Tail of the pending update chain per collection, so read-modify-write cycles never interleave
+  private locks = new Map<string, Promise<unknown>>();
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        logger.warn('IndexedDB unavailable, mock data will not persist', undefined, 'MockDB');
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        logger.warn('Failed to open IndexedDB, mock data will not persist', request.error, 'MockDB');
+        resolve(null);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  private async read(name: string): Promise<MockRecord[] | undefined> {
+    const db = await this.open();
+    if (!db) return this.memory.get(name);
+
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(name);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async write(name: string, records: MockRecord[]): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memory.set(name, records);
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).put(records, name);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  private async seed(name: string): Promise<MockRecord[]> {
+    let records: MockRecord[] = [];
+    try {
+      const response = await fetch(`/mocks/${name}.json`);
+      if (response.ok) {
+        const body = await response.json();
+        records = Array.isArray(body) ? body : body.data ?? [];
+      }
+    } catch (error) {
+      logger.warn(`No seed data for mock collection "${name}"`, error, 'MockDB');
+    }
+
+    await this.write(name, records);
+    logger.debug(`Seeded mock collection "${name}"`, { count: records.length }, 'MockDB');
+    return records;
+  }
+
+  async getCollection<T extends MockRecord = MockRecord>(name: string): Promise<T[]> {
+    const stored = await this.read(name);
+    if (stored) return stored as T[];
+
+    if (!this.seeding.has(name)) {
+      this.seeding.set(name, this.seed(name).finally(() => this.seeding.delete(name)));
+    }
+    return (await this.seeding.get(name)!) as T[];
+  }
+
+  /**
+   * Applies `mutate` to the current records and persists the result.
+   * Updates to the same collection run one after another.
+   */
+  async update<T extends MockRecord, R>(
+    name: string,
+    mutate: (records: T[]) => { records: T[]; result: R } | Promise<{ records: T[]; result: R }>
+  ): Promise<R> {
+    const previous = this.locks.get(name) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+      const current = await this.getCollection<T>(name);
+      const { records, result } = await mutate([...current]);
+      await this.write(name, records);
+      return result;
+    });
+    this.locks.set(name, next);
+    return next;
+  }
+
+  /** Drops every collection so the next read re-seeds from the static JSON files */
+  async reset(): Promise<void> {
+    this.memory.clear();
+    const db = await this.open();
+    if (!db) return;
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).clear();
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+}
+
+export const mockDb = new MockDatabase();
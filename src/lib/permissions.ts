@@ -0,0 +1,65 @@
+/**
+ * Role-based permission model
+ * Single source of truth for what each role may do. Used by the UI to hide
+ * routes and actions, and by the mock backend to reject forbidden requests.
+ */
+
+import type { User } from '@/types';
+
+export type Role = User['role'];
+
+export type Permission =
+  | 'chats:view'
+  | 'chats:assign'
+  | 'chats:archive'
+  | 'chats:delete'
+  | 'users:view'
+  | 'users:invite'
+  | 'users:update'
+  | 'users:change-role'
+  | 'users:delete'
+  | 'org:view'
+  | 'org:create'
+  | 'org:update'
+  | 'org:delete'
+  | 'settings:manage'
+  | 'security:manage'
+  | 'content:manage'
+  | 'data:reset';
+
+const AGENT_PERMISSIONS: Permission[] = ['chats:view'];
+
+const MANAGER_PERMISSIONS: Permission[] = [
+  ...AGENT_PERMISSIONS,
+  'chats:assign',
+  'chats:archive',
+  'users:view',
+  'users:invite',
+  'users:update',
+  'org:view',
+  'settings:manage',
+  'content:manage',
+];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...MANAGER_PERMISSIONS,
+  'chats:delete',
+  'users:change-role',
+  'users:delete',
+  'org:create',
+  'org:update',
+  'org:delete',
+  'security:manage',
+  'data:reset',
+];
+
+export const rolePermissions: Record<Role, ReadonlySet<Permission>> = {
+  agent: new Set(AGENT_PERMISSIONS),
+  manager: new Set(MANAGER_PERMISSIONS),
+  admin: new Set(ADMIN_PERMISSIONS),
+};
+
+export function hasPermission(role: string | undefined, permission: Permission): boolean {
+  if (!role || !(role in rolePermissions)) return false;
+  return rolePermissions[role as Role].has(permission);
+}
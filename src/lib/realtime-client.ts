@@ -0,0 +1,184 @@
+/**
+ * Realtime event client
+ * Subscribes to the server-sent event stream of the current organization,
+ * reconnects with exponential backoff and keeps track of who is typing.
+ */
+
+import config from './config';
+import { authSession } from './auth-session';
+import { logger } from './logger';
+import type { MessageSenderType, RealtimeEvent } from '@/types';
+
+export type RealtimeStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+export interface Typist {
+  senderType: MessageSenderType;
+  senderId?: string;
+  senderName: string;
+}
+
+type EventListener = (event: RealtimeEvent) => void;
+type ChangeListener = () => void;
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+// Typing indicators disappear if the "stopped typing" event never arrives
+const TYPING_TIMEOUT_MS = 6000;
+
+class RealtimeClient {
+  private source: EventSource | null = null;
+  private orgId: string | null = null;
+  private attempt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private status: RealtimeStatus = 'idle';
+  private listeners = new Set<EventListener>();
+  private statusListeners = new Set<ChangeListener>();
+  private typing = new Map<string, Map<string, { typist: Typist; timer: ReturnType<typeof setTimeout> }>>();
+  private typingSnapshots = new Map<string, Typist[]>();
+  private typingListeners = new Set<ChangeListener>();
+
+  /** Opens the stream for an organization, replacing any existing connection */
+  connect(orgId: string) {
+    if (this.orgId === orgId && this.source) return;
+    this.disconnect();
+    this.orgId = orgId;
+    this.open();
+  }
+
+  disconnect() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.source?.close();
+    this.source = null;
+    this.orgId = null;
+    this.attempt = 0;
+    this.setStatus('idle');
+  }
+
+  private open() {
+    if (!this.orgId) return;
+
+    // EventSource cannot send headers, so the tenant and token travel in the query string
+    const url = new URL('/events', config.realtime.url);
+    url.searchParams.set('orgId', this.orgId);
+    const token = authSession.getTokens()?.accessToken;
+    if (token) url.searchParams.set('token', token);
+
+    this.setStatus(this.attempt === 0 ? 'connecting' : 'reconnecting');
+    const source = new EventSource(url.toString());
+    this.source = source;
+
+    source.onopen = () => {
+      this.attempt = 0;
+      this.setStatus('open');
+      logger.info('Realtime stream connected', { orgId: this.orgId }, 'Realtime');
+    };
+
+    source.onmessage = (message) => {
+      try {
+        this.dispatch(JSON.parse(message.data) as RealtimeEvent);
+      } catch (error) {
+        logger.warn('Ignoring malformed realtime event', { data: message.data, error }, 'Realtime');
+      }
+    };
+
+    source.onerror = () => {
+      // Take over from the browser's fixed-interval retry so we can back off
+      source.close();
+      if (this.source === source) this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    const delay = Math.min(INITIAL_RETRY_DELAY_MS * 2 ** this.attempt, MAX_RETRY_DELAY_MS);
+    // Jitter keeps many tabs from reconnecting in lockstep after an outage
+    const jittered = delay / 2 + Math.random() * (delay / 2);
+    this.attempt += 1;
+    this.setStatus('reconnecting');
+    logger.debug(`Realtime reconnect in ${Math.round(jittered)}ms`, { attempt: this.attempt }, 'Realtime');
+    this.retryTimer = setTimeout(() => this.open(), jittered);
+  }
+
+  private dispatch(event: RealtimeEvent) {
+    if (event.orgId !== this.orgId) return;
+
+    if (event.type === 'typing') {
+      this.updateTyping(event.chatId, event, event.isTyping);
+    } else if (event.type === 'message.received') {
+      // A message from someone means they have stopped typing
+      this.updateTyping(event.message.chatId, event.message, false);
+    }
+
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  /** Broadcasts an event to other subscribers. Best effort: failures are only logged. */
+  async publish(event: RealtimeEvent): Promise<void> {
+    if (!config.features.enableRealTimeUpdates) return;
+    try {
+      await fetch(new URL('/events', config.realtime.url).toString(), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(event),
+      });
+    } catch (error) {
+      logger.debug('Realtime publish failed', { type: event.type, error }, 'Realtime');
+    }
+  }
+
+  subscribe(listener: EventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getStatus(): RealtimeStatus {
+    return this.status;
+  }
+
+  onStatusChange(listener: ChangeListener): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  private setStatus(status: RealtimeStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener());
+  }
+
+  /** People currently typing in a chat. Returns a stable array until it changes. */
+  getTypists(chatId: string): Typist[] {
+    return this.typingSnapshots.get(chatId) ?? EMPTY_TYPISTS;
+  }
+
+  onTypingChange(listener: ChangeListener): () => void {
+    this.typingListeners.add(listener);
+    return () => this.typingListeners.delete(listener);
+  }
+
+  private updateTyping(chatId: string, typist: Typist, isTyping: boolean) {
+    const key = `${typist.senderType}:${typist.senderId ?? typist.senderName}`;
+    const chatTypists = this.typing.get(chatId) ?? new Map();
+    const existing = chatTypists.get(key);
+    if (existing) clearTimeout(existing.timer);
+    if (!isTyping && !existing) return;
+
+    if (isTyping) {
+      const timer = setTimeout(() => this.updateTyping(chatId, typist, false), TYPING_TIMEOUT_MS);
+      chatTypists.set(key, {
+        typist: { senderType: typist.senderType, senderId: typist.senderId, senderName: typist.senderName },
+        timer,
+      });
+    } else {
+      chatTypists.delete(key);
+    }
+
+    this.typing.set(chatId, chatTypists);
+    this.typingSnapshots.set(chatId, [...chatTypists.values()].map(entry => entry.typist));
+    this.typingListeners.forEach(listener => listener());
+  }
+}
+
+const EMPTY_TYPISTS: Typist[] = [];
+
+export const realtimeClient = new RealtimeClient();
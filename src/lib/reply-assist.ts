@@ -0,0 +1,77 @@
+/**
+ * Reply assist
+ * Drafts replies for the agent handling a chat. The customer's latest
+ * messages are searched in the knowledge base, and the model gets the
+ * results in the same numbered form the Retrieval Console shows, followed by
+ * the conversation. Suggestions cite the passages they rely on as `[n]`;
+ * the markers are turned into source links and removed from the text.
+ */
+
+import type { Chat, KnowledgeSearchResult, Message, ReplySuggestion, SuggestionOutcome } from '@/types';
+import type { LLMMessage } from './llm';
+
+export const MAX_SUGGESTIONS = 3;
+
+// Recent turns are enough to answer the current question and keep the prompt small
+const CONVERSATION_MESSAGES = 10;
+const QUERY_MESSAGES = 2;
+const MAX_QUERY_LENGTH = 500;
+
+const byDate = (a: Message, b: Message) => a.createdAt.localeCompare(b.createdAt);
+
+/** What to search the knowledge base for: the customer's last messages; empty when they have not written yet */
+export function buildAssistQuery(messages: Message[]): string {
+  return [...messages]
+    .sort(byDate)
+    .filter(message => message.senderType === 'customer')
+    .slice(-QUERY_MESSAGES)
+    .map(message => message.body.trim())
+    .join(' ')
+    .slice(-MAX_QUERY_LENGTH);
+}
+
+export function buildAssistPrompt(chat: Pick<Chat, 'requesterName'>, messages: Message[], context: string): LLMMessage[] {
+  const instructions = [
+    'You help a support agent reply to a customer. Write a short reply the agent can send as is, in a friendly and professional tone.',
+    `The customer's name is ${chat.requesterName}.`,
+    'Only state facts found in the knowledge below, and cite each passage you use as [n]. If the knowledge does not answer the question, ask the customer for the details you need.',
+    context ? `Knowledge:\n\n${context}` : 'No knowledge matched the conversation.',
+  ].join('\n\n');
+
+  const conversation = [...messages]
+    .sort(byDate)
+    .filter(message => message.senderType !== 'system' && message.body.trim())
+    .slice(-CONVERSATION_MESSAGES)
+    .map((message): LLMMessage => ({
+      role: message.senderType === 'customer' ? 'user' : 'assistant',
+      content: message.body,
+    }));
+
+  return [{ role: 'system', content: instructions }, ...conversation];
+}
+
+/**
+ * Replaces the `[n]` markers of a completion with the cited results, numbered
+ * as in the context; markers outside it are dropped along with their number.
+ */
+export function parseCitations(text: string, contextResults: KnowledgeSearchResult[]): Pick<ReplySuggestion, 'text' | 'sources'> {
+  const cited = new Set<number>();
+  const stripped = text.replace(/\s*\[(\d+)\]/g, (_, number: string) => {
+    cited.add(Number(number));
+    return '';
+  });
+  const sources = [...cited]
+    .filter(number => number >= 1 && number <= contextResults.length)
+    .sort((a, b) => a - b)
+    .map(number => {
+      const { id, sourceType, sourceId, title, url } = contextResults[number - 1];
+      return { id, sourceType, sourceId, title, url };
+    });
+  return { text: stripped.trim(), sources };
+}
+
+/** Whether the message the agent sent is the suggestion as is; whitespace differences do not count as edits */
+export function getSuggestionOutcome(suggestion: string, sent: string): Exclude<SuggestionOutcome, 'rejected'> {
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+  return normalize(suggestion) === normalize(sent) ? 'accepted' : 'edited';
+}
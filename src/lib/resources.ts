@@ -0,0 +1,80 @@
+/**
+ * Resources and the assistant prompt
+ * A resource reaches the model as one block of text: what it is, where to
+ * find it and the instructions written for it. The same function renders the
+ * editor preview, so what an admin sees is what the model gets.
+ */
+
+import type { Resource, ResourceType } from '@/types';
+
+export const RESOURCE_TYPES: ResourceType[] = ['document', 'video', 'link', 'template'];
+
+export const RESOURCE_TYPE_LABELS: Record<ResourceType, string> = {
+  document: 'Document',
+  video: 'Video',
+  link: 'Link',
+  template: 'Template',
+};
+
+// Transcripts can be hours long; the start is usually enough to decide whether to point to the video
+const PROMPT_TRANSCRIPT_CHARS = 2000;
+
+const TEMPLATE_VARIABLE = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+export const TEMPLATE_VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Names of the `{{name}}` placeholders in a template, in order of first use */
+export function extractTemplateVariables(body: string): string[] {
+  return [...new Set([...body.matchAll(TEMPLATE_VARIABLE)].map(match => match[1]))];
+}
+
+/** Fills the placeholders that have a value and leaves the rest as they are */
+export function renderTemplate(body: string, values: Record<string, string>): string {
+  return body.replace(TEMPLATE_VARIABLE, (placeholder, name: string) => values[name] || placeholder);
+}
+
+export function isWebUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+export type ResourcePromptFields = Pick<
+  Resource,
+  'title' | 'type' | 'url' | 'tags' | 'aiInstructions' | 'transcript' | 'templateBody' | 'templateVariables'
+>;
+
+/** The block the assistant's prompt gets for a resource */
+export function buildResourcePrompt(resource: ResourcePromptFields): string {
+  const lines = [`Resource: ${resource.title || 'Untitled'} (${RESOURCE_TYPE_LABELS[resource.type]})`];
+  if (resource.type !== 'template' && resource.url) lines.push(`URL: ${resource.url}`);
+  if (resource.tags.length > 0) lines.push(`Tags: ${resource.tags.join(', ')}`);
+  lines.push(`Instructions: ${resource.aiInstructions.trim() || 'None. Use your judgement.'}`);
+
+  const transcript = resource.type === 'video' ? resource.transcript?.trim() : '';
+  if (transcript) {
+    const excerpt = transcript.length > PROMPT_TRANSCRIPT_CHARS
+      ? `${transcript.slice(0, PROMPT_TRANSCRIPT_CHARS).trimEnd()}…`
+      : transcript;
+    lines.push('Transcript:', excerpt);
+  }
+
+  if (resource.type === 'template' && resource.templateBody?.trim()) {
+    const variables = resource.templateVariables ?? [];
+    if (variables.length > 0) {
+      lines.push('Variables (fill in each {{name}} before sending):');
+      variables.forEach(variable => {
+        const details = [variable.description, variable.defaultValue && `default "${variable.defaultValue}"`]
+          .filter(Boolean)
+          .join('; ');
+        lines.push(`- ${variable.name}${details ? `: ${details}` : ''}`);
+      });
+    }
+    lines.push('Template:', resource.templateBody.trim());
+  }
+
+  return lines.join('\n');
+}
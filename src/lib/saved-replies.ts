@@ -0,0 +1,82 @@
+/**
+ * Saved replies
+ * Canned responses agents insert into the chat composer with a `/shortcut`.
+ * Their `{{customer.firstName}}`-style variables are filled in from the chat
+ * and the signed-in agent when inserted; the agent can still edit the text
+ * before sending it.
+ */
+
+import type { Chat, SavedReply, User } from '@/types';
+
+export interface SavedReplyVariable {
+  name: string;
+  description: string;
+  /** Shown in the editor preview */
+  example: string;
+}
+
+export const SAVED_REPLY_VARIABLES: SavedReplyVariable[] = [
+  { name: 'customer.firstName', description: "Customer's first name", example: 'Jane' },
+  { name: 'customer.lastName', description: "Customer's last name", example: 'Cooper' },
+  { name: 'customer.name', description: "Customer's full name", example: 'Jane Cooper' },
+  { name: 'customer.email', description: "Customer's email address", example: 'jane@example.com' },
+  { name: 'agent.firstName', description: 'Your first name', example: 'Alex' },
+  { name: 'agent.name', description: 'Your full name', example: 'Alex Morgan' },
+  { name: 'agent.pseudonym', description: 'The name you use with customers; your first name if you have none', example: 'Alex M.' },
+];
+
+const VARIABLE = /\{\{\s*([A-Za-z_][\w.]*)\s*\}\}/g;
+
+/** Variables used in a reply that are not in `SAVED_REPLY_VARIABLES` */
+export function findUnknownVariables(body: string): string[] {
+  const known = new Set(SAVED_REPLY_VARIABLES.map(variable => variable.name));
+  return [...new Set([...body.matchAll(VARIABLE)].map(match => match[1]))].filter(name => !known.has(name));
+}
+
+export type SavedReplyValues = Record<string, string>;
+
+export const SAVED_REPLY_EXAMPLE_VALUES: SavedReplyValues = Object.fromEntries(
+  SAVED_REPLY_VARIABLES.map(variable => [variable.name, variable.example])
+);
+
+/** Values for a chat; the customer's name comes from the chat since not every chat has a customer profile */
+export function getSavedReplyValues(
+  chat: Pick<Chat, 'requesterName' | 'requesterEmail'>,
+  agent?: Pick<User, 'firstName' | 'lastName' | 'pseudonym'> | null,
+): SavedReplyValues {
+  const [firstName = '', ...lastNames] = chat.requesterName.trim().split(/\s+/);
+  const agentName = agent ? `${agent.firstName} ${agent.lastName}`.trim() : '';
+  return {
+    'customer.firstName': firstName,
+    'customer.lastName': lastNames.join(' '),
+    'customer.name': chat.requesterName.trim(),
+    'customer.email': chat.requesterEmail,
+    'agent.firstName': agent?.firstName ?? '',
+    'agent.name': agentName,
+    'agent.pseudonym': agent?.pseudonym?.trim() || agent?.firstName || '',
+  };
+}
+
+/** Fills in the variables that have a value; the others stay as placeholders for the agent to complete */
+export function renderSavedReply(body: string, values: SavedReplyValues): string {
+  return body.replace(VARIABLE, (placeholder, name: string) => values[name] || placeholder);
+}
+
+/**
+ * Replies matching what was typed after the slash: shortcuts that start with it
+ * first, then titles and text that contain it; the most used first within each.
+ */
+export function matchSavedReplies(replies: SavedReply[], query: string): SavedReply[] {
+  const search = query.trim().toLowerCase();
+  const rank = (reply: SavedReply) => {
+    if (!search || reply.shortcut.startsWith(search)) return 0;
+    if (reply.title.toLowerCase().includes(search)) return 1;
+    if (reply.body.toLowerCase().includes(search)) return 2;
+    return -1;
+  };
+  return replies
+    .map(reply => ({ reply, rank: rank(reply) }))
+    .filter(({ rank }) => rank >= 0)
+    .sort((a, b) => a.rank - b.rank || b.reply.usageCount - a.reply.usageCount || a.reply.shortcut.localeCompare(b.reply.shortcut))
+    .map(({ reply }) => reply);
+}
@@ -0,0 +1,302 @@
+/**
+ * Website crawler for scraper jobs
+ * Walks a site breadth-first from the job's start URL, honouring link depth,
+ * page limits, include/exclude patterns and robots.txt, and compares the
+ * pages it reads with those of the previous run.
+ */
+
+import type { ScrapedPage, ScraperFrequency, ScraperJob, ScraperRunDiff } from '@/types';
+
+export const SCRAPER_USER_AGENT = 'AgentHubBot';
+
+export const SCRAPER_FREQUENCIES: ScraperFrequency[] = ['manual', 'hourly', 'daily', 'weekly', 'monthly', 'custom'];
+
+export const SCRAPER_FREQUENCY_LABELS: Record<ScraperFrequency, string> = {
+  manual: 'Manual only',
+  hourly: 'Hourly',
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  custom: 'Custom (cron)',
+};
+
+export interface FetchedPage {
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+/** Fetches a URL; rejects only when the request could not be made at all */
+export type PageFetcher = (url: string) => Promise<FetchedPage>;
+
+/** Latest text of a page, kept between runs to detect changes */
+export interface PageContent {
+  url: string;
+  title: string;
+  text: string;
+  contentHash: string;
+}
+
+export interface CrawlResult {
+  pages: ScrapedPage[];
+  contents: PageContent[];
+}
+
+type CrawlOptions = Pick<ScraperJob, 'url' | 'linkDepth' | 'maxPages' | 'includePatterns' | 'excludePatterns' | 'respectRobotsTxt'>;
+
+// robots.txt ------------------------------------------------------------------
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+/** Rules of the group that applies to `userAgent`, falling back to the `*` group */
+export function parseRobotsTxt(text: string, userAgent = SCRAPER_USER_AGENT): RobotsRule[] {
+  const groups = new Map<string, RobotsRule[]>();
+  let agents: string[] = [];
+  let inRules = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (inRules) agents = [];
+      inRules = false;
+      agents.push(value.toLowerCase());
+      if (!groups.has(value.toLowerCase())) groups.set(value.toLowerCase(), []);
+    } else if (field === 'allow' || field === 'disallow') {
+      inRules = true;
+      // An empty Disallow allows everything
+      if (!value) continue;
+      agents.forEach(agent => groups.get(agent)!.push({ allow: field === 'allow', path: value }));
+    }
+  }
+
+  return groups.get(userAgent.toLowerCase()) ?? groups.get('*') ?? [];
+}
+
+function robotsPathPattern(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const source = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`);
+}
+
+/** The longest matching rule wins; Allow wins a tie */
+export function isAllowedByRobots(rules: RobotsRule[], path: string): boolean {
+  let best: RobotsRule | undefined;
+  for (const rule of rules) {
+    if (!robotsPathPattern(rule.path).test(path)) continue;
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
+
+// URL patterns ---------------------------------------------------------------
+
+/** Glob match on the full URL, where `*` matches any run of characters */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  const source = pattern
+    .trim()
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i').test(url);
+}
+
+/** Why a URL should not be fetched, or null when it may be */
+function patternSkipReason(url: string, { includePatterns, excludePatterns }: CrawlOptions): string | null {
+  const exclude = excludePatterns.find(pattern => matchesUrlPattern(url, pattern));
+  if (exclude) return `Matches exclude pattern ${exclude}`;
+  if (includePatterns.length > 0 && !includePatterns.some(pattern => matchesUrlPattern(url, pattern))) {
+    return 'Matches no include pattern';
+  }
+  return null;
+}
+
+// HTML -----------------------------------------------------------------------
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/** Absolute http(s) URLs of the page's links, without fragments */
+export function extractLinks(html: string, baseUrl: string): string[] {
+  const links = new Set<string>();
+  for (const [, href] of html.matchAll(/<a\s[^>]*?href\s*=\s*["']([^"']+)["']/gi)) {
+    try {
+      const url = new URL(decodeHtmlEntities(href), baseUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') continue;
+      url.hash = '';
+      links.add(url.toString());
+    } catch {
+      // Malformed links are ignored
+    }
+  }
+  return [...links];
+}
+
+/** Title and readable text of a page, without scripts, styles and navigation */
+export function extractPageText(html: string): { title: string; text: string } {
+  const title = decodeHtmlEntities(/<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1]?.trim() ?? '');
+  const body = /<body[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html;
+  const text = body
+    .replace(/<(script|style|noscript|nav|header|footer)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<\/?(p|div|section|article|main|li|ul|ol|h[1-6]|br|tr|table|pre|blockquote)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ');
+  return {
+    title,
+    text: decodeHtmlEntities(text)
+      .split('\n')
+      .map(line => line.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n'),
+  };
+}
+
+/** Cheap FNV-1a fingerprint, enough to notice that a page changed */
+export function hashContent(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// Crawl ----------------------------------------------------------------------
+
+/**
+ * Crawls from `url`, following links on the same origin up to `linkDepth`
+ * hops away and fetching at most `maxPages` pages. Every URL considered is
+ * reported once, as fetched, skipped (with the reason) or error.
+ */
+export async function crawlSite(options: CrawlOptions, fetchPage: PageFetcher): Promise<CrawlResult> {
+  const start = new URL(options.url);
+  const pages: ScrapedPage[] = [];
+  const contents: PageContent[] = [];
+  const seen = new Set<string>();
+  const queue: Array<{ url: string; depth: number }> = [{ url: start.toString(), depth: 0 }];
+  let fetchedCount = 0;
+
+  let robotsRules: RobotsRule[] = [];
+  if (options.respectRobotsTxt) {
+    try {
+      const robots = await fetchPage(new URL('/robots.txt', start).toString());
+      if (robots.status === 200) robotsRules = parseRobotsTxt(robots.body);
+    } catch {
+      // A site without a reachable robots.txt may be crawled
+    }
+  }
+
+  const skip = (url: string, depth: number, reason: string) =>
+    pages.push({ url, depth, outcome: 'skipped', reason });
+
+  while (queue.length > 0) {
+    const { url, depth } = queue.shift()!;
+    if (seen.has(url)) continue;
+    seen.add(url);
+
+    const parsed = new URL(url);
+    if (parsed.origin !== start.origin) {
+      skip(url, depth, 'Outside the start site');
+      continue;
+    }
+    // The start URL is always fetched, so patterns only narrow what is followed from it
+    const patternReason = depth > 0 ? patternSkipReason(url, options) : null;
+    if (patternReason) {
+      skip(url, depth, patternReason);
+      continue;
+    }
+    if (!isAllowedByRobots(robotsRules, parsed.pathname + parsed.search)) {
+      skip(url, depth, 'Disallowed by robots.txt');
+      continue;
+    }
+    if (fetchedCount >= options.maxPages) {
+      skip(url, depth, `Page limit of ${options.maxPages} reached`);
+      continue;
+    }
+
+    fetchedCount++;
+    let response: FetchedPage;
+    try {
+      response = await fetchPage(url);
+    } catch (error) {
+      pages.push({ url, depth, outcome: 'error', reason: error instanceof Error ? error.message : 'Request failed' });
+      continue;
+    }
+    if (response.status >= 400) {
+      pages.push({ url, depth, outcome: 'error', statusCode: response.status, reason: `HTTP ${response.status}` });
+      continue;
+    }
+    if (!/text\/html|text\/plain/i.test(response.contentType)) {
+      pages.push({ url, depth, outcome: 'skipped', statusCode: response.status, reason: `Unsupported content type ${response.contentType}` });
+      continue;
+    }
+
+    const isHtml = /text\/html/i.test(response.contentType);
+    const { title, text } = isHtml ? extractPageText(response.body) : { title: url, text: response.body.trim() };
+    contents.push({ url, title: title || url, text, contentHash: hashContent(text) });
+    pages.push({ url, depth, outcome: 'fetched', statusCode: response.status, title: title || url });
+
+    if (isHtml && depth < options.linkDepth) {
+      extractLinks(response.body, url)
+        .filter(link => !seen.has(link))
+        .forEach(link => queue.push({ url: link, depth: depth + 1 }));
+    }
+  }
+
+  return { pages, contents };
+}
+
+// Diff -----------------------------------------------------------------------
+
+// Enough to show what changed without storing whole pages in the run history
+const MAX_DIFF_LINES = 20;
+
+/**
+ * Compares this run's pages with the content kept from earlier runs. Changed
+ * pages list the lines that appeared and disappeared.
+ */
+export function diffCrawl(previous: PageContent[], current: PageContent[]): ScraperRunDiff {
+  const before = new Map(previous.map(page => [page.url, page]));
+  const after = new Map(current.map(page => [page.url, page]));
+
+  const changed = current
+    .filter(page => before.has(page.url) && before.get(page.url)!.contentHash !== page.contentHash)
+    .map(page => {
+      const oldLines = new Set(before.get(page.url)!.text.split('\n'));
+      const newLines = new Set(page.text.split('\n'));
+      return {
+        url: page.url,
+        addedLines: [...newLines].filter(line => !oldLines.has(line)).slice(0, MAX_DIFF_LINES),
+        removedLines: [...oldLines].filter(line => !newLines.has(line)).slice(0, MAX_DIFF_LINES),
+      };
+    });
+
+  return {
+    added: current.filter(page => !before.has(page.url)).map(page => page.url),
+    removed: previous.filter(page => !after.has(page.url)).map(page => page.url),
+    changed,
+    unchangedCount: current.length - changed.length - current.filter(page => !before.has(page.url)).length,
+  };
+}
@@ -4,6 +4,29 @@
  */
 
 import { z } from 'zod';
+import { isValidCron } from './cron';
+import { EXPORT_FORMATS, EXPORTABLE_COLLECTIONS } from './background-jobs';
+import { extractTemplateVariables, isWebUrl, TEMPLATE_VARIABLE_NAME } from './resources';
+import { findUnknownVariables } from './saved-replies';
+import { MAX_SUGGESTIONS } from './reply-assist';
+import { isValidPattern, MAX_PRE_CHAT_FIELDS, WIDGET_USER_FIELDS } from './widget';
+import { isValidTimezone } from './business-hours';
+import { CHAT_STATUSES } from './chat-lifecycle';
+import { MAX_SIMULATED_CHATS, ROUTING_STRATEGIES } from './chat-routing';
+import type { ChatStatus, RoutingStrategy } from '@/types';
+
+// Body of the generic CRUD routes, which take any JSON object
+export const recordBodySchema = z.record(z.unknown());
+
+// Auth validation schemas
+export const loginSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string({ required_error: 'Refresh token is required' }).min(1, 'Refresh token is required'),
+});
 
 // Organization validation schemas
 export const createOrganizationSchema = z.object({
@@ -33,8 +56,428 @@ export const updateUserSchema = z.object({
   onlineStatus: z.enum(['online', 'offline', 'away']).optional(),
 });
 
+// Moving a user between organizations is separate from editing them; null leaves them unassigned
+export const userOrganizationSchema = z.object({
+  organizationId: z.string({ required_error: 'Choose an organization' }).min(1, 'Choose an organization').nullable(),
+});
+
+// Chat validation schemas; the sender of an agent's message is the signed-in user, never the request body
+export const sendMessageSchema = z.object({
+  body: z.string({ required_error: 'Message body is required' }).trim().min(1, 'Message body is required').max(5000, 'At most 5,000 characters'),
+  attachments: z.array(z.object({
+    id: z.string().min(1),
+    fileName: z.string().min(1).max(255),
+    mimeType: z.string().min(1).max(100),
+    sizeKb: z.number().min(0),
+    url: z.string().min(1).max(2000),
+  })).max(10, 'At most 10 attachments').default([]),
+});
+
+// A null agent unassigns the chat
+export const assignChatSchema = z.object({
+  agentId: z.string().min(1, 'Choose an agent').nullable().default(null),
+});
+
+// Whether the transition itself is allowed is checked against the chat's current status
+export const chatTransitionSchema = z.object({
+  to: z.enum(CHAT_STATUSES as [ChatStatus, ...ChatStatus[]], {
+    errorMap: () => ({ message: `Target status must be one of ${CHAT_STATUSES.join(', ')}` }),
+  }),
+  reason: z.string().trim().max(500, 'At most 500 characters').transform(reason => reason || undefined).optional(),
+});
+
+// Customer validation schemas
+export const customerNoteSchema = z.object({
+  body: z.string({ required_error: 'Note body is required' }).trim().min(1, 'Note body is required').max(5000, 'At most 5,000 characters'),
+});
+
+// Routing validation schemas
+const routingStrategySchema = z.enum(ROUTING_STRATEGIES as [RoutingStrategy, ...RoutingStrategy[]], {
+  errorMap: () => ({ message: `Strategy must be one of ${ROUTING_STRATEGIES.join(', ')}` }),
+});
+
+export const routingSettingsSchema = z.object({
+  enabled: z.boolean(),
+  strategy: routingStrategySchema,
+  defaultMaxConcurrentChats: z.coerce.number().int('Must be a whole number')
+    .min(1, 'Allow at least one chat').max(50, 'At most 50 chats'),
+  allowAwayAgents: z.boolean(),
+  deferOutOfHours: z.boolean(),
+});
+
+// Without a strategy the simulation uses the saved one
+export const routingSimulationSchema = z.object({
+  strategy: routingStrategySchema.optional(),
+  sampleSize: z.coerce.number().int('Must be a whole number')
+    .min(0, 'Cannot be negative').max(MAX_SIMULATED_CHATS, `At most ${MAX_SIMULATED_CHATS} sample chats`).default(0),
+});
+
+// Scraper job validation schemas
+const urlPatternList = z.array(z.string().trim().min(1).max(200, 'Patterns are at most 200 characters'))
+  .max(20, 'At most 20 patterns');
+
+export const scraperJobSchema = z.object({
+  url: z.string().trim().url('Enter a full URL, e.g. https://docs.example.com')
+    .refine(url => /^https?:\/\//i.test(url), 'Only http and https URLs can be scraped'),
+  linkDepth: z.coerce.number().int('Must be a whole number').min(0, 'Cannot be negative').max(5, 'At most 5 links deep'),
+  maxPages: z.coerce.number().int('Must be a whole number').min(1, 'Fetch at least one page').max(500, 'At most 500 pages'),
+  includePatterns: urlPatternList,
+  excludePatterns: urlPatternList,
+  respectRobotsTxt: z.boolean(),
+  frequency: z.enum(['manual', 'hourly', 'daily', 'weekly', 'monthly', 'custom']),
+  cronExpression: z.string().trim().max(100, 'At most 100 characters')
+    .refine(value => !value || isValidCron(value), 'Not a valid cron expression, e.g. 0 6 * * 1-5')
+    .optional(),
+});
+
+// The form edits patterns as text, one per line
+const urlPatternLines = z.string()
+  .transform(value => value.split('\n').map(line => line.trim()).filter(Boolean))
+  .pipe(urlPatternList);
+
+export const scraperJobFormSchema = scraperJobSchema.extend({
+  includePatterns: urlPatternLines,
+  excludePatterns: urlPatternLines,
+}).refine(job => job.frequency !== 'custom' || !!job.cronExpression, {
+  message: 'Enter a cron expression for a custom schedule',
+  path: ['cronExpression'],
+});
+
+// Tags are compared case-insensitively, so they are stored lowercase and once each
+const tagList = z.array(z.string().trim().toLowerCase().min(1).max(40, 'Tags are at most 40 characters'))
+  .max(20, 'At most 20 tags')
+  .default([])
+  .transform(tags => [...new Set(tags)]);
+
+// FAQ validation schemas
+export const faqSchema = z.object({
+  question: z.string({ required_error: 'Enter a question' }).trim().min(1, 'Enter a question').max(300, 'At most 300 characters'),
+  answer: z.string({ required_error: 'Enter an answer' }).trim().min(1, 'Enter an answer').max(10000, 'At most 10,000 characters'),
+  category: z.string().trim().max(60, 'At most 60 characters').default('').transform(value => value || 'General'),
+  tags: tagList,
+  status: z.enum(['draft', 'published'], { errorMap: () => ({ message: 'Status must be draft or published' }) })
+    .default('draft'),
+});
+
+export const faqReorderSchema = z.object({
+  category: z.string(),
+  faqIds: z.array(z.string()).min(1),
+});
+
+export const faqImportSchema = z.object({
+  faqs: z.array(faqSchema).min(1, 'The file has no FAQs').max(1000, 'Import at most 1,000 FAQs at a time'),
+});
+
+// Resource validation schemas
+const templateVariableSchema = z.object({
+  name: z.string().trim().regex(TEMPLATE_VARIABLE_NAME, 'Variable names use letters, digits and underscores'),
+  description: z.string().trim().max(200, 'At most 200 characters').default(''),
+  defaultValue: z.string().trim().max(200, 'At most 200 characters').default(''),
+});
+
+// One schema for every type, so the form can switch types without losing what was typed;
+// the fields of other types are dropped from the output
+export const resourceSchema = z.object({
+  title: z.string({ required_error: 'Enter a title' }).trim().min(1, 'Enter a title').max(200, 'At most 200 characters'),
+  type: z.enum(['document', 'video', 'link', 'template'], {
+    errorMap: () => ({ message: 'Type must be document, video, link or template' }),
+  }),
+  url: z.string().trim().max(2000, 'At most 2,000 characters').default(''),
+  tags: tagList,
+  aiInstructions: z.string().trim().max(4000, 'At most 4,000 characters').default(''),
+  transcript: z.string().trim().max(100000, 'At most 100,000 characters').default(''),
+  templateBody: z.string().trim().max(10000, 'At most 10,000 characters').default(''),
+  templateVariables: z.array(templateVariableSchema).max(30, 'At most 30 variables').default([]),
+}).superRefine((resource, ctx) => {
+  if (resource.type === 'document' && !resource.url) {
+    ctx.addIssue({ code: 'custom', path: ['url'], message: 'Enter the file path or address of the document' });
+  }
+  if ((resource.type === 'video' || resource.type === 'link') && !isWebUrl(resource.url)) {
+    ctx.addIssue({ code: 'custom', path: ['url'], message: 'Enter a full address starting with https://' });
+  }
+  if (resource.type !== 'template') return;
+  if (!resource.templateBody) {
+    ctx.addIssue({ code: 'custom', path: ['templateBody'], message: 'Enter the template text' });
+  }
+  const declared = resource.templateVariables.map(variable => variable.name);
+  const duplicate = declared.find((name, index) => declared.indexOf(name) !== index);
+  if (duplicate) {
+    ctx.addIssue({ code: 'custom', path: ['templateVariables'], message: `The variable ${duplicate} is listed twice` });
+  }
+  const undeclared = extractTemplateVariables(resource.templateBody).find(name => !declared.includes(name));
+  if (undeclared) {
+    ctx.addIssue({ code: 'custom', path: ['templateVariables'], message: `Describe the variable {{${undeclared}}} used in the template` });
+  }
+}).transform(({ transcript, templateBody, templateVariables, ...resource }) => ({
+  ...resource,
+  url: resource.type === 'template' ? '' : resource.url,
+  transcript: resource.type === 'video' ? transcript : undefined,
+  templateBody: resource.type === 'template' ? templateBody : undefined,
+  templateVariables: resource.type === 'template' ? templateVariables : undefined,
+}));
+
+export const resourceUsageSchema = z.object({
+  chatId: z.string({ required_error: 'Choose the chat' }).min(1, 'Choose the chat'),
+  messageId: z.string().min(1).optional(),
+});
+
+// Saved reply validation schemas
+export const savedReplySchema = z.object({
+  title: z.string({ required_error: 'Enter a title' }).trim().min(1, 'Enter a title').max(100, 'At most 100 characters'),
+  // Typed after a slash, so a leading one is ignored
+  shortcut: z.string({ required_error: 'Enter a shortcut' }).trim().toLowerCase()
+    .transform(value => value.replace(/^\//, ''))
+    .pipe(z.string()
+      .min(1, 'Enter a shortcut')
+      .max(30, 'At most 30 characters')
+      .regex(/^[a-z0-9][a-z0-9-]*$/, 'Use lowercase letters, digits and hyphens')),
+  body: z.string({ required_error: 'Enter the reply' }).trim().min(1, 'Enter the reply').max(5000, 'At most 5,000 characters')
+    .superRefine((body, ctx) => {
+      const unknown = findUnknownVariables(body)[0];
+      if (unknown) ctx.addIssue({ code: 'custom', message: `Unknown variable {{${unknown}}}` });
+    }),
+  scope: z.enum(['personal', 'organization'], {
+    errorMap: () => ({ message: 'Scope must be personal or organization' }),
+  }).default('personal'),
+});
+
+// Knowledge base search
+export const knowledgeSearchSchema = z.object({
+  query: z.string().trim().min(1, 'Enter a question to search for').max(500, 'At most 500 characters'),
+  sourceTypes: z.array(z.enum(['document', 'faq', 'resource', 'scraped-page'])).optional(),
+  limit: z.coerce.number().int().min(1).max(25).optional(),
+});
+
+// Language model settings; the API key is write-only, and a blank one keeps the saved key for the same provider and endpoint
+export const llmSettingsSchema = z.object({
+  provider: z.enum(['local', 'mock', 'openai', 'anthropic'], {
+    errorMap: () => ({ message: 'Choose a provider' }),
+  }),
+  model: z.string().trim().min(1, 'Choose a model').max(100, 'At most 100 characters'),
+  endpoint: z.string().trim()
+    .refine(url => url === '' || isWebUrl(url), 'Enter an http or https URL, e.g. https://api.example.com/v1')
+    .transform(url => url.replace(/\/+$/, '') || undefined)
+    .optional(),
+  temperature: z.coerce.number().min(0, 'Cannot be negative').max(2, 'At most 2'),
+  maxTokens: z.coerce.number().int('Must be a whole number').min(16, 'At least 16 tokens').max(8192, 'At most 8,192 tokens'),
+  fallbackModel: z.string().trim().max(100, 'At most 100 characters')
+    .transform(model => model || undefined)
+    .optional(),
+  apiKey: z.string().trim().max(500, 'At most 500 characters')
+    .transform(key => key || undefined)
+    .optional(),
+}).superRefine((settings, ctx) => {
+  if (settings.fallbackModel && settings.fallbackModel === settings.model) {
+    ctx.addIssue({ code: 'custom', path: ['fallbackModel'], message: 'Choose a different model than the main one' });
+  }
+});
+
+// Reply assist validation schemas
+export const replySuggestionRequestSchema = z.object({
+  count: z.coerce.number().int().min(1).max(MAX_SUGGESTIONS).default(MAX_SUGGESTIONS),
+});
+
+export const suggestionFeedbackSchema = z.object({
+  outcome: z.enum(['accepted', 'edited', 'rejected'], {
+    errorMap: () => ({ message: 'Outcome must be accepted, edited or rejected' }),
+  }),
+  messageId: z.string().min(1).optional(),
+  finalText: z.string().trim().max(5000, 'At most 5,000 characters').optional(),
+}).superRefine((feedback, ctx) => {
+  if (feedback.outcome === 'edited' && !feedback.finalText) {
+    ctx.addIssue({ code: 'custom', path: ['finalText'], message: 'The edited text is required' });
+  }
+});
+
+// Chat widget configuration, as saved to the draft
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Use a hex color such as #0052CC');
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use a time such as 09:00');
+const minutes = (max: number) => z.coerce.number({ invalid_type_error: 'Enter a number of minutes' })
+  .int('Must be a whole number').min(1, 'At least 1 minute').max(max, `At most ${max} minutes`);
+
+// A custom pre-chat field; settings that do not apply to its type are dropped
+const preChatFieldSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]{1,40}$/i, 'Use letters, digits, dashes and underscores for the field id'),
+  type: z.enum(['text', 'select', 'checkbox', 'consent'], {
+    errorMap: () => ({ message: 'Type must be text, select, checkbox or consent' }),
+  }),
+  label: z.string().trim().min(1, 'Enter a label').max(200, 'At most 200 characters'),
+  required: z.boolean(),
+  placeholder: z.string().trim().max(100, 'At most 100 characters').optional(),
+  // The builder edits options one per line, so blank lines are dropped rather than refused
+  options: z.array(z.string().trim().max(100, 'At most 100 characters'))
+    .transform(options => options.filter(Boolean))
+    .refine(options => options.length <= 20, 'At most 20 options').optional(),
+  validation: z.object({
+    minLength: z.number().int('Must be a whole number').min(0, 'Cannot be negative').max(500, 'At most 500').optional(),
+    maxLength: z.number().int('Must be a whole number').min(1, 'At least 1').max(500, 'At most 500').optional(),
+    pattern: z.string().max(200, 'At most 200 characters').refine(isValidPattern, 'Not a valid regular expression').optional(),
+    patternMessage: z.string().trim().max(200, 'At most 200 characters').optional(),
+  }).optional(),
+}).superRefine((field, ctx) => {
+  if (field.type === 'select') {
+    const options = field.options ?? [];
+    if (options.length < 2) ctx.addIssue({ code: 'custom', path: ['options'], message: 'Add at least two options' });
+    if (new Set(options).size !== options.length) {
+      ctx.addIssue({ code: 'custom', path: ['options'], message: 'Options must be different from each other' });
+    }
+  }
+  const { minLength, maxLength } = field.validation ?? {};
+  if (field.type === 'text' && minLength !== undefined && maxLength !== undefined && minLength > maxLength) {
+    ctx.addIssue({ code: 'custom', path: ['validation', 'maxLength'], message: 'Cannot be less than the minimum length' });
+  }
+}).transform(({ placeholder, options, validation, ...field }) => ({
+  ...field,
+  ...(field.type === 'text' || field.type === 'select' ? { placeholder: placeholder || undefined } : {}),
+  ...(field.type === 'select' ? { options } : {}),
+  ...(field.type === 'text' ? { validation } : {}),
+}));
+
+export const widgetConfigSchema = z.object({
+  primaryColor: hexColor,
+  secondaryColor: hexColor,
+  highlightColor: hexColor,
+  position: z.enum(['bottom-right', 'bottom-left'], {
+    errorMap: () => ({ message: 'Position must be bottom-right or bottom-left' }),
+  }),
+  headerText: z.string().trim().min(1, 'Enter the header text').max(60, 'At most 60 characters'),
+  subHeaderText: z.string().trim().max(100, 'At most 100 characters'),
+  minimizedText: z.string().trim().min(1, 'Enter the button text').max(40, 'At most 40 characters'),
+  welcomeMessage: z.string().trim().max(500, 'At most 500 characters'),
+  autoOpen: z.boolean(),
+  aiName: z.string().trim().min(1, 'Enter a name').max(50, 'At most 50 characters'),
+  tone: z.enum(['friendly', 'professional', 'casual', 'formal'], {
+    errorMap: () => ({ message: 'Tone must be friendly, professional, casual or formal' }),
+  }),
+  customPrompt: z.string().trim().max(4000, 'At most 4,000 characters'),
+  sessionTimeout: minutes(1440),
+  idleTimeout: minutes(240),
+  anonymous: z.boolean(),
+  // Kept in form order so the same choice always compares equal
+  requiredFields: z.array(z.enum(['name', 'email', 'phone']))
+    .transform(fields => WIDGET_USER_FIELDS.filter(field => fields.includes(field))),
+  preChatFields: z.array(preChatFieldSchema).max(MAX_PRE_CHAT_FIELDS, `At most ${MAX_PRE_CHAT_FIELDS} custom fields`)
+    .superRefine((fields, ctx) => {
+      const ids = new Set<string>();
+      fields.forEach((field, index) => {
+        if (ids.has(field.id)) ctx.addIssue({ code: 'custom', path: [index, 'id'], message: 'Another field has this id' });
+        ids.add(field.id);
+      });
+    }),
+  enableCalls: z.boolean(),
+  enableVoicemails: z.boolean(),
+  offlineMessage: z.string().trim().min(1, 'Enter the offline message').max(500, 'At most 500 characters'),
+  offlineLeadCapture: z.boolean(),
+}).superRefine((config, ctx) => {
+  if (config.idleTimeout > config.sessionTimeout) {
+    ctx.addIssue({ code: 'custom', path: ['idleTimeout'], message: 'Cannot be longer than the session timeout' });
+  }
+});
+
+// Business hours; times are in the schedule's timezone
+const calendarDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Pick a date');
+const dayHoursSchema = z.object({
+  isOpen: z.boolean(),
+  start: timeOfDay,
+  end: timeOfDay,
+}).refine(hours => !hours.isOpen || hours.start < hours.end, { path: ['end'], message: 'Closing time must be after opening time' });
+
+export const businessHoursSchema = z.object({
+  enabled: z.boolean(),
+  timezone: z.string().refine(isValidTimezone, 'Pick a valid timezone'),
+  weekly: z.object({
+    monday: dayHoursSchema,
+    tuesday: dayHoursSchema,
+    wednesday: dayHoursSchema,
+    thursday: dayHoursSchema,
+    friday: dayHoursSchema,
+    saturday: dayHoursSchema,
+    sunday: dayHoursSchema,
+  }),
+  holidays: z.array(z.object({
+    date: calendarDate,
+    name: z.string().trim().min(1, 'Name the holiday').max(80, 'At most 80 characters'),
+  })).max(100, 'At most 100 holidays'),
+  exceptions: z.array(z.object({
+    date: calendarDate,
+    name: z.string().trim().min(1, 'Say what the exception is for').max(80, 'At most 80 characters'),
+    isOpen: z.boolean(),
+    start: timeOfDay,
+    end: timeOfDay,
+  }).refine(hours => !hours.isOpen || hours.start < hours.end, { path: ['end'], message: 'Closing time must be after opening time' }))
+    .max(100, 'At most 100 exceptions'),
+}).superRefine((schedule, ctx) => {
+  // A date can only have one special rule
+  const seen = new Set<string>();
+  const entries = [
+    ...schedule.holidays.map((entry, index) => ({ date: entry.date, path: ['holidays', index, 'date'] })),
+    ...schedule.exceptions.map((entry, index) => ({ date: entry.date, path: ['exceptions', index, 'date'] })),
+  ];
+  for (const { date, path } of entries) {
+    if (seen.has(date)) ctx.addIssue({ code: 'custom', path, message: 'This date already has a holiday or exception' });
+    seen.add(date);
+  }
+});
+
+// Chat widget; sent by visitors, so every field is checked again by the backend
+export const widgetChatStartSchema = z.object({
+  name: z.string().trim().max(100, 'At most 100 characters').default(''),
+  email: z.string().trim()
+    .refine(email => email === '' || z.string().email().safeParse(email).success, 'Enter a valid email address')
+    .default(''),
+  phone: z.string().trim()
+    .refine(phone => phone === '' || /^\+?[\d\s().-]{7,20}$/.test(phone), 'Enter a valid phone number')
+    .default(''),
+  message: z.string({ required_error: 'Write your message' }).trim().min(1, 'Write your message').max(2000, 'At most 2,000 characters'),
+  pageUrl: z.string().max(2000).optional(),
+  // Answers to the custom pre-chat fields by field id; checked against the published fields by the backend
+  fields: z.record(z.union([z.string().trim().max(500, 'At most 500 characters'), z.boolean()])).default({}),
+});
+
+export const widgetMessageSchema = z.object({
+  body: z.string({ required_error: 'Write your message' }).trim().min(1, 'Write your message').max(2000, 'At most 2,000 characters'),
+});
+
+// Background work started from the jobs page; scrapes and re-indexes have their own routes
+export const backgroundJobRequestSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('summary-generation'),
+    payload: z.object({}).default({}),
+  }),
+  z.object({
+    type: z.literal('data-export'),
+    payload: z.object({
+      collection: z.enum(EXPORTABLE_COLLECTIONS),
+      format: z.enum(EXPORT_FORMATS),
+    }),
+  }),
+]);
+
 // Type exports
+export type LoginInput = z.infer<typeof loginSchema>;
 export type CreateOrganizationInput = z.infer<typeof createOrganizationSchema>;
 export type UpdateOrganizationInput = z.infer<typeof updateOrganizationSchema>;
 export type InviteUserInput = z.infer<typeof inviteUserSchema>;
-export type UpdateUserInput = z.infer<typeof updateUserSchema>;
\ No newline at end of file
+export type UpdateUserInput = z.infer<typeof updateUserSchema>;
+export type UserOrganizationInput = z.infer<typeof userOrganizationSchema>;
+export type SendMessageInput = z.input<typeof sendMessageSchema>;
+export type RoutingSettingsInput = z.infer<typeof routingSettingsSchema>;
+export type ScraperJobInput = z.infer<typeof scraperJobSchema>;
+export type ScraperJobFormValues = z.input<typeof scraperJobFormSchema>;
+export type BackgroundJobRequest = z.infer<typeof backgroundJobRequestSchema>;
+export type FAQInput = z.infer<typeof faqSchema>;
+export type FAQFormValues = z.input<typeof faqSchema>;
+export type KnowledgeSearchInput = z.infer<typeof knowledgeSearchSchema>;
+export type ResourceInput = z.infer<typeof resourceSchema>;
+export type ResourceFormValues = z.input<typeof resourceSchema>;
+export type ResourceUsageInput = z.infer<typeof resourceUsageSchema>;
+export type SavedReplyInput = z.infer<typeof savedReplySchema>;
+export type SavedReplyFormValues = z.input<typeof savedReplySchema>;
+export type LLMSettingsInput = z.infer<typeof llmSettingsSchema>;
+export type LLMSettingsFormValues = z.input<typeof llmSettingsSchema>;
+export type ReplySuggestionRequest = z.input<typeof replySuggestionRequestSchema>;
+export type SuggestionFeedbackInput = z.infer<typeof suggestionFeedbackSchema>;
+export type WidgetConfigInput = z.infer<typeof widgetConfigSchema>;
+export type BusinessHoursInput = z.infer<typeof businessHoursSchema>;
+export type WidgetChatStartInput = z.input<typeof widgetChatStartSchema>;
+export type WidgetMessageInput = z.infer<typeof widgetMessageSchema>;
@@ -0,0 +1,325 @@
+/**
+ * Chat widget
+ * Configuration of the customer-facing widget and the rules the widget and
+ * the backend share: which details a visitor has to give before chatting, how
+ * their answers to custom pre-chat fields are checked, and what the widget may
+ * show of the organization. Admins edit a draft; customers
+ * only see what was published.
+ */
+
+import type {
+  BusinessHoursStatus,
+  ChatStatus,
+  MessageSenderType,
+  PreChatAnswer,
+  PreChatField,
+  PreChatFieldType,
+  PublicWidgetSettings,
+  WidgetConfig,
+  WidgetConfigChange,
+  WidgetMessage,
+  WidgetSettings,
+  WidgetTone,
+  WidgetUserField,
+} from '@/types';
+
+export const WIDGET_USER_FIELDS: WidgetUserField[] = ['name', 'email', 'phone'];
+
+export const WIDGET_USER_FIELD_LABELS: Record<WidgetUserField, string> = {
+  name: 'Name',
+  email: 'Email',
+  phone: 'Mobile',
+};
+
+/** Sent with the widget's chat requests in place of a bearer token */
+export const VISITOR_TOKEN_HEADER = 'X-Visitor-Token';
+
+// Visitors can keep writing until an agent ends the chat
+const OPEN_CHAT_STATUSES: ChatStatus[] = ['queued', 'active', 'on-hold'];
+
+export function isWidgetChatOpen(status: ChatStatus): boolean {
+  return OPEN_CHAT_STATUSES.includes(status);
+}
+
+/** Every organization has a widget, so the id is derived rather than assigned */
+export function getWidgetId(orgId: string): string {
+  return `wgt_${orgId}`;
+}
+
+/** The organization a widget id was derived from; undefined for ids that were not */
+export function getWidgetOrgId(widgetId: string): string | undefined {
+  return widgetId.startsWith('wgt_') ? widgetId.slice(4) || undefined : undefined;
+}
+
+/** The script tag customers paste into their site; it loads the published configuration of `widgetId` */
+export function buildWidgetEmbedSnippet(widgetId: string, scriptUrl: string): string {
+  return `<script>
+  (function() {
+    var script = document.createElement('script');
+    script.src = '${scriptUrl}';
+    script.async = true;
+    script.setAttribute('data-widget-id', '${widgetId}');
+    document.head.appendChild(script);
+  })();
+</script>`;
+}
+
+export const DEFAULT_WIDGET_CONFIG: WidgetConfig = {
+  primaryColor: '#0052CC',
+  secondaryColor: '#17A2B8',
+  highlightColor: '#FFC107',
+  position: 'bottom-right',
+  headerText: 'Customer Support',
+  subHeaderText: "We're here to help",
+  minimizedText: 'Chat with us',
+  welcomeMessage: 'Hello! How can I help you today?',
+  autoOpen: false,
+  aiName: 'Assistant',
+  tone: 'friendly',
+  customPrompt: '',
+  sessionTimeout: 30,
+  idleTimeout: 10,
+  anonymous: false,
+  requiredFields: ['name', 'email'],
+  preChatFields: [],
+  enableCalls: true,
+  enableVoicemails: true,
+  offlineMessage: "We're away right now. Leave a message and we'll get back to you by email.",
+  offlineLeadCapture: true,
+};
+
+/** Settings of an organization that has not configured its widget: the defaults, live and unchanged */
+export function createDefaultWidgetSettings(orgId: string): WidgetSettings {
+  return {
+    id: orgId,
+    organizationId: orgId,
+    widgetId: getWidgetId(orgId),
+    draft: DEFAULT_WIDGET_CONFIG,
+    published: DEFAULT_WIDGET_CONFIG,
+    publishedVersion: 0,
+    hasUnpublishedChanges: false,
+    updatedAt: new Date(0).toISOString(),
+  };
+}
+
+export function toPublicWidgetSettings(
+  { widgetId, published }: WidgetSettings,
+  availability: BusinessHoursStatus
+): PublicWidgetSettings {
+  const {
+    primaryColor, secondaryColor, highlightColor, position, headerText, subHeaderText,
+    minimizedText, welcomeMessage, autoOpen, anonymous, requiredFields, preChatFields, offlineMessage,
+    offlineLeadCapture,
+  } = published;
+  return {
+    widgetId, primaryColor, secondaryColor, highlightColor, position, headerText, subHeaderText,
+    minimizedText, welcomeMessage, autoOpen, anonymous, requiredFields, preChatFields, offlineMessage,
+    offlineLeadCapture, availability,
+  };
+}
+
+export const WIDGET_CONFIG_LABELS: Record<keyof WidgetConfig, string> = {
+  primaryColor: 'Primary color',
+  secondaryColor: 'Secondary color',
+  highlightColor: 'Highlight color',
+  position: 'Button position',
+  headerText: 'Header text',
+  subHeaderText: 'Subheader text',
+  minimizedText: 'Minimized text',
+  welcomeMessage: 'Welcome message',
+  autoOpen: 'Auto-open',
+  aiName: 'Assistant name',
+  tone: 'Tone',
+  customPrompt: 'Custom prompt',
+  sessionTimeout: 'Session timeout',
+  idleTimeout: 'Idle timeout',
+  anonymous: 'Anonymous chat',
+  requiredFields: 'Required fields',
+  preChatFields: 'Pre-chat form',
+  enableCalls: 'Voice calls',
+  enableVoicemails: 'Voicemails',
+  offlineMessage: 'Offline message',
+  offlineLeadCapture: 'Offline lead capture',
+};
+
+function formatConfigValue(field: keyof WidgetConfig, config: WidgetConfig): string {
+  const value = config[field];
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  if (field === 'sessionTimeout' || field === 'idleTimeout') return `${value} min`;
+  if (field === 'requiredFields') {
+    return config.requiredFields.map(name => WIDGET_USER_FIELD_LABELS[name]).join(', ') || 'None';
+  }
+  if (field === 'preChatFields') {
+    return config.preChatFields
+      .map(({ label, type, required }) => `${label} (${PRE_CHAT_FIELD_TYPE_LABELS[type]}${required ? ', required' : ''})`)
+      .join('; ') || 'None';
+  }
+  return String(value) || '(empty)';
+}
+
+/** Fields whose values differ, in form order, with the values as shown to admins */
+export function diffWidgetConfigs(before: WidgetConfig, after: WidgetConfig): WidgetConfigChange[] {
+  return (Object.keys(WIDGET_CONFIG_LABELS) as (keyof WidgetConfig)[])
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({
+      field,
+      label: WIDGET_CONFIG_LABELS[field],
+      before: formatConfigValue(field, before),
+      after: formatConfigValue(field, after),
+    }));
+}
+
+// Nobody answers out of hours, so a lead left then needs an email to reply to
+const OFFLINE_REQUIRED_FIELDS: WidgetUserField[] = ['name', 'email'];
+
+/**
+ * Fields the visitor must fill in: none when the widget allows anonymous
+ * chats, but always a name and email for a message left while support is closed
+ */
+export function getRequiredWidgetFields(
+  settings: Pick<PublicWidgetSettings, 'anonymous' | 'requiredFields'>,
+  offline = false
+): WidgetUserField[] {
+  return WIDGET_USER_FIELDS.filter(field =>
+    (offline && OFFLINE_REQUIRED_FIELDS.includes(field)) || (!settings.anonymous && settings.requiredFields.includes(field))
+  );
+}
+
+/** Required fields the visitor left blank */
+export function findMissingWidgetFields(
+  settings: Pick<PublicWidgetSettings, 'anonymous' | 'requiredFields'>,
+  visitor: Partial<Record<WidgetUserField, string>>,
+  offline = false
+): WidgetUserField[] {
+  return getRequiredWidgetFields(settings, offline).filter(field => !visitor[field]?.trim());
+}
+
+export const PRE_CHAT_FIELD_TYPES: PreChatFieldType[] = ['text', 'select', 'checkbox', 'consent'];
+
+export const PRE_CHAT_FIELD_TYPE_LABELS: Record<PreChatFieldType, string> = {
+  text: 'Text',
+  select: 'Dropdown',
+  checkbox: 'Checkbox',
+  consent: 'Consent',
+};
+
+// Keeps the form short enough to fit in the widget
+export const MAX_PRE_CHAT_FIELDS = 10;
+
+/** Answers to the custom pre-chat fields, keyed by field id */
+export type PreChatValues = Record<string, string | boolean>;
+
+const isTickBox = (type: PreChatFieldType) => type === 'checkbox' || type === 'consent';
+
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** A new field of `type` with an id none of `existing` uses */
+export function createPreChatField(type: PreChatFieldType, existing: PreChatField[]): PreChatField {
+  const ids = new Set(existing.map(field => field.id));
+  let number = existing.length + 1;
+  while (ids.has(`field_${number}`)) number++;
+  const id = `field_${number}`;
+  switch (type) {
+    case 'select':
+      return { id, type, label: 'Topic', required: false, options: ['Sales', 'Support'] };
+    case 'checkbox':
+      return { id, type, label: 'Send me product updates', required: false };
+    case 'consent':
+      return { id, type, label: 'I agree to the privacy policy', required: true };
+    default:
+      return { id, type, label: 'Question', required: false };
+  }
+}
+
+/** Why the visitor's answer to `field` is not accepted, or undefined when it is */
+export function validatePreChatAnswer(field: PreChatField, value: string | boolean | undefined): string | undefined {
+  if (isTickBox(field.type)) {
+    if (!field.required || value === true) return undefined;
+    return field.type === 'consent' ? 'Please agree before starting the chat' : `Tick "${field.label}" to continue`;
+  }
+
+  const answer = typeof value === 'string' ? value.trim() : '';
+  if (!answer) return field.required ? `${field.label} is required` : undefined;
+  if (field.type === 'select') {
+    return field.options?.includes(answer) ? undefined : `Pick one of the options for ${field.label}`;
+  }
+
+  const { minLength, maxLength, pattern, patternMessage } = field.validation ?? {};
+  if (minLength !== undefined && answer.length < minLength) return `${field.label} needs at least ${minLength} characters`;
+  if (maxLength !== undefined && answer.length > maxLength) return `${field.label} can have at most ${maxLength} characters`;
+  // The pattern has to match the whole answer, not just part of it
+  if (pattern && !new RegExp(`^(?:${pattern})$`).test(answer)) {
+    return patternMessage || `${field.label} is not in the expected format`;
+  }
+  return undefined;
+}
+
+/** The first problem with the visitor's answers, in form order */
+export function findPreChatError(fields: PreChatField[], values: PreChatValues): string | undefined {
+  for (const field of fields) {
+    const error = validatePreChatAnswer(field, values[field.id]);
+    if (error) return error;
+  }
+  return undefined;
+}
+
+/** The answers to store on the chat; blank optional text and dropdown fields are left out */
+export function buildPreChatAnswers(fields: PreChatField[], values: PreChatValues): PreChatAnswer[] {
+  return fields.flatMap(({ id, label, type }): PreChatAnswer[] => {
+    const value = values[id];
+    if (isTickBox(type)) return [{ fieldId: id, label, type, value: value === true }];
+    const answer = typeof value === 'string' ? value.trim() : '';
+    return answer ? [{ fieldId: id, label, type, value: answer }] : [];
+  });
+}
+
+export function formatPreChatAnswer({ type, value }: PreChatAnswer): string {
+  if (typeof value === 'string') return value;
+  if (type === 'consent') return value ? 'Agreed' : 'Not agreed';
+  return value ? 'Yes' : 'No';
+}
+
+// The assistant's lines in the sample conversation, one pair per tone
+const SAMPLE_REPLIES: Record<WidgetTone, [string, string]> = {
+  friendly: [
+    "Oh no, sorry to hear that! Could you share your order number so I can take a look?",
+    "Thanks! Good news: it's out for delivery and should reach you tomorrow. Anything else I can help with?",
+  ],
+  professional: [
+    "I'm sorry for the delay. Could you please provide your order number so I can check its status?",
+    'Thank you. Your order is out for delivery and is expected to arrive tomorrow. Is there anything else I can assist you with?',
+  ],
+  casual: [
+    "Ah, that's annoying! What's your order number? I'll check.",
+    "Got it. It's out for delivery, should be with you tomorrow. Anything else?",
+  ],
+  formal: [
+    'Please accept our apologies for the delay. Would you kindly provide your order number so that we may review its status?',
+    'Thank you. We are pleased to confirm that your order is out for delivery and expected to arrive tomorrow. May we assist you further?',
+  ],
+};
+
+/** A short scripted exchange between a visitor and the assistant, so admins can judge the widget before publishing */
+export function buildSampleConversation({ aiName, tone }: Pick<WidgetConfig, 'aiName' | 'tone'>): WidgetMessage[] {
+  const [firstReply, secondReply] = SAMPLE_REPLIES[tone];
+  const lines: [MessageSenderType, string][] = [
+    ['customer', "Hi, I ordered a laptop last week and it hasn't arrived yet."],
+    ['ai', firstReply],
+    ['customer', "It's #48213."],
+    ['ai', secondReply],
+  ];
+  return lines.map(([senderType, body], index) => ({
+    id: `sample_${index}`,
+    senderType,
+    senderName: senderType === 'customer' ? 'Visitor' : aiName,
+    body,
+    createdAt: new Date(0).toISOString(),
+  }));
+}
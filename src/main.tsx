@@ -5,7 +5,7 @@ import { QueryProvider } from './components/ui/QueryProvider';
 import { ErrorBoundary } from './components/common/ErrorBoundary';
 import './index.css';
 
-// Static Mock Status Component (for development)
+// Mock Backend Status Component (for development)
 function MockStatus() {
   if (!import.meta.env.DEV) return null;
   
@@ -22,14 +22,14 @@ function MockStatus() {
       zIndex: 9999,
       fontFamily: 'monospace'
     }}>
-      📁 Static Mocks Active
+      📁 Local Mock Backend Active
     </div>
   );
 }
 
 // Render React app
 function renderApp() {
-  console.log('🚀 Rendering React application with static mocks');
+  console.log('🚀 Rendering React application with local mock backend');
   ReactDOM.createRoot(
     document.getElementById('root')!
   ).render(
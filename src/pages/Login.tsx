@@ -1,11 +1,13 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Navigate, useLocation, useNavigate, type Location } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import config from "@/lib/config";
 
 export default function Login() {
   const [formData, setFormData] = useState({
@@ -14,7 +16,12 @@ export default function Login() {
   });
   const [isLoading, setIsLoading] = useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
+  const { login, isAuthenticated } = useAuth();
+  // Send the user back to the page that bounced them here
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}` : '/dashboard';
 
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
@@ -24,20 +31,24 @@ export default function Login() {
     e.preventDefault();
     setIsLoading(true);
 
-    // Mock authentication delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    try {
+      const user = await login(formData);
 
-    // Store mock JWT
-    localStorage.setItem('auth_token', 'mock-jwt-token');
-    localStorage.setItem('user_id', 'user_001');
-    
-    toast({
-      title: "Login Successful",
-      description: "Welcome back!",
-    });
+      toast({
+        title: "Login Successful",
+        description: `Welcome back, ${user.firstName}!`,
+      });
 
-    navigate('/dashboard');
-    setIsLoading(false);
+      navigate(redirectTo, { replace: true });
+    } catch (error) {
+      toast({
+        title: "Login Failed",
+        description: error instanceof Error ? error.message : "Unable to sign in",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   const handleGoogleLogin = () => {
@@ -47,6 +58,10 @@ export default function Login() {
     });
   };
 
+  if (isAuthenticated) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background">
       <Card className="w-full max-w-md">
@@ -85,6 +100,12 @@ export default function Login() {
             </Button>
           </form>
 
+          {config.mock.enabled && (
+            <p className="text-xs text-muted-foreground text-center">
+              Mock mode: sign in as any seeded user (e.g. alice@techcorp.com) with password "{config.mock.demoPassword}"
+            </p>
+          )}
+
           <div className="relative">
             <div className="absolute inset-0 flex items-center">
               <Separator className="w-full" />
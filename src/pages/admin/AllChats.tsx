@@ -1,7 +1,7 @@
 import { useState, useMemo, useEffect, useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
@@ -9,15 +9,20 @@ import { EnhancedDataTable } from "@/components/common/EnhancedDataTable";
 import { ChatPanel } from "@/components/admin/ChatPanel";
 import { ChatFilters, ChatFilters as ChatFiltersType } from "@/components/admin/ChatFilters";
 import { ChatPagination } from "@/components/admin/ChatPagination";
+import { ChatStatusBadge } from "@/components/admin/ChatStatusBadge";
 import { AgentAssignmentModal } from "@/components/admin/AgentAssignmentModal";
 import { ErrorBoundary } from "@/components/common/ErrorBoundary";
-import { Chat } from "@/types";
-import { useChats, useUsers } from "@/hooks/useApiQuery";
+import { RealtimeStatusBadge } from "@/components/common/RealtimeStatusBadge";
+import { Chat, ChatStatus } from "@/types";
+import { useChat, useChats, useDeleteChat, useTransitionChat, useUsers } from "@/hooks/useApiQuery";
 import { useFeatureFlag } from "@/hooks/useFeatureFlag";
+import { usePermission } from "@/hooks/usePermission";
+import { useTenant } from "@/contexts/TenantContext";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "@/hooks/use-toast";
 import { performanceMonitor } from "@/lib/performance-monitor";
-import { MoreHorizontal, UserPlus, MessageSquareX, XCircle, Trash2, MapPin, Archive } from "lucide-react";
+import { canTransition, CHAT_STATUSES, CHAT_STATUS_LABELS } from "@/lib/chat-lifecycle";
+import { MoreHorizontal, UserPlus, MessageSquareX, XCircle, Trash2, MapPin, Archive, Moon } from "lucide-react";
 import { isWithinInterval, parseISO } from "date-fns";
 
 const chatColumns = [
@@ -53,13 +58,14 @@ const chatColumns = [
     key: "status", 
     header: "Status",
     cell: (chat: Chat) => (
-      <span className={`capitalize ${
-        chat.status === 'active' ? 'text-green-600 font-medium' :
-        chat.status === 'missed' ? 'text-red-600 font-medium' : 
-        'text-gray-600 font-medium'
-      }`}>
-        {chat.status}
-      </span>
+      <div className="flex items-center gap-1">
+        <ChatStatusBadge status={chat.status} />
+        {chat.outOfHours && (
+          <span title="Started out of hours" aria-label="Started out of hours">
+            <Moon className="h-3 w-3 text-muted-foreground" />
+          </span>
+        )}
+      </div>
     ),
     sortable: true
   },
@@ -80,8 +86,40 @@ const chatColumns = [
   }
 ];
 
+// Archived chats only show up in their own tab
+const CHAT_TABS: Array<"all" | ChatStatus> = ["all", ...CHAT_STATUSES];
+
 export default function AllChats() {
   const [selectedChat, setSelectedChat] = useState<Chat | null>(null);
+  const { orgId } = useTenant();
+
+  // An open chat belongs to the previous organization once the tenant changes
+  useEffect(() => {
+    setSelectedChat(null);
+  }, [orgId]);
+
+  // Links such as /chats/all?chat=chat_001 open that chat straight away
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedChatId = searchParams.get("chat") ?? "";
+  const { data: linkedChatResponse } = useChat(linkedChatId);
+  useEffect(() => {
+    if (linkedChatResponse?.data) setSelectedChat(linkedChatResponse.data);
+  }, [linkedChatResponse]);
+
+  const closeChat = useCallback(() => {
+    setSelectedChat(null);
+    setSearchParams(prev => {
+      if (!prev.has("chat")) return prev;
+      const next = new URLSearchParams(prev);
+      next.delete("chat");
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+  const canArchiveChats = usePermission('chats:archive');
+  const canDeleteChats = usePermission('chats:delete');
+  const canAssignChats = usePermission('chats:assign');
+  const transitionChat = useTransitionChat();
+  const deleteChat = useDeleteChat();
   const [activeTab, setActiveTab] = useState("all");
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(25);
@@ -95,6 +133,7 @@ export default function AllChats() {
     search: '',
     status: '',
     agent: '',
+    hours: '',
     dateRange: { from: undefined, to: undefined }
   });
   
@@ -112,6 +151,8 @@ export default function AllChats() {
   // Data processing - always call
   const chats = chatsResponse?.data || [];
   const users = usersResponse?.data || [];
+  // Prefer the cached copy so realtime updates reach the open panel
+  const activeChat = selectedChat && (chats.find(chat => chat.id === selectedChat.id) ?? selectedChat);
 
   // Memoized filtered chats for performance - always call
   const filteredChats = useMemo(() => {
@@ -120,9 +161,9 @@ export default function AllChats() {
     let result = chats;
 
     // Filter by tab
-    if (activeTab !== "all") {
-      result = result.filter(chat => chat.status === activeTab);
-    }
+    result = activeTab === "all"
+      ? result.filter(chat => chat.status !== "archived")
+      : result.filter(chat => chat.status === activeTab);
 
     // Apply additional filters
     if (filters.search) {
@@ -134,7 +175,7 @@ export default function AllChats() {
       );
     }
 
-    if (filters.status && filters.status !== activeTab) {
+    if (filters.status && filters.status !== "all" && filters.status !== activeTab) {
       result = result.filter(chat => chat.status === filters.status);
     }
 
@@ -146,6 +187,12 @@ export default function AllChats() {
       }
     }
 
+    if (filters.hours === "out-of-hours") {
+      result = result.filter(chat => chat.outOfHours);
+    } else if (filters.hours === "in-hours") {
+      result = result.filter(chat => !chat.outOfHours);
+    }
+
     if (filters.dateRange.from) {
       result = result.filter(chat => {
         const chatDate = parseISO(chat.createdAt);
@@ -172,12 +219,15 @@ export default function AllChats() {
   const totalPages = Math.ceil(filteredChats.length / pageSize);
 
   // Memoized status counts - always call
-  const statusCounts = useMemo(() => ({
-    all: chats.length,
-    active: chats.filter(chat => chat.status === "active").length,
-    missed: chats.filter(chat => chat.status === "missed").length,
-    closed: chats.filter(chat => chat.status === "closed").length
-  }), [chats]);
+  const statusCounts = useMemo(() => {
+    const counts = { all: 0 } as Record<"all" | ChatStatus, number>;
+    CHAT_STATUSES.forEach(status => { counts[status] = 0; });
+    chats.forEach(chat => {
+      counts[chat.status] = (counts[chat.status] ?? 0) + 1;
+      if (chat.status !== "archived") counts.all += 1;
+    });
+    return counts;
+  }, [chats]);
 
   // All useEffect hooks - always call in same order
   // Show refetch toast for real-time updates
@@ -190,24 +240,6 @@ export default function AllChats() {
     }
   }, [isRefetching, enableRealTimeUpdates]);
 
-  // Simulate new chat assignments
-  useEffect(() => {
-    if (!enableRealTimeUpdates) return;
-    
-    const interval = setInterval(() => {
-      // Simulate random new chat assignment
-      if (Math.random() > 0.95) {
-        toast({
-          title: "New chat assigned",
-          description: "A new customer chat has been assigned to you",
-          variant: "default"
-        });
-      }
-    }, 10000); // Check every 10 seconds
-
-    return () => clearInterval(interval);
-  }, [enableRealTimeUpdates]);
-
   // Error handling toast
   useEffect(() => {
     if (error && chats.length > 0) {
@@ -247,35 +279,82 @@ export default function AllChats() {
     setAssignmentModal({ isOpen: true, chat });
   }, []);
 
-  const handleAgentAssigned = useCallback((chatId: string, agentId: string) => {
-    // In a real app, this would update the chat via API
-    toast({
-      title: "Success",
-      description: "Agent assigned successfully",
-    });
-  }, []);
-
   const handleCancelChat = useCallback(async (chat: Chat) => {
+    await transitionChat.mutateAsync({ chat, to: "closed", reason: "Cancelled by agent" });
     toast({
       title: "Chat Cancelled",
       description: `Chat with ${chat.requesterName} has been cancelled`,
     });
-  }, []);
+  }, [transitionChat]);
 
   const handleCloseChat = useCallback(async (chat: Chat) => {
+    await transitionChat.mutateAsync({ chat, to: "closed" });
     toast({
       title: "Chat Closed",
       description: `Chat with ${chat.requesterName} has been closed`,
     });
-  }, []);
+  }, [transitionChat]);
 
   const handleDeleteChat = useCallback(async (chat: Chat) => {
+    await deleteChat.mutateAsync(chat.id);
+    if (selectedChat?.id === chat.id) closeChat();
     toast({
       title: "Chat Deleted",
       description: `Chat with ${chat.requesterName} has been deleted`,
       variant: "destructive"
     });
-  }, []);
+  }, [deleteChat, selectedChat, closeChat]);
+
+  // Errors are reported by the mutation hooks; the row actions only need to swallow them
+  const runChatAction = (action: (chat: Chat) => Promise<void>, chat: Chat) => {
+    action(chat).catch(() => undefined);
+  };
+
+  const actionsColumn = {
+    key: "id" as const,
+    header: "",
+    cell: (_value: unknown, chat: Chat) => (
+      <div onClick={(event) => event.stopPropagation()}>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" className="h-8 w-8 p-0">
+              <MoreHorizontal className="h-4 w-4" />
+              <span className="sr-only">Open menu</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {canAssignChats && (
+              <DropdownMenuItem onClick={() => handleAssignAgent(chat)}>
+                <UserPlus className="mr-2 h-4 w-4" />
+                Assign Agent
+              </DropdownMenuItem>
+            )}
+            {chat.status === "queued" && (
+              <DropdownMenuItem onClick={() => runChatAction(handleCancelChat, chat)}>
+                <MessageSquareX className="mr-2 h-4 w-4" />
+                Cancel Chat
+              </DropdownMenuItem>
+            )}
+            {chat.status !== "queued" && canTransition(chat.status, "closed") && (
+              <DropdownMenuItem onClick={() => runChatAction(handleCloseChat, chat)}>
+                <XCircle className="mr-2 h-4 w-4" />
+                Close Chat
+              </DropdownMenuItem>
+            )}
+            {canDeleteChats && (
+              <DropdownMenuItem
+                onClick={() => runChatAction(handleDeleteChat, chat)}
+                className="text-destructive"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete Chat
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    ),
+  };
 
   const bulkActions = [
     {
@@ -283,9 +362,17 @@ export default function AllChats() {
       label: "Archive Selected",
       icon: <Archive className="h-4 w-4" />,
       onClick: async (selectedChats: Chat[]) => {
+        // Only finished chats can be archived; open ones are left alone
+        const archivable = selectedChats.filter(chat => canTransition(chat.status, "archived"));
+        const results = await Promise.allSettled(
+          archivable.map(chat => transitionChat.mutateAsync({ chat, to: "archived" }))
+        );
+        const archived = results.filter(result => result.status === "fulfilled").length;
         toast({
           title: "Chats Archived",
-          description: `${selectedChats.length} chats have been archived`,
+          description: archived === selectedChats.length
+            ? `${archived} chats have been archived`
+            : `${archived} of ${selectedChats.length} chats archived; open chats must be closed first`,
         });
       }
     },
@@ -295,14 +382,18 @@ export default function AllChats() {
       icon: <Trash2 className="h-4 w-4" />,
       variant: "destructive" as const,
       onClick: async (selectedChats: Chat[]) => {
+        const results = await Promise.allSettled(
+          selectedChats.map(chat => deleteChat.mutateAsync(chat.id))
+        );
+        const deleted = results.filter(result => result.status === "fulfilled").length;
         toast({
           title: "Chats Deleted",
-          description: `${selectedChats.length} chats have been deleted`,
+          description: `${deleted} chats have been deleted`,
           variant: "destructive"
         });
       }
     }
-  ];
+  ].filter(action => action.id === "delete" ? canDeleteChats : canArchiveChats);
 
   // Handle loading state in render return
   if (isLoading) {
@@ -338,14 +429,13 @@ export default function AllChats() {
 
         <Tabs value={activeTab} onValueChange={setActiveTab}>
           <TabsList>
-            <TabsTrigger value="all">All Chats ({statusCounts.all})</TabsTrigger>
-            <TabsTrigger value="active">Active ({statusCounts.active})</TabsTrigger>
-            <TabsTrigger value="missed">Missed ({statusCounts.missed})</TabsTrigger>
-            <TabsTrigger value="closed">Closed ({statusCounts.closed})</TabsTrigger>
+            {CHAT_TABS.map(tab => (
+              <TabsTrigger key={tab} value={tab}>
+                {tab === "all" ? "All Chats" : CHAT_STATUS_LABELS[tab]} ({statusCounts[tab]})
+              </TabsTrigger>
+            ))}
             {enableRealTimeUpdates && (
-              <Badge variant="outline" className="ml-2">
-                {isRefetching ? "Updating..." : "Live"}
-              </Badge>
+              <RealtimeStatusBadge className="ml-2" isUpdating={isRefetching} />
             )}
           </TabsList>
 
@@ -354,9 +444,9 @@ export default function AllChats() {
               <CardHeader>
                 <CardTitle className="flex items-center justify-between">
                   <span>
-                    {activeTab === "all" ? "All Conversations" : 
-                     activeTab === "active" ? "Active Chats" :
-                     activeTab === "missed" ? "Missed Chats" : "Closed Chats"}
+                    {activeTab === "all"
+                      ? "All Conversations"
+                      : `${CHAT_STATUS_LABELS[activeTab as ChatStatus]} Chats`}
                   </span>
                   <span className="text-sm font-normal text-muted-foreground">
                     {filteredChats.length} total
@@ -366,13 +456,14 @@ export default function AllChats() {
               <CardContent>
                 <EnhancedDataTable
                   data={paginatedChats}
-                  columns={chatColumns.map(col => ({
-                    ...col,
-                    cell: col.cell ? (chat: Chat) => col.cell(chat, users) : undefined
-                  }))}
+                  columns={[
+                    ...chatColumns.map(col => ({
+                      ...col,
+                      cell: col.cell ? (_value: unknown, chat: Chat) => col.cell(chat, users) : undefined
+                    })),
+                    actionsColumn,
+                  ]}
                   onRowClick={setSelectedChat}
-                  onEdit={(chat) => setSelectedChat(chat)}
-                  onView={(chat) => setSelectedChat(chat)}
                   loading={isLoading}
                   emptyState={{
                     title: "No chats found",
@@ -401,14 +492,14 @@ export default function AllChats() {
         </Tabs>
 
         {/* Chat Details Drawer */}
-        <Sheet open={!!selectedChat} onOpenChange={() => setSelectedChat(null)}>
+        <Sheet open={!!selectedChat} onOpenChange={closeChat}>
           <SheetContent className="w-2/3 max-w-[66vw] overflow-y-auto">
             <SheetHeader>
               <SheetTitle>Chat Details</SheetTitle>
             </SheetHeader>
-            {selectedChat && (
+            {activeChat && (
               <ErrorBoundary>
-                <ChatPanel key={selectedChat.id} chat={selectedChat} />
+                <ChatPanel key={activeChat.id} chat={activeChat} />
               </ErrorBoundary>
             )}
           </SheetContent>
@@ -419,7 +510,6 @@ export default function AllChats() {
           isOpen={assignmentModal.isOpen}
           onClose={() => setAssignmentModal({ isOpen: false, chat: null })}
           chat={assignmentModal.chat}
-          onAssign={handleAgentAssigned}
         />
       </div>
     </ErrorBoundary>
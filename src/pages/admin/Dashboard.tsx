@@ -1,15 +1,19 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { useHealthCheck } from "@/hooks/useApiQuery";
+import { useHealthCheck, useResetMockData } from "@/hooks/useApiQuery";
 import { useFeatureFlags } from "@/hooks/useFeatureFlag";
+import { usePermission } from "@/hooks/usePermission";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { CheckCircle, XCircle, AlertTriangle, RefreshCw, Wrench } from "lucide-react";
+import { isMockEnabled } from "@/lib/config";
+import { CheckCircle, XCircle, AlertTriangle, RefreshCw, Wrench, DatabaseBackup } from "lucide-react";
 import { useState } from "react";
 
 export default function Dashboard() {
   const { data: healthData, isLoading: healthLoading, error: healthError, refetch } = useHealthCheck();
   const featureFlags = useFeatureFlags();
+  const resetMockData = useResetMockData();
+  const canResetData = usePermission('data:reset');
   const [isRefreshing, setIsRefreshing] = useState(false);
   
   const enabledFeatures = Object.entries(featureFlags)
@@ -97,10 +101,24 @@ export default function Dashboard() {
                 )}
               </div>
               
-              {import.meta.env.DEV && (
-                <div className="text-xs text-muted-foreground">
-                  <Badge variant="outline" className="mr-2">Development Mode</Badge>
-                  Static Mock Data: Active
+              {isMockEnabled() && (
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <div>
+                    <Badge variant="outline" className="mr-2">Development Mode</Badge>
+                    Local Mock Backend: Active (changes are stored in this browser)
+                  </div>
+                  {canResetData && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => resetMockData.mutate()}
+                      disabled={resetMockData.isPending}
+                      className="flex items-center gap-2"
+                    >
+                      <DatabaseBackup className="h-4 w-4" />
+                      {resetMockData.isPending ? 'Resetting...' : 'Reset mock data'}
+                    </Button>
+                  )}
                 </div>
               )}
             </div>
@@ -0,0 +1,171 @@
+import { Link, useParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ErrorBoundary } from "@/components/common/ErrorBoundary";
+import { ChatStatusBadge } from "@/components/admin/ChatStatusBadge";
+import { useEngagement, useEngagementChats, useUsers } from "@/hooks/useApiQuery";
+import { ArrowLeft, Bot, ExternalLink, Mail, MapPin, Phone } from "lucide-react";
+
+export default function EngagementDetail() {
+  const { engagementId = "" } = useParams();
+  const { data: engagementResponse, isLoading, error } = useEngagement(engagementId);
+  const { data: chatsResponse, isLoading: chatsLoading } = useEngagementChats(engagementId);
+  const { data: usersResponse } = useUsers();
+
+  const engagement = engagementResponse?.data;
+  const chats = chatsResponse?.data || [];
+  const users = usersResponse?.data || [];
+
+  const agentName = (agentId?: string) => {
+    if (!agentId) return "Unassigned";
+    const agent = users.find(user => user.id === agentId);
+    return agent ? `${agent.firstName} ${agent.lastName}` : agentId;
+  };
+
+  const backLink = (
+    <Button variant="ghost" size="sm" asChild>
+      <Link to="/chats/history">
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Engagement History
+      </Link>
+    </Button>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !engagement) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="font-medium">Customer not found</p>
+            <p className="text-sm text-muted-foreground">
+              This customer does not exist in the selected organization.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <ErrorBoundary>
+      <div className="space-y-6">
+        {backLink}
+
+        <div>
+          <h1 className="text-3xl font-bold">{engagement.customerName}</h1>
+          <div className="flex flex-wrap items-center gap-4 text-muted-foreground mt-1">
+            <span className="flex items-center gap-1">
+              <Mail className="h-4 w-4" />
+              {engagement.customerEmail}
+            </span>
+            {engagement.contactNumber && (
+              <span className="flex items-center gap-1">
+                <Phone className="h-4 w-4" />
+                {engagement.contactNumber}
+              </span>
+            )}
+          </div>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-3">
+          <Card className="md:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Bot className="h-4 w-4" />
+                AI Summary
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm">{engagement.aiSummary || "No summary available yet."}</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Overview</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Engagements</span>
+                <span className="font-medium">{engagement.engagementCount}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Last contact</span>
+                <span className="font-medium">{new Date(engagement.lastEngagedAt).toLocaleDateString()}</span>
+              </div>
+              <div className="space-y-2">
+                <span className="text-muted-foreground">Agents involved</span>
+                <div className="flex flex-wrap gap-1">
+                  {engagement.agentsInvolved.map(agentId => (
+                    <Badge key={agentId} variant="secondary">{agentName(agentId)}</Badge>
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Conversations ({chats.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {chatsLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : chats.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No chats with this customer are on record.
+              </p>
+            ) : (
+              <ol className="relative border-l pl-6 space-y-6">
+                {chats.map(chat => (
+                  <li key={chat.id} className="relative">
+                    <span className="absolute -left-[1.95rem] top-1.5 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{new Date(chat.createdAt).toLocaleString()}</span>
+                          <ChatStatusBadge status={chat.status} />
+                        </div>
+                        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                          <span>Agent: {agentName(chat.assignedAgentId)}</span>
+                          <span className="flex items-center gap-1">
+                            <MapPin className="h-3 w-3" />
+                            {chat.geo}
+                          </span>
+                          <span className="truncate max-w-64" title={chat.pageUrl}>{chat.pageUrl}</span>
+                        </div>
+                      </div>
+                      <Button variant="outline" size="sm" asChild>
+                        <Link to={`/chats/all?chat=${chat.id}`}>
+                          Open chat
+                          <ExternalLink className="ml-2 h-3 w-3" />
+                        </Link>
+                      </Button>
+                    </div>
+                    {chat.summary && (
+                      <p className="text-sm text-muted-foreground mt-2">{chat.summary}</p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </ErrorBoundary>
+  );
+}
@@ -1,49 +1,118 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { DataTable, Column } from "@/components/admin/DataTable";
-
-interface Engagement {
-  id: string;
-  customerName: string;
-  customerEmail: string;
-  engagementCount: number;
-  lastEngagedAt: string;
-  agentsInvolved: string[];
-}
+import { Skeleton } from "@/components/ui/skeleton";
+import { EnhancedDataTable, Column } from "@/components/common/EnhancedDataTable";
+import { SearchInput } from "@/components/common/SearchInput";
+import { ErrorBoundary } from "@/components/common/ErrorBoundary";
+import { ChatPagination } from "@/components/admin/ChatPagination";
+import { useEngagements, useUsers } from "@/hooks/useApiQuery";
+import { Engagement, User } from "@/types";
+import { formatDistanceToNow, parseISO } from "date-fns";
 
-const engagementColumns: Column<Engagement>[] = [
+const engagementColumns = (users: User[]): Column<Engagement>[] => [
   { key: "customerName", header: "Customer" },
   { key: "customerEmail", header: "Email" },
+  { key: "contactNumber", header: "Phone", hideOnMobile: true },
   { key: "engagementCount", header: "Engagements" },
-  { key: "lastEngagedAt", header: "Last Contact" },
-  { key: "agentsInvolved", header: "Agents", cell: (value) => value.length },
+  {
+    key: "lastEngagedAt",
+    header: "Last Contact",
+    cell: (value: string) => formatDistanceToNow(parseISO(value), { addSuffix: true }),
+  },
+  {
+    key: "agentsInvolved",
+    header: "Agents",
+    hideOnMobile: true,
+    cell: (value: string[]) => value
+      .map(agentId => {
+        const agent = users.find(user => user.id === agentId);
+        return agent ? `${agent.firstName} ${agent.lastName}` : agentId;
+      })
+      .join(", "),
+  },
 ];
 
 export default function EngagementHistory() {
+  const navigate = useNavigate();
+  const [search, setSearch] = useState("");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageSize, setPageSize] = useState(25);
+
+  const { data: engagementsResponse, isLoading, isFetching } = useEngagements({
+    page: currentPage,
+    limit: pageSize,
+    search: search || undefined,
+  });
+  const { data: usersResponse } = useUsers();
+
+  const engagements = engagementsResponse?.data || [];
+  const users = usersResponse?.data || [];
+  const pagination = engagementsResponse?.pagination;
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value);
+    setCurrentPage(1);
+  };
+
+  const handlePageSizeChange = (size: number) => {
+    setPageSize(size);
+    setCurrentPage(1);
+  };
+
   return (
-    <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold">Engagement History</h1>
-        <p className="text-muted-foreground">
-          Review customer interaction history and AI summaries
-        </p>
-      </div>
+    <ErrorBoundary>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Engagement History</h1>
+          <p className="text-muted-foreground">
+            Review customer interaction history and AI summaries
+          </p>
+        </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Coming Soon: Engagement History</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-center py-8">
-            <p className="text-muted-foreground mb-6">
-              Engagement tracking and analytics features will be available soon.
-            </p>
-            <DataTable 
-              data={[]} 
-              columns={engagementColumns}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Customers</CardTitle>
+            <SearchInput
+              value={search}
+              onChange={handleSearchChange}
+              placeholder="Search by name, email or phone..."
+              className="w-72"
             />
-          </div>
-        </CardContent>
-      </Card>
-    </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-64 w-full" />
+            ) : (
+              <>
+                <EnhancedDataTable
+                  data={engagements}
+                  columns={engagementColumns(users)}
+                  onRowClick={(engagement) => navigate(`/chats/history/${engagement.id}`)}
+                  loading={isFetching && engagements.length === 0}
+                  emptyState={{
+                    title: search ? "No customers match your search" : "No engagements yet",
+                    description: search
+                      ? "Try a different name, email address or phone number."
+                      : "Customers appear here after their first chat.",
+                    illustration: "users",
+                  }}
+                />
+                {pagination && pagination.total > 0 && (
+                  <ChatPagination
+                    currentPage={pagination.page}
+                    totalPages={pagination.totalPages}
+                    pageSize={pageSize}
+                    totalItems={pagination.total}
+                    onPageChange={setCurrentPage}
+                    onPageSizeChange={handlePageSizeChange}
+                  />
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </ErrorBoundary>
   );
-}
\ No newline at end of file
+}
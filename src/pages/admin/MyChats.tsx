@@ -1,4 +1,4 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -7,16 +7,19 @@ import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/co
 import { EnhancedDataTable } from "@/components/common/EnhancedDataTable";
 import { ChatFilters } from "@/components/admin/ChatFilters";
 import { ChatPanel } from "@/components/admin/ChatPanel";
+import { ChatStatusBadge } from "@/components/admin/ChatStatusBadge";
 import { ErrorBoundary } from "@/components/common/ErrorBoundary";
-import { Chat } from "@/types";
+import { RealtimeStatusBadge } from "@/components/common/RealtimeStatusBadge";
+import { Chat, ChatStatus } from "@/types";
 import { useChats, useUsers } from "@/hooks/useApiQuery";
 import { useFeatureFlag } from "@/hooks/useFeatureFlag";
+import { useAuth } from "@/hooks/useAuth";
+import { useTenant } from "@/contexts/TenantContext";
+import { CHAT_STATUS_LABELS } from "@/lib/chat-lifecycle";
 import { Skeleton } from "@/components/ui/skeleton";
 import { MapPin, Filter } from "lucide-react";
 import { isWithinInterval, parseISO } from "date-fns";
 
-const currentUserId = "user_002"; // Mock current user ID
-
 const chatColumns = [
   { 
     key: "requesterName", 
@@ -61,15 +64,7 @@ const chatColumns = [
   { 
     key: "status", 
     header: "Status",
-    cell: (chat: Chat) => (
-      <span className={`capitalize ${
-        chat.status === 'active' ? 'text-green-600 font-medium' :
-        chat.status === 'missed' ? 'text-red-600 font-medium' : 
-        'text-gray-600 font-medium'
-      }`}>
-        {chat.status}
-      </span>
-    ),
+    cell: (chat: Chat) => <ChatStatusBadge status={chat.status} />,
     sortable: true
   },
   { 
@@ -80,35 +75,47 @@ const chatColumns = [
   }
 ];
 
+const MY_CHAT_TABS: Array<"all" | ChatStatus> = ["all", "active", "on-hold", "missed", "closed"];
+
 export default function MyChats() {
   const [selectedChat, setSelectedChat] = useState<Chat | null>(null);
+  const { orgId } = useTenant();
+
+  // An open chat belongs to the previous organization once the tenant changes
+  useEffect(() => {
+    setSelectedChat(null);
+  }, [orgId]);
   const [activeTab, setActiveTab] = useState("all");
   const [filters, setFilters] = useState({
     search: '',
     status: 'all',
     agent: 'all',
+    hours: 'all',
     dateRange: { from: undefined as Date | undefined, to: undefined as Date | undefined }
   });
   const [filtersCollapsed, setFiltersCollapsed] = useState(true);
 
   const enableRealTimeUpdates = useFeatureFlag('realTime');
+  const { user } = useAuth();
   const { data: chatsResponse, isLoading } = useChats();
   const { data: usersResponse } = useUsers();
   
   const allChats = chatsResponse?.data || [];
   const users = usersResponse?.data || [];
+  // Prefer the cached copy so realtime updates reach the open panel
+  const activeChat = selectedChat && (allChats.find(chat => chat.id === selectedChat.id) ?? selectedChat);
   
   // Filter to only show chats assigned to current user
-  const userChats = allChats.filter(chat => chat.assignedAgentId === currentUserId);
+  const userChats = allChats.filter(chat => chat.assignedAgentId === user?.id);
 
   // Apply filters and active tab
   const filteredChats = useMemo(() => {
     let filtered = userChats;
 
     // Apply tab filter
-    if (activeTab !== "all") {
-      filtered = filtered.filter(chat => chat.status === activeTab);
-    }
+    filtered = activeTab === "all"
+      ? filtered.filter(chat => chat.status !== "archived")
+      : filtered.filter(chat => chat.status === activeTab);
 
     // Apply search filter
     if (filters.search) {
@@ -125,6 +132,12 @@ export default function MyChats() {
       filtered = filtered.filter(chat => chat.status === filters.status);
     }
 
+    if (filters.hours === 'out-of-hours') {
+      filtered = filtered.filter(chat => chat.outOfHours);
+    } else if (filters.hours === 'in-hours') {
+      filtered = filtered.filter(chat => !chat.outOfHours);
+    }
+
     // Apply date range filter
     if (filters.dateRange.from || filters.dateRange.to) {
       filtered = filtered.filter(chat => {
@@ -150,12 +163,13 @@ export default function MyChats() {
 
   // Calculate counts for tabs
   const statusCounts = useMemo(() => {
-    return {
-      all: userChats.length,
-      active: userChats.filter(chat => chat.status === 'active').length,
-      missed: userChats.filter(chat => chat.status === 'missed').length,
-      closed: userChats.filter(chat => chat.status === 'closed').length
-    };
+    const counts: Partial<Record<"all" | ChatStatus, number>> = {};
+    MY_CHAT_TABS.forEach(tab => {
+      counts[tab] = tab === "all"
+        ? userChats.filter(chat => chat.status !== "archived").length
+        : userChats.filter(chat => chat.status === tab).length;
+    });
+    return counts;
   }, [userChats]);
 
   const handleRowClick = (chat: Chat) => {
@@ -198,32 +212,28 @@ export default function MyChats() {
           <CardTitle className="flex items-center gap-2">
             My Assigned Chats
             {enableRealTimeUpdates && (
-              <Badge variant="outline">Live</Badge>
+              <RealtimeStatusBadge />
             )}
           </CardTitle>
         </CardHeader>
         <CardContent>
           {/* Tabs for different chat statuses */}
           <Tabs value={activeTab} onValueChange={setActiveTab} className="mb-6">
-            <TabsList className="grid w-full grid-cols-4">
-              <TabsTrigger value="all">
-                All ({statusCounts.all})
-              </TabsTrigger>
-              <TabsTrigger value="active">
-                Active ({statusCounts.active})
-              </TabsTrigger>
-              <TabsTrigger value="missed">
-                Missed ({statusCounts.missed})
-              </TabsTrigger>
-              <TabsTrigger value="closed">
-                Closed ({statusCounts.closed})
-              </TabsTrigger>
+            <TabsList className="grid w-full grid-cols-5">
+              {MY_CHAT_TABS.map(tab => (
+                <TabsTrigger key={tab} value={tab}>
+                  {tab === "all" ? "All" : CHAT_STATUS_LABELS[tab]} ({statusCounts[tab] ?? 0})
+                </TabsTrigger>
+              ))}
             </TabsList>
             
             <TabsContent value={activeTab} className="mt-6">
               <EnhancedDataTable
                 data={filteredChats}
-                columns={chatColumns}
+                columns={chatColumns.map(col => ({
+                  ...col,
+                  cell: col.cell ? (_value: unknown, chat: Chat) => col.cell(chat, users) : undefined
+                }))}
                 onRowClick={handleRowClick}
                 loading={isLoading}
                 emptyState={{
@@ -247,13 +257,13 @@ export default function MyChats() {
         <SheetContent className="w-2/3 max-w-[66vw] overflow-y-auto">
           <SheetHeader>
             <SheetTitle>
-              Chat Details - {selectedChat?.requesterName}
+              Chat Details - {activeChat?.requesterName}
             </SheetTitle>
           </SheetHeader>
-          {selectedChat && (
+          {activeChat && (
             <div className="mt-6">
               <ErrorBoundary>
-                <ChatPanel chat={selectedChat} />
+                <ChatPanel key={activeChat.id} chat={activeChat} />
               </ErrorBoundary>
             </div>
           )}
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { DataTable, Column } from "@/components/admin/DataTable";
+import { SavedReplyDialog } from "@/components/admin/SavedReplyDialog";
+import { Plus } from "lucide-react";
+import { SavedReply } from "@/types";
+import { useDeleteSavedReply, useSavedReplies } from "@/hooks/useApiQuery";
+import { usePermission } from "@/hooks/usePermission";
+
+// Replies not inserted for this long are offered for pruning
+const UNUSED_AFTER_DAYS = 90;
+
+const isUnused = (reply: SavedReply, now: number) =>
+  !reply.lastUsedAt || now - new Date(reply.lastUsedAt).getTime() > UNUSED_AFTER_DAYS * 24 * 60 * 60 * 1000;
+
+const replyColumns: Column<SavedReply>[] = [
+  { key: "shortcut", header: "Shortcut", cell: (value: string) => <code className="text-sm">/{value}</code> },
+  { key: "title", header: "Title", cell: (value: string) => <span className="font-medium">{value}</span> },
+  {
+    key: "body",
+    header: "Reply",
+    cell: (value: string) => <p className="line-clamp-2 max-w-md text-muted-foreground">{value}</p>
+  },
+  {
+    key: "usageCount",
+    header: "Used",
+    cell: (value: number, row) => (
+      <div className="text-sm">
+        <span>{value} {value === 1 ? "time" : "times"}</span>
+        <p className="text-xs text-muted-foreground">
+          {row.lastUsedAt ? `last ${new Date(row.lastUsedAt).toLocaleDateString()}` : "never"}
+        </p>
+      </div>
+    )
+  },
+  { key: "updatedAt", header: "Updated", cell: (value: string) => new Date(value).toLocaleDateString() },
+];
+
+export default function SavedReplies() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingReply, setEditingReply] = useState<SavedReply | null>(null);
+  const [unusedOnly, setUnusedOnly] = useState(false);
+  const { data: repliesResponse, isLoading, error } = useSavedReplies();
+  const deleteReply = useDeleteSavedReply();
+  const canManageShared = usePermission('content:manage');
+
+  if (isLoading) {
+    return <div>Loading saved replies...</div>;
+  }
+
+  if (error) {
+    return <div>Error loading saved replies: {error.message}</div>;
+  }
+
+  const now = Date.now();
+  const replies = (repliesResponse?.data || [])
+    .filter(reply => !unusedOnly || isUnused(reply, now))
+    // Least used first when pruning
+    .sort((a, b) => unusedOnly ? a.usageCount - b.usageCount : 0);
+  const personal = replies.filter(reply => reply.scope === "personal");
+  const shared = replies.filter(reply => reply.scope === "organization");
+
+  const openDialog = (reply: SavedReply | null) => {
+    setEditingReply(reply);
+    setIsDialogOpen(true);
+  };
+
+  const sections = [
+    {
+      title: "My Replies",
+      description: "Only you see these",
+      replies: personal,
+      canEdit: true,
+    },
+    {
+      title: "Organization Replies",
+      description: "Shared with everyone in the organization",
+      replies: shared,
+      canEdit: canManageShared,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Saved Replies</h1>
+          <p className="text-muted-foreground">Canned responses you insert in a chat by typing / and a shortcut</p>
+        </div>
+        <Button className="gap-2" onClick={() => openDialog(null)}><Plus className="h-4 w-4" />Add Reply</Button>
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        <Switch id="unused-only" checked={unusedOnly} onCheckedChange={setUnusedOnly} />
+        <Label htmlFor="unused-only">Not used in the last {UNUSED_AFTER_DAYS} days</Label>
+      </div>
+
+      {sections.map(section => (
+        <Card key={section.title}>
+          <CardHeader>
+            <CardTitle>{section.title} <span className="text-sm font-normal text-muted-foreground">({section.replies.length})</span></CardTitle>
+            <CardDescription>{section.description}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {section.replies.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                {unusedOnly ? "Every reply here was used recently" : "No saved replies yet"}
+              </p>
+            ) : (
+              <DataTable
+                data={section.replies}
+                columns={replyColumns}
+                onRowClick={section.canEdit ? (reply) => openDialog(reply) : undefined}
+                onEdit={section.canEdit ? (reply) => openDialog(reply) : undefined}
+                onDelete={section.canEdit ? (reply) => deleteReply.mutate(reply.id) : undefined}
+              />
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <SavedReplyDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} reply={editingReply} />
+    </div>
+  );
+}
@@ -1,13 +1,19 @@
+import { useCallback, useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { DataTable, Column } from "@/components/admin/DataTable";
-import { Document } from "@/types";
+import { DocumentUploadDialog } from "@/components/admin/DocumentUploadDialog";
+import { DocumentDetailSheet } from "@/components/admin/DocumentDetailSheet";
+import { DocumentStatusBadge } from "@/components/admin/DocumentStatusBadge";
+import { Document, DocumentIngestionStatus } from "@/types";
 import { Upload, FileText } from "lucide-react";
-import { useDocuments } from "@/hooks/useApiQuery";
+import { useDeleteDocument, useDocuments } from "@/hooks/useApiQuery";
+import { usePermission } from "@/hooks/usePermission";
 
 const documentColumns: Column<Document>[] = [
-  { 
-    key: "title", 
+  {
+    key: "title",
     header: "Document",
     cell: (value) => (
       <div className="flex items-center gap-2">
@@ -18,12 +24,48 @@ const documentColumns: Column<Document>[] = [
   },
   { key: "fileType", header: "Type" },
   { key: "fileSizeKb", header: "Size (KB)" },
-  { key: "uploadedAt", header: "Uploaded" },
+  {
+    key: "ingestionStatus",
+    header: "Status",
+    cell: (value: DocumentIngestionStatus, row) => (
+      <div className="space-y-1">
+        <DocumentStatusBadge status={value} />
+        {row.ingestionError && (
+          <p className="text-xs text-destructive max-w-64">{row.ingestionError}</p>
+        )}
+      </div>
+    )
+  },
+  { key: "chunkCount", header: "Chunks", cell: (value?: number) => value ?? "—" },
+  { key: "uploadedAt", header: "Uploaded", cell: (value: string) => new Date(value).toLocaleDateString() },
 ];
 
 export default function Documents() {
+  const [isUploadOpen, setIsUploadOpen] = useState(false);
+  const [selectedDocumentId, setSelectedDocumentId] = useState<string | null>(null);
   const { data: documentsResponse, isLoading, error } = useDocuments();
+  const deleteDocument = useDeleteDocument();
+  const canManage = usePermission('content:manage');
   const documents = documentsResponse?.data || [];
+  // Looked up on every render so the drawer follows ingestion progress
+  const selectedDocument = documents.find(document => document.id === selectedDocumentId) ?? null;
+
+  // Links such as /content/documents?document=doc_001 open that document straight away
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedDocumentId = searchParams.get("document");
+  useEffect(() => {
+    if (linkedDocumentId) setSelectedDocumentId(linkedDocumentId);
+  }, [linkedDocumentId]);
+
+  const closeDocument = useCallback(() => {
+    setSelectedDocumentId(null);
+    setSearchParams(prev => {
+      if (!prev.has("document")) return prev;
+      const next = new URLSearchParams(prev);
+      next.delete("document");
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
 
   if (isLoading) {
     return <div>Loading documents...</div>;
@@ -40,16 +82,29 @@ export default function Documents() {
           <h1 className="text-3xl font-bold">Documents</h1>
           <p className="text-muted-foreground">Manage knowledge base documents</p>
         </div>
-        <Button className="gap-2"><Upload className="h-4 w-4" />Upload</Button>
+        {canManage && (
+          <Button className="gap-2" onClick={() => setIsUploadOpen(true)}><Upload className="h-4 w-4" />Upload</Button>
+        )}
       </div>
       <Card>
         <CardHeader>
           <CardTitle>Document Library</CardTitle>
         </CardHeader>
         <CardContent>
-          <DataTable data={documents} columns={documentColumns} onView={() => {}} onDelete={() => {}} />
+          <DataTable
+            data={documents}
+            columns={documentColumns}
+            onRowClick={(document) => setSelectedDocumentId(document.id)}
+            onView={(document) => setSelectedDocumentId(document.id)}
+            onDelete={canManage ? (document) => deleteDocument.mutate(document.id) : undefined}
+          />
         </CardContent>
       </Card>
+      <DocumentUploadDialog open={isUploadOpen} onOpenChange={setIsUploadOpen} />
+      <DocumentDetailSheet
+        document={selectedDocument}
+        onOpenChange={(open) => !open && closeDocument()}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,16 +1,71 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { DataTable, Column } from "@/components/admin/DataTable";
-import { FAQ } from "@/types";
-import { Plus } from "lucide-react";
-import { useFAQs } from "@/hooks/useApiQuery";
-
-const faqColumns: Column<FAQ>[] = [
-  { key: "question", header: "Question" },
-  { key: "answer", header: "Answer", cell: (value) => value.substring(0, 100) + "..." },
-  { 
-    key: "tags", 
+import { FAQDialog } from "@/components/admin/FAQDialog";
+import { FAQImportDialog } from "@/components/admin/FAQImportDialog";
+import { FAQ, FAQStatus } from "@/types";
+import { ArrowDown, ArrowUp, Download, Plus, Upload } from "lucide-react";
+import { useDeleteFAQ, useFAQs, useReorderFAQs } from "@/hooks/useApiQuery";
+import { usePermission } from "@/hooks/usePermission";
+import { serializeFAQs, sortFAQs, type FAQFileFormat } from "@/lib/faqs";
+import { stripMarkdown } from "@/lib/markdown";
+import { downloadBlob } from "@/lib/utils";
+
+// Select items cannot have an empty value
+const ALL = "all";
+
+// `categoryIds` is the whole category in order, since a filtered table may not show every FAQ
+const faqColumns = (
+  onMove: ((faq: FAQ, offset: -1 | 1) => void) | undefined,
+  categoryIds: string[],
+): Column<FAQ>[] => [
+  ...(onMove ? [{
+    key: "order" as const,
+    header: "",
+    cell: (_: number, row: FAQ) => (
+      <div className="flex flex-col">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-5 w-5"
+          aria-label="Move up"
+          disabled={categoryIds.indexOf(row.id) === 0}
+          onClick={(e) => {
+            e.stopPropagation();
+            onMove(row, -1);
+          }}
+        >
+          <ArrowUp className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-5 w-5"
+          aria-label="Move down"
+          disabled={categoryIds.indexOf(row.id) === categoryIds.length - 1}
+          onClick={(e) => {
+            e.stopPropagation();
+            onMove(row, 1);
+          }}
+        >
+          <ArrowDown className="h-3 w-3" />
+        </Button>
+      </div>
+    )
+  }] : []),
+  { key: "question", header: "Question", cell: (value: string) => <span className="font-medium">{value}</span> },
+  {
+    key: "answer",
+    header: "Answer",
+    cell: (value: string) => <p className="line-clamp-2 max-w-md text-muted-foreground">{stripMarkdown(value)}</p>
+  },
+  {
+    key: "tags",
     header: "Tags",
     cell: (value) => (
       <div className="flex gap-1">
@@ -21,12 +76,39 @@ const faqColumns: Column<FAQ>[] = [
       </div>
     )
   },
-  { key: "updatedAt", header: "Updated" },
+  {
+    key: "status",
+    header: "Status",
+    cell: (value: FAQStatus) => <Badge variant={value === "published" ? "default" : "secondary"}>{value}</Badge>
+  },
+  { key: "updatedAt", header: "Updated", cell: (value: string) => new Date(value).toLocaleDateString() },
 ];
 
 export default function FAQs() {
+  const [statusFilter, setStatusFilter] = useState<FAQStatus | typeof ALL>(ALL);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [editingFAQ, setEditingFAQ] = useState<FAQ | null>(null);
   const { data: faqsResponse, isLoading, error } = useFAQs();
-  const faqs = faqsResponse?.data || [];
+  const deleteFAQ = useDeleteFAQ();
+  const reorderFAQs = useReorderFAQs();
+  const canManage = usePermission('content:manage');
+  const faqs = sortFAQs(faqsResponse?.data || []);
+
+  // Links such as /content/faqs?faq=faq_001 open that FAQ for editing once it has loaded.
+  // The parameter is dropped right away so a refetch cannot reset the form under the editor.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedFAQ = canManage ? faqsResponse?.data.find(faq => faq.id === searchParams.get("faq")) : undefined;
+  useEffect(() => {
+    if (!linkedFAQ) return;
+    setEditingFAQ(linkedFAQ);
+    setIsDialogOpen(true);
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.delete("faq");
+      return next;
+    }, { replace: true });
+  }, [linkedFAQ, setSearchParams]);
 
   if (isLoading) {
     return <div>Loading FAQs...</div>;
@@ -36,6 +118,32 @@ export default function FAQs() {
     return <div>Error loading FAQs: {error.message}</div>;
   }
 
+  const categories = [...new Set(faqs.map(faq => faq.category))];
+  const tags = [...new Set(faqs.flatMap(faq => faq.tags))].sort();
+  const visible = statusFilter === ALL ? faqs : faqs.filter(faq => faq.status === statusFilter);
+  const visibleCategories = categories.filter(category => visible.some(faq => faq.category === category));
+
+  const openDialog = (faq: FAQ | null) => {
+    setEditingFAQ(faq);
+    setIsDialogOpen(true);
+  };
+
+  // Moves within the whole category, including FAQs hidden by the status filter
+  const moveFAQ = (faq: FAQ, offset: -1 | 1) => {
+    if (reorderFAQs.isPending) return;
+    const faqIds = faqs.filter(item => item.category === faq.category).map(item => item.id);
+    const index = faqIds.indexOf(faq.id);
+    const target = index + offset;
+    if (target < 0 || target >= faqIds.length) return;
+    [faqIds[index], faqIds[target]] = [faqIds[target], faqIds[index]];
+    reorderFAQs.mutate({ category: faq.category, faqIds });
+  };
+
+  const exportFAQs = (format: FAQFileFormat) => {
+    const type = format === "csv" ? "text/csv" : "application/json";
+    downloadBlob(new Blob([serializeFAQs(faqs, format)], { type }), `faqs-${new Date().toISOString().slice(0, 10)}.${format}`);
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -43,16 +151,70 @@ export default function FAQs() {
           <h1 className="text-3xl font-bold">FAQs</h1>
           <p className="text-muted-foreground">Manage frequently asked questions</p>
         </div>
-        <Button className="gap-2"><Plus className="h-4 w-4" />Add FAQ</Button>
+        <div className="flex gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="gap-2" disabled={faqs.length === 0}>
+                <Download className="h-4 w-4" />Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => exportFAQs("csv")}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportFAQs("json")}>JSON</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {canManage && (
+            <>
+              <Button variant="outline" className="gap-2" onClick={() => setIsImportOpen(true)}>
+                <Upload className="h-4 w-4" />Import
+              </Button>
+              <Button className="gap-2" onClick={() => openDialog(null)}><Plus className="h-4 w-4" />Add FAQ</Button>
+            </>
+          )}
+        </div>
       </div>
-      <Card>
-        <CardHeader>
-          <CardTitle>FAQ Database</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <DataTable data={faqs} columns={faqColumns} onEdit={() => {}} onDelete={() => {}} />
-        </CardContent>
-      </Card>
+
+      <div className="flex justify-end">
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as FAQStatus | typeof ALL)}>
+          <SelectTrigger aria-label="Filter by status" className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All FAQs</SelectItem>
+            <SelectItem value="published">Published</SelectItem>
+            <SelectItem value="draft">Drafts</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {visibleCategories.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            {faqs.length === 0 ? "No FAQs yet" : "No FAQs match this filter"}
+          </CardContent>
+        </Card>
+      ) : visibleCategories.map(category => {
+        const categoryIds = faqs.filter(faq => faq.category === category).map(faq => faq.id);
+        return (
+          <Card key={category}>
+            <CardHeader>
+              <CardTitle>{category} <span className="text-sm font-normal text-muted-foreground">({categoryIds.length})</span></CardTitle>
+            </CardHeader>
+            <CardContent>
+              <DataTable
+                data={visible.filter(faq => faq.category === category)}
+                columns={faqColumns(canManage ? moveFAQ : undefined, categoryIds)}
+                onRowClick={canManage ? (faq) => openDialog(faq) : undefined}
+                onEdit={canManage ? (faq) => openDialog(faq) : undefined}
+                onDelete={canManage ? (faq) => deleteFAQ.mutate(faq.id) : undefined}
+              />
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <FAQDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} faq={editingFAQ} categories={categories} tags={tags} />
+      <FAQImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
     </div>
   );
-}
\ No newline at end of file
+}
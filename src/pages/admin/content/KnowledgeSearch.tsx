@@ -0,0 +1,195 @@
+import { useState, type FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ErrorBoundary } from "@/components/common/ErrorBoundary";
+import { useKnowledgeSearch } from "@/hooks/useApiQuery";
+import {
+  CONTEXT_TOKEN_BUDGET,
+  KNOWLEDGE_SOURCE_LABELS,
+  KNOWLEDGE_SOURCE_TYPES,
+  tokenize,
+} from "@/lib/knowledge-search";
+import type { KnowledgeSearchInput } from "@/lib/validations";
+import type { KnowledgeSearchResult, KnowledgeSourceType } from "@/types";
+import { ExternalLink, Search } from "lucide-react";
+
+/** Marks the words of the snippet whose stem matched the query */
+function HighlightedSnippet({ text, terms }: { text: string; terms: string[] }) {
+  const matched = new Set(terms);
+  // Odd indexes are the words, even indexes what separates them
+  const parts = text.split(/([\p{L}\p{N}]+)/u);
+
+  return (
+    <p className="whitespace-pre-wrap text-sm">
+      {parts.map((part, index) => index % 2 === 1 && matched.has(tokenize(part)[0])
+        ? <mark key={index} className="rounded bg-yellow-200/70 px-0.5 dark:bg-yellow-500/30">{part}</mark>
+        : part)}
+    </p>
+  );
+}
+
+function SourceLink({ result }: { result: KnowledgeSearchResult }) {
+  if (!result.url) return <span className="font-medium">{result.title}</span>;
+  if (result.url.startsWith("/content/")) {
+    return <Link to={result.url} className="font-medium hover:underline">{result.title}</Link>;
+  }
+  return (
+    <a href={result.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 font-medium hover:underline">
+      {result.title}
+      <ExternalLink className="h-3 w-3" />
+    </a>
+  );
+}
+
+function ResultCard({ result, rank, topScore, inContext }: {
+  result: KnowledgeSearchResult;
+  rank: number;
+  topScore: number;
+  inContext: boolean;
+}) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="space-y-2 rounded-md border p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground">#{rank}</span>
+        <Badge variant="outline">{KNOWLEDGE_SOURCE_LABELS[result.sourceType]}</Badge>
+        <SourceLink result={result} />
+        {inContext && <Badge variant="secondary">In context</Badge>}
+        <div className="ml-auto flex items-center gap-2 text-xs text-muted-foreground">
+          <Progress value={(result.score / topScore) * 100} className="h-1.5 w-20" />
+          <span title="BM25 score">{result.score.toFixed(2)}</span>
+        </div>
+      </div>
+      <div className={isExpanded ? undefined : "line-clamp-4"}>
+        <HighlightedSnippet text={result.snippet} terms={result.matchedTerms} />
+      </div>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>Matched: {result.matchedTerms.join(", ")} · ~{result.tokenCount} tokens</span>
+        <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setIsExpanded(!isExpanded)}>
+          {isExpanded ? "Show less" : "Show full passage"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function KnowledgeSearch() {
+  const [query, setQuery] = useState("");
+  const [sourceTypes, setSourceTypes] = useState<KnowledgeSourceType[]>(KNOWLEDGE_SOURCE_TYPES);
+  const [search, setSearch] = useState<KnowledgeSearchInput | null>(null);
+  const { data: searchResponse, isFetching, error } = useKnowledgeSearch(search);
+  const response = searchResponse?.data;
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (query.trim()) setSearch({ query: query.trim(), sourceTypes });
+  };
+
+  const toggleSource = (type: KnowledgeSourceType, checked: boolean) => {
+    setSourceTypes(current => checked ? [...current, type] : current.filter(existing => existing !== type));
+  };
+
+  const topScore = response?.results[0]?.score || 1;
+
+  return (
+    <ErrorBoundary>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Retrieval Console</h1>
+          <p className="text-muted-foreground">
+            Check which knowledge the assistant would use to answer a customer question
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  value={query}
+                  onChange={(event) => setQuery(event.target.value)}
+                  placeholder="e.g. How do I change my password?"
+                  aria-label="Customer question"
+                />
+                <Button type="submit" className="gap-2" disabled={!query.trim() || sourceTypes.length === 0}>
+                  <Search className="h-4 w-4" />
+                  Search
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-4">
+                {KNOWLEDGE_SOURCE_TYPES.map(type => (
+                  <div key={type} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`source-${type}`}
+                      checked={sourceTypes.includes(type)}
+                      onCheckedChange={(checked) => toggleSource(type, checked === true)}
+                    />
+                    <Label htmlFor={`source-${type}`} className="font-normal">{KNOWLEDGE_SOURCE_LABELS[type]}s</Label>
+                  </div>
+                ))}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {error ? (
+          <div>Error searching the knowledge base: {error.message}</div>
+        ) : isFetching && !response ? (
+          <Skeleton className="h-64 w-full" />
+        ) : response && (
+          <div className="grid gap-6 lg:grid-cols-[3fr_2fr]">
+            <Card>
+              <CardHeader>
+                <CardTitle>Matches</CardTitle>
+                <CardDescription>
+                  {response.results.length} of {response.passageCount} passages matched, best first
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {response.results.length === 0 ? (
+                  <p className="py-8 text-center text-sm text-muted-foreground">
+                    Nothing in the knowledge base shares a word with this question.
+                  </p>
+                ) : response.results.map((result, index) => (
+                  <ResultCard
+                    key={result.id}
+                    result={result}
+                    rank={index + 1}
+                    topScore={topScore}
+                    inContext={response.contextResultIds.includes(result.id)}
+                  />
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card className="self-start">
+              <CardHeader>
+                <CardTitle>Model Context</CardTitle>
+                <CardDescription>
+                  What the assistant would be given: ~{response.contextTokenCount} of {CONTEXT_TOKEN_BUDGET} tokens
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {response.context ? (
+                  <pre className="max-h-[32rem] overflow-y-auto whitespace-pre-wrap rounded border bg-muted/30 p-3 text-xs">
+                    {response.context}
+                  </pre>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No passages would be included.</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </ErrorBoundary>
+  );
+}
@@ -1,10 +1,16 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { DataTable, Column } from "@/components/admin/DataTable";
+import { ResourceDialog } from "@/components/admin/ResourceDialog";
+import { ResourceUsageSheet } from "@/components/admin/ResourceUsageSheet";
 import { FileText, Video, Link, File, Plus } from "lucide-react";
-import { Resource } from "@/types";
-import { useResources } from "@/hooks/useApiQuery";
+import { Resource, ResourceType } from "@/types";
+import { useDeleteResource, useResources } from "@/hooks/useApiQuery";
+import { usePermission } from "@/hooks/usePermission";
+import { RESOURCE_TYPE_LABELS } from "@/lib/resources";
 
 const getTypeIcon = (type: string) => {
   switch (type) {
@@ -16,8 +22,8 @@ const getTypeIcon = (type: string) => {
 };
 
 const resourceColumns: Column<Resource>[] = [
-  { 
-    key: "title", 
+  {
+    key: "title",
     header: "Resource",
     cell: (value, row) => (
       <div className="flex items-center gap-2">
@@ -26,28 +32,69 @@ const resourceColumns: Column<Resource>[] = [
       </div>
     )
   },
-  { 
-    key: "type", 
+  {
+    key: "type",
     header: "Type",
-    cell: (value) => <Badge variant="outline">{value}</Badge>
+    cell: (value: ResourceType) => <Badge variant="outline">{RESOURCE_TYPE_LABELS[value]}</Badge>
   },
-  { 
-    key: "tags", 
+  {
+    key: "tags",
     header: "Tags",
     cell: (value) => (
       <div className="flex gap-1">
         {value.slice(0, 2).map((tag: string) => (
           <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
         ))}
+        {value.length > 2 && <span className="text-xs text-muted-foreground">+{value.length - 2}</span>}
       </div>
     )
   },
-  { key: "updatedAt", header: "Updated" },
+  {
+    key: "usageCount",
+    header: "Used In",
+    cell: (value: number | undefined, row) => (
+      <div className="text-sm">
+        <span>{value ?? 0} {value === 1 ? "chat" : "chats"}</span>
+        {row.lastUsedAt && (
+          <p className="text-xs text-muted-foreground">last {new Date(row.lastUsedAt).toLocaleDateString()}</p>
+        )}
+      </div>
+    )
+  },
+  { key: "updatedAt", header: "Updated", cell: (value: string) => new Date(value).toLocaleDateString() },
 ];
 
 export default function Resources() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingResource, setEditingResource] = useState<Resource | null>(null);
+  const [usageResourceId, setUsageResourceId] = useState<string | null>(null);
   const { data: resourcesResponse, isLoading, error } = useResources();
+  const deleteResource = useDeleteResource();
+  const canManage = usePermission('content:manage');
   const resources = resourcesResponse?.data || [];
+  const usageResource = resources.find(resource => resource.id === usageResourceId) ?? null;
+
+  const openDialog = (resource: Resource | null) => {
+    setEditingResource(resource);
+    setIsDialogOpen(true);
+  };
+
+  // Links such as /content/resources?resource=resource_001 open that resource for editing once it has loaded.
+  // The parameter is dropped right away so a refetch cannot reset the form under the editor.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedResource = canManage
+    ? resourcesResponse?.data.find(resource => resource.id === searchParams.get("resource"))
+    : undefined;
+  useEffect(() => {
+    if (!linkedResource) return;
+    setEditingResource(linkedResource);
+    setIsDialogOpen(true);
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.delete("resource");
+      return next;
+    }, { replace: true });
+  }, [linkedResource, setSearchParams]);
 
   if (isLoading) {
     return <div>Loading resources...</div>;
@@ -57,6 +104,8 @@ export default function Resources() {
     return <div>Error loading resources: {error.message}</div>;
   }
 
+  const tags = [...new Set(resources.flatMap(resource => resource.tags))].sort();
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -64,16 +113,27 @@ export default function Resources() {
           <h1 className="text-3xl font-bold">Resources</h1>
           <p className="text-muted-foreground">Manage AI training resources and content</p>
         </div>
-        <Button className="gap-2"><Plus className="h-4 w-4" />Add Resource</Button>
+        {canManage && (
+          <Button className="gap-2" onClick={() => openDialog(null)}><Plus className="h-4 w-4" />Add Resource</Button>
+        )}
       </div>
       <Card>
         <CardHeader>
           <CardTitle>Resource Library</CardTitle>
         </CardHeader>
         <CardContent>
-          <DataTable data={resources} columns={resourceColumns} onEdit={() => {}} onDelete={() => {}} />
+          <DataTable
+            data={resources}
+            columns={resourceColumns}
+            onRowClick={(resource) => setUsageResourceId(resource.id)}
+            onView={(resource) => setUsageResourceId(resource.id)}
+            onEdit={canManage ? (resource) => openDialog(resource) : undefined}
+            onDelete={canManage ? (resource) => deleteResource.mutate(resource.id) : undefined}
+          />
         </CardContent>
       </Card>
+      <ResourceDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} resource={editingResource} tags={tags} />
+      <ResourceUsageSheet resource={usageResource} onOpenChange={(open) => !open && setUsageResourceId(null)} />
     </div>
   );
-}
\ No newline at end of file
+}
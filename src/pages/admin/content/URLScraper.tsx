@@ -1,30 +1,102 @@
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
 import { DataTable, Column } from "@/components/admin/DataTable";
-import { ScraperJob } from "@/types";
-import { Play, Edit } from "lucide-react";
-import { useScraperJobs } from "@/hooks/useApiQuery";
+import { ScraperJobDialog } from "@/components/admin/ScraperJobDialog";
+import { ScraperRunHistory, ScraperStatusBadge } from "@/components/admin/ScraperRunHistory";
+import { ScraperFrequency, ScraperJob, ScraperJobStatus } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { Pause, Play, Plus } from "lucide-react";
+import { useDeleteScraperJob, useRunScraperJob, useScraperJobs, useSetScraperJobPaused } from "@/hooks/useApiQuery";
+import { usePermission } from "@/hooks/usePermission";
+import { SCRAPER_FREQUENCY_LABELS } from "@/lib/url-scraper";
+import { getScheduleExpression } from "@/lib/background-jobs";
+
+interface ScraperJobActions {
+  onRun: (job: ScraperJob) => void;
+  onTogglePaused: (job: ScraperJob) => void;
+}
 
-const scraperColumns: Column<ScraperJob>[] = [
-  { key: "url", header: "URL" },
+const scraperColumns = (actions: ScraperJobActions | undefined): Column<ScraperJob>[] => [
+  { key: "url", header: "URL", cell: (value: string) => <span className="break-all">{value}</span> },
   { key: "linkDepth", header: "Depth" },
-  { key: "frequency", header: "Frequency" },
-  { 
-    key: "status", 
+  { key: "maxPages", header: "Max Pages" },
+  {
+    key: "frequency",
+    header: "Frequency",
+    cell: (value: ScraperFrequency, row) => value === "custom"
+      ? <code className="text-xs">{row.cronExpression}</code>
+      : SCRAPER_FREQUENCY_LABELS[value] ?? value
+  },
+  {
+    key: "status",
     header: "Status",
-    cell: (value) => (
-      <Badge variant={value === "completed" ? "default" : value === "failed" ? "destructive" : "secondary"}>
-        {value}
-      </Badge>
-    )
+    cell: (value: ScraperJobStatus) => <ScraperStatusBadge status={value} />
   },
-  { key: "lastScrapedAt", header: "Last Run" },
+  {
+    key: "lastScrapedAt",
+    header: "Last Run",
+    cell: (value?: string) => value ? new Date(value).toLocaleString() : "Never"
+  },
+  {
+    key: "nextRunAt",
+    header: "Next Run",
+    cell: (value: string | undefined, row) => {
+      if (row.paused) return <Badge variant="outline">Paused</Badge>;
+      if (!getScheduleExpression(row)) return "—";
+      // The scheduler fills this in within a few seconds of a job being created or loaded
+      return value ? new Date(value).toLocaleString() : "Scheduling...";
+    }
+  },
+  ...(actions ? [{
+    key: "id" as const,
+    header: "",
+    cell: (_: string, row: ScraperJob) => (
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          disabled={row.status === "queued" || row.status === "running"}
+          onClick={(e) => {
+            e.stopPropagation();
+            actions.onRun(row);
+          }}
+        >
+          <Play className="h-3 w-3" />
+          Run now
+        </Button>
+        {getScheduleExpression(row) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-1"
+            onClick={(e) => {
+              e.stopPropagation();
+              actions.onTogglePaused(row);
+            }}
+          >
+            {row.paused ? <Play className="h-3 w-3" /> : <Pause className="h-3 w-3" />}
+            {row.paused ? "Resume" : "Pause"}
+          </Button>
+        )}
+      </div>
+    )
+  }] : []),
 ];
 
 export default function URLScraper() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingJob, setEditingJob] = useState<ScraperJob | null>(null);
+  const [historyJobId, setHistoryJobId] = useState<string | null>(null);
   const { data: scraperJobsResponse, isLoading, error } = useScraperJobs();
+  const runJob = useRunScraperJob();
+  const setPaused = useSetScraperJobPaused();
+  const deleteJob = useDeleteScraperJob();
+  const canManage = usePermission('content:manage');
   const scraperJobs = scraperJobsResponse?.data || [];
+  // Looked up on every render so the history follows the job's status
+  const historyJob = scraperJobs.find(job => job.id === historyJobId) ?? null;
 
   if (isLoading) {
     return <div>Loading scraper jobs...</div>;
@@ -34,25 +106,42 @@ export default function URLScraper() {
     return <div>Error loading scraper jobs: {error.message}</div>;
   }
 
+  const openDialog = (job: ScraperJob | null) => {
+    setEditingJob(job);
+    setIsDialogOpen(true);
+  };
+
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold">URL Scraper</h1>
-        <p className="text-muted-foreground">Manage website scraping jobs</p>
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">URL Scraper</h1>
+          <p className="text-muted-foreground">Manage website scraping jobs</p>
+        </div>
+        {canManage && (
+          <Button className="gap-2" onClick={() => openDialog(null)}><Plus className="h-4 w-4" />New Job</Button>
+        )}
       </div>
       <Card>
         <CardHeader>
           <CardTitle>Scraper Jobs</CardTitle>
         </CardHeader>
         <CardContent>
-          <DataTable 
-            data={scraperJobs} 
-            columns={scraperColumns} 
-            onView={(job) => console.log("Run Now", job)}
-            onEdit={(job) => console.log("Edit", job)} 
+          <DataTable
+            data={scraperJobs}
+            columns={scraperColumns(canManage ? {
+              onRun: (job) => runJob.mutate(job.id),
+              onTogglePaused: (job) => setPaused.mutate({ jobId: job.id, paused: !job.paused }),
+            } : undefined)}
+            onRowClick={(job) => setHistoryJobId(job.id)}
+            onView={(job) => setHistoryJobId(job.id)}
+            onEdit={canManage ? (job) => openDialog(job) : undefined}
+            onDelete={canManage ? (job) => deleteJob.mutate(job.id) : undefined}
           />
         </CardContent>
       </Card>
+      <ScraperJobDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} job={editingJob} />
+      <ScraperRunHistory job={historyJob} onOpenChange={(open) => !open && setHistoryJobId(null)} />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -4,8 +4,13 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { FloatingPreview } from "@/components/admin/FloatingPreview";
+import { Link } from "react-router-dom";
+import { useRoutingSettings, useUpdateRoutingSettings } from "@/hooks/useApiQuery";
 
 export default function AIResponse() {
+  const { data: routingSettings } = useRoutingSettings();
+  const updateRoutingSettings = useUpdateRoutingSettings();
+
   return (
     <>
       <div className="space-y-6">
@@ -35,10 +40,16 @@ export default function AIResponse() {
             <div className="space-y-0.5">
               <Label htmlFor="smart-routing">Smart Routing</Label>
               <p className="text-sm text-muted-foreground">
-                Route complex queries to human agents
+                Assign new chats to available agents automatically.{" "}
+                <Link to="/settings/routing" className="underline">Configure routing</Link>
               </p>
             </div>
-            <Switch id="smart-routing" defaultChecked />
+            <Switch
+              id="smart-routing"
+              checked={routingSettings?.data.enabled ?? false}
+              disabled={!routingSettings || updateRoutingSettings.isPending}
+              onCheckedChange={(enabled) => updateRoutingSettings.mutate({ enabled })}
+            />
           </div>
 
           <div className="space-y-2">
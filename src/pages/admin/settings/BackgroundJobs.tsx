@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ErrorBoundary } from "@/components/common/ErrorBoundary";
+import {
+  useBackgroundJobs,
+  useCancelBackgroundJob,
+  useCreateBackgroundJob,
+  useDownloadExport,
+  useRetryBackgroundJob,
+} from "@/hooks/useApiQuery";
+import {
+  BACKGROUND_JOB_TYPE_LABELS,
+  BACKGROUND_JOB_TYPES,
+  EXPORT_FORMATS,
+  EXPORTABLE_COLLECTIONS,
+  type ExportableCollection,
+  type ExportFormat,
+} from "@/lib/background-jobs";
+import type { BackgroundJob, BackgroundJobStatus, BackgroundJobType } from "@/types";
+import { Download, FileDown, Loader2, RotateCcw, Sparkles, X } from "lucide-react";
+
+const STATUS_VARIANTS: Record<BackgroundJobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  running: "secondary",
+  completed: "default",
+  failed: "destructive",
+  cancelled: "outline",
+};
+
+const BACKGROUND_JOB_STATUSES = Object.keys(STATUS_VARIANTS) as BackgroundJobStatus[];
+
+// Select items cannot have an empty value
+const ALL = "all";
+
+const formatTime = (value?: string) => value ? new Date(value).toLocaleString() : "—";
+
+function JobStatus({ job }: { job: BackgroundJob }) {
+  // A queued job that has already been attempted is waiting out its backoff
+  const isRetryPending = job.status === "queued" && job.attempts > 0;
+
+  return (
+    <div className="space-y-1">
+      <Badge variant={STATUS_VARIANTS[job.status] ?? "outline"}>
+        {job.status === "running" && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+        {isRetryPending ? "retrying" : job.status}
+      </Badge>
+      {job.maxAttempts > 1 && job.attempts > 0 && (
+        <p className="text-xs text-muted-foreground">Attempt {job.attempts} of {job.maxAttempts}</p>
+      )}
+      {isRetryPending && <p className="text-xs text-muted-foreground">Next attempt {formatTime(job.runAt)}</p>}
+    </div>
+  );
+}
+
+export default function BackgroundJobs() {
+  const [typeFilter, setTypeFilter] = useState<BackgroundJobType | typeof ALL>(ALL);
+  const [statusFilter, setStatusFilter] = useState<BackgroundJobStatus | typeof ALL>(ALL);
+  const [exportCollection, setExportCollection] = useState<ExportableCollection>("chats");
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+
+  const { data: jobsResponse, isLoading, error } = useBackgroundJobs({
+    type: typeFilter === ALL ? undefined : typeFilter,
+    status: statusFilter === ALL ? undefined : statusFilter,
+  });
+  const createJob = useCreateBackgroundJob();
+  const retryJob = useRetryBackgroundJob();
+  const cancelJob = useCancelBackgroundJob();
+  const downloadExport = useDownloadExport();
+  const jobs = jobsResponse?.data || [];
+
+  return (
+    <ErrorBoundary>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Background Jobs</h1>
+          <p className="text-muted-foreground">
+            Scheduled scrapes, re-indexing, summaries and exports run on a shared queue
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Start a Job</CardTitle>
+            <CardDescription>Failed jobs are retried with a growing delay before they are marked failed</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-end gap-6">
+            <Button
+              variant="outline"
+              className="gap-2"
+              disabled={createJob.isPending}
+              onClick={() => createJob.mutate({ type: "summary-generation", payload: {} })}
+            >
+              <Sparkles className="h-4 w-4" />
+              Summarize chats
+            </Button>
+
+            <div className="flex items-end gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="export-collection">Export</Label>
+                <Select value={exportCollection} onValueChange={(value) => setExportCollection(value as ExportableCollection)}>
+                  <SelectTrigger id="export-collection" className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPORTABLE_COLLECTIONS.map(collection => (
+                      <SelectItem key={collection} value={collection} className="capitalize">{collection}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                <SelectTrigger aria-label="Export format" className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_FORMATS.map(format => (
+                    <SelectItem key={format} value={format}>{format.toUpperCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                className="gap-2"
+                disabled={createJob.isPending}
+                onClick={() => createJob.mutate({
+                  type: "data-export",
+                  payload: { collection: exportCollection, format: exportFormat },
+                })}
+              >
+                <FileDown className="h-4 w-4" />
+                Export
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
+            <CardTitle>Jobs</CardTitle>
+            <div className="flex gap-2">
+              <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as BackgroundJobType | typeof ALL)}>
+                <SelectTrigger aria-label="Filter by type" className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  {BACKGROUND_JOB_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{BACKGROUND_JOB_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as BackgroundJobStatus | typeof ALL)}>
+                <SelectTrigger aria-label="Filter by status" className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  {BACKGROUND_JOB_STATUSES.map(status => (
+                    <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-48 w-full" />
+            ) : error ? (
+              <div>Error loading background jobs: {error.message}</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Job</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Queued</TableHead>
+                    <TableHead>Finished</TableHead>
+                    <TableHead>Outcome</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobs.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+                        No background jobs yet
+                      </TableCell>
+                    </TableRow>
+                  ) : jobs.map(job => (
+                    <TableRow key={job.id}>
+                      <TableCell>
+                        <p className="font-medium">{BACKGROUND_JOB_TYPE_LABELS[job.type] ?? job.type}</p>
+                        <p className="max-w-64 break-all text-xs text-muted-foreground">{job.label}</p>
+                      </TableCell>
+                      <TableCell><JobStatus job={job} /></TableCell>
+                      <TableCell className="text-sm">{formatTime(job.createdAt)}</TableCell>
+                      <TableCell className="text-sm">{job.status === "queued" ? "—" : formatTime(job.finishedAt)}</TableCell>
+                      <TableCell className="max-w-72 text-sm">
+                        {job.status === "completed"
+                          ? job.result
+                          : job.error && <span className="text-destructive">{job.error}</span>}
+                      </TableCell>
+                      <TableCell>
+                        {job.type === "data-export" && job.status === "completed" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Download export"
+                            disabled={downloadExport.isPending}
+                            onClick={() => downloadExport.mutate(job)}
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {(job.status === "failed" || job.status === "cancelled") && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Retry job"
+                            disabled={retryJob.isPending}
+                            onClick={() => retryJob.mutate(job.id)}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {job.status === "queued" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Cancel job"
+                            disabled={cancelJob.isPending}
+                            onClick={() => cancelJob.mutate(job.id)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </ErrorBoundary>
+  );
+}
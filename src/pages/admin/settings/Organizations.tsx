@@ -33,6 +33,7 @@ import { MultiSelect, Option } from "@/components/ui/multi-select";
 import { useOrganizations, useCreateOrganization, useUpdateOrganization, useDeleteOrganization, useUsers } from "@/hooks/useApiQuery";
 import { Organization, User } from "@/types";
 import { toast } from "@/hooks/use-toast";
+import { usePermission } from "@/hooks/usePermission";
 import { Building2, Plus, Download, Archive, Trash2, Users, UserPlus } from "lucide-react";
 
 const createOrganizationSchema = z.object({
@@ -60,10 +61,13 @@ export default function Organizations() {
   const [orgMembers, setOrgMembers] = useState<{ [orgId: string]: User[] }>({});
 
   const { data } = useOrganizations();
-  const { data: usersData } = useUsers();
+  const { data: usersData } = useUsers(undefined, { allOrganizations: true });
   const createOrganizationMutation = useCreateOrganization();
   const updateOrganizationMutation = useUpdateOrganization();
   const deleteOrganizationMutation = useDeleteOrganization();
+  const canCreateOrg = usePermission('org:create');
+  const canUpdateOrg = usePermission('org:update');
+  const canDeleteOrg = usePermission('org:delete');
 
   const organizations = data?.data || [];
   const allUsers = usersData?.data || [];
@@ -264,7 +268,11 @@ export default function Organizations() {
       variant: "destructive" as const,
       onClick: handleBulkDelete,
     },
-  ];
+  ].filter(action => {
+    if (action.id === "delete") return canDeleteOrg;
+    if (action.id === "archive") return canUpdateOrg;
+    return true;
+  });
 
   // Available users for the multi-select (users not in the current organization)
   const availableUserOptions: Option[] = getAvailableUsers().map(user => ({
@@ -290,10 +298,12 @@ export default function Organizations() {
                 View and manage all organizations in the system
               </CardDescription>
             </div>
-            <Button onClick={() => setIsCreateModalOpen(true)}>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Organization
-            </Button>
+            {canCreateOrg && (
+              <Button onClick={() => setIsCreateModalOpen(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Organization
+              </Button>
+            )}
           </CardHeader>
           <CardContent>
             <EnhancedDataTable
@@ -301,8 +311,8 @@ export default function Organizations() {
               columns={orgColumns}
               searchable
               selectable
-              onEdit={handleEditOrg}
-              onDelete={handleDeleteOrg}
+              onEdit={canUpdateOrg ? handleEditOrg : undefined}
+              onDelete={canDeleteOrg ? handleDeleteOrg : undefined}
               onRowClick={handleManageUsers}
               bulkActions={bulkActions}
               emptyState={{
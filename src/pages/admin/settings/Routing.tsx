@@ -0,0 +1,359 @@
+import { useEffect, useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ErrorBoundary } from "@/components/common/ErrorBoundary";
+import { FloatingPreview } from "@/components/admin/FloatingPreview";
+import {
+  useAutoAssignChats,
+  useChats,
+  useRoutingSettings,
+  useSimulateRouting,
+  useUpdateRoutingSettings,
+  useUsers,
+} from "@/hooks/useApiQuery";
+import { usePermission } from "@/hooks/usePermission";
+import {
+  getAgentLoads,
+  MAX_SIMULATED_CHATS,
+  ROUTING_STRATEGIES,
+  ROUTING_STRATEGY_DESCRIPTIONS,
+  ROUTING_STRATEGY_LABELS,
+} from "@/lib/chat-routing";
+import { routingSettingsSchema, type RoutingSettingsInput } from "@/lib/validations";
+import type { RoutingStrategy, User } from "@/types";
+import { Play, Shuffle } from "lucide-react";
+
+const DEFAULT_SAMPLE_SIZE = 10;
+
+export default function Routing() {
+  const { data: settingsResponse, isLoading } = useRoutingSettings();
+  const { data: usersResponse } = useUsers();
+  const { data: chatsResponse } = useChats();
+  const updateSettings = useUpdateRoutingSettings();
+  const simulateRouting = useSimulateRouting();
+  const autoAssignChats = useAutoAssignChats();
+  const canAssignChats = usePermission('chats:assign');
+
+  const settings = settingsResponse?.data;
+  const agents: User[] = usersResponse?.data || [];
+  const chats = chatsResponse?.data || [];
+  const queuedCount = chats.filter(chat => chat.status === "queued" && !chat.assignedAgentId).length;
+
+  const [simulationStrategy, setSimulationStrategy] = useState<RoutingStrategy | undefined>();
+  const [sampleSize, setSampleSize] = useState(DEFAULT_SAMPLE_SIZE);
+
+  const form = useForm<RoutingSettingsInput>({
+    resolver: zodResolver(routingSettingsSchema),
+  });
+
+  // Load the saved settings into the form once they arrive and after each save
+  useEffect(() => {
+    if (!settings) return;
+    form.reset({
+      enabled: settings.enabled,
+      strategy: settings.strategy,
+      defaultMaxConcurrentChats: settings.defaultMaxConcurrentChats,
+      allowAwayAgents: settings.allowAwayAgents,
+      deferOutOfHours: settings.deferOutOfHours,
+    });
+  }, [settings, form]);
+
+  const loads = settings ? getAgentLoads({ agents, chats, engagements: [], settings }) : [];
+
+  const agentName = (agentId: string | null) => {
+    if (!agentId) return null;
+    const agent = agents.find(a => a.id === agentId);
+    return agent ? `${agent.firstName} ${agent.lastName}` : agentId;
+  };
+
+  const decisions = simulateRouting.data?.data || [];
+  const distribution = new Map<string, number>();
+  decisions.forEach(decision => {
+    const key = decision.agentId ?? "unassigned";
+    distribution.set(key, (distribution.get(key) ?? 0) + 1);
+  });
+
+  const strategy = form.watch("strategy");
+
+  const handleSave = (data: RoutingSettingsInput) => {
+    updateSettings.mutate(data);
+  };
+
+  const handleSimulate = () => {
+    simulateRouting.mutate({ strategy: simulationStrategy ?? settings?.strategy, sampleSize });
+  };
+
+  if (isLoading || !settings) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <ErrorBoundary>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Chat Routing</h1>
+          <p className="text-muted-foreground">
+            Decide how incoming chats are assigned to agents
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Routing Settings</CardTitle>
+            <CardDescription>Applied to every new chat in this organization</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={form.handleSubmit(handleSave)} className="space-y-6">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="routing-enabled">Smart Routing</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Assign new chats automatically instead of leaving them in the queue
+                  </p>
+                </div>
+                <Controller
+                  control={form.control}
+                  name="enabled"
+                  render={({ field }) => (
+                    <Switch id="routing-enabled" checked={field.value} onCheckedChange={field.onChange} />
+                  )}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="routing-strategy">Strategy</Label>
+                <Controller
+                  control={form.control}
+                  name="strategy"
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger id="routing-strategy" className="w-64">
+                        <SelectValue placeholder="Select a strategy" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ROUTING_STRATEGIES.map(option => (
+                          <SelectItem key={option} value={option}>{ROUTING_STRATEGY_LABELS[option]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+                {strategy && (
+                  <p className="text-sm text-muted-foreground">{ROUTING_STRATEGY_DESCRIPTIONS[strategy]}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="routing-capacity">Open chats per agent</Label>
+                <Input
+                  id="routing-capacity"
+                  type="number"
+                  min={1}
+                  max={50}
+                  className="w-32"
+                  {...form.register("defaultMaxConcurrentChats")}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Default limit; agents with their own limit keep it
+                </p>
+                {form.formState.errors.defaultMaxConcurrentChats && (
+                  <p className="text-sm text-destructive">{form.formState.errors.defaultMaxConcurrentChats.message}</p>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="routing-away">Fall back to away agents</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Route to agents marked as away when nobody is online
+                  </p>
+                </div>
+                <Controller
+                  control={form.control}
+                  name="allowAwayAgents"
+                  render={({ field }) => (
+                    <Switch id="routing-away" checked={field.value} onCheckedChange={field.onChange} />
+                  )}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="routing-defer">Defer out-of-hours chats</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Keep chats started outside business hours queued until support opens again
+                  </p>
+                </div>
+                <Controller
+                  control={form.control}
+                  name="deferOutOfHours"
+                  render={({ field }) => (
+                    <Switch id="routing-defer" checked={field.value} onCheckedChange={field.onChange} />
+                  )}
+                />
+              </div>
+
+              <Button type="submit" disabled={!form.formState.isDirty || updateSettings.isPending}>
+                {updateSettings.isPending ? "Saving..." : "Save Settings"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Agents</CardTitle>
+            <CardDescription>Availability, skills and current load</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Agent</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Skills</TableHead>
+                  <TableHead className="text-right">Open chats</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loads.map(({ agent, openChats, capacity }) => (
+                  <TableRow key={agent.id}>
+                    <TableCell className="font-medium">{agent.firstName} {agent.lastName}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <div className={`w-2 h-2 rounded-full ${agent.onlineStatus === "online" ? "bg-green-500" : agent.onlineStatus === "away" ? "bg-yellow-500" : "bg-gray-500"}`} />
+                        <span className="text-sm capitalize">{agent.onlineStatus}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {(agent.skills ?? []).map(skill => (
+                          <Badge key={skill} variant="outline">{skill}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className={`text-right ${openChats >= capacity ? "text-destructive font-medium" : ""}`}>
+                      {openChats} / {capacity}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Simulation</CardTitle>
+              <CardDescription>
+                See how the {queuedCount} queued chats, plus sample chats, would be distributed. Nothing is assigned.
+              </CardDescription>
+            </div>
+            {canAssignChats && (
+              <Button
+                variant="outline"
+                onClick={() => autoAssignChats.mutate()}
+                disabled={queuedCount === 0 || autoAssignChats.isPending}
+              >
+                <Shuffle className="mr-2 h-4 w-4" />
+                Assign queued chats now
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="simulation-strategy">Strategy</Label>
+                <Select
+                  value={simulationStrategy ?? settings.strategy}
+                  onValueChange={(value) => setSimulationStrategy(value as RoutingStrategy)}
+                >
+                  <SelectTrigger id="simulation-strategy" className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROUTING_STRATEGIES.map(option => (
+                      <SelectItem key={option} value={option}>{ROUTING_STRATEGY_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="simulation-size">Sample chats</Label>
+                <Input
+                  id="simulation-size"
+                  type="number"
+                  min={0}
+                  max={MAX_SIMULATED_CHATS}
+                  className="w-28"
+                  value={sampleSize}
+                  onChange={(event) => setSampleSize(Number(event.target.value))}
+                />
+              </div>
+              <Button onClick={handleSimulate} disabled={simulateRouting.isPending}>
+                <Play className="mr-2 h-4 w-4" />
+                {simulateRouting.isPending ? "Running..." : "Run simulation"}
+              </Button>
+            </div>
+
+            {simulateRouting.isError && (
+              <p className="text-sm text-destructive">The simulation could not be run. Please try again.</p>
+            )}
+
+            {decisions.length > 0 && (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  {[...distribution.entries()].map(([agentId, count]) => (
+                    <Badge key={agentId} variant={agentId === "unassigned" ? "destructive" : "secondary"}>
+                      {agentName(agentId === "unassigned" ? null : agentId) ?? "Unassigned"}: {count}
+                    </Badge>
+                  ))}
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Chat</TableHead>
+                      <TableHead>Assigned to</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {decisions.map(decision => (
+                      <TableRow key={decision.chatId}>
+                        <TableCell>
+                          <div className="font-medium">{decision.requesterName}</div>
+                          <div className="text-xs text-muted-foreground">{decision.chatId}</div>
+                        </TableCell>
+                        <TableCell>
+                          {agentName(decision.agentId) ?? <span className="text-muted-foreground">Stays queued</span>}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{decision.reason}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <FloatingPreview />
+      </div>
+    </ErrorBoundary>
+  );
+}
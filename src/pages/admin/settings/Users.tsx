@@ -13,9 +13,11 @@ import { FormModal } from "@/components/common/FormModal";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { useUsers, useOrganizations, useUpdateUser, useInviteUser } from "@/hooks/useApiQuery";
+import { useUsers, useOrganizations, useUpdateUser, useInviteUser, useMoveUserToOrganization } from "@/hooks/useApiQuery";
 import { User, Organization } from "@/types";
 import { toast } from "@/hooks/use-toast";
+import { usePermission } from "@/hooks/usePermission";
+import { useAuth } from "@/hooks/useAuth";
 import { UserPlus, UsersIcon, Download, Archive } from "lucide-react";
 
 const userFormSchema = z.object({
@@ -36,10 +38,16 @@ export default function Users() {
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [bulkOrgId, setBulkOrgId] = useState<string>("");
 
-  const { data: usersData } = useUsers();
+  const { data: usersData } = useUsers(undefined, { allOrganizations: true });
   const { data: orgsData } = useOrganizations();
   const updateUserMutation = useUpdateUser();
   const inviteUserMutation = useInviteUser();
+  const moveUserMutation = useMoveUserToOrganization();
+  const canInviteUsers = usePermission('users:invite');
+  const canUpdateUsers = usePermission('users:update');
+  const canChangeRoles = usePermission('users:change-role');
+  const canMoveUsers = usePermission('org:update');
+  const { user: currentUser } = useAuth();
 
   const users = usersData?.data || [];
   const organizations = orgsData?.data || [];
@@ -98,8 +106,10 @@ export default function Users() {
     },
   ];
 
+  // Invited users join the inviter's organization, and only admins invite anyone but an agent
   const handleCreateUser = (data: UserFormData) => {
-    inviteUserMutation.mutate(data, {
+    const { organizationId, role, ...details } = data;
+    inviteUserMutation.mutate({ ...details, role: canChangeRoles ? role : "agent" }, {
       onSuccess: () => {
         setIsCreateModalOpen(false);
         createForm.reset();
@@ -108,49 +118,70 @@ export default function Users() {
     });
   };
 
+  // Details can only be edited by members of the user's organization; admins may still move them
+  const isOwnOrgUser = (user: User | null) => !!user && user.organizationId === currentUser?.organizationId;
+
   const handleEditUser = (user: User) => {
+    if (!isOwnOrgUser(user) && !canMoveUsers) {
+      toast({
+        title: "Error",
+        description: "You can only edit users of your own organization.",
+        variant: "destructive",
+      });
+      return;
+    }
     setEditingUser(user);
     editForm.reset({ ...user, organizationId: user.organizationId || "unassigned" });
     setIsEditModalOpen(true);
   };
 
-  const handleUpdateUser = (data: UserFormData) => {
+  const handleUpdateUser = async (data: UserFormData) => {
     if (!editingUser) return;
-    const processedData = {
-      ...data,
-      organizationId: data.organizationId === "unassigned" ? undefined : data.organizationId,
-    };
-    updateUserMutation.mutate({ userId: editingUser.id, data: processedData }, {
-      onSuccess: () => {
-        setIsEditModalOpen(false);
-        setEditingUser(null);
-        toast({ title: "User updated", description: "User information updated successfully." });
-      },
-    });
+    // Only admins change roles, and a new organization is saved through its own route
+    const { organizationId, role, ...details } = data;
+    const targetOrgId = organizationId === "unassigned" ? null : organizationId ?? null;
+    try {
+      if (isOwnOrgUser(editingUser)) {
+        const changes = canChangeRoles ? { ...details, role } : details;
+        await updateUserMutation.mutateAsync({ userId: editingUser.id, data: changes });
+      }
+      if (canMoveUsers && targetOrgId !== (editingUser.organizationId ?? null)) {
+        await moveUserMutation.mutateAsync({ userId: editingUser.id, organizationId: targetOrgId });
+      }
+    } catch {
+      // The mutations reported the failure; keep the form open
+      return;
+    }
+    setIsEditModalOpen(false);
+    setEditingUser(null);
+    toast({ title: "User updated", description: "User information updated successfully." });
   };
 
-  const handleBulkAssign = () => {
+  const handleBulkAssign = async () => {
     if (!bulkOrgId || selectedUsers.length === 0) return;
-    selectedUsers.forEach((user) => {
-      updateUserMutation.mutate({ userId: user.id, data: { organizationId: bulkOrgId } });
-    });
+    const results = await Promise.allSettled(
+      selectedUsers.map((user) => moveUserMutation.mutateAsync({ userId: user.id, organizationId: bulkOrgId }))
+    );
+    const moved = results.filter((result) => result.status === "fulfilled").length;
     setIsBulkAssignModalOpen(false);
     setBulkOrgId("");
     setSelectedUsers([]);
-    toast({ title: "Bulk assignment completed", description: `${selectedUsers.length} users assigned to organization.` });
+    if (moved > 0) {
+      toast({ title: "Bulk assignment completed", description: `${moved} users assigned to organization.` });
+    }
   };
 
   const bulkActions = [
     { id: "assign", label: "Bulk Assign to Org", icon: <UsersIcon className="w-4 h-4" />, onClick: () => setIsBulkAssignModalOpen(true) },
     { id: "export", label: "Export Selected", icon: <Download className="w-4 h-4" />, onClick: () => toast({ title: "Export started" }) },
-  ];
+  ].filter(action => action.id !== "assign" || canMoveUsers);
 
   return (
     <ErrorBoundary>
       <div className="space-y-6">
         <div>
           <h2 className="text-3xl font-bold tracking-tight">User Management</h2>
-          <p className="text-muted-foreground">Manage users and their organization assignments.</p>
+          <p className="text-muted-foreground">Manage users, their roles and their organizations.</p>
         </div>
 
         <Card>
@@ -159,10 +190,12 @@ export default function Users() {
               <CardTitle>Users</CardTitle>
               <CardDescription>View and manage all users in the system</CardDescription>
             </div>
-            <Button onClick={() => setIsCreateModalOpen(true)}>
-              <UserPlus className="mr-2 h-4 w-4" />
-              Invite User
-            </Button>
+            {canInviteUsers && (
+              <Button onClick={() => setIsCreateModalOpen(true)}>
+                <UserPlus className="mr-2 h-4 w-4" />
+                Invite User
+              </Button>
+            )}
           </CardHeader>
           <CardContent>
             <EnhancedDataTable
@@ -170,7 +203,7 @@ export default function Users() {
               columns={userColumns}
               searchable
               selectable
-              onEdit={handleEditUser}
+              onEdit={canUpdateUsers ? handleEditUser : undefined}
               bulkActions={bulkActions}
               emptyState={{ title: "No users found", description: "Get started by inviting your first user." }}
             />
@@ -203,7 +236,7 @@ export default function Users() {
             </div>
             <div>
               <Label htmlFor="role">Role</Label>
-              <Select {...createForm.register("role")} defaultValue="agent">
+              <Select {...createForm.register("role")} defaultValue="agent" disabled={!canChangeRoles}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select a role" />
                 </SelectTrigger>
@@ -219,56 +252,63 @@ export default function Users() {
 
         <FormModal isOpen={isEditModalOpen} onClose={() => setIsEditModalOpen(false)} title="Edit User" onSubmit={editForm.handleSubmit(handleUpdateUser)} submitLabel="Update User">
           <div className="space-y-4">
-            <div>
-              <Label htmlFor="firstName">First Name</Label>
-              <Input id="firstName" {...editForm.register("firstName")} />
-              {editForm.formState.errors.firstName && (
-                <p className="text-sm text-destructive">{editForm.formState.errors.firstName.message}</p>
-              )}
-            </div>
-            <div>
-              <Label htmlFor="lastName">Last Name</Label>
-              <Input id="lastName" {...editForm.register("lastName")} />
-              {editForm.formState.errors.lastName && (
-                <p className="text-sm text-destructive">{editForm.formState.errors.lastName.message}</p>
-              )}
-            </div>
-            <div>
-              <Label htmlFor="email">Email</Label>
-              <Input id="email" type="email" {...editForm.register("email")} />
-              {editForm.formState.errors.email && (
-                <p className="text-sm text-destructive">{editForm.formState.errors.email.message}</p>
-              )}
-            </div>
-            <div>
-              <Label htmlFor="role">Role</Label>
-              <Select {...editForm.register("role")}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select a role" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="admin">Admin</SelectItem>
-                  <SelectItem value="agent">Agent</SelectItem>
-                  <SelectItem value="manager">Manager</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            <div>
-              <Label>Organization</Label>
-              <Select {...editForm.register("organizationId")}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select organization" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="unassigned">Unassigned</SelectItem>
-                  {organizations.map((org) => (
-                    <SelectItem key={org.id} value={org.id}>
-                      {org.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+            <fieldset disabled={!isOwnOrgUser(editingUser)} className="space-y-4">
+              <div>
+                <Label htmlFor="firstName">First Name</Label>
+                <Input id="firstName" {...editForm.register("firstName")} />
+                {editForm.formState.errors.firstName && (
+                  <p className="text-sm text-destructive">{editForm.formState.errors.firstName.message}</p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="lastName">Last Name</Label>
+                <Input id="lastName" {...editForm.register("lastName")} />
+                {editForm.formState.errors.lastName && (
+                  <p className="text-sm text-destructive">{editForm.formState.errors.lastName.message}</p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="email">Email</Label>
+                <Input id="email" type="email" {...editForm.register("email")} />
+                {editForm.formState.errors.email && (
+                  <p className="text-sm text-destructive">{editForm.formState.errors.email.message}</p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="role">Role</Label>
+                <Select {...editForm.register("role")} disabled={!canChangeRoles || !isOwnOrgUser(editingUser)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="admin">Admin</SelectItem>
+                    <SelectItem value="agent">Agent</SelectItem>
+                    <SelectItem value="manager">Manager</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </fieldset>
+            {canMoveUsers && (
+              <div>
+                <Label>Organization</Label>
+                <Select
+                  value={editForm.watch("organizationId")}
+                  onValueChange={(value) => editForm.setValue("organizationId", value, { shouldDirty: true })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select organization" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                    {organizations.map((org) => (
+                      <SelectItem key={org.id} value={org.id}>
+                        {org.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
         </FormModal>
 
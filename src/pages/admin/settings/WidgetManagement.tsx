@@ -1,378 +1,538 @@
-import { useState } from "react";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { FloatingPreview } from "@/components/admin/FloatingPreview";
+import { BusinessHoursCard } from "@/components/admin/BusinessHoursCard";
+import { LLMSettingsCard } from "@/components/admin/LLMSettingsCard";
+import { PreChatFormBuilder } from "@/components/admin/PreChatFormBuilder";
+import { WidgetDesignPreview } from "@/components/admin/WidgetDesignPreview";
+import { WidgetVersionHistory } from "@/components/admin/WidgetVersionHistory";
+import { usePublishWidget, useSaveWidgetDraft, useWidgetSettings } from "@/hooks/useApiQuery";
+import { useToast } from "@/hooks/use-toast";
+import { widgetConfigSchema } from "@/lib/validations";
+import {
+  buildWidgetEmbedSnippet,
+  DEFAULT_WIDGET_CONFIG,
+  diffWidgetConfigs,
+  WIDGET_CONFIG_LABELS,
+  WIDGET_USER_FIELD_LABELS,
+  WIDGET_USER_FIELDS,
+} from "@/lib/widget";
+import type { WidgetConfig, WidgetTone, WidgetUserField } from "@/types";
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="text-sm text-destructive">{message}</p> : null;
+}
 
 export default function WidgetManagement() {
-  const [widgetSettings, setWidgetSettings] = useState({
-    primaryColor: "#0052CC",
-    secondaryColor: "#17A2B8",
-    highlightColor: "#FFC107",
-    position: "bottom-right",
-    aiName: "Assistant",
-    welcomeMessage: "Hello! How can I help you today?",
-    tone: "friendly",
-    customPrompt: "",
-    sessionTimeout: 30,
-    idleTimeout: 10,
-    anonymous: false,
-    autoOpen: false,
-    headerText: "Customer Support",
-    subHeaderText: "We're here to help",
-    minimizedText: "Chat with us",
-    enableCalls: true,
-    enableVoicemails: true,
-  });
+  const { toast } = useToast();
+  const { data: settingsResponse, isLoading } = useWidgetSettings();
+  const saveDraft = useSaveWidgetDraft();
+  const publishWidget = usePublishWidget();
+  const settings = settingsResponse?.data;
+  const [widgetSettings, setWidgetSettings] = useState<WidgetConfig>(DEFAULT_WIDGET_CONFIG);
+  const [errors, setErrors] = useState<Record<string, string>>({});
 
-  return (
-    <>
+  // The form edits the saved draft; reload it whenever it changes (save, publish or rollback)
+  useEffect(() => {
+    if (settings) {
+      setWidgetSettings(settings.draft);
+      setErrors({});
+    }
+  }, [settings]);
+
+  if (isLoading || !settings) {
+    return (
       <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold">Widget Management</h1>
-        <p className="text-muted-foreground">
-          Configure your customer support chat widget
-        </p>
+        <Skeleton className="h-12 w-72" />
+        <Skeleton className="h-96 w-full" />
       </div>
+    );
+  }
 
-      <Tabs defaultValue="integrations" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-6">
-          <TabsTrigger value="integrations">Integrations</TabsTrigger>
-          <TabsTrigger value="ai-settings">AI Settings</TabsTrigger>
-          <TabsTrigger value="appearance">Appearance</TabsTrigger>
-          <TabsTrigger value="user-info">User Info</TabsTrigger>
-          <TabsTrigger value="embed">Embed</TabsTrigger>
-          <TabsTrigger value="voice">Voice</TabsTrigger>
-        </TabsList>
+  const hasLocalChanges = diffWidgetConfigs(settings.draft, widgetSettings).length > 0;
+  const canPublish = hasLocalChanges || settings.hasUnpublishedChanges;
+  const isSaving = saveDraft.isPending || publishWidget.isPending;
+  const embedCode = buildWidgetEmbedSnippet(settings.widgetId, `${window.location.origin}/widget/chat.js`);
+  const invalidFields = [...new Set(Object.keys(errors).map(path => path.split(".")[0] as keyof WidgetConfig))];
 
-        <TabsContent value="integrations">
-          <Card>
-            <CardHeader>
-              <CardTitle>API Integrations</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="api-key">API Key</Label>
-                <Input id="api-key" placeholder="Enter your API key" type="password" />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="model">AI Model</Label>
-                <Select>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select AI model" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="gpt-4">GPT-4</SelectItem>
-                    <SelectItem value="gpt-3.5">GPT-3.5</SelectItem>
-                    <SelectItem value="claude">Claude</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="moodle-url">Moodle URL</Label>
-                <Input id="moodle-url" placeholder="https://your-moodle.com" />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="moodle-token">Moodle Token</Label>
-                <Input id="moodle-token" placeholder="Enter Moodle access token" type="password" />
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
+  const toggleRequiredField = (field: WidgetUserField, checked: boolean) => {
+    setWidgetSettings(prev => ({
+      ...prev,
+      requiredFields: checked ? [...prev.requiredFields, field] : prev.requiredFields.filter(name => name !== field),
+    }));
+  };
 
-        <TabsContent value="ai-settings">
-          <Card>
-            <CardHeader>
-              <CardTitle>AI Configuration</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="ai-name">AI Assistant Name</Label>
-                <Input 
-                  id="ai-name" 
-                  value={widgetSettings.aiName}
-                  onChange={(e) => setWidgetSettings(prev => ({ ...prev, aiName: e.target.value }))}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="welcome-message">Welcome Message</Label>
-                <Input 
-                  id="welcome-message" 
-                  value={widgetSettings.welcomeMessage}
-                  onChange={(e) => setWidgetSettings(prev => ({ ...prev, welcomeMessage: e.target.value }))}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="tone">Tone</Label>
-                <Select value={widgetSettings.tone} onValueChange={(value) => setWidgetSettings(prev => ({ ...prev, tone: value }))}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="friendly">Friendly</SelectItem>
-                    <SelectItem value="professional">Professional</SelectItem>
-                    <SelectItem value="casual">Casual</SelectItem>
-                    <SelectItem value="formal">Formal</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="custom-prompt">Custom Prompt</Label>
-                <Textarea 
-                  id="custom-prompt" 
-                  placeholder="Enter custom instructions for the AI..."
-                  value={widgetSettings.customPrompt}
-                  onChange={(e) => setWidgetSettings(prev => ({ ...prev, customPrompt: e.target.value }))}
-                />
-              </div>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="session-timeout">Session Timeout (minutes)</Label>
-                  <Input 
-                    id="session-timeout" 
-                    type="number" 
-                    value={widgetSettings.sessionTimeout}
-                    onChange={(e) => setWidgetSettings(prev => ({ ...prev, sessionTimeout: parseInt(e.target.value) }))}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="idle-timeout">Idle Timeout (minutes)</Label>
-                  <Input 
-                    id="idle-timeout" 
-                    type="number" 
-                    value={widgetSettings.idleTimeout}
-                    onChange={(e) => setWidgetSettings(prev => ({ ...prev, idleTimeout: parseInt(e.target.value) }))}
-                  />
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
+  const validate = () => {
+    const parsed = widgetConfigSchema.safeParse(widgetSettings);
+    if (!parsed.success) {
+      const fieldErrors: Record<string, string> = {};
+      for (const issue of parsed.error.issues) {
+        const path = issue.path.join(".");
+        if (!fieldErrors[path]) fieldErrors[path] = issue.message;
+      }
+      setErrors(fieldErrors);
+      return null;
+    }
+    setErrors({});
+    return parsed.data;
+  };
 
-        <TabsContent value="appearance">
-          <Card>
-            <CardHeader>
-              <CardTitle>Widget Appearance</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="header-text">Header Text</Label>
-                <Input 
-                  id="header-text" 
-                  value={widgetSettings.headerText}
-                  onChange={(e) => setWidgetSettings(prev => ({ ...prev, headerText: e.target.value }))}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="subheader-text">Subheader Text</Label>
-                <Input 
-                  id="subheader-text" 
-                  value={widgetSettings.subHeaderText}
-                  onChange={(e) => setWidgetSettings(prev => ({ ...prev, subHeaderText: e.target.value }))}
-                />
-              </div>
-              <div className="grid grid-cols-3 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="primary-color">Primary Color</Label>
-                  <Input 
-                    id="primary-color" 
-                    type="color" 
-                    value={widgetSettings.primaryColor}
-                    onChange={(e) => setWidgetSettings(prev => ({ ...prev, primaryColor: e.target.value }))}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="secondary-color">Secondary Color</Label>
-                  <Input 
-                    id="secondary-color" 
-                    type="color" 
-                    value={widgetSettings.secondaryColor}
-                    onChange={(e) => setWidgetSettings(prev => ({ ...prev, secondaryColor: e.target.value }))}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="highlight-color">Highlight Color</Label>
-                  <Input 
-                    id="highlight-color" 
-                    type="color" 
-                    value={widgetSettings.highlightColor}
-                    onChange={(e) => setWidgetSettings(prev => ({ ...prev, highlightColor: e.target.value }))}
-                  />
-                </div>
-              </div>
-              <div className="space-y-2">
-                <Label>Button Position</Label>
-                <RadioGroup 
-                  value={widgetSettings.position} 
-                  onValueChange={(value) => setWidgetSettings(prev => ({ ...prev, position: value }))}
-                >
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="bottom-right" id="bottom-right" />
-                    <Label htmlFor="bottom-right">Bottom Right</Label>
+  const handleSaveDraft = () => {
+    const config = validate();
+    if (config) saveDraft.mutate(config);
+  };
+
+  // Unsaved edits are saved first so what gets published is what the admin sees
+  const handlePublish = async () => {
+    if (hasLocalChanges) {
+      const config = validate();
+      if (!config) return;
+      try {
+        await saveDraft.mutateAsync(config);
+      } catch {
+        return;
+      }
+    }
+    publishWidget.mutate();
+  };
+
+  const handleCopyEmbedCode = async () => {
+    try {
+      await navigator.clipboard.writeText(embedCode);
+      toast({ title: "Success", description: "Embed code copied to the clipboard" });
+    } catch {
+      toast({ title: "Error", description: "Could not copy; select the code and copy it manually", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Widget Management</h1>
+          <p className="text-muted-foreground">
+            Configure your customer support chat widget
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          {settings.publishedVersion > 0 ? (
+            <Badge>Version {settings.publishedVersion} live</Badge>
+          ) : (
+            <Badge variant="outline">Default settings live</Badge>
+          )}
+          {settings.publishedAt && <span>since {new Date(settings.publishedAt).toLocaleString()}</span>}
+          {hasLocalChanges ? (
+            <Badge variant="secondary">Unsaved changes</Badge>
+          ) : settings.hasUnpublishedChanges && (
+            <Badge variant="secondary">Draft not published</Badge>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_420px]">
+        <div className="min-w-0 space-y-6">
+          <Tabs defaultValue="integrations" className="space-y-6">
+            <TabsList className="grid w-full grid-cols-7">
+              <TabsTrigger value="integrations">Integrations</TabsTrigger>
+              <TabsTrigger value="ai-settings">AI Settings</TabsTrigger>
+              <TabsTrigger value="appearance">Appearance</TabsTrigger>
+              <TabsTrigger value="user-info">User Info</TabsTrigger>
+              <TabsTrigger value="embed">Embed</TabsTrigger>
+              <TabsTrigger value="voice">Hours & Voice</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="integrations" className="space-y-6">
+              <LLMSettingsCard />
+              <Card>
+                <CardHeader>
+                  <CardTitle>API Integrations</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="moodle-url">Moodle URL</Label>
+                    <Input id="moodle-url" placeholder="https://your-moodle.com" />
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="bottom-left" id="bottom-left" />
-                    <Label htmlFor="bottom-left">Bottom Left</Label>
+                  <div className="space-y-2">
+                    <Label htmlFor="moodle-token">Moodle Token</Label>
+                    <Input id="moodle-token" placeholder="Enter Moodle access token" type="password" />
                   </div>
-                </RadioGroup>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="minimized-text">Minimized Text</Label>
-                <Input 
-                  id="minimized-text" 
-                  value={widgetSettings.minimizedText}
-                  onChange={(e) => setWidgetSettings(prev => ({ ...prev, minimizedText: e.target.value }))}
-                />
-              </div>
-              <div className="flex items-center justify-between">
-                <div className="space-y-0.5">
-                  <Label htmlFor="auto-open">Auto-open Widget</Label>
-                  <p className="text-sm text-muted-foreground">
-                    Automatically open the chat widget for visitors
-                  </p>
-                </div>
-                <Switch 
-                  id="auto-open" 
-                  checked={widgetSettings.autoOpen}
-                  onCheckedChange={(checked) => setWidgetSettings(prev => ({ ...prev, autoOpen: checked }))}
-                />
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
+                </CardContent>
+              </Card>
+            </TabsContent>
 
-        <TabsContent value="user-info">
-          <Card>
-            <CardHeader>
-              <CardTitle>User Information Collection</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex items-center justify-between">
-                <div className="space-y-0.5">
-                  <Label htmlFor="anonymous">Anonymous Chat</Label>
-                  <p className="text-sm text-muted-foreground">
-                    Allow users to chat without providing information
-                  </p>
-                </div>
-                <Switch 
-                  id="anonymous" 
-                  checked={widgetSettings.anonymous}
-                  onCheckedChange={(checked) => setWidgetSettings(prev => ({ ...prev, anonymous: checked }))}
-                />
-              </div>
-              {!widgetSettings.anonymous && (
-                <div className="space-y-2">
-                  <Label>Required Fields</Label>
+            <TabsContent value="ai-settings">
+              <Card>
+                <CardHeader>
+                  <CardTitle>AI Configuration</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="ai-name">AI Assistant Name</Label>
+                    <Input 
+                      id="ai-name" 
+                      value={widgetSettings.aiName}
+                      onChange={(e) => setWidgetSettings(prev => ({ ...prev, aiName: e.target.value }))}
+                    />
+                    <FieldError message={errors.aiName} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="welcome-message">Welcome Message</Label>
+                    <Input 
+                      id="welcome-message" 
+                      value={widgetSettings.welcomeMessage}
+                      onChange={(e) => setWidgetSettings(prev => ({ ...prev, welcomeMessage: e.target.value }))}
+                    />
+                    <FieldError message={errors.welcomeMessage} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="tone">Tone</Label>
+                    <Select value={widgetSettings.tone} onValueChange={(value) => setWidgetSettings(prev => ({ ...prev, tone: value as WidgetTone }))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="friendly">Friendly</SelectItem>
+                        <SelectItem value="professional">Professional</SelectItem>
+                        <SelectItem value="casual">Casual</SelectItem>
+                        <SelectItem value="formal">Formal</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="custom-prompt">Custom Prompt</Label>
+                    <Textarea 
+                      id="custom-prompt" 
+                      placeholder="Enter custom instructions for the AI..."
+                      value={widgetSettings.customPrompt}
+                      onChange={(e) => setWidgetSettings(prev => ({ ...prev, customPrompt: e.target.value }))}
+                    />
+                    <FieldError message={errors.customPrompt} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="session-timeout">Session Timeout (minutes)</Label>
+                      <Input 
+                        id="session-timeout" 
+                        type="number" 
+                        value={widgetSettings.sessionTimeout}
+                        onChange={(e) => setWidgetSettings(prev => ({ ...prev, sessionTimeout: parseInt(e.target.value) }))}
+                      />
+                      <FieldError message={errors.sessionTimeout} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="idle-timeout">Idle Timeout (minutes)</Label>
+                      <Input 
+                        id="idle-timeout" 
+                        type="number" 
+                        value={widgetSettings.idleTimeout}
+                        onChange={(e) => setWidgetSettings(prev => ({ ...prev, idleTimeout: parseInt(e.target.value) }))}
+                      />
+                      <FieldError message={errors.idleTimeout} />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="appearance">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Widget Appearance</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="header-text">Header Text</Label>
+                    <Input 
+                      id="header-text" 
+                      value={widgetSettings.headerText}
+                      onChange={(e) => setWidgetSettings(prev => ({ ...prev, headerText: e.target.value }))}
+                    />
+                    <FieldError message={errors.headerText} />
+                  </div>
                   <div className="space-y-2">
-                    <div className="flex items-center space-x-2">
-                      <input type="checkbox" id="require-name" defaultChecked />
-                      <Label htmlFor="require-name">Name</Label>
+                    <Label htmlFor="subheader-text">Subheader Text</Label>
+                    <Input 
+                      id="subheader-text" 
+                      value={widgetSettings.subHeaderText}
+                      onChange={(e) => setWidgetSettings(prev => ({ ...prev, subHeaderText: e.target.value }))}
+                    />
+                    <FieldError message={errors.subHeaderText} />
+                  </div>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="primary-color">Primary Color</Label>
+                      <Input 
+                        id="primary-color" 
+                        type="color" 
+                        value={widgetSettings.primaryColor}
+                        onChange={(e) => setWidgetSettings(prev => ({ ...prev, primaryColor: e.target.value }))}
+                      />
+                      <FieldError message={errors.primaryColor} />
                     </div>
-                    <div className="flex items-center space-x-2">
-                      <input type="checkbox" id="require-email" defaultChecked />
-                      <Label htmlFor="require-email">Email</Label>
+                    <div className="space-y-2">
+                      <Label htmlFor="secondary-color">Secondary Color</Label>
+                      <Input 
+                        id="secondary-color" 
+                        type="color" 
+                        value={widgetSettings.secondaryColor}
+                        onChange={(e) => setWidgetSettings(prev => ({ ...prev, secondaryColor: e.target.value }))}
+                      />
+                      <FieldError message={errors.secondaryColor} />
                     </div>
-                    <div className="flex items-center space-x-2">
-                      <input type="checkbox" id="require-mobile" />
-                      <Label htmlFor="require-mobile">Mobile</Label>
+                    <div className="space-y-2">
+                      <Label htmlFor="highlight-color">Highlight Color</Label>
+                      <Input 
+                        id="highlight-color" 
+                        type="color" 
+                        value={widgetSettings.highlightColor}
+                        onChange={(e) => setWidgetSettings(prev => ({ ...prev, highlightColor: e.target.value }))}
+                      />
+                      <FieldError message={errors.highlightColor} />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Button Position</Label>
+                    <RadioGroup 
+                      value={widgetSettings.position} 
+                      onValueChange={(value) => setWidgetSettings(prev => ({ ...prev, position: value as WidgetConfig["position"] }))}
+                    >
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="bottom-right" id="bottom-right" />
+                        <Label htmlFor="bottom-right">Bottom Right</Label>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="bottom-left" id="bottom-left" />
+                        <Label htmlFor="bottom-left">Bottom Left</Label>
+                      </div>
+                    </RadioGroup>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="minimized-text">Minimized Text</Label>
+                    <Input 
+                      id="minimized-text" 
+                      value={widgetSettings.minimizedText}
+                      onChange={(e) => setWidgetSettings(prev => ({ ...prev, minimizedText: e.target.value }))}
+                    />
+                    <FieldError message={errors.minimizedText} />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="auto-open">Auto-open Widget</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Automatically open the chat widget for visitors
+                      </p>
+                    </div>
+                    <Switch 
+                      id="auto-open" 
+                      checked={widgetSettings.autoOpen}
+                      onCheckedChange={(checked) => setWidgetSettings(prev => ({ ...prev, autoOpen: checked }))}
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="user-info" className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>User Information Collection</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="anonymous">Anonymous Chat</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Allow users to chat without giving their name, email or mobile number
+                      </p>
                     </div>
+                    <Switch 
+                      id="anonymous" 
+                      checked={widgetSettings.anonymous}
+                      onCheckedChange={(checked) => setWidgetSettings(prev => ({ ...prev, anonymous: checked }))}
+                    />
                   </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        </TabsContent>
+                  {!widgetSettings.anonymous && (
+                    <div className="space-y-2">
+                      <Label>Required Fields</Label>
+                      <div className="space-y-2">
+                        {WIDGET_USER_FIELDS.map(field => (
+                          <div key={field} className="flex items-center space-x-2">
+                            <input
+                              type="checkbox"
+                              id={`require-${field}`}
+                              checked={widgetSettings.requiredFields.includes(field)}
+                              onChange={(e) => toggleRequiredField(field, e.target.checked)}
+                            />
+                            <Label htmlFor={`require-${field}`}>{WIDGET_USER_FIELD_LABELS[field]}</Label>
+                          </div>
+                        ))}
+                      </div>
+                      <FieldError message={errors.requiredFields} />
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
 
-        <TabsContent value="embed">
-          <Card>
-            <CardHeader>
-              <CardTitle>Embed Code</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="embed-code">Embed Script</Label>
-                <Textarea 
-                  id="embed-code" 
-                  readOnly
-                  value={`<script>
-  (function() {
-    var script = document.createElement('script');
-    script.src = 'https://widget.example.com/chat.js';
-    script.async = true;
-    script.setAttribute('data-widget-id', 'your-widget-id');
-    document.head.appendChild(script);
-  })();
-</script>`}
-                  className="font-mono text-sm"
-                  rows={8}
-                />
-              </div>
-              <Button variant="outline">Copy to Clipboard</Button>
-            </CardContent>
-          </Card>
-        </TabsContent>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Pre-chat Form</CardTitle>
+                  <CardDescription>
+                    Extra questions visitors answer before the chat starts, in this order; agents see the answers with the customer information
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PreChatFormBuilder
+                    fields={widgetSettings.preChatFields}
+                    onChange={(preChatFields) => setWidgetSettings(prev => ({ ...prev, preChatFields }))}
+                    errors={errors}
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
 
-        <TabsContent value="voice">
-          <Card>
-            <CardHeader>
-              <CardTitle>Calls & Voicemails</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex items-center justify-between">
-                <div className="space-y-0.5">
-                  <Label htmlFor="enable-calls">Enable Voice Calls</Label>
-                  <p className="text-sm text-muted-foreground">
-                    Allow customers to make voice calls
-                  </p>
-                </div>
-                <Switch 
-                  id="enable-calls" 
-                  checked={widgetSettings.enableCalls}
-                  onCheckedChange={(checked) => setWidgetSettings(prev => ({ ...prev, enableCalls: checked }))}
-                />
-              </div>
-              <div className="flex items-center justify-between">
-                <div className="space-y-0.5">
-                  <Label htmlFor="enable-voicemails">Enable Voicemails</Label>
+            <TabsContent value="embed">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Embed Code</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="embed-code">Embed Script</Label>
+                    <Textarea 
+                      id="embed-code" 
+                      readOnly
+                      value={embedCode}
+                      className="font-mono text-sm"
+                      rows={8}
+                    />
+                  </div>
                   <p className="text-sm text-muted-foreground">
-                    Allow customers to leave voicemail messages
+                    The snippet always loads the published configuration; saved drafts never reach your customers.
                   </p>
-                </div>
-                <Switch 
-                  id="enable-voicemails" 
-                  checked={widgetSettings.enableVoicemails}
-                  onCheckedChange={(checked) => setWidgetSettings(prev => ({ ...prev, enableVoicemails: checked }))}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label>Business Hours</Label>
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <Label htmlFor="start-time">Start Time</Label>
-                    <Input id="start-time" type="time" defaultValue="09:00" />
+                  <Button variant="outline" onClick={handleCopyEmbedCode}>Copy to Clipboard</Button>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="voice" className="space-y-6">
+              <BusinessHoursCard />
+              <Card>
+                <CardHeader>
+                  <CardTitle>Offline Mode</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="offline-message">Offline Message</Label>
+                    <Textarea
+                      id="offline-message"
+                      value={widgetSettings.offlineMessage}
+                      onChange={(e) => setWidgetSettings(prev => ({ ...prev, offlineMessage: e.target.value }))}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Shown in the widget outside business hours, followed by when you are back
+                    </p>
+                    <FieldError message={errors.offlineMessage} />
                   </div>
-                  <div>
-                    <Label htmlFor="end-time">End Time</Label>
-                    <Input id="end-time" type="time" defaultValue="17:00" />
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="offline-lead-capture">Collect Messages While Closed</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Visitors can leave their name, email and a message to be answered later
+                      </p>
+                    </div>
+                    <Switch
+                      id="offline-lead-capture"
+                      checked={widgetSettings.offlineLeadCapture}
+                      onCheckedChange={(checked) => setWidgetSettings(prev => ({ ...prev, offlineLeadCapture: checked }))}
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Calls & Voicemails</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="enable-calls">Enable Voice Calls</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Allow customers to make voice calls
+                      </p>
+                    </div>
+                    <Switch 
+                      id="enable-calls" 
+                      checked={widgetSettings.enableCalls}
+                      onCheckedChange={(checked) => setWidgetSettings(prev => ({ ...prev, enableCalls: checked }))}
+                    />
                   </div>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
-      </Tabs>
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="enable-voicemails">Enable Voicemails</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Allow customers to leave voicemail messages
+                      </p>
+                    </div>
+                    <Switch 
+                      id="enable-voicemails" 
+                      checked={widgetSettings.enableVoicemails}
+                      onCheckedChange={(checked) => setWidgetSettings(prev => ({ ...prev, enableVoicemails: checked }))}
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="history">
+              <WidgetVersionHistory settings={settings} />
+            </TabsContent>
+          </Tabs>
+
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            {invalidFields.length > 0 && (
+              <p className="mr-auto text-sm text-destructive">
+                Check these settings: {invalidFields.map(field => WIDGET_CONFIG_LABELS[field]).join(", ")}
+              </p>
+            )}
+            <Button
+              variant="ghost"
+              disabled={!hasLocalChanges || isSaving}
+              onClick={() => {
+                setWidgetSettings(settings.draft);
+                setErrors({});
+              }}
+            >
+              Discard Changes
+            </Button>
+            <Button variant="outline" disabled={!hasLocalChanges || isSaving} onClick={handleSaveDraft}>
+              {saveDraft.isPending ? "Saving..." : "Save Draft"}
+            </Button>
+            <Button size="lg" variant="highlight" disabled={!canPublish || isSaving} onClick={handlePublish}>
+              {publishWidget.isPending ? "Publishing..." : "Publish"}
+            </Button>
+          </div>
+        </div>
 
-      <div className="flex justify-end">
-        <Button size="lg" variant="highlight">Save All Settings</Button>
+        <Card className="self-start xl:sticky xl:top-6">
+          <CardHeader>
+            <CardTitle>Preview</CardTitle>
+            <CardDescription>Your changes show here as you make them, before they are saved or published</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WidgetDesignPreview config={widgetSettings} className="h-[640px]" />
+          </CardContent>
+        </Card>
       </div>
     </div>
-    <FloatingPreview />
-  </>
   );
 }
\ No newline at end of file
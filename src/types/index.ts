@@ -22,26 +22,95 @@ export interface User {
   onlineStatus: 'online' | 'offline' | 'away';
   createdAt: string;
   organizationId?: string;
+  /** Topics the user can handle, matched against a chat's required skills when routing */
+  skills?: string[];
+  /** Overrides the organization's default limit of open chats per agent */
+  maxConcurrentChats?: number;
+  /** Name shown to customers instead of the real one */
+  pseudonym?: string;
+}
+
+export type ChatStatus = 'queued' | 'active' | 'on-hold' | 'resolved' | 'closed' | 'missed' | 'archived';
+
+export interface ChatStatusChange {
+  /** Null for the status a chat was created with */
+  from: ChatStatus | null;
+  to: ChatStatus;
+  changedAt: string;
+  /** User who made the change; absent for changes made by the system */
+  changedBy?: string;
+  reason?: string;
 }
 
 export interface Chat {
   id: string;
+  organizationId: string;
   requesterName: string;
   requesterEmail: string;
   requesterPhone: string;
   ipAddress: string;
   browser: string;
   pageUrl: string;
-  status: 'active' | 'missed' | 'closed';
+  status: ChatStatus;
+  statusHistory: ChatStatusChange[];
+  /** Customer the requester was identified as; set by the backend when the chat is created */
+  customerId?: string;
   assignedAgentId?: string;
+  requiredSkills?: string[];
+  /** Started while support was closed; set by the backend when the chat is created */
+  outOfHours?: boolean;
+  /** What the visitor filled in on the widget's custom pre-chat fields */
+  preChatAnswers?: PreChatAnswer[];
   createdAt: string;
   lastUpdatedAt: string;
   geo: string;
   summary: string;
 }
 
+export type MessageSenderType = 'customer' | 'agent' | 'ai' | 'system';
+
+export type MessageDeliveryStatus = 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface MessageAttachment {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  sizeKb: number;
+  url: string;
+}
+
+export interface Message {
+  id: string;
+  chatId: string;
+  senderType: MessageSenderType;
+  senderId?: string;
+  senderName: string;
+  body: string;
+  attachments: MessageAttachment[];
+  deliveryStatus: MessageDeliveryStatus;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+interface RealtimeEventBase {
+  /** Organization the event belongs to; subscribers only receive their tenant's events */
+  orgId: string;
+  occurredAt: string;
+  /** User whose action caused the event, when it was not the customer or the system */
+  actorId?: string;
+}
+
+export type RealtimeEvent = RealtimeEventBase & (
+  | { type: 'chat.created'; chat: Chat }
+  | { type: 'message.received'; message: Message }
+  | { type: 'chat.status_changed'; chatId: string; status: ChatStatus; change?: ChatStatusChange }
+  | { type: 'chat.assigned'; chatId: string; agentId: string | null }
+  | { type: 'typing'; chatId: string; senderType: MessageSenderType; senderId?: string; senderName: string; isTyping: boolean }
+);
+
 export interface Engagement {
   id: string;
+  organizationId: string;
   customerName: string;
   customerEmail: string;
   contactNumber: string;
@@ -51,48 +120,568 @@ export interface Engagement {
   aiSummary: string;
 }
 
+export interface CustomerNote {
+  id: string;
+  body: string;
+  authorId: string;
+  createdAt: string;
+}
+
+/**
+ * One person across all of their chats. Chats with a known email address or
+ * phone number are linked to the same customer; when a chat matches two
+ * customers they are merged.
+ */
+export interface Customer {
+  id: string;
+  organizationId: string;
+  name: string;
+  emails: string[];
+  phones: string[];
+  /** Free-form details such as plan or company, edited by agents */
+  attributes: Record<string, string>;
+  tags: string[];
+  notes: CustomerNote[];
+  /** Ids of customers that were merged into this one */
+  mergedCustomerIds?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DocumentIngestionStatus = 'queued' | 'parsing' | 'indexed' | 'failed';
+
 export interface Document {
   id: string;
+  organizationId: string;
   title: string;
   fileType: string;
   fileSizeKb: number;
   uploadedById: string;
   uploadedAt: string;
   lastModifiedAt: string;
+  /** Progress of text extraction and chunking; only indexed documents are used by the AI agent */
+  ingestionStatus: DocumentIngestionStatus;
+  chunkCount?: number;
+  characterCount?: number;
+  /** Why ingestion failed */
+  ingestionError?: string;
+  indexedAt?: string;
+}
+
+/** A passage of a document's extracted text, the unit the AI agent retrieves */
+export interface DocumentChunk {
+  id: string;
+  documentId: string;
+  organizationId: string;
+  /** Position within the document, from 0 */
+  index: number;
+  text: string;
+  /** Approximate size in model tokens */
+  tokenCount: number;
 }
 
+export type ScraperFrequency = 'manual' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'custom';
+
+/** `queued` while a run waits on the background queue */
+export type ScraperJobStatus = 'pending' | 'queued' | 'running' | 'completed' | 'failed';
+
 export interface ScraperJob {
   id: string;
+  organizationId: string;
+  /** Page the crawl starts from; only links on the same origin are followed */
   url: string;
+  /** How many links away from the start page the crawl may go */
   linkDepth: number;
-  frequency: string;
-  lastScrapedAt: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  maxPages: number;
+  /** Glob patterns (`*` matches anything) a followed URL must match; empty allows all */
+  includePatterns: string[];
+  excludePatterns: string[];
+  respectRobotsTxt: boolean;
+  frequency: ScraperFrequency;
+  /** Cron expression used when `frequency` is `custom` */
+  cronExpression?: string;
+  /** Paused jobs keep their schedule but are not run by the scheduler */
+  paused?: boolean;
+  /** Set by the scheduler; absent for manual and paused jobs */
+  nextRunAt?: string;
+  /** Absent until the first run */
+  lastScrapedAt?: string;
+  status: ScraperJobStatus;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type ScrapedPageOutcome = 'fetched' | 'skipped' | 'error';
+
+export interface ScrapedPage {
+  url: string;
+  /** Links followed from the start page to reach this one */
+  depth: number;
+  outcome: ScrapedPageOutcome;
+  statusCode?: number;
+  title?: string;
+  /** Why the page was skipped or failed */
+  reason?: string;
+}
+
+/** Pages whose content differs from the previous run */
+export interface ScraperRunDiff {
+  added: string[];
+  removed: string[];
+  changed: Array<{ url: string; addedLines: string[]; removedLines: string[] }>;
+  unchangedCount: number;
 }
 
+export interface ScraperRun {
+  id: string;
+  jobId: string;
+  organizationId: string;
+  status: Exclude<ScraperJobStatus, 'pending' | 'queued'>;
+  trigger: 'manual' | 'schedule';
+  startedAt: string;
+  finishedAt?: string;
+  pagesFetched: number;
+  pagesSkipped: number;
+  errorCount: number;
+  pages: ScrapedPage[];
+  diff?: ScraperRunDiff;
+  /** Why the whole run failed, e.g. the start page could not be reached */
+  error?: string;
+}
+
+export type BackgroundJobType = 'scrape' | 'document-reindex' | 'summary-generation' | 'data-export';
+
+export type BackgroundJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/** One unit of work on the shared background queue */
+export interface BackgroundJob {
+  id: string;
+  organizationId: string;
+  type: BackgroundJobType;
+  /** Short description shown on the jobs page, e.g. the scraped URL */
+  label: string;
+  status: BackgroundJobStatus;
+  /** Type-specific arguments, e.g. `documentId` for a re-index */
+  payload: Record<string, string>;
+  /** Attempts made so far, including the one in progress */
+  attempts: number;
+  maxAttempts: number;
+  /** Not picked up before this time; pushed back after each failed attempt */
+  runAt: string;
+  createdAt: string;
+  createdById?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Message of the latest failed attempt */
+  error?: string;
+  /** What a completed job did, e.g. "6 pages fetched" */
+  result?: string;
+}
+
+/** Drafts are only visible to admins; published FAQs are what customers and the assistant see */
+export type FAQStatus = 'draft' | 'published';
+
 export interface FAQ {
   id: string;
+  organizationId: string;
   question: string;
+  /** Markdown */
   answer: string;
+  category: string;
   tags: string[];
+  status: FAQStatus;
+  /** Position within its category, starting at 0 */
+  order: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export type ResourceType = 'document' | 'video' | 'link' | 'template';
+
+/** A `{{name}}` placeholder in a template resource */
+export interface ResourceTemplateVariable {
+  name: string;
+  description: string;
+  /** Used when the assistant has no value for the variable */
+  defaultValue: string;
+}
+
 export interface Resource {
   id: string;
+  organizationId: string;
   title: string;
   tags: string[];
-  type: 'document' | 'video' | 'link' | 'template';
+  type: ResourceType;
+  /** File path for documents, web address for videos and links; templates have none */
   url: string;
+  /** How the assistant should use the resource; injected into the prompt with it */
   aiInstructions: string;
+  /** Videos only */
+  transcript?: string;
+  /** Templates only: the text, with `{{name}}` placeholders for the variables */
+  templateBody?: string;
+  templateVariables?: ResourceTemplateVariable[];
   uploadedById: string;
   uploadedAt: string;
   updatedAt: string;
+  /** Derived when resources are listed: chats that referenced the resource */
+  usageCount?: number;
+  lastUsedAt?: string;
+}
+
+/** A chat in which the assistant or an agent referenced a resource */
+export interface ResourceUsage {
+  id: string;
+  organizationId: string;
+  resourceId: string;
+  chatId: string;
+  /** The message that referenced it, when known */
+  messageId?: string;
+  referencedAt: string;
+  /** Joined from the chat when usage is listed; absent once the chat is deleted */
+  chat?: Pick<Chat, 'requesterName' | 'requesterEmail' | 'status'>;
+}
+
+export type SavedReplyScope = 'personal' | 'organization';
+
+/** A canned response agents insert into the chat composer */
+export interface SavedReply {
+  id: string;
+  organizationId: string;
+  title: string;
+  /** Typed after a slash in the composer, e.g. `hello` for /hello */
+  shortcut: string;
+  /** Text with `{{customer.firstName}}`-style variables */
+  body: string;
+  /** Personal replies are only visible to the user who created them */
+  scope: SavedReplyScope;
+  createdById: string;
+  /** How often the reply was inserted into a message */
+  usageCount: number;
+  lastUsedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type KnowledgeSourceType = 'document' | 'faq' | 'resource' | 'scraped-page';
+
+/** A passage matched by a knowledge base search */
+export interface KnowledgeSearchResult {
+  /** The passage, e.g. a document chunk; one source can match several times */
+  id: string;
+  sourceType: KnowledgeSourceType;
+  sourceId: string;
+  title: string;
+  url?: string;
+  /** Passage text exactly as the model would receive it */
+  snippet: string;
+  /** BM25 relevance; only comparable within one search */
+  score: number;
+  /** Query terms found in the passage, after stemming */
+  matchedTerms: string[];
+  tokenCount: number;
+}
+
+export interface KnowledgeSearchResponse {
+  results: KnowledgeSearchResult[];
+  /** The top results joined into the prompt section the model would be given */
+  context: string;
+  contextTokenCount: number;
+  /** Results that fit in the context, best first */
+  contextResultIds: string[];
+  /** Passages searched across all selected sources */
+  passageCount: number;
+}
+
+export type LLMProviderId = 'local' | 'mock' | 'openai' | 'anthropic';
+
+/** The language model an organization uses; one record per organization, keyed by its id */
+export interface LLMSettings {
+  id: string;
+  organizationId: string;
+  provider: LLMProviderId;
+  model: string;
+  /** Overrides the provider's default base URL */
+  endpoint?: string;
+  temperature: number;
+  maxTokens: number;
+  /** Tried once when the model fails */
+  fallbackModel?: string;
+  /** The API key is never returned once saved, only whether there is one and a masked preview */
+  hasApiKey: boolean;
+  apiKeyPreview?: string;
+  updatedAt: string;
+}
+
+export interface LLMConnectionTestResult {
+  ok: boolean;
+  provider: LLMProviderId;
+  /** The model that answered, or that failed */
+  model: string;
+  usedFallback: boolean;
+  latencyMs: number;
+  message: string;
+}
+
+export type SuggestionOutcome = 'accepted' | 'edited' | 'rejected';
+
+/** A reply drafted for the agent from the conversation and the knowledge base */
+export interface ReplySuggestion {
+  id: string;
+  organizationId: string;
+  chatId: string;
+  text: string;
+  /** Knowledge the suggestion cites */
+  sources: Pick<KnowledgeSearchResult, 'id' | 'sourceType' | 'sourceId' | 'title' | 'url'>[];
+  provider: string;
+  model: string;
+  /** Pending until the agent sends it, edited or not, or dismisses it */
+  status: 'pending' | SuggestionOutcome;
+  requestedById: string;
+  createdAt: string;
+  reviewedAt?: string;
+  /** The message the agent sent based on it */
+  messageId?: string;
+  /** What was sent, when it differs from the suggestion */
+  finalText?: string;
+}
+
+export interface ReplySuggestionsResponse {
+  suggestions: ReplySuggestion[];
+  /** What the knowledge base was searched for */
+  query: string;
+}
+
+export type WidgetPosition = 'bottom-right' | 'bottom-left';
+
+/** Details a visitor can be asked for before the chat starts */
+export type WidgetUserField = 'name' | 'email' | 'phone';
+
+export type WidgetTone = 'friendly' | 'professional' | 'casual' | 'formal';
+
+/** Kinds of custom pre-chat field; a consent field is a checkbox whose label is the statement agreed to */
+export type PreChatFieldType = 'text' | 'select' | 'checkbox' | 'consent';
+
+/** Rules for the answer to a text field */
+export interface PreChatFieldValidation {
+  minLength?: number;
+  maxLength?: number;
+  /** Regular expression the whole answer must match */
+  pattern?: string;
+  /** Shown when the answer does not match `pattern` */
+  patternMessage?: string;
+}
+
+/** A question an admin adds to the widget's pre-chat form, after the name, email and mobile fields */
+export interface PreChatField {
+  /** Stable key of the answer, so answers survive relabelling */
+  id: string;
+  type: PreChatFieldType;
+  label: string;
+  /** For text fields, an answer is needed; for checkbox and consent fields, it must be ticked */
+  required: boolean;
+  placeholder?: string;
+  /** Choices of a select field */
+  options?: string[];
+  validation?: PreChatFieldValidation;
+}
+
+/** A visitor's answer, stored on the chat with the field's label at the time */
+export interface PreChatAnswer {
+  fieldId: string;
+  label: string;
+  type: PreChatFieldType;
+  value: string | boolean;
+}
+
+/** Everything an admin configures about the customer-facing chat widget */
+export interface WidgetConfig {
+  primaryColor: string;
+  secondaryColor: string;
+  highlightColor: string;
+  position: WidgetPosition;
+  headerText: string;
+  subHeaderText: string;
+  /** Label of the launcher button while the widget is closed */
+  minimizedText: string;
+  welcomeMessage: string;
+  /** Open the widget as soon as the page loads */
+  autoOpen: boolean;
+  aiName: string;
+  tone: WidgetTone;
+  /** Extra instructions for the assistant */
+  customPrompt: string;
+  /** Minutes */
+  sessionTimeout: number;
+  /** Minutes without activity before the visitor is considered gone */
+  idleTimeout: number;
+  /** Visitors may start a chat without giving any details */
+  anonymous: boolean;
+  requiredFields: WidgetUserField[];
+  /** Custom questions of the pre-chat form, in the order they are asked */
+  preChatFields: PreChatField[];
+  enableCalls: boolean;
+  enableVoicemails: boolean;
+  /** Shown instead of the chat while support is closed */
+  offlineMessage: string;
+  /** While closed, visitors can still leave a message and their email for a reply later */
+  offlineLeadCapture: boolean;
+}
+
+/**
+ * An organization's widget: the published configuration customers see and
+ * the draft admins edit until they publish it. One record per organization,
+ * keyed by its id.
+ */
+export interface WidgetSettings {
+  id: string;
+  organizationId: string;
+  /** Public identifier used in the embed snippet */
+  widgetId: string;
+  draft: WidgetConfig;
+  published: WidgetConfig;
+  /** 0 while customers see the defaults */
+  publishedVersion: number;
+  hasUnpublishedChanges: boolean;
+  updatedAt: string;
+  updatedById?: string;
+  publishedAt?: string;
+  publishedById?: string;
+}
+
+/** A published configuration, kept so it can be compared and restored */
+export interface WidgetConfigVersion {
+  id: string;
+  organizationId: string;
+  version: number;
+  config: WidgetConfig;
+  publishedAt: string;
+  publishedById: string;
+  /** Set when the version was published by rolling back to an earlier one */
+  restoredFromVersion?: number;
+}
+
+export interface WidgetConfigChange {
+  field: keyof WidgetConfig;
+  label: string;
+  before: string;
+  after: string;
+}
+
+/** What the widget reads before a visitor starts a chat: the published look and pre-chat fields, no organization details */
+export type PublicWidgetSettings = Pick<WidgetSettings, 'widgetId'> & Pick<WidgetConfig,
+  | 'primaryColor'
+  | 'secondaryColor'
+  | 'highlightColor'
+  | 'position'
+  | 'headerText'
+  | 'subHeaderText'
+  | 'minimizedText'
+  | 'welcomeMessage'
+  | 'autoOpen'
+  | 'anonymous'
+  | 'requiredFields'
+  | 'preChatFields'
+  | 'offlineMessage'
+  | 'offlineLeadCapture'
+> & {
+  /** Whether support is open as the widget loads */
+  availability: BusinessHoursStatus;
+};
+
+/** A chat started from the widget; the token lets the visitor read and write it without signing in */
+export interface WidgetChatSession {
+  chatId: string;
+  visitorToken: string;
+  status: ChatStatus;
+}
+
+/** A message as the visitor sees it */
+export type WidgetMessage = Pick<Message, 'id' | 'senderType' | 'senderName' | 'body' | 'createdAt'>;
+
+export interface WidgetTranscript {
+  chatId: string;
+  status: ChatStatus;
+  messages: WidgetMessage[];
+}
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+/** Opening hours of one day, as `HH:MM` in the schedule's timezone */
+export interface DayHours {
+  isOpen: boolean;
+  start: string;
+  end: string;
+}
+
+/** A date support is closed all day */
+export interface BusinessHoliday {
+  /** `YYYY-MM-DD` */
+  date: string;
+  name: string;
+}
+
+/** A date with other hours than its weekday: shorter, longer, or open on a day that is normally closed */
+export interface BusinessHoursException extends DayHours {
+  /** `YYYY-MM-DD` */
+  date: string;
+  name: string;
+}
+
+/** When support is staffed. One record per organization, keyed by its id */
+export interface BusinessHours {
+  id: string;
+  organizationId: string;
+  /** Without a schedule support counts as always open */
+  enabled: boolean;
+  /** IANA timezone the hours are in, such as Europe/Berlin */
+  timezone: string;
+  weekly: Record<Weekday, DayHours>;
+  holidays: BusinessHoliday[];
+  exceptions: BusinessHoursException[];
+  updatedAt: string;
+}
+
+/** Whether support is open at a given moment, and when it opens next if not */
+export interface BusinessHoursStatus {
+  isOpen: boolean;
+  /** Why, as shown to admins: "Closed for Christmas Day", "Outside opening hours" */
+  reason: string;
+  timezone: string;
+  /** Date and time in the schedule's timezone; missing when nothing opens in the coming weeks */
+  nextOpening?: { date: string; time: string };
+}
+
+export type RoutingStrategy = 'round-robin' | 'least-busy' | 'skills-based' | 'sticky';
+
+export interface RoutingSettings {
+  /** One settings record per organization, keyed by its id */
+  id: string;
+  organizationId: string;
+  /** Assign new chats automatically ("Smart Routing") */
+  enabled: boolean;
+  strategy: RoutingStrategy;
+  defaultMaxConcurrentChats: number;
+  /** Away agents still receive chats when nobody is online */
+  allowAwayAgents: boolean;
+  /** Leave chats started out of hours queued instead of assigning them on arrival */
+  deferOutOfHours: boolean;
+  /** Last agent picked by round-robin, so the rotation survives reloads */
+  lastAssignedAgentId?: string;
+  updatedAt: string;
+}
+
+export interface RoutingDecision {
+  chatId: string;
+  requesterName: string;
+  agentId: string | null;
+  strategy: RoutingStrategy;
+  reason: string;
 }
 
 export interface Domain {
   id: string;
+  organizationId: string;
   domain: string;
   addedById: string;
   addedAt: string;
@@ -0,0 +1,212 @@
+import { FormEvent, KeyboardEvent, useCallback, useEffect, useRef, useState } from "react";
+import { describeNextOpening } from "@/lib/business-hours";
+import { widgetChatStartSchema } from "@/lib/validations";
+import {
+  findMissingWidgetFields,
+  findPreChatError,
+  getRequiredWidgetFields,
+  isWidgetChatOpen,
+  type PreChatValues,
+  WIDGET_USER_FIELD_LABELS,
+} from "@/lib/widget";
+import type { PublicWidgetSettings, WidgetChatSession, WidgetTranscript, WidgetUserField } from "@/types";
+import { WidgetApiError, type WidgetClient } from "./client";
+import { PreChatFields } from "./PreChatFields";
+import { WidgetFrame } from "./WidgetFrame";
+
+// Agents' replies arrive by polling; the widget has no realtime connection
+const POLL_INTERVAL_MS = 3000;
+
+const FIELD_INPUT_TYPES: Record<WidgetUserField, string> = {
+  name: "text",
+  email: "email",
+  phone: "tel",
+};
+
+interface ChatWidgetProps {
+  client: WidgetClient;
+  /** Position the widget within the host element instead of the viewport */
+  contained?: boolean;
+}
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Something went wrong, please try again.";
+
+/** The customer-facing chat: a launcher, the pre-chat form and the conversation */
+export function ChatWidget({ client, contained = false }: ChatWidgetProps) {
+  const [settings, setSettings] = useState<PublicWidgetSettings | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [session, setSession] = useState<WidgetChatSession | null>(() => client.loadSession());
+  const [transcript, setTranscript] = useState<WidgetTranscript | null>(null);
+  const [seenCount, setSeenCount] = useState(0);
+  const [visitor, setVisitor] = useState<Record<WidgetUserField, string>>({ name: "", email: "", phone: "" });
+  const [answers, setAnswers] = useState<PreChatValues>({});
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const bodyRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    client.getConfig()
+      .then(config => {
+        setSettings(config);
+        setIsOpen(config.autoOpen);
+      })
+      .catch(loadError => console.error("Chat widget could not load its settings", loadError));
+  }, [client]);
+
+  const updateSession = useCallback((next: WidgetChatSession | null) => {
+    client.saveSession(next);
+    setSession(next);
+    if (!next) setTranscript(null);
+  }, [client]);
+
+  const refresh = useCallback(async (current: WidgetChatSession) => {
+    try {
+      setTranscript(await client.getTranscript(current));
+    } catch (refreshError) {
+      // The chat is gone or the token no longer matches; start over
+      if (refreshError instanceof WidgetApiError && refreshError.status === 404) updateSession(null);
+    }
+  }, [client, updateSession]);
+
+  useEffect(() => {
+    if (!session) return;
+    void refresh(session);
+    const timer = setInterval(() => void refresh(session), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [session, refresh]);
+
+  const messages = transcript?.messages ?? [];
+  const isEnded = !!transcript && !isWidgetChatOpen(transcript.status);
+
+  // Messages count as read while the panel is open
+  useEffect(() => {
+    if (isOpen) setSeenCount(messages.length);
+  }, [isOpen, messages.length]);
+
+  useEffect(() => {
+    bodyRef.current?.scrollTo({ top: bodyRef.current.scrollHeight });
+  }, [messages.length, isOpen]);
+
+  if (!settings) return null;
+
+  // Out of hours the widget takes a message to answer later, or only says when to come back
+  const isOffline = !settings.availability.isOpen;
+  const nextOpening = describeNextOpening(settings.availability);
+  const offlineMessage = nextOpening
+    ? `${settings.offlineMessage} We're back ${nextOpening} (${settings.availability.timezone}).`
+    : settings.offlineMessage;
+  const requiredFields = getRequiredWidgetFields(settings, isOffline);
+  const unread = messages.slice(seenCount).filter(message => message.senderType !== "customer").length;
+
+  const handleStart = async (event: FormEvent) => {
+    event.preventDefault();
+    const parsed = widgetChatStartSchema.safeParse({ ...visitor, fields: answers, message: draft, pageUrl: window.location.href });
+    const missing = findMissingWidgetFields(settings, visitor, isOffline)[0];
+    const preChatError = findPreChatError(settings.preChatFields, answers);
+    if (missing || preChatError || !parsed.success) {
+      setError(missing ? `${WIDGET_USER_FIELD_LABELS[missing]} is required` : preChatError ?? parsed.error?.issues[0]?.message);
+      return;
+    }
+    setIsSending(true);
+    setError(null);
+    try {
+      updateSession(await client.startChat(parsed.data));
+      setDraft("");
+    } catch (startError) {
+      setError(errorMessage(startError));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSend = async (event?: FormEvent) => {
+    event?.preventDefault();
+    if (!session || !draft.trim()) return;
+    setIsSending(true);
+    setError(null);
+    try {
+      const message = await client.sendMessage(session, draft);
+      setTranscript(previous => previous && { ...previous, messages: [...previous.messages, message] });
+      setDraft("");
+    } catch (sendError) {
+      setError(errorMessage(sendError));
+      if (sendError instanceof WidgetApiError && sendError.code === "CHAT_ENDED") void refresh(session);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleComposerKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === "Enter" && !event.shiftKey) {
+      event.preventDefault();
+      void handleSend();
+    }
+  };
+
+  return (
+    <WidgetFrame
+      settings={isOffline && !session ? { ...settings, welcomeMessage: offlineMessage } : settings}
+      isOpen={isOpen}
+      onOpenChange={setIsOpen}
+      messages={messages}
+      unread={unread}
+      contained={contained}
+      bodyRef={bodyRef}
+    >
+      {!session && isOffline && !settings.offlineLeadCapture ? (
+        <p className="ahw-notice">Chat is not available right now.</p>
+      ) : !session ? (
+        <form className="ahw-form" onSubmit={handleStart}>
+          {requiredFields.map(field => (
+            <label key={field} className="ahw-field">
+              {WIDGET_USER_FIELD_LABELS[field]} *
+              <input
+                className="ahw-input"
+                type={FIELD_INPUT_TYPES[field]}
+                value={visitor[field]}
+                onChange={(event) => setVisitor(previous => ({ ...previous, [field]: event.target.value }))}
+              />
+            </label>
+          ))}
+          <PreChatFields
+            fields={settings.preChatFields}
+            values={answers}
+            onChange={(fieldId, value) => setAnswers(previous => ({ ...previous, [fieldId]: value }))}
+          />
+          <label className="ahw-field">
+            Message *
+            <textarea className="ahw-input" rows={3} value={draft} onChange={(event) => setDraft(event.target.value)} />
+          </label>
+          {error && <p className="ahw-error" role="alert">{error}</p>}
+          <button type="submit" className="ahw-button" disabled={isSending}>
+            {isOffline ? (isSending ? "Sending..." : "Leave a message") : (isSending ? "Starting..." : "Start chat")}
+          </button>
+        </form>
+      ) : isEnded ? (
+        <div className="ahw-notice">
+          <p>This chat has ended.</p>
+          <button type="button" className="ahw-button" onClick={() => updateSession(null)}>Start a new chat</button>
+        </div>
+      ) : (
+        <>
+          {isOffline && <p className="ahw-notice">We're closed right now and will reply by email as soon as we're back.</p>}
+          <form className="ahw-composer" onSubmit={handleSend}>
+            <textarea
+              className="ahw-input"
+              rows={2}
+              placeholder="Type your message..."
+              aria-label="Message"
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              onKeyDown={handleComposerKeyDown}
+            />
+            <button type="submit" className="ahw-button" disabled={isSending || !draft.trim()}>Send</button>
+          </form>
+        </>
+      )}
+      {session && error && <p className="ahw-notice ahw-error" role="alert">{error}</p>}
+    </WidgetFrame>
+  );
+}
@@ -0,0 +1,62 @@
+import type { PreChatValues } from "@/lib/widget";
+import type { PreChatField } from "@/types";
+
+interface PreChatFieldsProps {
+  fields: PreChatField[];
+  values: PreChatValues;
+  onChange?: (fieldId: string, value: string | boolean) => void;
+  /** The design preview shows the fields without taking answers */
+  disabled?: boolean;
+}
+
+/** The organization's custom questions, asked under the name, email and mobile fields */
+export function PreChatFields({ fields, values, onChange, disabled = false }: PreChatFieldsProps) {
+  return (
+    <>
+      {fields.map(field => {
+        const label = `${field.label}${field.required ? " *" : ""}`;
+        const value = values[field.id];
+
+        if (field.type === "checkbox" || field.type === "consent") {
+          return (
+            <label key={field.id} className="ahw-field ahw-check">
+              <input
+                type="checkbox"
+                checked={value === true}
+                disabled={disabled}
+                onChange={(event) => onChange?.(field.id, event.target.checked)}
+              />
+              <span>{label}</span>
+            </label>
+          );
+        }
+
+        return (
+          <label key={field.id} className="ahw-field">
+            {label}
+            {field.type === "select" ? (
+              <select
+                className="ahw-input"
+                value={typeof value === "string" ? value : ""}
+                disabled={disabled}
+                onChange={(event) => onChange?.(field.id, event.target.value)}
+              >
+                <option value="">{field.placeholder || "Choose..."}</option>
+                {field.options?.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+            ) : (
+              <input
+                className="ahw-input"
+                placeholder={field.placeholder}
+                maxLength={field.validation?.maxLength}
+                value={typeof value === "string" ? value : ""}
+                disabled={disabled}
+                onChange={(event) => onChange?.(field.id, event.target.value)}
+              />
+            )}
+          </label>
+        );
+      })}
+    </>
+  );
+}
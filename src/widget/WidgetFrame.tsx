@@ -0,0 +1,83 @@
+import { CSSProperties, ReactNode, RefObject } from "react";
+import type { PublicWidgetSettings, WidgetMessage } from "@/types";
+
+/** What the widget's look depends on; the live widget gets it from the published settings */
+export type WidgetAppearance = Pick<PublicWidgetSettings,
+  | "primaryColor"
+  | "secondaryColor"
+  | "highlightColor"
+  | "position"
+  | "headerText"
+  | "subHeaderText"
+  | "minimizedText"
+  | "welcomeMessage"
+>;
+
+interface WidgetFrameProps {
+  settings: WidgetAppearance;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  messages: WidgetMessage[];
+  unread?: number;
+  /** Position the widget within the host element instead of the viewport */
+  contained?: boolean;
+  bodyRef?: RefObject<HTMLDivElement>;
+  /** Shown under the conversation: the pre-chat form, the composer or a notice */
+  children?: ReactNode;
+}
+
+/** The launcher, and the panel with header, welcome message and conversation */
+export function WidgetFrame({
+  settings,
+  isOpen,
+  onOpenChange,
+  messages,
+  unread = 0,
+  contained = false,
+  bodyRef,
+  children,
+}: WidgetFrameProps) {
+  const rootStyle = {
+    "--ahw-primary": settings.primaryColor,
+    "--ahw-secondary": settings.secondaryColor,
+    "--ahw-highlight": settings.highlightColor,
+  } as CSSProperties;
+
+  return (
+    <div className={`ahw-root ahw-${settings.position}${contained ? " ahw-contained" : ""}`} style={rootStyle}>
+      {!isOpen ? (
+        <button type="button" className="ahw-launcher" onClick={() => onOpenChange(true)}>
+          {settings.minimizedText}
+          {unread > 0 && <span className="ahw-badge" aria-label={`${unread} unread`}>{unread}</span>}
+        </button>
+      ) : (
+        <section className="ahw-panel" aria-label={settings.headerText}>
+          <header className="ahw-header">
+            <div>
+              <h2 className="ahw-title">{settings.headerText}</h2>
+              {settings.subHeaderText && <p className="ahw-subtitle">{settings.subHeaderText}</p>}
+            </div>
+            <button type="button" className="ahw-close" aria-label="Minimize chat" onClick={() => onOpenChange(false)}>
+              ×
+            </button>
+          </header>
+
+          <div className="ahw-body" ref={bodyRef}>
+            {settings.welcomeMessage && <div className="ahw-message ahw-message-team">{settings.welcomeMessage}</div>}
+            {messages.map(message => (
+              <div
+                key={message.id}
+                className={`ahw-message ${message.senderType === "customer" ? "ahw-message-customer" : "ahw-message-team"}`}
+              >
+                {message.senderType !== "customer" && <span className="ahw-sender">{message.senderName}</span>}
+                {message.body}
+              </div>
+            ))}
+          </div>
+
+          {children}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { ReactNode, useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { attachWidgetShadow } from "./mount";
+
+interface WidgetShadowProps {
+  className?: string;
+  children: ReactNode;
+}
+
+/** Renders widget markup inside a shadow root, styled as on customers' sites and untouched by the app's CSS */
+export function WidgetShadow({ className, children }: WidgetShadowProps) {
+  const hostRef = useRef<HTMLDivElement>(null);
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (hostRef.current) setContainer(attachWidgetShadow(hostRef.current));
+  }, []);
+
+  return (
+    <div ref={hostRef} className={className}>
+      {container && createPortal(children, container)}
+    </div>
+  );
+}
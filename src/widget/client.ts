@@ -0,0 +1,90 @@
+/**
+ * Widget API client
+ * The widget runs on customers' sites without a session: it identifies itself
+ * with its public widget id, and once a chat is started the visitor token
+ * stands in for a bearer token. The session is kept in localStorage so a
+ * visitor who reloads the page picks up the same conversation.
+ */
+
+import { VISITOR_TOKEN_HEADER } from '@/lib/widget';
+import type { WidgetChatStartInput } from '@/lib/validations';
+import type { PublicWidgetSettings, WidgetChatSession, WidgetMessage, WidgetTranscript } from '@/types';
+
+/** Performs a request against the API; `fetch` bound to a base URL, or the mock backend inside the admin app */
+export type WidgetTransport = (endpoint: string, init: RequestInit) => Promise<Response>;
+
+export class WidgetApiError extends Error {
+  constructor(message: string, public status: number, public code?: string) {
+    super(message);
+    this.name = 'WidgetApiError';
+  }
+}
+
+export function createFetchTransport(apiUrl: string): WidgetTransport {
+  const base = apiUrl.replace(/\/+$/, '');
+  return (endpoint, init) => fetch(`${base}${endpoint}`, init);
+}
+
+const storageKey = (widgetId: string) => `agent-hub-widget:${widgetId}`;
+
+export class WidgetClient {
+  constructor(public readonly widgetId: string, private transport: WidgetTransport) {}
+
+  private async request<T>(path: string, init: RequestInit = {}, session?: WidgetChatSession): Promise<T> {
+    let response: Response;
+    try {
+      response = await this.transport(`/widget/${encodeURIComponent(this.widgetId)}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(session && { [VISITOR_TOKEN_HEADER]: session.visitorToken }),
+        },
+      });
+    } catch {
+      throw new WidgetApiError('We could not reach the support team. Check your connection and try again.', 0);
+    }
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new WidgetApiError(payload?.message ?? `Request failed (${response.status})`, response.status, payload?.code);
+    }
+    return payload.data as T;
+  }
+
+  getConfig(): Promise<PublicWidgetSettings> {
+    return this.request('/config');
+  }
+
+  startChat(data: WidgetChatStartInput): Promise<WidgetChatSession> {
+    return this.request('/chats', { method: 'POST', body: JSON.stringify(data) });
+  }
+
+  getTranscript(session: WidgetChatSession): Promise<WidgetTranscript> {
+    return this.request(`/chats/${session.chatId}`, {}, session);
+  }
+
+  sendMessage(session: WidgetChatSession, body: string): Promise<WidgetMessage> {
+    return this.request(`/chats/${session.chatId}/messages`, { method: 'POST', body: JSON.stringify({ body }) }, session);
+  }
+
+  loadSession(): WidgetChatSession | null {
+    try {
+      const stored = localStorage.getItem(storageKey(this.widgetId));
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      // Storage can be blocked on the host page; the chat then lasts until reload
+      return null;
+    }
+  }
+
+  saveSession(session: WidgetChatSession | null) {
+    try {
+      if (session) {
+        localStorage.setItem(storageKey(this.widgetId), JSON.stringify(session));
+      } else {
+        localStorage.removeItem(storageKey(this.widgetId));
+      }
+    } catch {
+      // See loadSession()
+    }
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Embeddable chat widget
+ * Entry of the separately built `chat.js` (see vite.widget.config.ts). The
+ * embed snippet loads it with the widget id in `data-widget-id`; it then
+ * mounts itself and talks to the API next to the script unless
+ * `data-api-url` says otherwise. Pages can also mount it themselves through
+ * the `AgentHubWidget.mountChatWidget` global.
+ */
+
+import { mountChatWidget } from './mount';
+
+export { mountChatWidget } from './mount';
+export type { MountChatWidgetOptions, MountedChatWidget } from './mount';
+
+const script = document.currentScript as HTMLScriptElement | null;
+const widgetId = script?.dataset.widgetId;
+
+if (script && widgetId) {
+  const apiUrl = script.dataset.apiUrl ?? new URL('/api', script.src).href;
+  const mount = () => mountChatWidget(document.body, { widgetId, apiUrl });
+  if (document.body) {
+    mount();
+  } else {
+    document.addEventListener('DOMContentLoaded', mount, { once: true });
+  }
+}
@@ -0,0 +1,49 @@
+import { createRoot } from "react-dom/client";
+import { ChatWidget } from "./ChatWidget";
+import { createFetchTransport, WidgetClient, type WidgetTransport } from "./client";
+import { WIDGET_STYLES } from "./styles";
+
+export interface MountChatWidgetOptions {
+  widgetId: string;
+  /** Base URL of the API; used unless a transport is given */
+  apiUrl?: string;
+  transport?: WidgetTransport;
+  /** Position the widget within the target element instead of the viewport; the target must be positioned */
+  contained?: boolean;
+}
+
+export interface MountedChatWidget {
+  unmount(): void;
+}
+
+/** Gives `host` a shadow root holding the widget stylesheet and returns the element to render into */
+export function attachWidgetShadow(host: HTMLElement): HTMLDivElement {
+  const shadow = host.shadowRoot ?? host.attachShadow({ mode: "open" });
+  const style = document.createElement("style");
+  style.textContent = WIDGET_STYLES;
+  const container = document.createElement("div");
+  shadow.replaceChildren(style, container);
+  return container;
+}
+
+/**
+ * Renders the widget into a shadow root appended to `target`, so the host
+ * page's CSS and the widget's cannot affect each other.
+ */
+export function mountChatWidget(target: HTMLElement, options: MountChatWidgetOptions): MountedChatWidget {
+  const transport = options.transport ?? createFetchTransport(options.apiUrl ?? "/api");
+  const host = document.createElement("div");
+  host.setAttribute("data-agent-hub-widget", options.widgetId);
+  const container = attachWidgetShadow(host);
+  target.appendChild(host);
+
+  const root = createRoot(container);
+  root.render(<ChatWidget client={new WidgetClient(options.widgetId, transport)} contained={options.contained} />);
+
+  return {
+    unmount() {
+      root.unmount();
+      host.remove();
+    },
+  };
+}
@@ -0,0 +1,244 @@
+/**
+ * Widget stylesheet, injected into the widget's shadow root. The host page's
+ * styles cannot reach inside and these cannot leak out, so plain class names
+ * are safe. Colors come from the settings as custom properties.
+ */
+export const WIDGET_STYLES = `
+:host {
+  all: initial;
+}
+
+.ahw-root {
+  --ahw-primary: #0052CC;
+  --ahw-secondary: #17A2B8;
+  --ahw-highlight: #FFC107;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+  font-size: 14px;
+  line-height: 1.4;
+  color: #1f2933;
+}
+
+.ahw-root *,
+.ahw-root *::before,
+.ahw-root *::after {
+  box-sizing: border-box;
+}
+
+.ahw-launcher,
+.ahw-panel {
+  position: fixed;
+  z-index: 2147483000;
+  bottom: 20px;
+}
+
+.ahw-contained .ahw-launcher,
+.ahw-contained .ahw-panel {
+  position: absolute;
+}
+
+.ahw-bottom-right .ahw-launcher,
+.ahw-bottom-right .ahw-panel {
+  right: 20px;
+}
+
+.ahw-bottom-left .ahw-launcher,
+.ahw-bottom-left .ahw-panel {
+  left: 20px;
+}
+
+.ahw-launcher {
+  display: inline-flex;
+  align-items: center;
+  gap: 8px;
+  padding: 12px 18px;
+  border: none;
+  border-radius: 999px;
+  background: var(--ahw-primary);
+  color: #fff;
+  font: inherit;
+  font-weight: 600;
+  cursor: pointer;
+  box-shadow: 0 6px 20px rgba(0, 0, 0, 0.2);
+}
+
+.ahw-badge {
+  min-width: 20px;
+  padding: 0 6px;
+  border-radius: 999px;
+  background: var(--ahw-highlight);
+  color: #1f2933;
+  font-size: 12px;
+  text-align: center;
+}
+
+.ahw-panel {
+  display: flex;
+  flex-direction: column;
+  width: min(360px, calc(100vw - 40px));
+  height: min(560px, calc(100vh - 40px));
+  overflow: hidden;
+  border-radius: 12px;
+  background: #fff;
+  box-shadow: 0 12px 40px rgba(0, 0, 0, 0.25);
+}
+
+.ahw-contained .ahw-panel {
+  width: min(360px, calc(100% - 40px));
+  height: min(560px, calc(100% - 40px));
+}
+
+.ahw-header {
+  display: flex;
+  align-items: flex-start;
+  justify-content: space-between;
+  gap: 8px;
+  padding: 16px;
+  background: var(--ahw-primary);
+  color: #fff;
+}
+
+.ahw-title {
+  margin: 0;
+  font-size: 16px;
+  font-weight: 600;
+}
+
+.ahw-subtitle {
+  margin: 2px 0 0;
+  font-size: 13px;
+  opacity: 0.85;
+}
+
+.ahw-close {
+  border: none;
+  background: transparent;
+  color: inherit;
+  font-size: 20px;
+  line-height: 1;
+  cursor: pointer;
+}
+
+.ahw-body {
+  flex: 1;
+  overflow-y: auto;
+  padding: 16px;
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  background: #f7f9fb;
+}
+
+.ahw-message {
+  max-width: 80%;
+  padding: 8px 12px;
+  border-radius: 12px;
+  white-space: pre-wrap;
+  word-wrap: break-word;
+}
+
+.ahw-message-team {
+  align-self: flex-start;
+  background: #fff;
+  border-left: 3px solid var(--ahw-secondary);
+}
+
+.ahw-message-customer {
+  align-self: flex-end;
+  background: var(--ahw-primary);
+  color: #fff;
+}
+
+.ahw-sender {
+  display: block;
+  margin-bottom: 2px;
+  font-size: 12px;
+  font-weight: 600;
+  color: #52606d;
+}
+
+.ahw-form {
+  display: flex;
+  flex-direction: column;
+  gap: 10px;
+  max-height: 70%;
+  overflow-y: auto;
+  padding: 16px;
+  border-top: 1px solid #e4e7eb;
+}
+
+.ahw-field {
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+  font-size: 13px;
+}
+
+.ahw-check {
+  flex-direction: row;
+  align-items: flex-start;
+  gap: 8px;
+}
+
+.ahw-check input {
+  margin: 2px 0 0;
+  accent-color: var(--ahw-primary);
+}
+
+.ahw-input {
+  width: 100%;
+  padding: 8px 10px;
+  border: 1px solid #cbd2d9;
+  border-radius: 8px;
+  font: inherit;
+  color: inherit;
+  background: #fff;
+  resize: none;
+}
+
+.ahw-input:focus {
+  outline: 2px solid var(--ahw-highlight);
+  outline-offset: 1px;
+}
+
+.ahw-composer {
+  display: flex;
+  gap: 8px;
+  padding: 12px;
+  border-top: 1px solid #e4e7eb;
+}
+
+.ahw-button {
+  padding: 8px 14px;
+  border: none;
+  border-radius: 8px;
+  background: var(--ahw-primary);
+  color: #fff;
+  font: inherit;
+  font-weight: 600;
+  cursor: pointer;
+}
+
+.ahw-button:disabled {
+  opacity: 0.6;
+  cursor: default;
+}
+
+.ahw-error {
+  margin: 0;
+  color: #c81e1e;
+  font-size: 13px;
+}
+
+.ahw-notice {
+  margin: 0;
+  padding: 12px 16px;
+  border-top: 1px solid #e4e7eb;
+  color: #52606d;
+  font-size: 13px;
+  text-align: center;
+}
+
+.ahw-notice p {
+  margin: 0 0 8px;
+}
+`;
@@ -0,0 +1,29 @@
+import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react-swc";
+import path from "path";
+
+// Builds the embeddable chat widget as a single script, dist/widget/chat.js,
+// separately from the admin app. Run after the app build, which empties dist.
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  // React reads process.env.NODE_ENV, which library builds leave in place
+  define: {
+    "process.env.NODE_ENV": JSON.stringify("production"),
+  },
+  publicDir: false,
+  build: {
+    outDir: "dist/widget",
+    emptyOutDir: true,
+    lib: {
+      entry: path.resolve(__dirname, "src/widget/index.ts"),
+      name: "AgentHubWidget",
+      formats: ["iife"],
+      fileName: () => "chat.js",
+    },
+  },
+});